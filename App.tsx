@@ -1,138 +1,333 @@
-import React, { useEffect, useState, useMemo } from 'react';
-import { RateType, RateData, RateDataset, ChartDataPoint, Language } from './types';
-import { fetchRateDataset } from './services/customsApi';
+import React, { useCallback, useEffect, useState, useMemo } from 'react';
+import { RateType, RateData, RateArchiveManifest, RateDataset, RateDateRange, RateWeek, ChartDataPoint, DashboardView, Language, ReferenceRate } from './types';
+import { fetchArchiveManifest, fetchRateDataset, fetchReferenceRates, fetchWeek } from './services/customsApi';
+import { addDays, formatDateForDisplay, getLatestPublishedSunday } from './utils/dateUtils';
+import { readUrlState, writeUrlState } from './utils/urlState';
+import { readStorage, writeStorage, isStringArray } from './utils/storage';
+import { addMovingAverages, buildChartData, indexChartData, CHART_COLORS, MOVING_AVERAGE_COLORS, REFERENCE_COLOR } from './utils/chartUtils';
+import { computeRateStats, movingAverageKey, MOVING_AVERAGE_WINDOWS } from './utils/rateStats';
+import { addReferenceRates, referenceGapKey, referenceKey } from './utils/referenceUtils';
+import { findQuoteUnit, getCurrencyName, getRateQuoteUnit } from './utils/currencyUtils';
+import { onServiceWorkerMessage } from './utils/serviceWorker';
+import { detectLanguage, fillTemplate, getLocale, getMessages, rememberLanguage } from './i18n';
 import Header from './components/Header';
 import StatCard from './components/StatCard';
 import RateChart from './components/RateChart';
 import RateTable from './components/RateTable';
-import { Info } from 'lucide-react';
-
-// Translation Dictionary
-const TRANSLATIONS = {
-
-
-
-
-  KO: {
-    header: { title: "관세청고시 과세환율", import: "수입", export: "수출", bankRate: "은행환율보기" },
-    table: {
-      title: "환율목록",
-      searchPlaceholder: "통화 검색...",
-      country: "국가/코드",
-      currency: "통화명",
-      rate: "환율 (KRW)",
-      date: "적용일자",
-      noData: "데이터가 없습니다."
-    },
-    chart: {
-      titleUsd: "주간 환율 추이 (미국 달러)",
-      titleEur: "주간 환율 추이 (유로)",
-      titleCny: "주간 환율 추이 (중국 위안)",
-      titleJpy: "주간 환율 추이 (일본 엔)"
-    },
-    card: { vsLastWeek: "전주 대비" },
-    footer: "아비트라",
-    footerLink: "https://www.abitra.co",
-    info: {
-      text: "데이터는 매주 금요일 19시에 GitHub Actions로 생성된 JSON 스냅샷을 사용합니다.",
-      periodPrefix: "현재 적용기간: ",
-      updatedPrefix: "마지막 업데이트: ",
-      note: ""
-    }
-  },
-  EN: {
-    header: { title: 'Korea Customs FX Rate', import: 'Import', export: 'Export', bankRate: 'View Bank Rate' },
-    table: {
-      title: 'Exchange Rates List',
-      searchPlaceholder: 'Search currency...',
-      country: 'Country/Code',
-      currency: 'Currency',
-      rate: 'Rate (KRW)',
-      date: 'Apply Date',
-      noData: 'No data found.'
-    },
-    chart: {
-      titleUsd: 'Weekly Trend (USD)',
-      titleEur: 'Weekly Trend (EUR)',
-      titleCny: 'Weekly Trend (CNY)',
-      titleJpy: 'Weekly Trend (JPY)'
-    },
-    card: { vsLastWeek: 'vs last week' },
-    footer: 'Korea Customs Rate Dashboard. Data provided by Korea Customs Service.',
-    footerLink: 'https://www.abitra.co',
-    info: {
-      text: 'Data is refreshed weekly from the Korea Customs Service and served from a static JSON snapshot.',
-      periodPrefix: 'Current Period: ',
-      updatedPrefix: 'Last updated: ',
-      note: ''
-    }
-  }
-};
+import CurrencyConverter from './components/CurrencyConverter';
+import WeekSelector from './components/WeekSelector';
+import CurrencyPicker from './components/CurrencyPicker';
+import ExportMenu from './components/ExportMenu';
+import SideComparison from './components/SideComparison';
+import CrossRates from './components/CrossRates';
+import BatchConverter from './components/BatchConverter';
+import DataNotice from './components/DataNotice';
+import RateStatsPanel, { RateStatsRangeSelector, StatsRange } from './components/RateStatsPanel';
+import { CalendarCheck, Info } from 'lucide-react';
+
+const PINNED_CURRENCIES_KEY = 'customs-rate:pinned-currencies';
+const COMPARE_MODE_KEY = 'customs-rate:compare-mode';
+const FAVOURITE_CURRENCIES_KEY = 'customs-rate:favourite-currencies';
+const DEFAULT_PINNED_CURRENCIES = ['USD', 'EUR', 'CNY', 'JPY'];
+
+const initialUrlState = readUrlState();
 
 const App: React.FC = () => {
-  const [language, setLanguage] = useState<Language>('KO');
-  const [activeType, setActiveType] = useState<RateType>(RateType.IMPORT);
+  const [language, setLanguage] = useState<Language>(() => initialUrlState.language ?? detectLanguage());
+  const [activeType, setActiveType] = useState<RateType>(initialUrlState.type);
+  const [view, setView] = useState<DashboardView>(initialUrlState.view);
+  const [comparisonCurrency, setComparisonCurrency] = useState<string>(DEFAULT_PINNED_CURRENCIES[0]);
+  const [selectedWeek, setSelectedWeek] = useState<string | null>(initialUrlState.week);
   const [dataset, setDataset] = useState<RateDataset | null>(null);
+  const [archivedWeeks, setArchivedWeeks] = useState<RateWeek[]>([]);
+  const [archivedWeekError, setArchivedWeekError] = useState<'missing' | 'failed' | null>(null);
+  const [archivedWeekAttempt, setArchivedWeekAttempt] = useState(0);
+  const [archiveManifest, setArchiveManifest] = useState<RateArchiveManifest | null>(null);
+  const [historyWeeks, setHistoryWeeks] = useState<RateWeek[]>([]);
+  const [historyFrom, setHistoryFrom] = useState<string | null>(null);
+  const [archiveUnavailable, setArchiveUnavailable] = useState(false);
+  const [archiveAttempt, setArchiveAttempt] = useState(0);
+  const [referenceRates, setReferenceRates] = useState<ReferenceRate[]>([]);
   const [allData, setAllData] = useState<RateData[]>([]);
   const [currentWeekData, setCurrentWeekData] = useState<RateData[]>([]);
   const [prevWeekData, setPrevWeekData] = useState<RateData[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [servedFromCache, setServedFromCache] = useState(false);
+  const [pendingUpdate, setPendingUpdate] = useState<{ latestWeek: string | null; generatedAt: string | null } | null>(null);
+  const [pinnedCurrencies, setPinnedCurrencies] = useState<string[]>(() =>
+    readStorage(PINNED_CURRENCIES_KEY, DEFAULT_PINNED_CURRENCIES, isStringArray)
+  );
+  const [favouriteCurrencies, setFavouriteCurrencies] = useState<string[]>(() =>
+    readStorage(FAVOURITE_CURRENCIES_KEY, [], isStringArray)
+  );
+  const [statsRange, setStatsRange] = useState<StatsRange>(12);
+  const [compareMode, setCompareMode] = useState<boolean>(() =>
+    readStorage(COMPARE_MODE_KEY, false, (value): value is boolean => typeof value === 'boolean')
+  );
 
-  const t = TRANSLATIONS[language] as any;
+  const t = getMessages(language);
+  const locale = getLocale(language);
 
   useEffect(() => {
-    const fetchInitialData = async () => {
-      setLoading(true);
-      try {
-        const data = await fetchRateDataset();
-        const orderedWeeks = [...data.weeks].sort((a, b) =>
-          new Date(b.startDate).getTime() - new Date(a.startDate).getTime()
-        );
-        setDataset({ ...data, weeks: orderedWeeks });
-      } catch (error) {
-        console.error("Error fetching initial data:", error);
-      } finally {
-        setLoading(false);
-      }
-    };
-    fetchInitialData();
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const handleLanguageChange = (next: Language) => {
+    setLanguage(next);
+    rememberLanguage(next);
+  };
+
+  // A silent reload keeps the current view on screen while the refreshed snapshot loads.
+  const loadDataset = useCallback(async (silent = false) => {
+    if (!silent) setLoading(true);
+    try {
+      const data = await fetchRateDataset();
+      const orderedWeeks = [...data.weeks].sort((a, b) =>
+        new Date(b.startDate).getTime() - new Date(a.startDate).getTime()
+      );
+      setDataset({ ...data, weeks: orderedWeeks });
+      setLoadError(false);
+    } catch (error) {
+      console.error("Error fetching rate dataset:", error);
+      setLoadError(true);
+    } finally {
+      if (!silent) setLoading(false);
+    }
   }, []);
 
+  useEffect(() => {
+    loadDataset();
+  }, [loadDataset]);
+
+  // Reference rates are optional: without the file the charts simply show customs rates alone.
+  useEffect(() => {
+    if (!dataset) return;
+    fetchReferenceRates()
+      .then((reference) => setReferenceRates(reference?.rates ?? []))
+      .catch((error) => console.warn("Reference rates unavailable:", error));
+  }, [dataset]);
+
+  // The manifest tells the range selector how many archived weeks exist and where "all" starts.
   useEffect(() => {
     if (!dataset) return;
+    fetchArchiveManifest()
+      .then(setArchiveManifest)
+      .catch(() => setArchiveUnavailable(true));
+  }, [dataset, archiveAttempt]);
+
+  // The snapshot only keeps the latest weeks; the archive supplies the longer chart ranges and moving averages.
+  // Only the selected range, plus enough weeks before it for the longest moving average, is fetched;
+  // picking a longer range fetches the missing weeks and a shorter one reuses what is loaded.
+  const latestWeek = dataset?.weeks[0]?.startDate;
+  const historyStart = useMemo(() => {
+    if (!latestWeek) return null;
+    if (statsRange) return addDays(latestWeek, -(statsRange + Math.max(...MOVING_AVERAGE_WINDOWS)) * 7);
+    return archiveManifest?.files.map((file) => file.from).sort()[0] ?? null;
+  }, [latestWeek, statsRange, archiveManifest]);
+
+  useEffect(() => {
+    if (!latestWeek || !historyStart) return;
+    if (historyFrom && historyFrom <= historyStart) return;
+
+    let cancelled = false;
+    fetchRateDataset({ from: historyStart, to: addDays(latestWeek, 6) })
+      .then((history) => {
+        if (cancelled) return;
+        setHistoryWeeks(history.weeks);
+        setHistoryFrom(historyStart);
+        setArchiveUnavailable(false);
+      })
+      .catch(() => {
+        if (!cancelled) setArchiveUnavailable(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [latestWeek, historyStart, historyFrom, archiveAttempt]);
+
+  const retryArchive = () => {
+    setArchiveUnavailable(false);
+    setArchiveAttempt((attempt) => attempt + 1);
+  };
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      setServedFromCache(false);
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    const unsubscribe = onServiceWorkerMessage((message) => {
+      if (message.type === 'rates-offline') setServedFromCache(true);
+      else setPendingUpdate({ latestWeek: message.latestWeek, generatedAt: message.generatedAt });
+    });
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      unsubscribe();
+    };
+  }, []);
+
+  // The service worker answers from its cache first and reports when the network copy differs.
+  // A regenerated snapshot for the same week is swapped in quietly; a new week waits for the reader.
+  useEffect(() => {
+    if (!dataset || !pendingUpdate) return;
+    if (pendingUpdate.generatedAt === dataset.generatedAt) {
+      setPendingUpdate(null);
+    } else if (pendingUpdate.latestWeek === dataset.weeks[0]?.startDate) {
+      setPendingUpdate(null);
+      loadDataset(true);
+    }
+  }, [dataset, pendingUpdate, loadDataset]);
+
+  const newWeekAvailable = pendingUpdate && dataset && pendingUpdate.latestWeek !== dataset.weeks[0]?.startDate
+    ? pendingUpdate.latestWeek
+    : null;
+
+  const handleRefresh = () => {
+    setPendingUpdate(null);
+    loadDataset();
+  };
+
+  useEffect(() => {
+    writeStorage(PINNED_CURRENCIES_KEY, pinnedCurrencies);
+  }, [pinnedCurrencies]);
+
+  useEffect(() => {
+    writeStorage(COMPARE_MODE_KEY, compareMode);
+  }, [compareMode]);
+
+  useEffect(() => {
+    writeStorage(FAVOURITE_CURRENCIES_KEY, favouriteCurrencies);
+  }, [favouriteCurrencies]);
+
+  useEffect(() => {
+    writeUrlState({ week: selectedWeek, type: activeType, view, language });
+  }, [selectedWeek, activeType, view, language]);
+
+  // Weeks older than the rolling snapshot are loaded from the static API together with the week before them.
+  useEffect(() => {
+    setArchivedWeekError(null);
+    if (!dataset || !selectedWeek) return;
+    if (dataset.weeks.some((week) => week.startDate === selectedWeek)) return;
 
+    let cancelled = false;
+    Promise.all([fetchWeek(selectedWeek), fetchWeek(addDays(selectedWeek, -7))])
+      .then(([week, previous]) => {
+        if (cancelled) return;
+        if (!week) setArchivedWeekError('missing');
+        setArchivedWeeks([week, previous].filter((loaded): loaded is RateWeek => loaded !== null));
+      })
+      .catch(() => {
+        if (!cancelled) setArchivedWeekError('failed');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [dataset, selectedWeek, archivedWeekAttempt]);
+
+  const weeks = useMemo<RateWeek[]>(() => {
+    if (!dataset) return [];
+    const byDate = new Map<string, RateWeek>();
+    archivedWeeks.forEach((week) => byDate.set(week.startDate, week));
+    dataset.weeks.forEach((week) => byDate.set(week.startDate, week));
+    return Array.from(byDate.values()).sort((a, b) => b.startDate.localeCompare(a.startDate));
+  }, [dataset, archivedWeeks]);
+
+  const selectedIndex = useMemo(() => {
+    if (!selectedWeek) return 0;
+    return weeks.findIndex((week) => week.startDate === selectedWeek);
+  }, [weeks, selectedWeek]);
+
+  const selectedWeekData = selectedIndex >= 0 ? weeks[selectedIndex] : undefined;
+
+  useEffect(() => {
     const key = activeType === RateType.EXPORT ? 'export' : 'import';
-    const weeks = dataset.weeks;
 
     setAllData(weeks.flatMap((week) => week[key]));
-    setCurrentWeekData(weeks[0]?.[key] || []);
-    setPrevWeekData(weeks[1]?.[key] || []);
-  }, [dataset, activeType]);
-
-  const chartData = useMemo<ChartDataPoint[]>(() => {
-    const dataByDate = new Map<string, ChartDataPoint>();
-    allData.forEach(item => {
-      if (!dataByDate.has(item.date)) {
-        dataByDate.set(item.date, { date: item.date });
-      }
-      const point = dataByDate.get(item.date)!;
-      if (['USD', 'JPY', 'EUR', 'CNY'].includes(item.currencyCode)) {
-        point[item.currencyCode] = item.rate;
-      }
-    });
-    return Array.from(dataByDate.values()).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-  }, [allData]);
+    setCurrentWeekData(selectedWeekData?.[key] || []);
+    setPrevWeekData(selectedIndex >= 0 ? weeks[selectedIndex + 1]?.[key] || [] : []);
+  }, [weeks, selectedWeekData, selectedIndex, activeType]);
+
+  // Charts and statistics run over the archive history as well as the loaded weeks.
+  const historyData = useMemo<RateData[]>(() => {
+    const key = activeType === RateType.EXPORT ? 'export' : 'import';
+    const byDate = new Map<string, RateWeek>();
+    historyWeeks.forEach((week) => byDate.set(week.startDate, week));
+    weeks.forEach((week) => byDate.set(week.startDate, week));
+    return Array.from(byDate.values()).flatMap((week) => week[key]);
+  }, [historyWeeks, weeks, activeType]);
+
+  const chartData = useMemo<ChartDataPoint[]>(() => buildChartData(historyData), [historyData]);
+
+  const availableCurrencies = useMemo(
+    () => Array.from(new Set(allData.map((item) => item.currencyCode))).sort(),
+    [allData]
+  );
 
-  const getRate = (data: RateData[], code: string) => data.find(d => d.currencyCode === code)?.rate || 0;
+  // The last `statsRange` weeks of the chart (all of them for 0); statistics cover the same weeks.
+  const chartRange = useMemo<RateDateRange | undefined>(() => {
+    const ranged = statsRange ? chartData.slice(-statsRange) : chartData;
+    return ranged.length ? { from: ranged[0].date, to: ranged[ranged.length - 1].date } : undefined;
+  }, [chartData, statsRange]);
+
+  const inChartRange = useCallback(
+    (point: ChartDataPoint) => !chartRange || (point.date >= chartRange.from && point.date <= chartRange.to),
+    [chartRange]
+  );
+
+  const comparisonData = useMemo(
+    () => (compareMode ? indexChartData(chartData.filter(inChartRange), pinnedCurrencies) : []),
+    [compareMode, chartData, inChartRange, pinnedCurrencies]
+  );
+
+  // Moving averages are computed over the full history so they are defined from the first week of the range.
+  // A window is only drawn once it has at least two points in the range; a lone point has no visible line.
+  const trendData = useMemo(
+    () =>
+      new Map(
+        (compareMode ? [] : pinnedCurrencies).map((code) => {
+          const data = addReferenceRates(
+            addMovingAverages(chartData, code, MOVING_AVERAGE_WINDOWS),
+            code,
+            referenceRates,
+            findQuoteUnit(historyData, code)
+          ).filter(inChartRange);
+          const windows = MOVING_AVERAGE_WINDOWS.filter(
+            (window) => data.filter((point) => typeof point[movingAverageKey(code, window)] === 'number').length > 1
+          );
+          return [code, { data, windows, stats: computeRateStats(historyData, code, chartRange) }];
+        })
+      ),
+    [compareMode, pinnedCurrencies, chartData, historyData, chartRange, inChartRange, referenceRates]
+  );
+
+  const chartColor = (code: string) => CHART_COLORS[pinnedCurrencies.indexOf(code) % CHART_COLORS.length];
+
+  const getCurrencyLabel = (code: string) => {
+    const name = getCurrencyName(code, locale, currentWeekData.find(d => d.currencyCode === code)?.currencyName);
+    const unit = findQuoteUnit(currentWeekData, code);
+    return unit > 1 ? `${name} (${unit})` : name;
+  };
+
+  const getRate = (data: RateData[], code: string) => {
+    const item = data.find(d => d.currencyCode === code);
+    return item === undefined ? undefined : item.rate * getRateQuoteUnit(item);
+  };
 
   const currentPeriod = useMemo(() => {
-    if (!currentWeekData.length) return '';
-    const startDate = new Date(currentWeekData[0].date);
-    const endDate = new Date(startDate);
-    endDate.setDate(startDate.getDate() + 6);
-    const toDateString = (date: Date) => date.toISOString().split('T')[0];
-    return `${toDateString(startDate)} ~ ${toDateString(endDate)}`;
-  }, [currentWeekData]);
+    if (!selectedWeekData) return selectedWeek ? `${selectedWeek} ~ ${addDays(selectedWeek, 6)}` : '';
+    return `${selectedWeekData.startDate} ~ ${addDays(selectedWeekData.startDate, 6)}`;
+  }, [selectedWeekData, selectedWeek]);
+
+  const activeSide = activeType === RateType.EXPORT ? 'export' : 'import';
+
+  const isLatestWeek = !selectedWeek || selectedWeek === dataset?.weeks[0]?.startDate;
 
   const lastUpdated = useMemo(() => {
     if (!dataset?.generatedAt) return '';
@@ -140,58 +335,249 @@ const App: React.FC = () => {
     return isNaN(updatedDate.getTime()) ? '' : updatedDate.toISOString().split('T')[0];
   }, [dataset]);
 
+  // The snapshot is stale once a newer week has been published in KST (next week's from Friday 17:00).
+  const expectedLatestWeek = formatDateForDisplay(getLatestPublishedSunday());
+  const newestWeek = dataset?.weeks[0]?.startDate;
+  const isStale = !!newestWeek && newestWeek < expectedLatestWeek;
+
+  const hasWeeks = !!dataset && dataset.weeks.length > 0;
+
+  // Longer ranges stay selectable before their weeks are loaded; choosing one fetches them.
+  const archivedWeekCount = archiveManifest?.files.reduce((total, file) => total + file.weekCount, 0) ?? 0;
+
+  const offlineSince = useMemo(() => {
+    if (!dataset?.generatedAt) return '';
+    const updatedDate = new Date(dataset.generatedAt);
+    return isNaN(updatedDate.getTime()) ? dataset.generatedAt : updatedDate.toLocaleString(locale);
+  }, [dataset, locale]);
+
   return (
     <div className="min-h-screen bg-gray-100 flex flex-col font-sans">
       <Header
         activeType={activeType}
-        onTypeChange={setActiveType}
+        onTypeChange={(type) => {
+          setActiveType(type);
+          setView('rates');
+        }}
+        view={view}
+        onViewChange={setView}
         language={language}
-        onLanguageChange={setLanguage}
+        onLanguageChange={handleLanguageChange}
         labels={t.header}
       />
 
       <main className="flex-grow max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-8">
 
-        <div className="bg-blue-50 border-l-4 border-blue-400 p-4 mb-8 rounded-r-md">
-          <div className="flex">
-            <div className="flex-shrink-0">
-              <Info className="h-5 w-5 text-blue-400" aria-hidden="true" />
+        {loadError && (
+          <DataNotice
+            kind="error"
+            message={t.status.loadError}
+            detail={t.status.loadErrorDetail}
+            action={{ label: t.status.retry, onClick: () => loadDataset(!!dataset) }}
+          />
+        )}
+
+        {!loading && dataset && !hasWeeks && (
+          <DataNotice kind="empty" message={t.status.empty} detail={t.status.emptyDetail} />
+        )}
+
+        {isStale && (
+          <DataNotice
+            kind="stale"
+            message={t.status.stale}
+            detail={fillTemplate(t.status.staleDetail, { expected: expectedLatestWeek, latest: newestWeek ?? '' })}
+          />
+        )}
+
+        {(!isOnline || servedFromCache) && dataset && (
+          <DataNotice kind="offline" message={fillTemplate(t.status.offline, { generatedAt: offlineSince })} />
+        )}
+
+        {archivedWeekError && selectedWeek && (
+          <DataNotice
+            kind={archivedWeekError === 'failed' ? 'error' : 'empty'}
+            message={fillTemplate(archivedWeekError === 'failed' ? t.status.weekLoadError : t.status.weekMissing, { week: selectedWeek })}
+            action={
+              archivedWeekError === 'failed'
+                ? { label: t.status.retry, onClick: () => setArchivedWeekAttempt((attempt) => attempt + 1) }
+                : { label: t.status.latestWeek, onClick: () => setSelectedWeek(null), icon: CalendarCheck }
+            }
+          />
+        )}
+
+        {archiveUnavailable && hasWeeks && (
+          <DataNotice
+            kind="stale"
+            message={t.status.archiveUnavailable}
+            detail={t.status.archiveUnavailableDetail}
+            action={{ label: t.status.retry, onClick: retryArchive }}
+          />
+        )}
+
+        {newWeekAvailable && (
+          <DataNotice
+            kind="update"
+            message={fillTemplate(t.status.newWeek, { week: newWeekAvailable })}
+            action={{ label: t.status.refresh, onClick: handleRefresh }}
+          />
+        )}
+
+        {(loading || hasWeeks) && (
+          <>
+            <div className="mb-6">
+              <WeekSelector
+                weeks={weeks.map((week) => week.startDate)}
+                value={selectedWeekData?.startDate || selectedWeek || ''}
+                onChange={setSelectedWeek}
+                labels={t.weekSelector}
+              />
             </div>
-            <div className="ml-3">
-              <p className="text-sm text-blue-700">
-                {t.info.text}
-              </p>
-              <p className="text-sm text-blue-700 font-medium mt-1">
-                {t.info.periodPrefix} {currentPeriod}
-              </p>
-              {lastUpdated && t.info.updatedPrefix && (
-                <p className="text-xs text-blue-600 mt-1">
-                  {t.info.updatedPrefix} {lastUpdated}
-                </p>
-              )}
+
+            <div className="bg-blue-50 border-l-4 border-blue-400 p-4 mb-8 rounded-r-md">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <Info className="h-5 w-5 text-blue-400" aria-hidden="true" />
+                </div>
+                <div className="ml-3">
+                  <p className="text-sm text-blue-700">
+                    {t.info.text}
+                  </p>
+                  <p className="text-sm text-blue-700 font-medium mt-1">
+                    {isLatestWeek ? t.info.periodPrefix : t.info.selectedPeriodPrefix} {currentPeriod}
+                  </p>
+                  {lastUpdated && t.info.updatedPrefix && (
+                    <p className="text-xs text-blue-600 mt-1">
+                      {t.info.updatedPrefix} {lastUpdated}
+                    </p>
+                  )}
+                </div>
+              </div>
             </div>
-          </div>
-        </div>
 
-        <div className="grid grid-cols-1 gap-6 mb-8 sm:grid-cols-2 lg:grid-cols-4">
-          <StatCard currency="미국 달러" code="USD" rate={getRate(currentWeekData, 'USD')} prevRate={getRate(prevWeekData, 'USD')} label={t.card.vsLastWeek} />
-          <StatCard currency="유로" code="EUR" rate={getRate(currentWeekData, 'EUR')} prevRate={getRate(prevWeekData, 'EUR')} label={t.card.vsLastWeek} />
-          <StatCard currency="중국 위안" code="CNY" rate={getRate(currentWeekData, 'CNY')} prevRate={getRate(prevWeekData, 'CNY')} label={t.card.vsLastWeek} />
-          <StatCard currency="일본 엔 (100)" code="JPY" rate={getRate(currentWeekData, 'JPY')} prevRate={getRate(prevWeekData, 'JPY')} label={t.card.vsLastWeek} />
-        </div>
+            {view === 'compare' ? (
+              <SideComparison
+                weeks={weeks}
+                week={selectedWeekData}
+                currency={comparisonCurrency}
+                onCurrencyChange={setComparisonCurrency}
+                locale={locale}
+                isLoading={loading}
+                labels={t.comparison}
+              />
+            ) : view === 'cross' ? (
+              <CrossRates
+                weeks={weeks}
+                week={selectedWeekData}
+                side={activeSide}
+                onSideChange={(side) => setActiveType(side === 'export' ? RateType.EXPORT : RateType.IMPORT)}
+                currencies={pinnedCurrencies}
+                locale={locale}
+                isLoading={loading}
+                labels={t.cross}
+              />
+            ) : view === 'batch' ? (
+              <BatchConverter dataset={dataset} defaultSide={activeSide} locale={locale} labels={t.batch} />
+            ) : (
+              <>
+                <CurrencyPicker
+                  available={availableCurrencies}
+                  selected={pinnedCurrencies}
+                  onChange={setPinnedCurrencies}
+                  compareMode={compareMode}
+                  onCompareModeChange={setCompareMode}
+                  labels={t.currencyPicker}
+                />
 
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-          <div className="lg:col-span-2 flex flex-col gap-6">
-            <RateChart data={chartData} isLoading={loading} title={t.chart.titleUsd} currencies={[{ key: 'USD', color: '#ef4444' }]} />
-            <RateChart data={chartData} isLoading={loading} title={t.chart.titleEur} currencies={[{ key: 'EUR', color: '#3b82f6' }]} />
-            <RateChart data={chartData} isLoading={loading} title={t.chart.titleCny} currencies={[{ key: 'CNY', color: '#d97706' }]} />
-            <RateChart data={chartData} isLoading={loading} title={t.chart.titleJpy} currencies={[{ key: 'JPY', color: '#22c55e' }]} />
-          </div>
-
-          <div className="lg:col-span-1 lg:h-auto min-h-[600px]">
-            <RateTable data={currentWeekData} isLoading={loading} labels={t.table} />
-          </div>
-        </div>
+                <div className="grid grid-cols-1 gap-6 mb-8 sm:grid-cols-2 lg:grid-cols-4">
+                  {pinnedCurrencies.map((code) => (
+                    <StatCard
+                      key={code}
+                      currency={getCurrencyLabel(code)}
+                      code={code}
+                      rate={getRate(currentWeekData, code)}
+                      prevRate={getRate(prevWeekData, code)}
+                      label={t.card.vsLastWeek}
+                      noDataLabel={t.card.noData}
+                      locale={locale}
+                      isLoading={loading}
+                    />
+                  ))}
+                </div>
+
+                <CurrencyConverter dataset={dataset} activeType={activeType} locale={locale} labels={t.converter} />
+
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                  <div className="lg:col-span-2 flex flex-col gap-6">
+                    <div className="flex flex-wrap items-center justify-between gap-3 -mb-2">
+                      <RateStatsRangeSelector value={statsRange} onChange={setStatsRange} availableWeeks={Math.max(chartData.length, archivedWeekCount)} labels={t.stats} />
+                      <ExportMenu
+                        weeks={weeks}
+                        week={selectedWeekData}
+                        defaultScope="history"
+                        defaultSide={activeSide}
+                        labels={t.exportMenu}
+                      />
+                    </div>
+                    {compareMode ? (
+                      <RateChart
+                        data={comparisonData}
+                        isLoading={loading}
+                        title={t.chart.compare}
+                        locale={locale}
+                        loadingLabel={t.chart.loading}
+                        currencies={pinnedCurrencies.map((code) => ({ key: code, color: chartColor(code) }))}
+                        indexed
+                      />
+                    ) : (
+                      pinnedCurrencies.map((code) => (
+                        <RateChart
+                          key={code}
+                          data={trendData.get(code)?.data ?? []}
+                          isLoading={loading}
+                          title={fillTemplate(t.chart.trend, { currency: findQuoteUnit(historyData, code) > 1 ? `${code} ${findQuoteUnit(historyData, code)}` : code })}
+                          currencies={[
+                            { key: code, color: chartColor(code) },
+                            ...(trendData.get(code)?.windows ?? []).map((window) => ({
+                              key: movingAverageKey(code, window),
+                              name: fillTemplate(t.stats.movingAverage, { weeks: String(window) }),
+                              color: MOVING_AVERAGE_COLORS[MOVING_AVERAGE_WINDOWS.indexOf(window)],
+                              dashed: true
+                            })),
+                            ...(referenceRates.some((rate) => rate.currencyCode === code)
+                              ? [
+                                  { key: referenceKey(code), name: t.chart.reference, color: REFERENCE_COLOR },
+                                  { key: referenceGapKey(code), name: t.chart.gap, color: REFERENCE_COLOR, dashed: true, percent: true }
+                                ]
+                              : [])
+                          ]}
+                          locale={locale}
+                          loadingLabel={t.chart.loading}
+                        >
+                          <RateStatsPanel stats={trendData.get(code)?.stats ?? null} locale={locale} labels={t.stats} />
+                        </RateChart>
+                      ))
+                    )}
+                  </div>
+
+                  <div className="lg:col-span-1 lg:h-auto min-h-[600px]">
+                    <RateTable
+                      data={currentWeekData}
+                      prevData={prevWeekData}
+                      weeks={weeks}
+                      side={activeSide}
+                      favourites={favouriteCurrencies}
+                      onFavouritesChange={setFavouriteCurrencies}
+                      locale={locale}
+                      isLoading={loading}
+                      labels={t.table}
+                      exportOptions={{ weeks, week: selectedWeekData, side: activeSide, labels: t.exportMenu }}
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+          </>
+        )}
       </main>
 
       <footer className="bg-white border-t border-gray-200 mt-8">
@@ -0,0 +1,399 @@
+import React from 'react';
+import { AlertTriangle, FileSpreadsheet, ShieldCheck, Upload, X } from 'lucide-react';
+import { RateDataset, RateSide } from '../types';
+import { fetchRateDataset, getDatasetRange } from '../services/customsApi';
+import { SheetTable, readSpreadsheetFile } from '../utils/spreadsheetReader';
+import {
+    InvoiceColumnMapping,
+    InvoiceLineStatus,
+    buildInvoiceTable,
+    convertInvoiceLines,
+    getInvoiceDateRange,
+    guessInvoiceMapping,
+    markArchiveLines,
+    totalInvoiceLines
+} from '../utils/invoiceUtils';
+import { downloadCsv, downloadXlsx } from '../utils/downloadUtils';
+import { fillTemplate } from '../i18n';
+
+interface BatchConverterProps {
+    dataset: RateDataset | null; // The rolling snapshot; older invoice dates are looked up in the archive
+    defaultSide: RateSide;
+    locale: string;
+    labels: {
+        title: string;
+        privacy: string;
+        drop: string;
+        reading: string;
+        readError: string; // "{error}" is replaced
+        fileSummary: string; // "{file}" and "{count}" are replaced
+        clear: string;
+        mapping: string;
+        date: string;
+        currency: string;
+        amount: string;
+        side: string;
+        notMapped: string;
+        sideColumnHint: string;
+        defaultSide: string;
+        import: string;
+        export: string;
+        mapRequired: string;
+        loadingArchive: string;
+        archiveError: string;
+        retry: string;
+        summary: string; // "{converted}" and "{total}" are replaced
+        errorCount: string; // "{count}" is replaced
+        errorsOnly: string;
+        totalsTitle: string;
+        lines: string;
+        krw: string;
+        grandTotal: string;
+        linesTitle: string;
+        line: string;
+        week: string;
+        rate: string;
+        status: string;
+        statuses: Record<InvoiceLineStatus, string>;
+        download: string;
+        csv: string;
+        xlsx: string;
+    };
+}
+
+const ACCEPT = '.csv,.tsv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const selectClassName = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+const formatKrw = (value: number, locale: string) => value.toLocaleString(locale, { maximumFractionDigits: 2 });
+
+const formatAmount = (value: number, locale: string) => value.toLocaleString(locale, { maximumFractionDigits: 4 });
+
+/**
+ * Converts every line of an uploaded invoice sheet (CSV or XLSX) to KRW at the customs rate of its week.
+ * The file is read and converted in the browser; only the public archive files are fetched for older dates.
+ */
+const BatchConverter: React.FC<BatchConverterProps> = ({ dataset, defaultSide, locale, labels }) => {
+    const [sheet, setSheet] = React.useState<SheetTable | null>(null);
+    const [mapping, setMapping] = React.useState<InvoiceColumnMapping>({ date: null, currency: null, amount: null, side: null });
+    const [side, setSide] = React.useState<RateSide>(defaultSide);
+    const [reading, setReading] = React.useState(false);
+    const [readError, setReadError] = React.useState<string | null>(null);
+    const [dragging, setDragging] = React.useState(false);
+    const [errorsOnly, setErrorsOnly] = React.useState(false);
+    const [archived, setArchived] = React.useState<RateDataset | null>(null);
+    const [archiveLoading, setArchiveLoading] = React.useState(false);
+    const [archiveError, setArchiveError] = React.useState(false);
+    const [archiveAttempt, setArchiveAttempt] = React.useState(0);
+    const inputRef = React.useRef<HTMLInputElement>(null);
+
+    React.useEffect(() => {
+        setSide(defaultSide);
+    }, [defaultSide]);
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setReading(true);
+        setReadError(null);
+        try {
+            const table = await readSpreadsheetFile(file);
+            setSheet(table);
+            setMapping(guessInvoiceMapping(table.header));
+            setErrorsOnly(false);
+        } catch (error) {
+            setSheet(null);
+            setReadError(fillTemplate(labels.readError, { error: (error as Error).message }));
+        } finally {
+            setReading(false);
+        }
+    };
+
+    const clear = () => {
+        setSheet(null);
+        setReadError(null);
+        if (inputRef.current) inputRef.current.value = '';
+    };
+
+    const dateRange = sheet ? getInvoiceDateRange(sheet, mapping) : null;
+    const from = dateRange?.from;
+    const to = dateRange?.to;
+
+    // Invoice dates before the rolling snapshot are resolved against the archive, loaded for just their range.
+    React.useEffect(() => {
+        setArchived(null);
+        setArchiveLoading(false);
+        setArchiveError(false);
+        const snapshotRange = dataset ? getDatasetRange(dataset) : null;
+        if (!from || !to || (snapshotRange && from >= snapshotRange.from && to <= snapshotRange.to)) return;
+
+        let cancelled = false;
+        setArchiveLoading(true);
+        fetchRateDataset({ from, to })
+            .then((result) => {
+                if (!cancelled) setArchived(result);
+            })
+            .catch((error) => {
+                console.warn('Archive lookup failed:', error);
+                if (!cancelled) setArchiveError(true);
+            })
+            .finally(() => {
+                if (!cancelled) setArchiveLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [dataset, from, to, archiveAttempt]);
+
+    const lookupDataset = React.useMemo<RateDataset | null>(() => {
+        if (!dataset || !archived) return dataset;
+        const snapshotWeeks = new Set(dataset.weeks.map((week) => week.startDate));
+        return { ...dataset, weeks: [...dataset.weeks, ...archived.weeks.filter((week) => !snapshotWeeks.has(week.startDate))] };
+    }, [dataset, archived]);
+
+    const isMapped = mapping.date !== null && mapping.currency !== null && mapping.amount !== null;
+    // Until the archive answers, lines before the snapshot are neither converted nor reported as outside the data.
+    const lines = React.useMemo(() => {
+        if (!sheet || !lookupDataset || !isMapped) return [];
+        const converted = convertInvoiceLines(sheet, mapping, lookupDataset, side);
+        if (archiveLoading) return markArchiveLines(converted, 'archive-pending');
+        return archiveError ? markArchiveLines(converted, 'archive-error') : converted;
+    }, [sheet, lookupDataset, mapping, isMapped, side, archiveLoading, archiveError]);
+    const totals = React.useMemo(() => totalInvoiceLines(lines), [lines]);
+    const convertedCount = lines.filter((line) => line.status === 'ok').length;
+    const pendingCount = lines.filter((line) => line.status === 'archive-pending').length;
+    const errorCount = lines.length - convertedCount - pendingCount;
+    const shownLines = errorsOnly ? lines.filter((line) => line.status !== 'ok') : lines;
+    const grandTotal = totals.reduce((total, item) => total + item.krw, 0);
+
+    const fileName = sheet ? `${sheet.fileName.replace(/\.[^.]+$/, '')}-krw` : 'invoice-krw';
+
+    const handleXlsx = async () => {
+        if (!sheet) return;
+        try {
+            await downloadXlsx(buildInvoiceTable(sheet, mapping, lines), fileName);
+        } catch (error) {
+            console.error('Failed to build XLSX export:', error);
+        }
+    };
+
+    const columnSelect = (key: keyof InvoiceColumnMapping, label: string, optional = false) => (
+        <label className="block text-sm">
+            <span className="text-gray-500">{label}</span>
+            <select
+                className={selectClassName}
+                value={mapping[key] ?? ''}
+                onChange={(e) => setMapping({ ...mapping, [key]: e.target.value === '' ? null : Number(e.target.value) })}
+            >
+                <option value="">{optional ? labels.sideColumnHint : labels.notMapped}</option>
+                {sheet?.header.map((name, index) => (
+                    <option key={index} value={index}>{name || `#${index + 1}`}</option>
+                ))}
+            </select>
+        </label>
+    );
+
+    return (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <div className="flex items-center gap-2 mb-1">
+                <FileSpreadsheet className="h-5 w-5 text-emerald-600" />
+                <h3 className="text-lg font-semibold text-gray-900">{labels.title}</h3>
+            </div>
+            <p className="flex items-center gap-1.5 text-xs text-gray-500 mb-4">
+                <ShieldCheck className="h-3.5 w-3.5 text-emerald-600 flex-shrink-0" />
+                {labels.privacy}
+            </p>
+
+            {!sheet ? (
+                <label
+                    className={`flex flex-col items-center justify-center gap-2 px-6 py-10 border-2 border-dashed rounded-lg cursor-pointer text-sm text-gray-500 transition-colors ${dragging ? 'border-emerald-400 bg-emerald-50' : 'border-gray-300 hover:bg-gray-50'}`}
+                    onDragOver={(e) => {
+                        e.preventDefault();
+                        setDragging(true);
+                    }}
+                    onDragLeave={() => setDragging(false)}
+                    onDrop={(e) => {
+                        e.preventDefault();
+                        setDragging(false);
+                        handleFile(e.dataTransfer.files[0]);
+                    }}
+                >
+                    <Upload className="h-6 w-6 text-gray-400" />
+                    <span>{reading ? labels.reading : labels.drop}</span>
+                    <input ref={inputRef} type="file" accept={ACCEPT} className="sr-only" onChange={(e) => handleFile(e.target.files?.[0])} />
+                </label>
+            ) : (
+                <div className="flex items-center justify-between gap-3 rounded-md bg-gray-50 px-4 py-2 text-sm text-gray-700">
+                    <span className="truncate">{fillTemplate(labels.fileSummary, { file: sheet.fileName, count: String(sheet.rows.length) })}</span>
+                    <button type="button" onClick={clear} className="inline-flex items-center gap-1 text-gray-500 hover:text-gray-900 flex-shrink-0">
+                        <X className="h-4 w-4" />
+                        {labels.clear}
+                    </button>
+                </div>
+            )}
+
+            {readError && (
+                <div className="mt-4 flex items-start gap-2 rounded-md bg-amber-50 border border-amber-200 p-3 text-sm text-amber-800">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <span>{readError}</span>
+                </div>
+            )}
+
+            {sheet && (
+                <>
+                    <h4 className="mt-6 mb-2 text-sm font-semibold text-gray-700">{labels.mapping}</h4>
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-5">
+                        {columnSelect('date', labels.date)}
+                        {columnSelect('currency', labels.currency)}
+                        {columnSelect('amount', labels.amount)}
+                        {columnSelect('side', labels.side, true)}
+                        <label className="block text-sm">
+                            <span className="text-gray-500">{labels.defaultSide}</span>
+                            <select className={selectClassName} value={side} onChange={(e) => setSide(e.target.value as RateSide)}>
+                                <option value="import">{labels.import}</option>
+                                <option value="export">{labels.export}</option>
+                            </select>
+                        </label>
+                    </div>
+
+                    {!isMapped ? (
+                        <p className="mt-4 text-sm text-amber-700">{labels.mapRequired}</p>
+                    ) : (
+                        <>
+                            <div className="mt-6 flex flex-wrap items-center justify-between gap-3">
+                                <p className="text-sm text-gray-700">
+                                    {fillTemplate(labels.summary, { converted: String(convertedCount), total: String(lines.length) })}
+                                    {errorCount > 0 && <span className="ml-2 text-red-600">{fillTemplate(labels.errorCount, { count: String(errorCount) })}</span>}
+                                    {archiveLoading && <span className="ml-2 text-gray-400">{labels.loadingArchive}</span>}
+                                </p>
+                                <div className="flex items-center gap-2 text-sm">
+                                    <span className="text-gray-500">{labels.download}</span>
+                                    <button
+                                        type="button"
+                                        onClick={() => downloadCsv(buildInvoiceTable(sheet, mapping, lines), fileName)}
+                                        disabled={archiveLoading}
+                                        className="px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        {labels.csv}
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={handleXlsx}
+                                        disabled={archiveLoading}
+                                        className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        {labels.xlsx}
+                                    </button>
+                                </div>
+                            </div>
+
+                            {archiveError && (
+                                <div className="mt-4 flex items-start justify-between gap-3 rounded-md bg-amber-50 border border-amber-200 p-3 text-sm text-amber-800">
+                                    <span className="flex items-start gap-2">
+                                        <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                                        {labels.archiveError}
+                                    </span>
+                                    <button
+                                        type="button"
+                                        onClick={() => setArchiveAttempt((attempt) => attempt + 1)}
+                                        className="font-medium underline hover:no-underline flex-shrink-0"
+                                    >
+                                        {labels.retry}
+                                    </button>
+                                </div>
+                            )}
+
+                            {totals.length > 0 && (
+                                <>
+                                    <h4 className="mt-6 mb-2 text-sm font-semibold text-gray-700">{labels.totalsTitle}</h4>
+                                    <div className="overflow-x-auto">
+                                        <table className="min-w-full text-sm">
+                                            <thead className="bg-gray-50 text-gray-500">
+                                                <tr>
+                                                    <th scope="col" className="px-4 py-2 text-left font-medium">{labels.currency}</th>
+                                                    <th scope="col" className="px-4 py-2 text-right font-medium">{labels.lines}</th>
+                                                    <th scope="col" className="px-4 py-2 text-right font-medium">{labels.amount}</th>
+                                                    <th scope="col" className="px-4 py-2 text-right font-medium">{labels.krw}</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody className="divide-y divide-gray-100">
+                                                {totals.map((total) => (
+                                                    <tr key={total.currency}>
+                                                        <td className="px-4 py-2 font-bold text-gray-900">{total.currency}</td>
+                                                        <td className="px-4 py-2 text-right tabular-nums">{total.lineCount}</td>
+                                                        <td className="px-4 py-2 text-right tabular-nums">{formatAmount(total.amount, locale)}</td>
+                                                        <td className="px-4 py-2 text-right tabular-nums">{formatKrw(total.krw, locale)}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                            <tfoot className="border-t border-gray-200">
+                                                <tr>
+                                                    <th scope="row" colSpan={3} className="px-4 py-2 text-left font-semibold text-gray-900">{labels.grandTotal}</th>
+                                                    <td className="px-4 py-2 text-right font-bold text-gray-900 tabular-nums">{formatKrw(grandTotal, locale)} KRW</td>
+                                                </tr>
+                                            </tfoot>
+                                        </table>
+                                    </div>
+                                </>
+                            )}
+
+                            <div className="mt-6 mb-2 flex items-center justify-between gap-3">
+                                <h4 className="text-sm font-semibold text-gray-700">{labels.linesTitle}</h4>
+                                <label className="inline-flex items-center gap-1.5 text-xs text-gray-600 cursor-pointer select-none">
+                                    <input
+                                        type="checkbox"
+                                        className="h-3.5 w-3.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                        checked={errorsOnly}
+                                        onChange={(e) => setErrorsOnly(e.target.checked)}
+                                    />
+                                    {labels.errorsOnly}
+                                </label>
+                            </div>
+                            <div className="overflow-auto custom-scrollbar max-h-[600px] border border-gray-100 rounded-md">
+                                <table className="min-w-full text-sm">
+                                    <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                                        <tr>
+                                            <th scope="col" className="px-3 py-2 text-right font-medium">{labels.line}</th>
+                                            <th scope="col" className="px-3 py-2 text-left font-medium">{labels.date}</th>
+                                            <th scope="col" className="px-3 py-2 text-left font-medium">{labels.currency}</th>
+                                            <th scope="col" className="px-3 py-2 text-right font-medium">{labels.amount}</th>
+                                            <th scope="col" className="px-3 py-2 text-left font-medium">{labels.side}</th>
+                                            <th scope="col" className="px-3 py-2 text-left font-medium">{labels.week}</th>
+                                            <th scope="col" className="px-3 py-2 text-right font-medium">{labels.rate}</th>
+                                            <th scope="col" className="px-3 py-2 text-right font-medium">{labels.krw}</th>
+                                            <th scope="col" className="px-3 py-2 text-left font-medium">{labels.status}</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-100">
+                                        {shownLines.map((line) => (
+                                            <tr key={line.index} className={line.status === 'ok' || line.status === 'archive-pending' ? '' : 'bg-red-50/50'}>
+                                                {/* Row numbers as in the file: the header is row 1 */}
+                                                <td className="px-3 py-2 text-right text-gray-400 tabular-nums">{line.index + 2}</td>
+                                                <td className="px-3 py-2 whitespace-nowrap">{line.date ?? String(sheet.rows[line.index][mapping.date!] ?? '')}</td>
+                                                <td className="px-3 py-2 font-medium">{line.currency}</td>
+                                                <td className="px-3 py-2 text-right tabular-nums">
+                                                    {line.amount === null ? String(sheet.rows[line.index][mapping.amount!] ?? '') : formatAmount(line.amount, locale)}
+                                                </td>
+                                                <td className="px-3 py-2">{labels[line.side]}</td>
+                                                <td className="px-3 py-2 whitespace-nowrap text-gray-500">{line.rate ? `${line.rate.weekStart} ~ ${line.rate.weekEnd}` : '—'}</td>
+                                                <td className="px-3 py-2 text-right tabular-nums whitespace-nowrap">
+                                                    {line.rate ? `${formatKrw(line.rate.quotedRate, locale)}${line.rate.unit > 1 ? ` / ${line.rate.unit}` : ''}` : '—'}
+                                                </td>
+                                                <td className="px-3 py-2 text-right font-semibold tabular-nums">{line.krw === null ? '—' : formatKrw(line.krw, locale)}</td>
+                                                <td className={`px-3 py-2 whitespace-nowrap ${line.status === 'ok' ? 'text-emerald-600' : line.status === 'archive-pending' ? 'text-gray-400' : 'text-red-600'}`}>
+                                                    {labels.statuses[line.status]}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default BatchConverter;
@@ -0,0 +1,238 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { ArrowLeftRight } from 'lucide-react';
+import { RateSide, RateWeek } from '../types';
+import { BASE_CURRENCY, buildCrossRateHistory, buildCrossRateMatrix, getCrossRate } from '../utils/crossRateUtils';
+import { findQuoteUnit, getCurrencyName } from '../utils/currencyUtils';
+import { formatShortDate } from '../utils/dateUtils';
+import { fillTemplate } from '../i18n';
+
+interface CrossRatesProps {
+    weeks: RateWeek[]; // newest first
+    week: RateWeek | undefined;
+    side: RateSide;
+    onSideChange: (side: RateSide) => void;
+    currencies: string[]; // shown in the matrix unless every currency is requested
+    locale: string;
+    isLoading: boolean;
+    labels: {
+        side: string;
+        import: string;
+        export: string;
+        matrixTitle: string; // "{week}" is replaced with the week's startDate
+        matrixNote: string;
+        showAll: string;
+        lookupTitle: string;
+        base: string;
+        quote: string;
+        swap: string;
+        lookupResult: string; // "{base}", "{rate}" and "{quote}" are replaced
+        historyTitle: string; // "{pair}" is replaced
+        noData: string;
+    };
+}
+
+// Large rates keep four decimals; small ones (e.g. USD per 100 JPY) keep four significant digits instead.
+const formatCrossRate = (value: number | null, locale: string): string => {
+    if (value === null) return '—';
+    return Math.abs(value) >= 1
+        ? value.toLocaleString(locale, { maximumFractionDigits: 4 })
+        : value.toLocaleString(locale, { maximumSignificantDigits: 4 });
+};
+
+const withUnit = (code: string, unit: number) => `${unit} ${code}`;
+
+/**
+ * Implied cross rates between currencies for one week and side, derived from the KRW customs rates,
+ * with a two-currency lookup and its history across the loaded weeks.
+ */
+const CrossRates: React.FC<CrossRatesProps> = ({ weeks, week, side, onSideChange, currencies, locale, isLoading, labels }) => {
+    const [showAll, setShowAll] = React.useState(false);
+    const [base, setBase] = React.useState('USD');
+    const [quote, setQuote] = React.useState('EUR');
+
+    const codes = React.useMemo(
+        () => [BASE_CURRENCY, ...Array.from(new Set(weeks.flatMap((item) => item[side].map((rate) => rate.currencyCode)))).sort()],
+        [weeks, side]
+    );
+
+    const matrix = React.useMemo(() => {
+        if (!week) return null;
+        const shown = showAll ? undefined : [BASE_CURRENCY, ...currencies.filter((code) => code !== BASE_CURRENCY)];
+        return buildCrossRateMatrix(week, side, shown);
+    }, [week, side, currencies, showAll]);
+
+    const rate = week ? getCrossRate(week, side, base, quote) : null;
+    const history = React.useMemo(() => buildCrossRateHistory(weeks, side, base, quote), [weeks, side, base, quote]);
+
+    if (isLoading) {
+        return <div className="h-96 bg-gray-50 rounded-xl animate-pulse border border-gray-100" />;
+    }
+
+    const selectClassName = 'px-2 py-1 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-sm';
+    const baseWithUnit = withUnit(base, findQuoteUnit(week?.[side] ?? [], base));
+    const pair = `${baseWithUnit} → ${quote}`;
+
+    return (
+        <div className="flex flex-col gap-8">
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+                <span>{labels.side}</span>
+                <div className="flex items-center bg-gray-100 rounded-lg p-1" role="group" aria-label={labels.side}>
+                    {(['import', 'export'] as RateSide[]).map((value) => (
+                        <button
+                            key={value}
+                            type="button"
+                            onClick={() => onSideChange(value)}
+                            className={`px-2 py-1 text-xs font-medium rounded-md transition-colors ${side === value ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
+                            aria-pressed={side === value}
+                        >
+                            {labels[value]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">{labels.lookupTitle}</h3>
+                <div className="flex flex-wrap items-center gap-3">
+                    <label className="inline-flex items-center gap-2 text-sm text-gray-500">
+                        {labels.base}
+                        <select className={selectClassName} value={base} onChange={(e) => setBase(e.target.value)}>
+                            {codes.map((code) => (
+                                <option key={code} value={code}>{code} · {getCurrencyName(code, locale)}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <button
+                        type="button"
+                        onClick={() => {
+                            setBase(quote);
+                            setQuote(base);
+                        }}
+                        className="p-1.5 rounded-full text-gray-500 hover:text-gray-900 hover:bg-gray-100"
+                        aria-label={labels.swap}
+                        title={labels.swap}
+                    >
+                        <ArrowLeftRight className="h-4 w-4" />
+                    </button>
+                    <label className="inline-flex items-center gap-2 text-sm text-gray-500">
+                        {labels.quote}
+                        <select className={selectClassName} value={quote} onChange={(e) => setQuote(e.target.value)}>
+                            {codes.map((code) => (
+                                <option key={code} value={code}>{code} · {getCurrencyName(code, locale)}</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+                <p className="mt-4 text-2xl font-bold text-gray-900 tabular-nums">
+                    {rate === null
+                        ? labels.noData
+                        : fillTemplate(labels.lookupResult, { base: baseWithUnit, rate: formatCrossRate(rate, locale), quote })}
+                </p>
+
+                <h4 className="mt-6 mb-2 text-sm font-semibold text-gray-700">{fillTemplate(labels.historyTitle, { pair })}</h4>
+                {history.length > 0 ? (
+                    <div className="h-56 w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={history} margin={{ top: 10, right: 10, left: 10, bottom: 5 }}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" vertical={false} />
+                                <XAxis
+                                    dataKey="date"
+                                    tick={{ fontSize: 12, fill: '#6b7280' }}
+                                    tickLine={false}
+                                    axisLine={false}
+                                    tickMargin={10}
+                                    tickFormatter={(val) => formatShortDate(val, locale)}
+                                />
+                                <YAxis
+                                    domain={['auto', 'auto']}
+                                    tick={{ fontSize: 12, fill: '#6b7280' }}
+                                    tickLine={false}
+                                    axisLine={false}
+                                    width={60}
+                                    tickFormatter={(value) => formatCrossRate(value, locale)}
+                                />
+                                <Tooltip
+                                    contentStyle={{ backgroundColor: '#fff', borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)', fontSize: '12px' }}
+                                    itemStyle={{ fontWeight: 500 }}
+                                    formatter={(value) => (typeof value === 'number' ? formatCrossRate(value, locale) : value)}
+                                />
+                                <Line type="monotone" dataKey="rate" name={pair} stroke="#d97706" strokeWidth={3} dot={{ r: 4, strokeWidth: 2, fill: '#fff' }} />
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+                ) : (
+                    <p className="py-10 text-center text-sm text-gray-500">{labels.noData}</p>
+                )}
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-100 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                    <div>
+                        <h3 className="text-lg font-semibold text-gray-900">{fillTemplate(labels.matrixTitle, { week: week?.startDate ?? '' })}</h3>
+                        <p className="text-xs text-gray-400 mt-1">{labels.matrixNote}</p>
+                    </div>
+                    <label className="inline-flex items-center gap-1.5 text-xs text-gray-600 cursor-pointer select-none flex-shrink-0">
+                        <input
+                            type="checkbox"
+                            className="h-3.5 w-3.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            checked={showAll}
+                            onChange={(e) => setShowAll(e.target.checked)}
+                        />
+                        {labels.showAll}
+                    </label>
+                </div>
+                {matrix && matrix.codes.length > 1 ? (
+                    <div className="overflow-auto custom-scrollbar max-h-[600px]">
+                        <table className="min-w-full text-sm">
+                            <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                                <tr>
+                                    <th scope="col" className="px-4 py-3 text-left font-medium sticky left-0 bg-gray-50" />
+                                    {matrix.codes.map((code) => (
+                                        <th key={code} scope="col" className="px-4 py-3 text-right font-medium" title={getCurrencyName(code, locale)}>{code}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {matrix.codes.map((rowCode, row) => (
+                                    <tr key={rowCode}>
+                                        <th scope="row" className="px-4 py-3 text-left font-bold text-gray-900 whitespace-nowrap sticky left-0 bg-white" title={getCurrencyName(rowCode, locale)}>
+                                            {withUnit(rowCode, matrix.units[row])}
+                                        </th>
+                                        {matrix.codes.map((columnCode, column) => {
+                                            const value = matrix.values[row][column];
+                                            const selected = rowCode === base && columnCode === quote;
+                                            return (
+                                                <td key={columnCode} className={`px-4 py-3 text-right tabular-nums whitespace-nowrap ${selected ? 'bg-amber-50 font-semibold' : ''}`}>
+                                                    {value === null ? (
+                                                        <span className="text-gray-300">—</span>
+                                                    ) : (
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => {
+                                                                setBase(rowCode);
+                                                                setQuote(columnCode);
+                                                            }}
+                                                            className="text-gray-900 hover:text-blue-600"
+                                                            title={fillTemplate(labels.lookupResult, { base: withUnit(rowCode, matrix.units[row]), rate: formatCrossRate(value, locale), quote: columnCode })}
+                                                        >
+                                                            {formatCrossRate(value, locale)}
+                                                        </button>
+                                                    )}
+                                                </td>
+                                            );
+                                        })}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                ) : (
+                    <p className="py-10 text-center text-sm text-gray-500">{labels.noData}</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CrossRates;
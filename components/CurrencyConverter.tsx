@@ -0,0 +1,191 @@
+import React from 'react';
+import { Calculator, AlertTriangle } from 'lucide-react';
+import { RateApiWeekSide, RateDataset, RateType } from '../types';
+import { fetchRatesForDate, findWeekForDate, getDatasetRange } from '../services/customsApi';
+import { addDays, getTodayKst } from '../utils/dateUtils';
+import { multiplyRate, getCurrencyName, getQuoteUnit, getRateQuoteUnit } from '../utils/currencyUtils';
+import { fillTemplate } from '../i18n';
+
+interface CurrencyConverterProps {
+    dataset: RateDataset | null;
+    activeType: RateType;
+    locale: string;
+    labels: {
+        title: string;
+        amount: string;
+        currency: string;
+        date: string;
+        type: string;
+        import: string;
+        export: string;
+        result: string;
+        appliedRate: string;
+        appliedWeek: string;
+        outOfRange: string;
+        loadError: string;
+        missingCurrency: string;
+        invalidAmount: string;
+        negativeAmount: string;
+    };
+}
+
+const formatKrw = (value: number, locale: string) => value.toLocaleString(locale, { maximumFractionDigits: 2 });
+
+const CurrencyConverter: React.FC<CurrencyConverterProps> = ({ dataset, activeType, locale, labels }) => {
+    const [amount, setAmount] = React.useState('');
+    const [currency, setCurrency] = React.useState('USD');
+    const [date, setDate] = React.useState(getTodayKst());
+    const [type, setType] = React.useState<RateType>(activeType);
+
+    React.useEffect(() => {
+        setType(activeType);
+    }, [activeType]);
+
+    const key = type === RateType.EXPORT ? 'export' : 'import';
+
+    const currencyCodes = React.useMemo(() => {
+        const codes = new Set<string>();
+        dataset?.weeks.forEach((week) => week[key].forEach((item) => codes.add(item.currencyCode)));
+        return Array.from(codes).sort();
+    }, [dataset, key]);
+
+    // The outcome of the last archive lookup, tagged with the date and side it was for.
+    const [archiveLookup, setArchiveLookup] = React.useState<{ id: string; week: RateApiWeekSide | null; failed: boolean } | null>(null);
+
+    const range = dataset ? getDatasetRange(dataset) : null;
+    const snapshotWeek = dataset ? findWeekForDate(dataset, date) : undefined;
+
+    // Dates outside the rolling snapshot are looked up through the static API, which covers the whole archive.
+    // Pending is derived rather than set in the effect, so the first render after a date change already shows
+    // the lookup as loading instead of flashing the out-of-range message.
+    const needsArchive = Boolean(dataset && !snapshotWeek && date);
+    const lookupId = `${date}:${key}`;
+    const archiveResult = needsArchive && archiveLookup?.id === lookupId ? archiveLookup : null;
+    const archiveLoading = needsArchive && !archiveResult;
+    const archivedWeek = archiveResult?.week ?? null;
+    const archiveError = archiveResult?.failed ?? false;
+
+    React.useEffect(() => {
+        if (!needsArchive) return;
+
+        let cancelled = false;
+        fetchRatesForDate(date, key)
+            .then((archived) => {
+                if (!cancelled) setArchiveLookup({ id: lookupId, week: archived, failed: false });
+            })
+            .catch((error) => {
+                console.warn('Archive lookup failed:', error);
+                if (!cancelled) setArchiveLookup({ id: lookupId, week: null, failed: true });
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [needsArchive, date, key, lookupId]);
+
+    const week = snapshotWeek
+        ? { startDate: snapshotWeek.startDate, rates: snapshotWeek[key] }
+        : archivedWeek ?? undefined;
+    const rateEntry = week?.rates.find((item) => item.currencyCode === currency);
+    const parsedAmount = Number(amount.replace(/,/g, ''));
+    const hasAmount = amount.trim() !== '' && Number.isFinite(parsedAmount) && parsedAmount >= 0;
+
+    let message: string | null = null;
+    if (dataset && !week && archiveError) {
+        message = fillTemplate(labels.loadError, { date });
+    } else if (dataset && !week && !archiveLoading) {
+        message = fillTemplate(labels.outOfRange, {
+            date,
+            from: range?.from ?? '-',
+            to: range?.to ?? '-'
+        });
+    } else if (week && !rateEntry) {
+        message = fillTemplate(labels.missingCurrency, { currency, week: week.startDate });
+    } else if (amount.trim() !== '' && !hasAmount) {
+        message = parsedAmount < 0 ? labels.negativeAmount : labels.invalidAmount;
+    }
+
+    const unit = rateEntry ? getRateQuoteUnit(rateEntry) : getQuoteUnit(currency);
+
+    return (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 mb-8">
+            <div className="flex items-center gap-2 mb-4">
+                <Calculator className="h-5 w-5 text-blue-600" />
+                <h3 className="text-lg font-semibold text-gray-900">{labels.title}</h3>
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                <label className="block text-sm">
+                    <span className="text-gray-500">{labels.amount}</span>
+                    <input
+                        type="text"
+                        inputMode="decimal"
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                        placeholder="0.00"
+                    />
+                </label>
+                <label className="block text-sm">
+                    <span className="text-gray-500">{labels.currency}</span>
+                    <select
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        value={currency}
+                        onChange={(e) => setCurrency(e.target.value)}
+                    >
+                        {currencyCodes.map((code) => (
+                            <option key={code} value={code}>{code} · {getCurrencyName(code, locale)}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="block text-sm">
+                    <span className="text-gray-500">{labels.date}</span>
+                    <input
+                        type="date"
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        value={date}
+                        onChange={(e) => setDate(e.target.value)}
+                    />
+                </label>
+                <label className="block text-sm">
+                    <span className="text-gray-500">{labels.type}</span>
+                    <select
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        value={type}
+                        onChange={(e) => setType(e.target.value as RateType)}
+                    >
+                        <option value={RateType.IMPORT}>{labels.import}</option>
+                        <option value={RateType.EXPORT}>{labels.export}</option>
+                    </select>
+                </label>
+            </div>
+
+            {message ? (
+                <div className="mt-4 flex items-start gap-2 rounded-md bg-amber-50 border border-amber-200 p-3 text-sm text-amber-800">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <span>{message}</span>
+                </div>
+            ) : rateEntry && week && (
+                <div className="mt-4 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-2 rounded-md bg-gray-50 p-4">
+                    <div>
+                        <div className="text-sm text-gray-500">{labels.result}</div>
+                        <div className="text-2xl font-bold text-gray-900">
+                            {hasAmount ? formatKrw(multiplyRate(parsedAmount, rateEntry.rate), locale) : '-'}
+                            <span className="text-sm font-normal text-gray-400 ml-1">KRW</span>
+                        </div>
+                    </div>
+                    <div className="text-xs text-gray-500 sm:text-right space-y-1">
+                        <div>
+                            {labels.appliedRate} {unit} {currency} = {formatKrw(multiplyRate(unit, rateEntry.rate), locale)} KRW
+                        </div>
+                        <div>
+                            {labels.appliedWeek} {week.startDate} ~ {addDays(week.startDate, 6)}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CurrencyConverter;
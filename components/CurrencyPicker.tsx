@@ -0,0 +1,69 @@
+import React from 'react';
+import { Plus, X, LineChart } from 'lucide-react';
+
+interface CurrencyPickerProps {
+    available: string[];
+    selected: string[];
+    onChange: (codes: string[]) => void;
+    compareMode: boolean;
+    onCompareModeChange: (compare: boolean) => void;
+    labels: {
+        title: string;
+        add: string;
+        remove: string;
+        compare: string;
+    };
+}
+
+const CurrencyPicker: React.FC<CurrencyPickerProps> = ({ available, selected, onChange, compareMode, onCompareModeChange, labels }) => {
+    const addable = available.filter((code) => !selected.includes(code));
+
+    return (
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-6">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium text-gray-500 mr-1">{labels.title}</span>
+                {selected.map((code) => (
+                    <span key={code} className="inline-flex items-center gap-1 pl-2.5 pr-1 py-1 rounded-full bg-white border border-gray-200 text-sm font-medium text-gray-700 shadow-sm">
+                        {code}
+                        <button
+                            type="button"
+                            onClick={() => onChange(selected.filter((c) => c !== code))}
+                            className="p-0.5 rounded-full text-gray-400 hover:text-gray-700 hover:bg-gray-100"
+                            aria-label={`${labels.remove} ${code}`}
+                        >
+                            <X className="h-3.5 w-3.5" />
+                        </button>
+                    </span>
+                ))}
+                {addable.length > 0 && (
+                    <label className="inline-flex items-center gap-1 text-sm text-gray-500">
+                        <Plus className="h-4 w-4" />
+                        <select
+                            className="px-2 py-1 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                            value=""
+                            onChange={(e) => e.target.value && onChange([...selected, e.target.value])}
+                            aria-label={labels.add}
+                        >
+                            <option value="">{labels.add}</option>
+                            {addable.map((code) => (
+                                <option key={code} value={code}>{code}</option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+            </div>
+            <label className="inline-flex items-center gap-2 text-sm text-gray-600 cursor-pointer select-none">
+                <input
+                    type="checkbox"
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    checked={compareMode}
+                    onChange={(e) => onCompareModeChange(e.target.checked)}
+                />
+                <LineChart className="h-4 w-4" />
+                {labels.compare}
+            </label>
+        </div>
+    );
+};
+
+export default CurrencyPicker;
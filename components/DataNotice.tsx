@@ -0,0 +1,50 @@
+import React from 'react';
+import { AlertTriangle, Clock, Inbox, RefreshCw, WifiOff } from 'lucide-react';
+
+export type DataNoticeKind = 'error' | 'empty' | 'stale' | 'offline' | 'update';
+
+interface DataNoticeProps {
+    kind: DataNoticeKind;
+    message: string;
+    detail?: string;
+    action?: { label: string; onClick: () => void; icon?: React.ElementType }; // The icon defaults to a refresh arrow
+}
+
+const STYLES: Record<DataNoticeKind, { box: string; icon: string; text: string; button: string; Icon: React.ElementType }> = {
+    error: { box: 'bg-red-50 border-red-400', icon: 'text-red-500', text: 'text-red-800', button: 'bg-red-600 hover:bg-red-700', Icon: AlertTriangle },
+    empty: { box: 'bg-gray-50 border-gray-300', icon: 'text-gray-400', text: 'text-gray-700', button: 'bg-gray-600 hover:bg-gray-700', Icon: Inbox },
+    stale: { box: 'bg-amber-50 border-amber-400', icon: 'text-amber-500', text: 'text-amber-800', button: 'bg-amber-600 hover:bg-amber-700', Icon: Clock },
+    offline: { box: 'bg-amber-50 border-amber-400', icon: 'text-amber-500', text: 'text-amber-800', button: 'bg-amber-600 hover:bg-amber-700', Icon: WifiOff },
+    update: { box: 'bg-green-50 border-green-400', icon: 'text-green-500', text: 'text-green-800', button: 'bg-green-600 hover:bg-green-700', Icon: RefreshCw }
+};
+
+/**
+ * A left-bordered notice above the dashboard for load failures, empty snapshots, stale data,
+ * offline mode and newly published weeks.
+ */
+const DataNotice: React.FC<DataNoticeProps> = ({ kind, message, detail, action }) => {
+    const { box, icon, text, button, Icon } = STYLES[kind];
+    const ActionIcon = action?.icon ?? RefreshCw;
+
+    return (
+        <div className={`${box} border-l-4 p-4 mb-4 rounded-r-md flex flex-wrap items-center gap-3`} role={kind === 'error' ? 'alert' : 'status'}>
+            <Icon className={`h-5 w-5 flex-shrink-0 ${icon}`} aria-hidden="true" />
+            <div className={`flex-grow text-sm ${text}`}>
+                <p className="font-medium">{message}</p>
+                {detail && <p className="mt-1 text-xs opacity-80">{detail}</p>}
+            </div>
+            {action && (
+                <button
+                    type="button"
+                    onClick={action.onClick}
+                    className={`inline-flex items-center gap-1.5 rounded-md px-3 py-1.5 text-sm font-medium text-white ${button}`}
+                >
+                    <ActionIcon className="h-4 w-4" aria-hidden="true" />
+                    {action.label}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default DataNotice;
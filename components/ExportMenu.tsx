@@ -0,0 +1,108 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+import { RateData, RateWeek } from '../types';
+import { ExportSide, buildHistoryMatrix, buildWeekTable } from '../utils/exportUtils';
+import { downloadCsv, downloadXlsx } from '../utils/downloadUtils';
+
+export type ExportScope = 'week' | 'history';
+
+export interface ExportMenuLabels {
+    button: string;
+    scope: string;
+    scopeWeek: string;
+    scopeHistory: string;
+    side: string;
+    import: string;
+    export: string;
+    both: string;
+    csv: string;
+    xlsx: string;
+}
+
+interface ExportMenuProps {
+    weeks: RateWeek[];
+    week?: RateWeek;
+    defaultScope: ExportScope;
+    defaultSide: 'import' | 'export';
+    filter?: (item: RateData) => boolean;
+    labels: ExportMenuLabels;
+}
+
+const selectClassName = 'mt-1 block w-full px-2 py-1.5 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ weeks, week, defaultScope, defaultSide, filter, labels }) => {
+    const [open, setOpen] = React.useState(false);
+    const [scope, setScope] = React.useState<ExportScope>(week ? defaultScope : 'history');
+    const [side, setSide] = React.useState<ExportSide>(defaultSide);
+
+    React.useEffect(() => {
+        setSide(defaultSide);
+    }, [defaultSide]);
+
+    const buildTable = () => {
+        if (scope === 'week' && week) {
+            return { table: buildWeekTable(week, side, filter), fileName: `customs-rates-${week.startDate}-${side}` };
+        }
+        return { table: buildHistoryMatrix(weeks, side), fileName: `customs-rates-history-${side}` };
+    };
+
+    const handleCsv = () => {
+        const { table, fileName } = buildTable();
+        downloadCsv(table, fileName);
+        setOpen(false);
+    };
+
+    const handleXlsx = async () => {
+        const { table, fileName } = buildTable();
+        try {
+            await downloadXlsx(table, fileName);
+        } catch (error) {
+            console.error('Failed to build XLSX export:', error);
+        }
+        setOpen(false);
+    };
+
+    return (
+        <div className="relative">
+            <button
+                type="button"
+                onClick={() => setOpen(!open)}
+                disabled={!weeks.length}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                aria-expanded={open}
+            >
+                <Download className="mr-2 h-4 w-4" />
+                {labels.button}
+            </button>
+            {open && (
+                <div className="absolute right-0 z-20 mt-2 w-64 rounded-md bg-white shadow-lg border border-gray-200 p-4 space-y-3">
+                    <label className="block text-sm">
+                        <span className="text-gray-500">{labels.scope}</span>
+                        <select className={selectClassName} value={scope} onChange={(e) => setScope(e.target.value as ExportScope)}>
+                            {week && <option value="week">{labels.scopeWeek}</option>}
+                            <option value="history">{labels.scopeHistory}</option>
+                        </select>
+                    </label>
+                    <label className="block text-sm">
+                        <span className="text-gray-500">{labels.side}</span>
+                        <select className={selectClassName} value={side} onChange={(e) => setSide(e.target.value as ExportSide)}>
+                            <option value="import">{labels.import}</option>
+                            <option value="export">{labels.export}</option>
+                            <option value="both">{labels.both}</option>
+                        </select>
+                    </label>
+                    <div className="flex gap-2">
+                        <button type="button" onClick={handleCsv} className="flex-1 px-3 py-1.5 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700">
+                            {labels.csv}
+                        </button>
+                        <button type="button" onClick={handleXlsx} className="flex-1 px-3 py-1.5 rounded-md text-sm font-medium text-white bg-green-600 hover:bg-green-700">
+                            {labels.xlsx}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ExportMenu;
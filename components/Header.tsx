@@ -1,36 +1,41 @@
 import React from 'react';
-import { Activity, Ship, Plane } from 'lucide-react';
-import { RateType, Language } from '../types';
+import { Activity, Ship, Plane, ArrowLeftRight, Grid3x3, FileSpreadsheet } from 'lucide-react';
+import { DashboardView, RateType, Language } from '../types';
+import { LANGUAGES, LANGUAGE_NAMES } from '../i18n';
 
 interface HeaderProps {
     activeType: RateType;
     onTypeChange: (type: RateType) => void;
+    view: DashboardView;
+    onViewChange: (view: DashboardView) => void;
     language: Language;
     onLanguageChange: (lang: Language) => void;
     labels: {
         title: string;
         import: string;
         export: string;
+        compare: string;
+        cross: string;
+        batch: string;
         bankRate: string;
+        language: string;
     };
 }
 
-const Header: React.FC<HeaderProps> = ({ activeType, onTypeChange, language, onLanguageChange, labels }) => {
+const Header: React.FC<HeaderProps> = ({ activeType, onTypeChange, view, onViewChange, language, onLanguageChange, labels }) => {
 
     const LanguageToggle = () => (
-        <div className="flex items-center bg-gray-100 rounded-lg p-1">
-            <button
-                onClick={() => onLanguageChange('KO')}
-                className={`px-2 py-1 text-xs font-medium rounded-md transition-colors ${language === 'KO' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
-            >
-                한글
-            </button>
-            <button
-                onClick={() => onLanguageChange('EN')}
-                className={`px-2 py-1 text-xs font-medium rounded-md transition-colors ${language === 'EN' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
-            >
-                EN
-            </button>
+        <div className="flex items-center bg-gray-100 rounded-lg p-1" role="group" aria-label={labels.language}>
+            {LANGUAGES.map((lang) => (
+                <button
+                    key={lang}
+                    onClick={() => onLanguageChange(lang)}
+                    className={`px-2 py-1 text-xs font-medium rounded-md transition-colors ${language === lang ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
+                    aria-pressed={language === lang}
+                >
+                    {LANGUAGE_NAMES[lang]}
+                </button>
+            ))}
         </div>
     );
 
@@ -61,7 +66,7 @@ const Header: React.FC<HeaderProps> = ({ activeType, onTypeChange, language, onL
                         <div className="flex gap-2 w-full md:w-auto">
                             <button
                                 onClick={() => onTypeChange(RateType.IMPORT)}
-                                className={`flex-1 md:flex-none inline-flex justify-center items-center px-3 py-2 border rounded-md text-sm font-medium transition-colors duration-150 ${activeType === RateType.IMPORT
+                                className={`flex-1 md:flex-none inline-flex justify-center items-center px-3 py-2 border rounded-md text-sm font-medium transition-colors duration-150 ${view === 'rates' && activeType === RateType.IMPORT
                                     ? 'border-blue-500 text-blue-600 bg-blue-50'
                                     : 'border-gray-300 text-gray-700 bg-white hover:bg-gray-50'
                                     }`}
@@ -71,7 +76,7 @@ const Header: React.FC<HeaderProps> = ({ activeType, onTypeChange, language, onL
                             </button>
                             <button
                                 onClick={() => onTypeChange(RateType.EXPORT)}
-                                className={`flex-1 md:flex-none inline-flex justify-center items-center px-3 py-2 border rounded-md text-sm font-medium transition-colors duration-150 ${activeType === RateType.EXPORT
+                                className={`flex-1 md:flex-none inline-flex justify-center items-center px-3 py-2 border rounded-md text-sm font-medium transition-colors duration-150 ${view === 'rates' && activeType === RateType.EXPORT
                                     ? 'border-green-500 text-green-600 bg-green-50'
                                     : 'border-gray-300 text-gray-700 bg-white hover:bg-gray-50'
                                     }`}
@@ -79,6 +84,36 @@ const Header: React.FC<HeaderProps> = ({ activeType, onTypeChange, language, onL
                                 <Plane className="mr-2 h-4 w-4" />
                                 {labels.export}
                             </button>
+                            <button
+                                onClick={() => onViewChange('compare')}
+                                className={`flex-1 md:flex-none inline-flex justify-center items-center px-3 py-2 border rounded-md text-sm font-medium transition-colors duration-150 ${view === 'compare'
+                                    ? 'border-purple-500 text-purple-600 bg-purple-50'
+                                    : 'border-gray-300 text-gray-700 bg-white hover:bg-gray-50'
+                                    }`}
+                            >
+                                <ArrowLeftRight className="mr-2 h-4 w-4" />
+                                {labels.compare}
+                            </button>
+                            <button
+                                onClick={() => onViewChange('cross')}
+                                className={`flex-1 md:flex-none inline-flex justify-center items-center px-3 py-2 border rounded-md text-sm font-medium transition-colors duration-150 ${view === 'cross'
+                                    ? 'border-amber-500 text-amber-600 bg-amber-50'
+                                    : 'border-gray-300 text-gray-700 bg-white hover:bg-gray-50'
+                                    }`}
+                            >
+                                <Grid3x3 className="mr-2 h-4 w-4" />
+                                {labels.cross}
+                            </button>
+                            <button
+                                onClick={() => onViewChange('batch')}
+                                className={`flex-1 md:flex-none inline-flex justify-center items-center px-3 py-2 border rounded-md text-sm font-medium transition-colors duration-150 ${view === 'batch'
+                                    ? 'border-emerald-500 text-emerald-600 bg-emerald-50'
+                                    : 'border-gray-300 text-gray-700 bg-white hover:bg-gray-50'
+                                    }`}
+                            >
+                                <FileSpreadsheet className="mr-2 h-4 w-4" />
+                                {labels.batch}
+                            </button>
                         </div>
                     </div>
 
@@ -1,10 +1,14 @@
 import React from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
 import { ChartDataPoint } from '../types';
+import { formatShortDate } from '../utils/dateUtils';
 
 export interface CurrencyConfig {
     key: string;
     color: string;
+    name?: string; // Legend and tooltip label; defaults to the key
+    dashed?: boolean; // Thin dashed line without dots, for overlays such as moving averages
+    percent?: boolean; // Plotted in percent against a right-hand axis, e.g. the gap to a reference rate
 }
 
 interface RateChartProps {
@@ -12,18 +16,23 @@ interface RateChartProps {
     isLoading: boolean;
     title: string;
     currencies: CurrencyConfig[];
+    indexed?: boolean; // Values are rebased to 100 rather than KRW rates
+    locale: string;
+    loadingLabel: string;
+    children?: React.ReactNode; // Rendered under the chart inside the card
 }
 
-const RateChart: React.FC<RateChartProps> = ({ data, isLoading, title, currencies }) => {
+const RateChart: React.FC<RateChartProps> = ({ data, isLoading, title, currencies, indexed = false, locale, loadingLabel, children }) => {
     if (isLoading) {
         return (
             <div className="h-80 flex items-center justify-center bg-gray-50 rounded-lg animate-pulse border border-gray-100">
-                <p className="text-gray-400">Loading chart data...</p>
+                <p className="text-gray-400">{loadingLabel}</p>
             </div>
         );
     }
 
     const chartData = [...data];
+    const percentKeys = new Set(currencies.filter((curr) => curr.percent).map((curr) => curr.key));
 
     return (
         <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
@@ -46,17 +55,30 @@ const RateChart: React.FC<RateChartProps> = ({ data, isLoading, title, currencie
                             tickLine={false}
                             axisLine={false}
                             tickMargin={10}
-                            tickFormatter={(val) => val.substring(5)} // Show MM-DD
+                            tickFormatter={(val) => formatShortDate(val, locale)}
                         />
                         <YAxis 
+                            yAxisId="value"
                             domain={['auto', 'auto']} 
                             tick={{fontSize: 12, fill: '#6b7280'}}
                             tickLine={false}
                             axisLine={false}
                             width={45}
                             padding={{ top: 20, bottom: 20 }}
-                            tickFormatter={(value) => Math.floor(value).toLocaleString()}
+                            tickFormatter={(value) => indexed ? value.toLocaleString(locale, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) : Math.floor(value).toLocaleString(locale)}
                         />
+                        {percentKeys.size > 0 && (
+                            <YAxis
+                                yAxisId="percent"
+                                orientation="right"
+                                tick={{fontSize: 12, fill: '#6b7280'}}
+                                tickLine={false}
+                                axisLine={false}
+                                width={45}
+                                tickFormatter={(value) => `${value.toLocaleString(locale)}%`}
+                            />
+                        )}
+                        {indexed && <ReferenceLine yAxisId="value" y={100} stroke="#9ca3af" strokeDasharray="4 4" />}
                         <Tooltip 
                             contentStyle={{ 
                                 backgroundColor: '#fff', 
@@ -66,23 +88,31 @@ const RateChart: React.FC<RateChartProps> = ({ data, isLoading, title, currencie
                                 fontSize: '12px'
                             }}
                             itemStyle={{ fontWeight: 500 }}
+                            formatter={(value, _name, item) =>
+                                typeof value === 'number' ? `${value.toLocaleString(locale)}${percentKeys.has(String(item.dataKey)) ? '%' : ''}` : value
+                            }
                         />
                         <Legend wrapperStyle={{ paddingTop: '10px', fontSize: '12px' }} iconType="circle" />
                         {currencies.map((curr) => (
                             <Line 
                                 key={curr.key}
+                                yAxisId={curr.percent ? 'percent' : 'value'}
                                 type="monotone" 
                                 dataKey={curr.key} 
+                                name={curr.name ?? curr.key}
                                 stroke={curr.color} 
-                                strokeWidth={3} 
-                                dot={{ r: 4, strokeWidth: 2, fill: '#fff' }} 
-                                activeDot={{ r: 7, strokeWidth: 0 }}
+                                strokeWidth={curr.dashed ? 1.5 : 3} 
+                                strokeDasharray={curr.dashed ? '5 3' : undefined}
+                                dot={curr.dashed ? false : { r: 4, strokeWidth: 2, fill: '#fff' }} 
+                                activeDot={curr.dashed ? { r: 4, strokeWidth: 0 } : { r: 7, strokeWidth: 0 }}
+                                connectNulls={curr.dashed}
                                 animationDuration={1000}
                             />
                         ))}
                     </LineChart>
                 </ResponsiveContainer>
             </div>
+            {children}
         </div>
     );
 };
@@ -0,0 +1,107 @@
+import React from 'react';
+import { RateStats } from '../utils/rateStats';
+import { fillTemplate } from '../i18n';
+
+// Trailing ranges offered for the charts and statistics, in weeks; 0 means every archived week.
+export const STATS_RANGES = [12, 26, 52, 0] as const;
+export type StatsRange = (typeof STATS_RANGES)[number];
+
+export interface RateStatsLabels {
+    range: string;
+    weeks: string; // "{weeks}" is replaced with the number of weeks
+    all: string;
+    movingAverage: string;
+    change: string;
+    high: string;
+    low: string;
+    average: string;
+    volatility: string;
+    volatilityHint: string;
+    period: string; // "{from}", "{to}" and "{count}" are replaced
+    noData: string;
+}
+
+interface RateStatsRangeSelectorProps {
+    value: StatsRange;
+    onChange: (range: StatsRange) => void;
+    availableWeeks: number; // Ranges longer than this would repeat "all" and are disabled
+    labels: Pick<RateStatsLabels, 'range' | 'weeks' | 'all'>;
+}
+
+export const RateStatsRangeSelector: React.FC<RateStatsRangeSelectorProps> = ({ value, onChange, availableWeeks, labels }) => (
+    <div className="inline-flex items-center gap-2 text-sm text-gray-500">
+        <span>{labels.range}</span>
+        <div className="flex items-center bg-gray-100 rounded-lg p-1" role="group" aria-label={labels.range}>
+            {STATS_RANGES.map((range) => (
+                <button
+                    key={range}
+                    type="button"
+                    onClick={() => onChange(range)}
+                    disabled={range > availableWeeks}
+                    className={`px-2 py-1 text-xs font-medium rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${value === range ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
+                    aria-pressed={value === range}
+                >
+                    {range ? fillTemplate(labels.weeks, { weeks: String(range) }) : labels.all}
+                </button>
+            ))}
+        </div>
+    </div>
+);
+
+interface RateStatsPanelProps {
+    stats: RateStats | null;
+    locale: string;
+    labels: RateStatsLabels;
+}
+
+const trendColor = (value: number): string => (value > 0 ? 'text-red-500' : value < 0 ? 'text-blue-500' : 'text-gray-500');
+
+/**
+ * Period statistics under a currency's trend chart: cumulative change, high/low with their weeks,
+ * average and weekly volatility.
+ */
+const RateStatsPanel: React.FC<RateStatsPanelProps> = ({ stats, locale, labels }) => {
+    if (!stats) {
+        return <p className="mt-4 text-sm text-gray-400">{labels.noData}</p>;
+    }
+
+    const formatRate = (value: number) => value.toLocaleString(locale, { maximumFractionDigits: 2 });
+    const formatSigned = (value: number, suffix = '') =>
+        `${value > 0 ? '+' : value < 0 ? '−' : ''}${Math.abs(value).toLocaleString(locale, { maximumFractionDigits: 2 })}${suffix}`;
+
+    const items: { label: string; value: string; detail?: string; className?: string; title?: string }[] = [
+        {
+            label: labels.change,
+            value: formatSigned(stats.change),
+            detail: formatSigned(stats.changePercent, '%'),
+            className: trendColor(stats.change)
+        },
+        { label: labels.high, value: formatRate(stats.high.rate), detail: stats.high.date },
+        { label: labels.low, value: formatRate(stats.low.rate), detail: stats.low.date },
+        { label: labels.average, value: formatRate(stats.average) },
+        {
+            label: labels.volatility,
+            value: stats.volatility === null ? '—' : `${stats.volatility.toLocaleString(locale, { maximumFractionDigits: 2 })}%`,
+            title: labels.volatilityHint
+        }
+    ];
+
+    return (
+        <div className="mt-4 border-t border-gray-100 pt-4">
+            <dl className="grid grid-cols-2 sm:grid-cols-5 gap-4">
+                {items.map((item) => (
+                    <div key={item.label} title={item.title}>
+                        <dt className="text-xs text-gray-500">{item.label}</dt>
+                        <dd className={`text-sm font-semibold tabular-nums ${item.className ?? 'text-gray-900'}`}>{item.value}</dd>
+                        {item.detail && <dd className={`text-xs tabular-nums ${item.className ?? 'text-gray-400'}`}>{item.detail}</dd>}
+                    </div>
+                ))}
+            </dl>
+            <p className="mt-3 text-xs text-gray-400">
+                {fillTemplate(labels.period, { from: stats.from, to: stats.to, count: String(stats.weekCount) })}
+            </p>
+        </div>
+    );
+};
+
+export default RateStatsPanel;
@@ -1,9 +1,23 @@
 import React from 'react';
-import { RateData } from '../types';
-import { Search } from 'lucide-react';
+import { RateData, RateSide, RateWeek } from '../types';
+import { Search, Star, ArrowUp, ArrowDown } from 'lucide-react';
+import ExportMenu, { ExportMenuLabels } from './ExportMenu';
+import Sparkline from './Sparkline';
+import { CURRENCY_REGIONS, CurrencyRegion, getCountryName, getCurrencyName, getCurrencyRegion, getKoreanCurrencyName, getRateQuoteUnit } from '../utils/currencyUtils';
+
+type SortKey = 'code' | 'name' | 'rate' | 'change' | 'changePercent';
+
+// Enough points to show a half-year trend without crowding a 72px line.
+const SPARKLINE_WEEKS = 26;
 
 interface RateTableProps {
     data: RateData[];
+    prevData: RateData[];
+    weeks: RateWeek[]; // every loaded week, newest first; feeds the sparklines
+    side: RateSide;
+    favourites: string[];
+    onFavouritesChange: (codes: string[]) => void;
+    locale: string;
     isLoading: boolean;
     labels: {
         title: string;
@@ -13,36 +27,325 @@ interface RateTableProps {
         rate: string;
         date: string;
         noData: string;
+        sortBy: string;
+        sort: Record<SortKey, string>;
+        groupByRegion: string;
+        favourites: string;
+        allCurrencies: string;
+        addFavourite: string;
+        removeFavourite: string;
+        keyboardHint: string;
+        regions: Record<CurrencyRegion, string>;
+    };
+    exportOptions?: {
+        weeks: RateWeek[];
+        week?: RateWeek;
+        side: 'import' | 'export';
+        labels: ExportMenuLabels;
     };
 }
 
-const RateTable: React.FC<RateTableProps> = ({ data, isLoading, labels }) => {
-    const [search, setSearch] = React.useState('');
+interface TableRow {
+    item: RateData;
+    unit: number; // quote unit, e.g. 100 for JPY
+    quoted: number; // KRW per quote unit, as the stat cards and charts show it
+    name: string;
+    altName: string | undefined;
+    countryName: string;
+    change: number | null;
+    changePercent: number | null;
+    region: CurrencyRegion;
+    trend: number[];
+}
+
+interface RowGroup {
+    key: string;
+    title: string | null;
+    rows: TableRow[];
+}
+
+const quotedRate = (item: RateData): number => Number((item.rate * getRateQuoteUnit(item)).toFixed(4));
+
+/**
+ * Quoted rates per currency over the weeks up to `startDate`, oldest first. Each week is indexed once,
+ * so the cost grows linearly with the archive rather than with weeks × currencies lookups.
+ */
+const buildTrends = (weeks: RateWeek[], side: RateSide, startDate: string | undefined): Map<string, number[]> => {
+    const trends = new Map<string, number[]>();
+    if (!startDate) return trends;
+
+    const recent = weeks.filter((week) => week.startDate <= startDate).slice(0, SPARKLINE_WEEKS).reverse();
+    for (const week of recent) {
+        for (const item of week[side]) {
+            const series = trends.get(item.currencyCode);
+            if (series) series.push(quotedRate(item));
+            else trends.set(item.currencyCode, [quotedRate(item)]);
+        }
+    }
+    return trends;
+};
+
+const compareRows = (key: SortKey, locale: string) => (a: TableRow, b: TableRow): number => {
+    switch (key) {
+        case 'code':
+            return a.item.currencyCode.localeCompare(b.item.currencyCode);
+        case 'name':
+            return a.name.localeCompare(b.name, locale);
+        case 'rate':
+            return a.quoted - b.quoted;
+        case 'change':
+        case 'changePercent': {
+            // Rows without a previous week sort last in either direction.
+            const left = a[key];
+            const right = b[key];
+            if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1;
+            return left - right;
+        }
+    }
+};
+
+const formatChange = (value: number | null, locale: string, suffix = ''): string => {
+    if (value === null) return '—';
+    const sign = value > 0 ? '▲' : value < 0 ? '▼' : '';
+    return `${sign}${Math.abs(value).toLocaleString(locale, { maximumFractionDigits: suffix ? 2 : 4 })}${suffix}`;
+};
+
+const changeColor = (value: number | null): string =>
+    value === null || value === 0 ? 'text-gray-400' : value > 0 ? 'text-red-500' : 'text-blue-500';
+
+interface RateRowProps {
+    row: TableRow;
+    index: number;
+    favourite: boolean;
+    focused: boolean;
+    locale: string;
+    onToggleFavourite: (code: string) => void;
+    onFocusRow: (index: number) => void;
+    favouriteLabel: string;
+}
 
-    const filteredData = data.filter(item => 
-        item.currencyName.toLowerCase().includes(search.toLowerCase()) || 
-        item.currencyCode.toLowerCase().includes(search.toLowerCase()) ||
-        item.countryCode.toLowerCase().includes(search.toLowerCase())
+const RateRow = React.memo<RateRowProps>(({ row, index, favourite, focused, locale, onToggleFavourite, onFocusRow, favouriteLabel }) => {
+    const { item } = row;
+    return (
+        <li
+            data-row-index={index}
+            tabIndex={focused ? 0 : -1}
+            onFocus={() => onFocusRow(index)}
+            className="px-4 py-3 border-b border-gray-100 last:border-0 hover:bg-gray-50 focus:bg-blue-50 focus:outline-none transition-colors"
+        >
+            <div className="flex items-center gap-3">
+                <button
+                    type="button"
+                    tabIndex={-1}
+                    onClick={() => onToggleFavourite(item.currencyCode)}
+                    className={`flex-shrink-0 p-1 rounded-full hover:bg-gray-100 ${favourite ? 'text-amber-400' : 'text-gray-300'}`}
+                    aria-label={`${favouriteLabel} ${item.currencyCode}`}
+                    aria-pressed={favourite}
+                >
+                    <Star className="h-4 w-4" fill={favourite ? 'currentColor' : 'none'} />
+                </button>
+                <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                        <span className="font-bold text-gray-900">{item.currencyCode}</span>
+                        {row.unit > 1 && <span className="text-xs text-gray-400">({row.unit})</span>}
+                        <span className="text-xs text-gray-400 font-medium px-1.5 py-0.5 bg-gray-100 rounded" title={row.countryName}>{item.countryCode}</span>
+                    </div>
+                    <div className="text-sm text-gray-500 mt-0.5 truncate" title={row.altName}>{row.name}</div>
+                </div>
+                <div className="text-right flex-shrink-0">
+                    <div className="font-bold text-gray-900 tabular-nums">
+                        {row.quoted.toLocaleString(locale)}
+                        <span className="text-xs font-normal text-gray-400 ml-1">KRW</span>
+                    </div>
+                    <div className="flex items-center justify-end gap-2 mt-1">
+                        <Sparkline values={row.trend} />
+                        <span className={`text-xs tabular-nums ${changeColor(row.change)}`}>
+                            {formatChange(row.change, locale)} ({formatChange(row.changePercent, locale, '%')})
+                        </span>
+                    </div>
+                </div>
+            </div>
+        </li>
     );
+});
+
+const RateTable: React.FC<RateTableProps> = ({ data, prevData, weeks, side, favourites, onFavouritesChange, locale, isLoading, labels, exportOptions }) => {
+    const [search, setSearch] = React.useState('');
+    const [sortKey, setSortKey] = React.useState<SortKey>('code');
+    const [sortDescending, setSortDescending] = React.useState(false);
+    const [grouped, setGrouped] = React.useState(false);
+    const [focusIndex, setFocusIndex] = React.useState(0);
+    const listRef = React.useRef<HTMLUListElement>(null);
+
+    // Matches codes plus the currency and country names in the current locale, the API's English name and Korean.
+    const matchesSearch = React.useCallback((item: RateData) => {
+        const query = search.trim().toLocaleLowerCase(locale);
+        if (!query) return true;
+        return [
+            item.currencyName,
+            item.currencyCode,
+            item.countryCode,
+            getKoreanCurrencyName(item.currencyCode) ?? '',
+            getCurrencyName(item.currencyCode, locale, item.currencyName),
+            getCountryName(item.countryCode, locale)
+        ].some((text) => text.toLocaleLowerCase(locale).includes(query));
+    }, [search, locale]);
+
+    const trends = React.useMemo(() => buildTrends(weeks, side, data[0]?.date), [weeks, side, data]);
+
+    const rows = React.useMemo<TableRow[]>(() => {
+        const previous = new Map(prevData.map((item) => [item.currencyCode, quotedRate(item)]));
+        return data.map((item) => {
+            const quoted = quotedRate(item);
+            const before = previous.get(item.currencyCode);
+            const change = before !== undefined ? Number((quoted - before).toFixed(4)) : null;
+            const name = getCurrencyName(item.currencyCode, locale, item.currencyName);
+            return {
+                item,
+                unit: getRateQuoteUnit(item),
+                quoted,
+                name,
+                altName: name !== item.currencyName ? item.currencyName : undefined,
+                countryName: getCountryName(item.countryCode, locale),
+                change,
+                changePercent: change !== null && before ? Number(((change / before) * 100).toFixed(2)) : null,
+                region: getCurrencyRegion(item.currencyCode),
+                trend: trends.get(item.currencyCode) ?? []
+            };
+        });
+    }, [data, prevData, trends, locale]);
+
+    const groups = React.useMemo<RowGroup[]>(() => {
+        const compare = compareRows(sortKey, locale);
+        const sorted = rows
+            .filter((row) => matchesSearch(row.item))
+            .sort((a, b) => (sortDescending ? compare(b, a) : compare(a, b)));
+
+        const favouriteRows = sorted.filter((row) => favourites.includes(row.item.currencyCode));
+        const otherRows = sorted.filter((row) => !favourites.includes(row.item.currencyCode));
+        const result: RowGroup[] = favouriteRows.length ? [{ key: 'favourites', title: labels.favourites, rows: favouriteRows }] : [];
+
+        if (!grouped) {
+            result.push({ key: 'all', title: favouriteRows.length ? labels.allCurrencies : null, rows: otherRows });
+        } else {
+            for (const region of CURRENCY_REGIONS) {
+                const regionRows = otherRows.filter((row) => row.region === region);
+                if (regionRows.length) result.push({ key: region, title: labels.regions[region], rows: regionRows });
+            }
+        }
+        return result.filter((group) => group.rows.length > 0);
+    }, [rows, matchesSearch, sortKey, sortDescending, locale, favourites, grouped, labels]);
+
+    const visibleRows = React.useMemo(() => groups.flatMap((group) => group.rows), [groups]);
+
+    const toggleFavourite = React.useCallback((code: string) => {
+        onFavouritesChange(favourites.includes(code) ? favourites.filter((c) => c !== code) : [...favourites, code]);
+    }, [favourites, onFavouritesChange]);
+
+    const handleSort = (key: SortKey) => {
+        if (key === sortKey) {
+            setSortDescending(!sortDescending);
+        } else {
+            setSortKey(key);
+            setSortDescending(key !== 'code' && key !== 'name');
+        }
+    };
+
+    const focusRow = (index: number) => {
+        const clamped = Math.max(0, Math.min(index, visibleRows.length - 1));
+        setFocusIndex(clamped);
+        listRef.current?.querySelector<HTMLElement>(`[data-row-index="${clamped}"]`)?.focus();
+    };
+
+    // Arrow keys, Home/End and PageUp/PageDown move between rows; Space or "f" toggles the focused favourite.
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLUListElement>) => {
+        const moves: Record<string, number> = { ArrowDown: 1, ArrowUp: -1, PageDown: 10, PageUp: -10 };
+        if (event.key in moves) {
+            focusRow(focusIndex + moves[event.key]);
+        } else if (event.key === 'Home') {
+            focusRow(0);
+        } else if (event.key === 'End') {
+            focusRow(visibleRows.length - 1);
+        } else if (event.key === ' ' || event.key === 'f') {
+            const row = visibleRows[focusIndex];
+            if (row) toggleFavourite(row.item.currencyCode);
+        } else {
+            return;
+        }
+        event.preventDefault();
+    };
+
+    React.useEffect(() => {
+        if (focusIndex >= visibleRows.length) setFocusIndex(0);
+    }, [focusIndex, visibleRows.length]);
+
+    const SortIcon = sortDescending ? ArrowDown : ArrowUp;
+    let rowIndex = 0;
 
     return (
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden flex flex-col h-full">
-            <div className="px-6 py-4 border-b border-gray-100 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
-                <h3 className="text-lg font-semibold text-gray-900">{labels.title}</h3>
-                <div className="relative w-full sm:w-auto">
+            <div className="px-6 py-4 border-b border-gray-100 flex flex-col gap-3">
+                <div className="flex items-center justify-between gap-3">
+                    <div>
+                        <h3 className="text-lg font-semibold text-gray-900">{labels.title}</h3>
+                        {data[0] && <p className="text-xs text-gray-400">{labels.date} {data[0].date}</p>}
+                    </div>
+                    {exportOptions && (
+                        <ExportMenu
+                            weeks={exportOptions.weeks}
+                            week={exportOptions.week}
+                            defaultScope="week"
+                            defaultSide={exportOptions.side}
+                            filter={matchesSearch}
+                            labels={exportOptions.labels}
+                        />
+                    )}
+                </div>
+                <div className="relative w-full">
                     <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                         <Search className="h-4 w-4 text-gray-400" />
                     </div>
                     <input
                         type="text"
-                        className="block w-full sm:w-64 pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm transition duration-150 ease-in-out"
+                        className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm transition duration-150 ease-in-out"
                         placeholder={labels.searchPlaceholder}
                         value={search}
                         onChange={(e) => setSearch(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Escape') setSearch('');
+                            if (e.key === 'ArrowDown' && visibleRows.length) {
+                                e.preventDefault();
+                                focusRow(0);
+                            }
+                        }}
                     />
                 </div>
+                <div className="flex flex-wrap items-center gap-1 text-xs">
+                    <span className="text-gray-500 mr-1">{labels.sortBy}</span>
+                    {(Object.keys(labels.sort) as SortKey[]).map((key) => (
+                        <button
+                            key={key}
+                            type="button"
+                            onClick={() => handleSort(key)}
+                            className={`inline-flex items-center gap-0.5 px-2 py-1 rounded-md border ${sortKey === key ? 'border-blue-500 text-blue-600 bg-blue-50' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                            aria-pressed={sortKey === key}
+                        >
+                            {labels.sort[key]}
+                            {sortKey === key && <SortIcon className="h-3 w-3" />}
+                        </button>
+                    ))}
+                    <label className="inline-flex items-center gap-1.5 ml-auto text-gray-600 cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            className="h-3.5 w-3.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            checked={grouped}
+                            onChange={(e) => setGrouped(e.target.checked)}
+                        />
+                        {labels.groupByRegion}
+                    </label>
+                </div>
             </div>
-            
+
             <div className="overflow-y-auto custom-scrollbar flex-grow relative">
                 {isLoading ? (
                      <div className="w-full p-4 space-y-4">
@@ -50,34 +353,34 @@ const RateTable: React.FC<RateTableProps> = ({ data, isLoading, labels }) => {
                             <div key={i} className="bg-gray-50 h-24 rounded-lg animate-pulse"></div>
                          ))}
                      </div>
-                ) : filteredData.length > 0 ? (
-                    <div className="">
-                        {filteredData.map((item) => (
-                            <div key={item.id} className="p-4 border-b border-gray-100 last:border-0 hover:bg-gray-50 transition-colors">
-                                <div className="flex justify-between items-start">
-                                    <div className="flex items-center gap-3">
-                                        <div className="flex-shrink-0 h-10 w-10 rounded-full bg-blue-50 flex items-center justify-center text-blue-600 font-bold text-sm shadow-sm border border-blue-100">
-                                            {item.countryCode}
-                                        </div>
-                                        <div>
-                                            <div className="flex items-center gap-2">
-                                                <span className="font-bold text-gray-900">{item.countryCode}</span>
-                                                <span className="text-xs text-gray-400 font-medium px-1.5 py-0.5 bg-gray-100 rounded">{item.currencyCode}</span>
-                                            </div>
-                                            <div className="text-sm text-gray-500 mt-0.5">{item.currencyName}</div>
-                                        </div>
-                                    </div>
-                                    <div className="text-right">
-                                        <div className="font-bold text-gray-900 text-lg">
-                                            {item.rate.toLocaleString('ko-KR')}
-                                            <span className="text-xs font-normal text-gray-400 ml-1">KRW</span>
-                                        </div>
-                                        <div className="text-xs text-gray-400 mt-1">{item.date}</div>
-                                    </div>
-                                </div>
-                            </div>
+                ) : visibleRows.length > 0 ? (
+                    <ul ref={listRef} onKeyDown={handleKeyDown} aria-label={labels.title} aria-describedby="rate-table-keyboard-hint">
+                        {groups.map((group) => (
+                            <React.Fragment key={group.key}>
+                                {group.title !== null && (
+                                    <li className="px-4 py-1.5 bg-gray-50 text-xs font-semibold text-gray-500 uppercase tracking-wide" role="presentation">
+                                        {group.title}
+                                    </li>
+                                )}
+                                {group.rows.map((row) => {
+                                    const index = rowIndex++;
+                                    return (
+                                        <RateRow
+                                            key={row.item.id}
+                                            row={row}
+                                            index={index}
+                                            favourite={favourites.includes(row.item.currencyCode)}
+                                            focused={index === focusIndex}
+                                            locale={locale}
+                                            onToggleFavourite={toggleFavourite}
+                                            onFocusRow={setFocusIndex}
+                                            favouriteLabel={favourites.includes(row.item.currencyCode) ? labels.removeFavourite : labels.addFavourite}
+                                        />
+                                    );
+                                })}
+                            </React.Fragment>
                         ))}
-                    </div>
+                    </ul>
                 ) : (
                     <div className="flex flex-col items-center justify-center h-full py-10 text-gray-500">
                         <Search className="h-10 w-10 text-gray-300 mb-2" />
@@ -85,8 +388,9 @@ const RateTable: React.FC<RateTableProps> = ({ data, isLoading, labels }) => {
                     </div>
                 )}
             </div>
+            <p id="rate-table-keyboard-hint" className="px-4 py-2 border-t border-gray-100 text-xs text-gray-400">{labels.keyboardHint}</p>
         </div>
     );
 };
 
-export default RateTable;
\ No newline at end of file
+export default RateTable;
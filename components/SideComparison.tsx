@@ -0,0 +1,176 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { RateWeek } from '../types';
+import { buildSideBySideRates, buildSpreadHistory } from '../utils/spreadUtils';
+import { getCurrencyName, getQuoteUnit } from '../utils/currencyUtils';
+import { fillTemplate } from '../i18n';
+import { formatShortDate } from '../utils/dateUtils';
+
+interface SideComparisonProps {
+    weeks: RateWeek[]; // newest first
+    week: RateWeek | undefined;
+    currency: string;
+    onCurrencyChange: (code: string) => void;
+    locale: string;
+    isLoading: boolean;
+    labels: {
+        tableTitle: string;
+        currency: string;
+        import: string;
+        export: string;
+        spread: string;
+        spreadPercent: string;
+        onlyImport: string;
+        onlyExport: string;
+        note: string;
+        chartTitle: string;
+        chartCurrency: string;
+        noData: string;
+    };
+}
+
+const formatRate = (value: number | null, locale: string): string =>
+    value === null ? '—' : value.toLocaleString(locale, { maximumFractionDigits: 4 });
+
+const formatSpread = (value: number | null, locale: string, suffix = ''): string => {
+    if (value === null) return '—';
+    const sign = value > 0 ? '+' : value < 0 ? '−' : '';
+    return `${sign}${Math.abs(value).toLocaleString(locale, { maximumFractionDigits: suffix ? 2 : 4 })}${suffix}`;
+};
+
+const spreadColor = (value: number | null): string =>
+    value === null || value === 0 ? 'text-gray-500' : value > 0 ? 'text-red-500' : 'text-blue-500';
+
+/**
+ * Import and export rates side by side for one week, plus the import/export spread history of one currency.
+ */
+const SideComparison: React.FC<SideComparisonProps> = ({ weeks, week, currency, onCurrencyChange, locale, isLoading, labels }) => {
+    const rows = React.useMemo(() => (week ? buildSideBySideRates(week) : []), [week]);
+    const history = React.useMemo(() => buildSpreadHistory(weeks, currency), [weeks, currency]);
+    const codes = React.useMemo(
+        () => Array.from(new Set(weeks.flatMap((item) => [...item.import, ...item.export].map((rate) => rate.currencyCode)))).sort(),
+        [weeks]
+    );
+
+    if (isLoading) {
+        return <div className="h-96 bg-gray-50 rounded-xl animate-pulse border border-gray-100" />;
+    }
+
+    const unit = rows.find((row) => row.currencyCode === currency)?.unit ?? getQuoteUnit(currency);
+
+    return (
+        <div className="flex flex-col gap-8">
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                    <h3 className="text-lg font-semibold text-gray-900">
+                        {fillTemplate(labels.chartTitle, { currency: unit > 1 ? `${currency} ${unit}` : currency })}
+                    </h3>
+                    <label className="inline-flex items-center gap-2 text-sm text-gray-500">
+                        {labels.chartCurrency}
+                        <select
+                            className="px-2 py-1 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                            value={currency}
+                            onChange={(e) => onCurrencyChange(e.target.value)}
+                        >
+                            {codes.map((code) => (
+                                <option key={code} value={code}>{code} · {getCurrencyName(code, locale)}</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+                {history.some((point) => point.spread !== undefined) ? (
+                    <div className="h-64 w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={history} margin={{ top: 10, right: 10, left: 10, bottom: 5 }}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" vertical={false} />
+                                <XAxis
+                                    dataKey="date"
+                                    tick={{ fontSize: 12, fill: '#6b7280' }}
+                                    tickLine={false}
+                                    axisLine={false}
+                                    tickMargin={10}
+                                    tickFormatter={(val) => formatShortDate(val, locale)}
+                                />
+                                <YAxis yAxisId="krw" tick={{ fontSize: 12, fill: '#6b7280' }} tickLine={false} axisLine={false} width={50} />
+                                <YAxis
+                                    yAxisId="percent"
+                                    orientation="right"
+                                    tick={{ fontSize: 12, fill: '#6b7280' }}
+                                    tickLine={false}
+                                    axisLine={false}
+                                    width={50}
+                                    tickFormatter={(value) => `${value}%`}
+                                />
+                                <ReferenceLine yAxisId="krw" y={0} stroke="#9ca3af" strokeDasharray="4 4" />
+                                <Tooltip
+                                    contentStyle={{ backgroundColor: '#fff', borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)', fontSize: '12px' }}
+                                    itemStyle={{ fontWeight: 500 }}
+                                />
+                                <Legend wrapperStyle={{ paddingTop: '10px', fontSize: '12px' }} iconType="circle" />
+                                <Line yAxisId="krw" type="monotone" dataKey="spread" name={labels.spread} stroke="#8b5cf6" strokeWidth={3} dot={{ r: 4, strokeWidth: 2, fill: '#fff' }} connectNulls={false} />
+                                <Line yAxisId="percent" type="monotone" dataKey="spreadPercent" name={labels.spreadPercent} stroke="#d97706" strokeWidth={2} strokeDasharray="5 3" dot={false} connectNulls={false} />
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+                ) : (
+                    <p className="py-10 text-center text-sm text-gray-500">{labels.noData}</p>
+                )}
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-100">
+                    <h3 className="text-lg font-semibold text-gray-900">{fillTemplate(labels.tableTitle, { week: week?.startDate ?? '' })}</h3>
+                    <p className="text-xs text-gray-400 mt-1">{labels.note}</p>
+                </div>
+                {rows.length > 0 ? (
+                    <div className="overflow-x-auto custom-scrollbar">
+                        <table className="min-w-full text-sm">
+                            <thead className="bg-gray-50 text-gray-500">
+                                <tr>
+                                    <th scope="col" className="px-4 py-3 text-left font-medium">{labels.currency}</th>
+                                    <th scope="col" className="px-4 py-3 text-right font-medium">{labels.import}</th>
+                                    <th scope="col" className="px-4 py-3 text-right font-medium">{labels.export}</th>
+                                    <th scope="col" className="px-4 py-3 text-right font-medium">{labels.spread}</th>
+                                    <th scope="col" className="px-4 py-3 text-right font-medium">{labels.spreadPercent}</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {rows.map((row) => (
+                                    <tr
+                                        key={row.currencyCode}
+                                        onClick={() => onCurrencyChange(row.currencyCode)}
+                                        className={`cursor-pointer hover:bg-gray-50 ${row.currencyCode === currency ? 'bg-blue-50' : ''}`}
+                                    >
+                                        <td className="px-4 py-3">
+                                            <div className="flex items-center gap-2">
+                                                <span className="font-bold text-gray-900">{row.currencyCode}</span>
+                                                {row.unit > 1 && (
+                                                    <span className="text-xs text-gray-400">({row.unit})</span>
+                                                )}
+                                                {row.importRate === null && (
+                                                    <span className="text-xs font-medium px-1.5 py-0.5 rounded bg-green-50 text-green-700">{labels.onlyExport}</span>
+                                                )}
+                                                {row.exportRate === null && (
+                                                    <span className="text-xs font-medium px-1.5 py-0.5 rounded bg-blue-50 text-blue-700">{labels.onlyImport}</span>
+                                                )}
+                                            </div>
+                                            <div className="text-xs text-gray-500 mt-0.5">{getCurrencyName(row.currencyCode, locale, row.currencyName)}</div>
+                                        </td>
+                                        <td className="px-4 py-3 text-right tabular-nums text-gray-900">{formatRate(row.importRate, locale)}</td>
+                                        <td className="px-4 py-3 text-right tabular-nums text-gray-900">{formatRate(row.exportRate, locale)}</td>
+                                        <td className={`px-4 py-3 text-right tabular-nums ${spreadColor(row.spread)}`}>{formatSpread(row.spread, locale)}</td>
+                                        <td className={`px-4 py-3 text-right tabular-nums ${spreadColor(row.spreadPercent)}`}>{formatSpread(row.spreadPercent, locale, '%')}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                ) : (
+                    <p className="py-10 text-center text-sm text-gray-500">{labels.noData}</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SideComparison;
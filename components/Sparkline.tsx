@@ -0,0 +1,34 @@
+import React from 'react';
+
+interface SparklineProps {
+    values: number[]; // oldest first
+    width?: number;
+    height?: number;
+}
+
+/**
+ * A tiny inline SVG trend line. Rendered without recharts so dozens of rows stay cheap.
+ */
+const Sparkline: React.FC<SparklineProps> = ({ values, width = 72, height = 20 }) => {
+    if (values.length < 2) return <span className="inline-block" style={{ width, height }} />;
+
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const range = max - min || 1;
+    const step = width / (values.length - 1);
+    const points = values
+        .map((value, index) => `${(index * step).toFixed(1)},${(height - 2 - ((value - min) / range) * (height - 4)).toFixed(1)}`)
+        .join(' ');
+
+    const first = values[0];
+    const last = values[values.length - 1];
+    const stroke = last > first ? '#ef4444' : last < first ? '#3b82f6' : '#9ca3af';
+
+    return (
+        <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="flex-shrink-0" aria-hidden="true">
+            <polyline points={points} fill="none" stroke={stroke} strokeWidth={1.5} strokeLinejoin="round" strokeLinecap="round" />
+        </svg>
+    );
+};
+
+export default Sparkline;
@@ -4,13 +4,21 @@ import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
 interface StatCardProps {
     currency: string;
     code: string;
-    rate: number;
+    rate: number | undefined; // undefined when the selected week has no rate for the currency
     prevRate: number | undefined;
     label: string;
+    noDataLabel: string;
+    locale: string;
+    isLoading?: boolean;
 }
 
-const StatCard: React.FC<StatCardProps> = ({ currency, code, rate, prevRate, label }) => {
-    const diff = prevRate ? rate - prevRate : 0;
+const StatCard: React.FC<StatCardProps> = ({ currency, code, rate, prevRate, label, noDataLabel, locale, isLoading = false }) => {
+    if (isLoading) {
+        return <div className="bg-white h-[124px] rounded-xl shadow-sm border border-gray-100 animate-pulse" />;
+    }
+
+    const hasRate = rate !== undefined;
+    const diff = hasRate && prevRate ? rate - prevRate : 0;
     const percentage = prevRate ? ((diff / prevRate) * 100).toFixed(2) : '0.00';
     
     let TrendIcon = Minus;
@@ -37,7 +45,11 @@ const StatCard: React.FC<StatCardProps> = ({ currency, code, rate, prevRate, lab
                         <dl>
                             <dt className="text-sm font-medium text-gray-500 truncate">{currency}</dt>
                             <dd>
-                                <div className="text-lg font-bold text-gray-900">{rate.toLocaleString('ko-KR')} <span className="text-xs font-normal text-gray-400">KRW</span></div>
+                                {hasRate ? (
+                                    <div className="text-lg font-bold text-gray-900">{rate.toLocaleString(locale)} <span className="text-xs font-normal text-gray-400">KRW</span></div>
+                                ) : (
+                                    <div className="text-lg font-medium text-gray-400">{noDataLabel}</div>
+                                )}
                             </dd>
                         </dl>
                     </div>
@@ -45,10 +57,16 @@ const StatCard: React.FC<StatCardProps> = ({ currency, code, rate, prevRate, lab
             </div>
             <div className="bg-gray-50 px-5 py-3">
                 <div className="text-sm">
-                    <div className={`font-medium inline-flex items-center ${trendColor}`}>
-                        <TrendIcon className="mr-1 h-4 w-4" aria-hidden="true" />
-                        {Math.abs(diff).toFixed(2)} ({percentage}%)
-                    </div>
+                    {hasRate && prevRate ? (
+                        <div className={`font-medium inline-flex items-center ${trendColor}`}>
+                            <TrendIcon className="mr-1 h-4 w-4" aria-hidden="true" />
+                            {Math.abs(diff).toLocaleString(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ({percentage}%)
+                        </div>
+                    ) : (
+                        <div className="font-medium inline-flex items-center text-gray-400">
+                            <Minus className="mr-1 h-4 w-4" aria-hidden="true" />
+                        </div>
+                    )}
                     <span className="text-gray-400 text-xs ml-2">{label}</span>
                 </div>
             </div>
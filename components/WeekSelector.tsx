@@ -0,0 +1,55 @@
+import React from 'react';
+import { CalendarDays } from 'lucide-react';
+import { addDays, getWeekStartDate } from '../utils/dateUtils';
+
+interface WeekSelectorProps {
+    weeks: string[]; // Available startDates, newest first
+    value: string;
+    onChange: (startDate: string) => void;
+    labels: {
+        week: string;
+        jumpToDate: string;
+        latest: string;
+    };
+}
+
+const WeekSelector: React.FC<WeekSelectorProps> = ({ weeks, value, onChange, labels }) => {
+    const options = weeks.includes(value) || !value ? weeks : [value, ...weeks];
+
+    const handleDateChange = (date: string) => {
+        const startDate = getWeekStartDate(date);
+        if (startDate) onChange(startDate);
+    };
+
+    return (
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+            <label className="block text-sm">
+                <span className="text-gray-500 inline-flex items-center gap-1">
+                    <CalendarDays className="h-4 w-4" />
+                    {labels.week}
+                </span>
+                <select
+                    className="mt-1 block w-full sm:w-64 px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                >
+                    {options.map((startDate) => (
+                        <option key={startDate} value={startDate}>
+                            {startDate} ~ {addDays(startDate, 6)}{startDate === weeks[0] ? ` (${labels.latest})` : ''}
+                        </option>
+                    ))}
+                </select>
+            </label>
+            <label className="block text-sm">
+                <span className="text-gray-500">{labels.jumpToDate}</span>
+                <input
+                    type="date"
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    onChange={(e) => handleDateChange(e.target.value)}
+                />
+            </label>
+        </div>
+    );
+};
+
+export default WeekSelector;
@@ -0,0 +1,89 @@
+// @vitest-environment happy-dom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateApiCurrencyHistory } from '../types';
+import { CustomsRateElement } from './customsRateElement';
+
+customElements.define('customs-rate', CustomsRateElement);
+
+const history = (currencyCode: string, currencyName: string, unit: number): RateApiCurrencyHistory => ({
+    schemaVersion: 2,
+    generatedAt: '2026-06-19T08:00:00.000Z',
+    currencyCode,
+    currencyName,
+    countryCode: currencyCode.slice(0, 2),
+    unit,
+    history: [
+        { startDate: '2026-06-14', endDate: '2026-06-20', import: 9.1, export: 9.05 },
+        { startDate: '2026-06-07', endDate: '2026-06-13', import: 9, export: null }
+    ]
+});
+
+const responses: Record<string, () => Response> = {
+    'https://rates.example/api/currencies/JPY.json': () => Response.json(history('JPY', 'Yen', 100)),
+    'https://rates.example/api/currencies/USD.json': () => new Response('Server Error', { status: 500 }),
+    'https://rates.example/api/currencies/EUR.json': () => Response.json({ ...history('EUR', 'Euro', 1), history: [{ startDate: '2026-06-14', import: '1500' }] })
+};
+
+const mount = async (attributes: Record<string, string>) => {
+    const element = document.createElement('customs-rate');
+    Object.entries({ src: 'https://rates.example', ...attributes }).forEach(([name, value]) => element.setAttribute(name, value));
+    document.body.appendChild(element);
+    await vi.waitFor(() => {
+        const card = element.shadowRoot?.querySelector('.card');
+        if (!card || card.querySelector('.status')?.textContent?.endsWith('…')) throw new Error('still loading');
+    });
+    return element.shadowRoot!;
+};
+
+beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal(
+        'fetch',
+        vi.fn(async (url: string) => responses[url]?.() ?? new Response('Not Found', { status: 404 }))
+    );
+});
+
+afterEach(() => {
+    document.body.innerHTML = '';
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('<customs-rate>', () => {
+    it('renders the latest quoted rate with a Korean currency name', async () => {
+        const root = await mount({ currency: 'jpy' });
+
+        expect(root.querySelector('.badge')?.textContent).toBe('JPY');
+        expect(root.querySelector('.name')?.textContent).toBe('일본 엔화 (100) · 수입');
+        expect(root.querySelector('.rate')?.textContent).toBe('910.00 KRW');
+        expect(root.querySelector('.trend')?.textContent).toBe('▲ 10.00 (1.11%)');
+        expect(root.querySelector('.trend')?.classList.contains('up')).toBe(true);
+        expect(root.querySelector('.meta:last-child')?.textContent).toBe('2026-06-14 ~ 2026-06-20 · 관세청 과세환율');
+    });
+
+    it('uses English labels and the export side', async () => {
+        const root = await mount({ currency: 'JPY', lang: 'en', type: 'export', theme: 'dark', size: 'sm' });
+
+        expect(root.querySelector('.name')?.textContent).toBe('Japanese Yen (100) · Export');
+        expect(root.querySelector('.rate')?.textContent).toBe('905.00 KRW');
+        // No previous export rate, so there is no change to show
+        expect(root.querySelector('.trend')).toBeNull();
+        expect(root.querySelector('.footer')?.textContent?.trim()).toBe('2026-06-14 ~ 2026-06-20 · Korea Customs rate');
+        expect(root.querySelector('.card')?.className).toBe('card sm dark');
+    });
+
+    it('shows "not found" for a currency the API does not publish', async () => {
+        const root = await mount({ currency: 'XYZ', lang: 'en' });
+        expect(root.querySelector('.status')?.textContent).toBe('No rate for XYZ.');
+    });
+
+    it('shows the error state when the request fails', async () => {
+        const root = await mount({ currency: 'USD' });
+        expect(root.querySelector('.status')?.textContent).toBe('환율을 불러오지 못했습니다.');
+    });
+
+    it('shows the error state when the document is malformed', async () => {
+        const root = await mount({ currency: 'EUR', lang: 'en' });
+        expect(root.querySelector('.status')?.textContent).toBe('Could not load the rate.');
+    });
+});
@@ -0,0 +1,219 @@
+import { RateApiCurrencyHistory, RateSide } from '../types';
+import { validateCurrencyHistory } from '../services/apiSchema';
+import { rateApiPaths } from '../services/customsApi';
+import { getCurrencyName } from '../utils/currencyUtils';
+
+type WidgetLanguage = 'ko' | 'en';
+type WidgetTheme = 'light' | 'dark' | 'auto';
+type WidgetSize = 'sm' | 'md' | 'lg';
+
+const LABELS = {
+    ko: {
+        import: '수입',
+        export: '수출',
+        vsPrevious: '전주 대비',
+        loading: '환율을 불러오는 중…',
+        error: '환율을 불러오지 못했습니다.',
+        notFound: (code: string) => `${code} 환율이 없습니다.`,
+        source: '관세청 과세환율'
+    },
+    en: {
+        import: 'Import',
+        export: 'Export',
+        vsPrevious: 'vs last week',
+        loading: 'Loading rate…',
+        error: 'Could not load the rate.',
+        notFound: (code: string) => `No rate for ${code}.`,
+        source: 'Korea Customs rate'
+    }
+};
+
+const STYLES = `
+    :host { display: inline-block; font-family: Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Apple SD Gothic Neo', sans-serif; }
+    :host([hidden]) { display: none; }
+    .card {
+        --bg: #fff; --fg: #111827; --muted: #6b7280; --footer: #f9fafb; --border: #f3f4f6; --badge: #f3f4f6; --badge-fg: #4b5563;
+        --up: #ef4444; --down: #3b82f6; --flat: #6b7280;
+        background: var(--bg); color: var(--fg); border: 1px solid var(--border); border-radius: 12px;
+        box-shadow: 0 1px 2px rgba(0, 0, 0, 0.05); overflow: hidden; box-sizing: border-box;
+    }
+    .card.dark {
+        --bg: #111827; --fg: #f9fafb; --muted: #9ca3af; --footer: #1f2937; --border: #374151; --badge: #374151; --badge-fg: #e5e7eb;
+        --up: #f87171; --down: #60a5fa;
+    }
+    .body { display: flex; align-items: center; gap: 16px; padding: 20px; }
+    .badge { display: inline-flex; align-items: center; justify-content: center; flex-shrink: 0; width: 40px; height: 40px; border-radius: 9999px; background: var(--badge); color: var(--badge-fg); font-size: 12px; font-weight: 700; }
+    .name { margin: 0; color: var(--muted); font-size: 14px; font-weight: 500; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+    .rate { margin: 0; font-size: 18px; font-weight: 700; font-variant-numeric: tabular-nums; }
+    .rate small { color: var(--muted); font-size: 12px; font-weight: 400; }
+    .footer { display: flex; flex-wrap: wrap; align-items: center; gap: 4px 8px; padding: 12px 20px; background: var(--footer); font-size: 14px; }
+    .trend { font-weight: 500; }
+    .trend.up { color: var(--up); }
+    .trend.down { color: var(--down); }
+    .trend.flat { color: var(--flat); }
+    .meta { color: var(--muted); font-size: 12px; }
+    .status { padding: 20px; color: var(--muted); font-size: 14px; }
+    .card.sm { width: 200px; }
+    .card.sm .body { padding: 12px; gap: 10px; }
+    .card.sm .badge { width: 32px; height: 32px; font-size: 10px; }
+    .card.sm .rate { font-size: 15px; }
+    .card.sm .footer { padding: 8px 12px; font-size: 12px; }
+    .card.md { width: 280px; }
+    .card.lg { width: 360px; }
+    .card.lg .body { padding: 24px; }
+    .card.lg .badge { width: 48px; height: 48px; font-size: 14px; }
+    .card.lg .rate { font-size: 24px; }
+`;
+
+// Every widget on a page that asks for the same currency shares one request.
+const historyRequests = new Map<string, Promise<RateApiCurrencyHistory | null>>();
+
+// Resolves to null on 404: the API has no file for currencies the Customs Service does not publish.
+// A malformed document rejects like a failed request, so the widget shows its error state.
+const loadHistory = (baseUrl: string, currencyCode: string): Promise<RateApiCurrencyHistory | null> => {
+    const url = new URL(rateApiPaths.currency(currencyCode), baseUrl).toString();
+    let pending = historyRequests.get(url);
+    if (!pending) {
+        pending = fetch(url)
+            .then((response) => {
+                if (response.status === 404) return null;
+                if (!response.ok) throw new Error(`Failed to load ${url} (${response.status})`);
+                return response.json().then((raw: unknown) => validateCurrencyHistory(raw, url));
+            })
+            .catch((error) => {
+                historyRequests.delete(url);
+                throw error;
+            });
+        historyRequests.set(url, pending);
+    }
+    return pending;
+};
+
+// Captured while the bundle executes so widgets default to the site that served the script.
+const scriptSrc = (document.currentScript as HTMLScriptElement | null)?.src;
+const DEFAULT_BASE_URL = scriptSrc ? new URL(scriptSrc).origin : window.location.origin;
+
+const escapeHtml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const pick = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T =>
+    allowed.includes((value || '').toLowerCase() as T) ? ((value || '').toLowerCase() as T) : fallback;
+
+/**
+ * `<customs-rate currency="USD" type="import" lang="en" theme="dark" size="sm">`
+ * A framework-free, StatCard-style card for the latest customs rate of one currency.
+ * Reads /api/currencies/{code}.json from `src` (default: the origin that served the script).
+ */
+export class CustomsRateElement extends HTMLElement {
+    static observedAttributes = ['currency', 'type', 'lang', 'theme', 'size', 'src'];
+
+    private readonly root: ShadowRoot;
+    private renderId = 0;
+
+    constructor() {
+        super();
+        this.root = this.attachShadow({ mode: 'open' });
+    }
+
+    connectedCallback() {
+        this.render();
+    }
+
+    attributeChangedCallback() {
+        if (this.isConnected) this.render();
+    }
+
+    private get currency(): string {
+        return (this.getAttribute('currency') || 'USD').trim().toUpperCase();
+    }
+
+    private get side(): RateSide {
+        return pick(this.getAttribute('type'), ['import', 'export'] as const, 'import');
+    }
+
+    private get language(): WidgetLanguage {
+        return pick(this.getAttribute('lang'), ['ko', 'en'] as const, 'ko');
+    }
+
+    private get theme(): WidgetTheme {
+        return pick(this.getAttribute('theme'), ['light', 'dark', 'auto'] as const, 'light');
+    }
+
+    private get size(): WidgetSize {
+        return pick(this.getAttribute('size'), ['sm', 'md', 'lg'] as const, 'md');
+    }
+
+    private cardClass(): string {
+        const dark = this.theme === 'dark' || (this.theme === 'auto' && window.matchMedia?.('(prefers-color-scheme: dark)').matches);
+        return `card ${this.size}${dark ? ' dark' : ''}`;
+    }
+
+    private show(content: string) {
+        this.root.innerHTML = `<style>${STYLES}</style><div class="${this.cardClass()}" part="card">${content}</div>`;
+    }
+
+    private async render() {
+        const renderId = ++this.renderId;
+        const labels = LABELS[this.language];
+        const { currency, side } = this;
+        this.show(`<div class="status">${labels.loading}</div>`);
+
+        try {
+            const history = await loadHistory(this.getAttribute('src') || DEFAULT_BASE_URL, currency);
+            if (renderId !== this.renderId) return;
+
+            const [latest, previous] = history?.history.filter((point) => point[side] !== null) ?? [];
+            if (!history || !latest) {
+                this.show(`<div class="status">${escapeHtml(labels.notFound(currency))}</div>`);
+                return;
+            }
+            this.show(this.renderCard(history, latest.startDate, latest.endDate, latest[side]!, previous?.[side] ?? undefined));
+        } catch (error) {
+            if (renderId !== this.renderId) return;
+            console.warn('[customs-rate]', error);
+            this.show(`<div class="status">${labels.error}</div>`);
+        }
+    }
+
+    private renderCard(history: RateApiCurrencyHistory, startDate: string, endDate: string, rate: number, previousRate: number | undefined): string {
+        const labels = LABELS[this.language];
+        const locale = this.language === 'en' ? 'en-US' : 'ko-KR';
+        const format = (value: number) => value.toLocaleString(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+        // Quoted the way the dashboard shows it, e.g. KRW per 100 JPY.
+        const quoted = rate * history.unit;
+        const previousQuoted = previousRate !== undefined ? previousRate * history.unit : undefined;
+        const name = `${getCurrencyName(history.currencyCode, locale, history.currencyName)}${history.unit > 1 ? ` (${history.unit})` : ''}`;
+
+        return `
+            <div class="body">
+                <span class="badge" part="badge">${escapeHtml(history.currencyCode)}</span>
+                <div style="min-width: 0">
+                    <p class="name">${escapeHtml(name)} · ${labels[this.side]}</p>
+                    <p class="rate">${format(quoted)} <small>KRW</small></p>
+                </div>
+            </div>
+            <div class="footer">
+                ${previousQuoted ? this.renderChange(quoted, previousQuoted, format) : ''}
+                <span class="meta">${escapeHtml(startDate)} ~ ${escapeHtml(endDate)} · ${labels.source}</span>
+            </div>`;
+    }
+
+    // Left out when there is no earlier rate for this side to compare against.
+    private renderChange(quoted: number, previousQuoted: number, format: (value: number) => string): string {
+        const labels = LABELS[this.language];
+        const diff = quoted - previousQuoted;
+        const percentage = ((diff / previousQuoted) * 100).toFixed(2);
+        const trend = diff > 0 ? 'up' : diff < 0 ? 'down' : 'flat';
+        const arrow = diff > 0 ? '▲' : diff < 0 ? '▼' : '–';
+
+        return `<span class="trend ${trend}">${arrow} ${format(Math.abs(diff))} (${percentage}%)</span>
+                <span class="meta">${labels.vsPrevious}</span>`;
+    }
+}
+
+declare global {
+    interface HTMLElementTagNameMap {
+        'customs-rate': CustomsRateElement;
+    }
+}
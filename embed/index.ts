@@ -0,0 +1,8 @@
+import { CustomsRateElement } from './customsRateElement';
+
+// Entry point of the standalone embed bundle (dist/embed/customs-rate.js). Safe to load more than once.
+if (!customElements.get('customs-rate')) {
+    customElements.define('customs-rate', CustomsRateElement);
+}
+
+export { CustomsRateElement };
@@ -0,0 +1,183 @@
+import type { Messages } from './ko';
+
+const en: Messages = {
+    header: { title: 'Korea Customs FX Rate', import: 'Import', export: 'Export', compare: 'Import vs Export', cross: 'Cross rates', batch: 'Batch convert', bankRate: 'View Bank Rate', language: 'Language' },
+    table: {
+        title: 'Exchange Rates List',
+        searchPlaceholder: 'Search currency...',
+        country: 'Country/Code',
+        currency: 'Currency',
+        rate: 'Rate (KRW)',
+        date: 'Apply Date',
+        noData: 'No data found.',
+        sortBy: 'Sort',
+        sort: { code: 'Code', name: 'Name', rate: 'Rate', change: 'Change', changePercent: 'Change %' },
+        groupByRegion: 'By region',
+        favourites: 'Favourites',
+        allCurrencies: 'All currencies',
+        addFavourite: 'Add to favourites',
+        removeFavourite: 'Remove from favourites',
+        keyboardHint: '↑↓ move · Home/End first/last · Space or F toggles favourite',
+        regions: { asia: 'Asia', americas: 'Americas', europe: 'Europe', 'middle-east': 'Middle East', oceania: 'Oceania', africa: 'Africa', other: 'Other' }
+    },
+    chart: {
+        trend: 'Weekly Trend ({currency})',
+        compare: 'Weekly Comparison (first week = 100)',
+        loading: 'Loading chart data...',
+        reference: 'Reference rate (weekly avg)',
+        gap: 'Customs gap (%)'
+    },
+    stats: {
+        range: 'Range',
+        weeks: '{weeks}W',
+        all: 'All',
+        movingAverage: '{weeks}-week MA',
+        change: 'Change',
+        high: 'High',
+        low: 'Low',
+        average: 'Average',
+        volatility: 'Weekly volatility',
+        volatilityHint: 'Standard deviation of weekly % changes',
+        period: '{from} – {to} · {count} weeks',
+        noData: 'No rates in the selected range.'
+    },
+    currencyPicker: { title: 'Pinned currencies', add: 'Add currency', remove: 'Remove', compare: 'Compare on one chart' },
+    card: { vsLastWeek: 'vs last week', noData: 'No data' },
+    comparison: {
+        tableTitle: 'Import vs export rates for the week of {week}',
+        currency: 'Currency',
+        import: 'Import (KRW)',
+        export: 'Export (KRW)',
+        spread: 'Spread',
+        spreadPercent: 'Spread %',
+        onlyImport: 'Import only',
+        onlyExport: 'Export only',
+        note: 'Spread = import rate − export rate; % is relative to the export rate. Click a row to chart that currency.',
+        chartTitle: 'Import/Export Spread History ({currency})',
+        chartCurrency: 'Currency',
+        noData: 'No data to compare.'
+    },
+    cross: {
+        side: 'Side',
+        import: 'Import',
+        export: 'Export',
+        matrixTitle: 'Cross rates for the week of {week}',
+        matrixNote: 'Amount of the column currency per unit of the row currency (per 100 for JPY, IDR and VND), derived from the KRW customs rates. Click a value to look it up above.',
+        showAll: 'Show all currencies',
+        lookupTitle: 'Currency pair lookup',
+        base: 'From',
+        quote: 'To',
+        swap: 'Swap currencies',
+        lookupResult: '{base} = {rate} {quote}',
+        historyTitle: '{pair} weekly trend',
+        noData: 'Both currencies need a rate in the week to derive a cross rate.'
+    },
+    batch: {
+        title: 'Batch invoice conversion',
+        privacy: 'Files are read and converted in your browser and never uploaded.',
+        drop: 'Drop a CSV or XLSX file with date, currency and amount columns here, or click to choose one.',
+        reading: 'Reading file…',
+        readError: 'Could not read the file: {error}',
+        fileSummary: '{file} · {count} lines',
+        clear: 'Clear',
+        mapping: 'Columns',
+        date: 'Date',
+        currency: 'Currency',
+        amount: 'Amount',
+        side: 'Side',
+        notMapped: 'Choose a column',
+        sideColumnHint: 'None (use default side)',
+        defaultSide: 'Default side',
+        import: 'Import',
+        export: 'Export',
+        mapRequired: 'Choose the date, currency and amount columns.',
+        loadingArchive: 'Loading archived weeks…',
+        archiveError: 'Archived weeks could not be loaded, so lines dated before the current data were not converted.',
+        retry: 'Retry',
+        summary: '{converted} of {total} lines converted',
+        errorCount: '{count} with errors',
+        errorsOnly: 'Errors only',
+        totalsTitle: 'Totals by currency',
+        lines: 'Lines',
+        krw: 'KRW',
+        grandTotal: 'Total in KRW',
+        linesTitle: 'Lines',
+        line: 'Row',
+        week: 'Applied week',
+        rate: 'Rate',
+        status: 'Status',
+        statuses: {
+            ok: 'Converted',
+            'invalid-date': 'Invalid date',
+            'invalid-amount': 'Invalid amount',
+            'negative-amount': 'Negative amount',
+            'invalid-side': 'Invalid side',
+            'unknown-currency': 'Unknown currency',
+            'out-of-range': 'Outside the data',
+            'no-rate': 'No rate that week',
+            'archive-pending': 'Loading archive',
+            'archive-error': 'Archive unavailable'
+        },
+        download: 'Download',
+        csv: 'CSV',
+        xlsx: 'Excel'
+    },
+    exportMenu: {
+        button: 'Export',
+        scope: 'Scope',
+        scopeWeek: 'Selected week (filtered rows)',
+        scopeHistory: 'All weeks (currency × week)',
+        side: 'Side',
+        import: 'Import',
+        export: 'Export',
+        both: 'Import + Export',
+        csv: 'CSV',
+        xlsx: 'Excel'
+    },
+    weekSelector: { week: 'Application week', jumpToDate: 'Jump to date', latest: 'latest' },
+    converter: {
+        title: 'Customs Value in KRW',
+        amount: 'Invoice amount',
+        currency: 'Currency',
+        date: 'Invoice / declaration date',
+        type: 'Side',
+        import: 'Import',
+        export: 'Export',
+        result: 'KRW value',
+        appliedRate: 'Applied rate:',
+        appliedWeek: 'Applied period:',
+        outOfRange: '{date} is not covered by the snapshot ({from} ~ {to}) or the archive; no applicable rate is available.',
+        loadError: 'Could not load the applicable rate for {date}. Try again later.',
+        missingCurrency: 'No {currency} rate is published for the week of {week}.',
+        invalidAmount: 'Enter the amount as a number.',
+        negativeAmount: 'The amount cannot be negative.'
+    },
+    status: {
+        loadError: 'Could not load the exchange rates.',
+        loadErrorDetail: 'Check your connection and try again.',
+        retry: 'Retry',
+        empty: 'No rate weeks have been published yet.',
+        emptyDetail: 'Check back after the next data refresh.',
+        stale: 'These rates may be out of date.',
+        staleDetail: 'Rates for the week of {expected} have been published, but this data only goes up to {latest}.',
+        offline: 'Offline — showing data as of {generatedAt}',
+        newWeek: 'Rates for the week of {week} are now available.',
+        refresh: 'Refresh',
+        weekMissing: 'No rates are published for the week of {week}.',
+        weekLoadError: 'Could not load the rates for the week of {week}.',
+        latestWeek: 'Go to the latest week',
+        archiveUnavailable: 'Older weeks could not be loaded.',
+        archiveUnavailableDetail: 'Charts and statistics cover the latest snapshot weeks only.'
+    },
+    footer: 'Korea Customs Rate Dashboard. Data provided by Korea Customs Service.',
+    footerLink: 'https://www.abitra.co',
+    info: {
+        text: 'Data is refreshed weekly from the Korea Customs Service and served from a static JSON snapshot.',
+        periodPrefix: 'Current Period: ',
+        selectedPeriodPrefix: 'Selected Period: ',
+        updatedPrefix: 'Last updated: ',
+        note: ''
+    }
+};
+
+export default en;
@@ -0,0 +1,64 @@
+import { Language } from '../types';
+import { readStorage, writeStorage } from '../utils/storage';
+import ko, { Messages } from './ko';
+import en from './en';
+import zh from './zh';
+import ja from './ja';
+
+export type { Messages };
+
+export const LANGUAGES: Language[] = ['KO', 'EN', 'ZH', 'JA'];
+
+// Each language is labelled in itself so readers can find their own.
+export const LANGUAGE_NAMES: Record<Language, string> = {
+    KO: '한글',
+    EN: 'EN',
+    ZH: '中文',
+    JA: '日本語'
+};
+
+// BCP 47 locales for Intl number, date and display-name formatting.
+export const LOCALES: Record<Language, string> = {
+    KO: 'ko-KR',
+    EN: 'en-US',
+    ZH: 'zh-CN',
+    JA: 'ja-JP'
+};
+
+const MESSAGES: Record<Language, Messages> = { KO: ko, EN: en, ZH: zh, JA: ja };
+
+const LANGUAGE_KEY = 'customs-rate:language';
+
+export const getMessages = (language: Language): Messages => MESSAGES[language];
+
+export const getLocale = (language: Language): string => LOCALES[language];
+
+/**
+ * Maps `KO`, `en`, `zh-TW`, `ja-JP` and the like onto a supported language, or null.
+ */
+export const parseLanguage = (value: string | null | undefined): Language | null => {
+    const primary = (value || '').split(/[-_]/)[0].toUpperCase();
+    return LANGUAGES.includes(primary as Language) ? (primary as Language) : null;
+};
+
+/**
+ * The reader's remembered choice, else the first supported browser language, else Korean.
+ * A `lang` query parameter takes precedence over both; see utils/urlState.ts.
+ */
+export const detectLanguage = (): Language => {
+    const remembered = readStorage<string | null>(LANGUAGE_KEY, null, (value): value is string => typeof value === 'string');
+    const preferred = [remembered, ...(navigator.languages ?? [navigator.language])];
+    for (const candidate of preferred) {
+        const language = parseLanguage(candidate);
+        if (language) return language;
+    }
+    return 'KO';
+};
+
+export const rememberLanguage = (language: Language): void => writeStorage(LANGUAGE_KEY, language);
+
+/**
+ * Fills `{name}` placeholders in a message. Unknown placeholders become empty strings.
+ */
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+    template.replace(/\{(\w+)\}/g, (_, name) => values[name] ?? '');
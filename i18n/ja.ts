@@ -0,0 +1,183 @@
+import type { Messages } from './ko';
+
+const ja: Messages = {
+    header: { title: '韓国関税庁 課税為替レート', import: '輸入', export: '輸出', compare: '輸入・輸出比較', cross: 'クロスレート', batch: '一括換算', bankRate: '銀行レートを見る', language: '言語' },
+    table: {
+        title: '為替レート一覧',
+        searchPlaceholder: '通貨を検索...',
+        country: '国/コード',
+        currency: '通貨名',
+        rate: 'レート (KRW)',
+        date: '適用日',
+        noData: 'データがありません。',
+        sortBy: '並べ替え',
+        sort: { code: 'コード', name: '通貨名', rate: 'レート', change: '変動', changePercent: '変動率' },
+        groupByRegion: '地域別',
+        favourites: 'お気に入り',
+        allCurrencies: 'すべての通貨',
+        addFavourite: 'お気に入りに追加',
+        removeFavourite: 'お気に入りから削除',
+        keyboardHint: '↑↓ 移動 · Home/End 先頭/末尾 · Space または F でお気に入り',
+        regions: { asia: 'アジア', americas: '米州', europe: 'ヨーロッパ', 'middle-east': '中東', oceania: 'オセアニア', africa: 'アフリカ', other: 'その他' }
+    },
+    chart: {
+        trend: '週間レート推移 ({currency})',
+        compare: '週間レート比較 (初週 = 100)',
+        loading: 'チャートデータを読み込み中...',
+        reference: '市場参考レート (週平均)',
+        gap: '課税レート乖離率 (%)'
+    },
+    stats: {
+        range: '期間',
+        weeks: '{weeks}週',
+        all: '全期間',
+        movingAverage: '{weeks}週移動平均',
+        change: '期間変動',
+        high: '高値',
+        low: '安値',
+        average: '平均',
+        volatility: '週間ボラティリティ',
+        volatilityHint: '週間変動率(%)の標準偏差',
+        period: '{from} ~ {to} · {count}週',
+        noData: '選択した期間にレートデータがありません。'
+    },
+    currencyPicker: { title: 'ピン留め通貨', add: '通貨を追加', remove: '削除', compare: '1つのチャートで比較' },
+    card: { vsLastWeek: '前週比', noData: 'データなし' },
+    comparison: {
+        tableTitle: '{week} 週の輸入・輸出レート比較',
+        currency: '通貨',
+        import: '輸入 (KRW)',
+        export: '輸出 (KRW)',
+        spread: 'スプレッド',
+        spreadPercent: 'スプレッド %',
+        onlyImport: '輸入のみ',
+        onlyExport: '輸出のみ',
+        note: 'スプレッド = 輸入レート − 輸出レート、% は輸出レート基準です。行をクリックするとチャートの通貨が切り替わります。',
+        chartTitle: '輸入・輸出スプレッド推移 ({currency})',
+        chartCurrency: '通貨',
+        noData: '比較できるデータがありません。'
+    },
+    cross: {
+        side: '区分',
+        import: '輸入',
+        export: '輸出',
+        matrixTitle: '{week} 週のクロスレート',
+        matrixNote: '行通貨 1 単位(JPY・IDR・VND は 100 単位)あたりの列通貨の金額で、ウォン建ての課税レートから算出しています。値をクリックすると上の照会に反映されます。',
+        showAll: 'すべての通貨を表示',
+        lookupTitle: '通貨ペア照会',
+        base: '基準通貨',
+        quote: '相手通貨',
+        swap: '通貨を入れ替え',
+        lookupResult: '{base} = {rate} {quote}',
+        historyTitle: '{pair} の週間推移',
+        noData: 'その週に両方の通貨のレートがある場合のみ算出できます。'
+    },
+    batch: {
+        title: '請求書の一括ウォン換算',
+        privacy: 'ファイルはブラウザ内でのみ読み込み・計算され、アップロードされません。',
+        drop: '日付・通貨・金額の列がある CSV または XLSX ファイルをここにドロップするか、クリックして選択してください。',
+        reading: 'ファイルを読み込み中…',
+        readError: 'ファイルを読み込めませんでした: {error}',
+        fileSummary: '{file} · {count} 行',
+        clear: 'クリア',
+        mapping: '列の割り当て',
+        date: '日付',
+        currency: '通貨',
+        amount: '金額',
+        side: '区分',
+        notMapped: '列を選択',
+        sideColumnHint: 'なし（既定の区分を使用）',
+        defaultSide: '既定の区分',
+        import: '輸入',
+        export: '輸出',
+        mapRequired: '日付・通貨・金額の列を選択してください。',
+        loadingArchive: '過去の週のレートを読み込み中…',
+        archiveError: '過去の週のレートを読み込めなかったため、それ以前の日付の行は換算されていません。',
+        retry: '再試行',
+        summary: '{total} 行中 {converted} 行を換算',
+        errorCount: 'エラー {count} 行',
+        errorsOnly: 'エラーのみ表示',
+        totalsTitle: '通貨別合計',
+        lines: '行数',
+        krw: 'ウォン換算額',
+        grandTotal: 'ウォン合計',
+        linesTitle: '行ごとの結果',
+        line: '行',
+        week: '適用週',
+        rate: '適用レート',
+        status: '状態',
+        statuses: {
+            ok: '換算済み',
+            'invalid-date': '日付エラー',
+            'invalid-amount': '金額エラー',
+            'negative-amount': '負の金額',
+            'invalid-side': '区分エラー',
+            'unknown-currency': '不明な通貨',
+            'out-of-range': 'データ期間外',
+            'no-rate': 'その週のレートなし',
+            'archive-pending': '過去レート読み込み中',
+            'archive-error': '過去レート読み込み失敗'
+        },
+        download: 'ダウンロード',
+        csv: 'CSV',
+        xlsx: 'Excel'
+    },
+    exportMenu: {
+        button: 'エクスポート',
+        scope: '範囲',
+        scopeWeek: '選択した週 (検索結果)',
+        scopeHistory: '全週 (通貨 × 週)',
+        side: '区分',
+        import: '輸入',
+        export: '輸出',
+        both: '輸入 + 輸出',
+        csv: 'CSV',
+        xlsx: 'Excel'
+    },
+    weekSelector: { week: '適用週', jumpToDate: '日付へ移動', latest: '最新' },
+    converter: {
+        title: '課税価格のウォン換算',
+        amount: 'インボイス金額',
+        currency: '通貨',
+        date: 'インボイス/申告日',
+        type: '区分',
+        import: '輸入',
+        export: '輸出',
+        result: 'ウォン換算額',
+        appliedRate: '適用レート:',
+        appliedWeek: '適用期間:',
+        outOfRange: '{date} はデータの期間 ({from} ~ {to}) にもアーカイブにもないため、適用レートが見つかりません。',
+        loadError: '{date} の適用レートを読み込めませんでした。しばらくしてから再度お試しください。',
+        missingCurrency: '{week} 週のレートに {currency} はありません。',
+        invalidAmount: '金額を数字で入力してください。',
+        negativeAmount: '金額に負の値は入力できません。'
+    },
+    status: {
+        loadError: '為替レートを読み込めませんでした。',
+        loadErrorDetail: '接続を確認してから再試行してください。',
+        retry: '再試行',
+        empty: '公表済みのレート週がありません。',
+        emptyDetail: '次回のデータ更新後にもう一度ご確認ください。',
+        stale: 'レートが最新でない可能性があります。',
+        staleDetail: '{expected} 週のレートが公表されていますが、現在のデータは {latest} 週までです。',
+        offline: 'オフライン — {generatedAt} 時点のデータを表示中',
+        newWeek: '{week} 週の新しいレートが公表されました。',
+        refresh: '更新',
+        weekMissing: '{week} 週のレートは公表されていません。',
+        weekLoadError: '{week} 週のレートを読み込めませんでした。',
+        latestWeek: '最新の週へ移動',
+        archiveUnavailable: '過去の週のレートを読み込めませんでした。',
+        archiveUnavailableDetail: 'グラフと統計は最新スナップショットの週のみを対象にしています。'
+    },
+    footer: 'Korea Customs Rate Dashboard. Data provided by Korea Customs Service.',
+    footerLink: 'https://www.abitra.co',
+    info: {
+        text: 'データは毎週韓国関税庁から更新され、静的な JSON スナップショットとして提供されます。',
+        periodPrefix: '現在の適用期間: ',
+        selectedPeriodPrefix: '選択した適用期間: ',
+        updatedPrefix: '最終更新: ',
+        note: ''
+    }
+};
+
+export default ja;
@@ -0,0 +1,187 @@
+/**
+ * Korean messages. The shape of this catalogue is the `Messages` type every other language must match,
+ * so a missing or misspelled key in another language fails the type-check.
+ */
+const ko = {
+    header: { title: "관세청고시 과세환율", import: "수입", export: "수출", compare: "수입·수출 비교", cross: "교차환율", batch: "일괄 환산", bankRate: "은행환율보기", language: "언어" },
+    table: {
+        title: "환율목록",
+        searchPlaceholder: "통화 검색...",
+        country: "국가/코드",
+        currency: "통화명",
+        rate: "환율 (KRW)",
+        date: "적용일자",
+        noData: "데이터가 없습니다.",
+        sortBy: "정렬",
+        sort: { code: "코드", name: "통화명", rate: "환율", change: "변동", changePercent: "변동률" },
+        groupByRegion: "지역별",
+        favourites: "즐겨찾기",
+        allCurrencies: "전체 통화",
+        addFavourite: "즐겨찾기 추가",
+        removeFavourite: "즐겨찾기 해제",
+        keyboardHint: "↑↓ 이동 · Home/End 처음/끝 · Space 또는 F 즐겨찾기",
+        regions: { asia: "아시아", americas: "미주", europe: "유럽", "middle-east": "중동", oceania: "오세아니아", africa: "아프리카", other: "기타" }
+    },
+    chart: {
+        trend: "주간 환율 추이 ({currency})",
+        compare: "주간 환율 비교 (첫 주 = 100)",
+        loading: "차트 데이터를 불러오는 중...",
+        reference: "시장 참고환율 (주간 평균)",
+        gap: "과세환율 괴리율 (%)"
+    },
+    stats: {
+        range: "기간",
+        weeks: "{weeks}주",
+        all: "전체",
+        movingAverage: "{weeks}주 이동평균",
+        change: "기간 변동",
+        high: "최고",
+        low: "최저",
+        average: "평균",
+        volatility: "주간 변동성",
+        volatilityHint: "주간 변동률(%)의 표준편차",
+        period: "{from} ~ {to} · {count}주",
+        noData: "선택한 기간에 환율 데이터가 없습니다."
+    },
+    currencyPicker: { title: "관심 통화", add: "통화 추가", remove: "제거", compare: "한 차트에서 비교" },
+    card: { vsLastWeek: "전주 대비", noData: "데이터 없음" },
+    comparison: {
+        tableTitle: "{week} 주간 수입·수출 환율 비교",
+        currency: "통화",
+        import: "수입 (KRW)",
+        export: "수출 (KRW)",
+        spread: "스프레드",
+        spreadPercent: "스프레드 %",
+        onlyImport: "수입만",
+        onlyExport: "수출만",
+        note: "스프레드 = 수입 환율 − 수출 환율, %는 수출 환율 대비입니다. 행을 누르면 차트 통화가 바뀝니다.",
+        chartTitle: "수입·수출 스프레드 추이 ({currency})",
+        chartCurrency: "통화",
+        noData: "비교할 데이터가 없습니다."
+    },
+    cross: {
+        side: "구분",
+        import: "수입",
+        export: "수출",
+        matrixTitle: "{week} 주간 교차환율",
+        matrixNote: "행 통화 1단위(JPY·IDR·VND는 100단위)에 해당하는 열 통화 금액입니다. 모두 원화 과세환율에서 계산한 값입니다. 값을 누르면 위 조회에 반영됩니다.",
+        showAll: "전체 통화 보기",
+        lookupTitle: "통화쌍 조회",
+        base: "기준 통화",
+        quote: "상대 통화",
+        swap: "통화 바꾸기",
+        lookupResult: "{base} = {rate} {quote}",
+        historyTitle: "{pair} 주간 추이",
+        noData: "해당 주간에 두 통화의 환율이 모두 있어야 계산할 수 있습니다."
+    },
+    batch: {
+        title: "송장 일괄 원화 환산",
+        privacy: "파일은 브라우저 안에서만 읽고 계산하며 서버로 전송되지 않습니다.",
+        drop: "날짜·통화·금액 열이 있는 CSV 또는 XLSX 파일을 끌어다 놓거나 클릭해 선택하세요.",
+        reading: "파일을 읽는 중…",
+        readError: "파일을 읽지 못했습니다: {error}",
+        fileSummary: "{file} · {count}줄",
+        clear: "지우기",
+        mapping: "열 지정",
+        date: "날짜",
+        currency: "통화",
+        amount: "금액",
+        side: "구분",
+        notMapped: "선택하세요",
+        sideColumnHint: "없음 (기본 구분 사용)",
+        defaultSide: "기본 구분",
+        import: "수입",
+        export: "수출",
+        mapRequired: "날짜, 통화, 금액 열을 지정하세요.",
+        loadingArchive: "과거 주간 환율을 불러오는 중…",
+        archiveError: "과거 주간 환율을 불러오지 못해 이전 날짜의 줄은 환산하지 못했습니다.",
+        retry: "다시 시도",
+        summary: "{total}줄 중 {converted}줄 환산",
+        errorCount: "오류 {count}줄",
+        errorsOnly: "오류만 보기",
+        totalsTitle: "통화별 합계",
+        lines: "줄 수",
+        krw: "원화 환산액",
+        grandTotal: "원화 합계",
+        linesTitle: "줄별 결과",
+        line: "행",
+        week: "적용 주간",
+        rate: "적용 환율",
+        status: "상태",
+        statuses: {
+            ok: "환산됨",
+            "invalid-date": "날짜 오류",
+            "invalid-amount": "금액 오류",
+            "negative-amount": "음수 금액",
+            "invalid-side": "구분 오류",
+            "unknown-currency": "알 수 없는 통화",
+            "out-of-range": "데이터 기간 밖",
+            "no-rate": "해당 주간 환율 없음",
+            "archive-pending": "과거 환율 불러오는 중",
+            "archive-error": "과거 환율 불러오기 실패"
+        },
+        download: "다운로드",
+        csv: "CSV",
+        xlsx: "Excel"
+    },
+    exportMenu: {
+        button: "내보내기",
+        scope: "범위",
+        scopeWeek: "선택 주간 (검색 결과)",
+        scopeHistory: "전체 주간 (통화 × 주간)",
+        side: "구분",
+        import: "수입",
+        export: "수출",
+        both: "수입 + 수출",
+        csv: "CSV",
+        xlsx: "Excel"
+    },
+    weekSelector: { week: "적용 주간", jumpToDate: "날짜로 이동", latest: "최신" },
+    converter: {
+        title: "과세가격 원화 환산",
+        amount: "송장 금액",
+        currency: "통화",
+        date: "송장/신고일자",
+        type: "구분",
+        import: "수입",
+        export: "수출",
+        result: "원화 환산액",
+        appliedRate: "적용 환율:",
+        appliedWeek: "적용 기간:",
+        outOfRange: "{date}은(는) 스냅샷 기간({from} ~ {to})과 아카이브 어디에도 없어 적용 환율을 찾을 수 없습니다.",
+        loadError: "{date} 적용 환율을 불러오지 못했습니다. 잠시 후 다시 시도하세요.",
+        missingCurrency: "{week} 주간 환율에 {currency} 통화가 없습니다.",
+        invalidAmount: "금액을 숫자로 입력하세요.",
+        negativeAmount: "금액은 0 이상이어야 합니다."
+    },
+    status: {
+        loadError: "환율 데이터를 불러오지 못했습니다.",
+        loadErrorDetail: "네트워크 연결을 확인한 뒤 다시 시도하세요.",
+        retry: "다시 시도",
+        empty: "게시된 환율 주간이 없습니다.",
+        emptyDetail: "다음 데이터 갱신 후 다시 확인하세요.",
+        stale: "최신 환율이 아닐 수 있습니다.",
+        staleDetail: "{expected} 주간 환율이 고시되었지만 현재 데이터는 {latest} 주간까지입니다.",
+        offline: "오프라인 — {generatedAt} 기준 데이터 표시 중",
+        newWeek: "새 적용 주간({week}) 환율이 게시되었습니다.",
+        refresh: "새로고침",
+        weekMissing: "{week} 주간에 고시된 환율이 없습니다.",
+        weekLoadError: "{week} 주간 환율을 불러오지 못했습니다.",
+        latestWeek: "최신 주간으로 이동",
+        archiveUnavailable: "이전 주간 환율을 불러오지 못했습니다.",
+        archiveUnavailableDetail: "차트와 통계는 최신 스냅샷 주간만 반영합니다."
+    },
+    footer: "아비트라",
+    footerLink: "https://www.abitra.co",
+    info: {
+        text: "데이터는 매주 금요일 19시에 GitHub Actions로 생성된 JSON 스냅샷을 사용합니다.",
+        periodPrefix: "현재 적용기간: ",
+        selectedPeriodPrefix: "선택 적용기간: ",
+        updatedPrefix: "마지막 업데이트: ",
+        note: ""
+    }
+};
+
+export type Messages = typeof ko;
+
+export default ko;
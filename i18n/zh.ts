@@ -0,0 +1,183 @@
+import type { Messages } from './ko';
+
+const zh: Messages = {
+    header: { title: '韩国海关课税汇率', import: '进口', export: '出口', compare: '进出口对比', cross: '交叉汇率', batch: '批量换算', bankRate: '查看银行汇率', language: '语言' },
+    table: {
+        title: '汇率列表',
+        searchPlaceholder: '搜索货币...',
+        country: '国家/代码',
+        currency: '货币名称',
+        rate: '汇率 (KRW)',
+        date: '适用日期',
+        noData: '暂无数据。',
+        sortBy: '排序',
+        sort: { code: '代码', name: '名称', rate: '汇率', change: '变动', changePercent: '变动率' },
+        groupByRegion: '按地区',
+        favourites: '收藏',
+        allCurrencies: '全部货币',
+        addFavourite: '加入收藏',
+        removeFavourite: '取消收藏',
+        keyboardHint: '↑↓ 移动 · Home/End 首/尾 · 空格或 F 切换收藏',
+        regions: { asia: '亚洲', americas: '美洲', europe: '欧洲', 'middle-east': '中东', oceania: '大洋洲', africa: '非洲', other: '其他' }
+    },
+    chart: {
+        trend: '每周汇率走势 ({currency})',
+        compare: '每周汇率对比 (首周 = 100)',
+        loading: '正在加载图表数据...',
+        reference: '市场参考汇率 (周平均)',
+        gap: '海关汇率偏差 (%)'
+    },
+    stats: {
+        range: '区间',
+        weeks: '{weeks}周',
+        all: '全部',
+        movingAverage: '{weeks}周移动平均',
+        change: '区间涨跌',
+        high: '最高',
+        low: '最低',
+        average: '平均',
+        volatility: '周波动率',
+        volatilityHint: '每周涨跌幅(%)的标准差',
+        period: '{from} ~ {to} · {count}周',
+        noData: '所选区间内没有汇率数据。'
+    },
+    currencyPicker: { title: '关注货币', add: '添加货币', remove: '移除', compare: '在同一图表中对比' },
+    card: { vsLastWeek: '较上周', noData: '无数据' },
+    comparison: {
+        tableTitle: '{week} 周进出口汇率对比',
+        currency: '货币',
+        import: '进口 (KRW)',
+        export: '出口 (KRW)',
+        spread: '价差',
+        spreadPercent: '价差 %',
+        onlyImport: '仅进口',
+        onlyExport: '仅出口',
+        note: '价差 = 进口汇率 − 出口汇率，% 以出口汇率为基准。点击行可切换图表货币。',
+        chartTitle: '进出口价差走势 ({currency})',
+        chartCurrency: '货币',
+        noData: '没有可对比的数据。'
+    },
+    cross: {
+        side: '类别',
+        import: '进口',
+        export: '出口',
+        matrixTitle: '{week} 当周交叉汇率',
+        matrixNote: '每单位行货币(JPY、IDR、VND 为每 100 单位)对应的列货币金额，均由韩元海关汇率推算。点击数值可在上方查询。',
+        showAll: '显示全部货币',
+        lookupTitle: '货币对查询',
+        base: '基准货币',
+        quote: '目标货币',
+        swap: '交换货币',
+        lookupResult: '{base} = {rate} {quote}',
+        historyTitle: '{pair} 每周走势',
+        noData: '当周两种货币都有汇率时才能推算。'
+    },
+    batch: {
+        title: '发票批量换算为韩元',
+        privacy: '文件仅在浏览器中读取和计算，不会上传。',
+        drop: '将包含日期、货币和金额列的 CSV 或 XLSX 文件拖到此处，或点击选择。',
+        reading: '正在读取文件…',
+        readError: '无法读取文件：{error}',
+        fileSummary: '{file} · {count} 行',
+        clear: '清除',
+        mapping: '列映射',
+        date: '日期',
+        currency: '货币',
+        amount: '金额',
+        side: '类别',
+        notMapped: '请选择列',
+        sideColumnHint: '无（使用默认类别）',
+        defaultSide: '默认类别',
+        import: '进口',
+        export: '出口',
+        mapRequired: '请选择日期、货币和金额列。',
+        loadingArchive: '正在加载历史周汇率…',
+        archiveError: '无法加载历史周汇率，较早日期的行未能换算。',
+        retry: '重试',
+        summary: '共 {total} 行，已换算 {converted} 行',
+        errorCount: '{count} 行有错误',
+        errorsOnly: '仅显示错误',
+        totalsTitle: '按货币合计',
+        lines: '行数',
+        krw: '韩元金额',
+        grandTotal: '韩元合计',
+        linesTitle: '逐行结果',
+        line: '行',
+        week: '适用周',
+        rate: '适用汇率',
+        status: '状态',
+        statuses: {
+            ok: '已换算',
+            'invalid-date': '日期无效',
+            'invalid-amount': '金额无效',
+            'negative-amount': '金额为负数',
+            'invalid-side': '类别无效',
+            'unknown-currency': '未知货币',
+            'out-of-range': '超出数据范围',
+            'no-rate': '该周无汇率',
+            'archive-pending': '正在加载历史汇率',
+            'archive-error': '历史汇率加载失败'
+        },
+        download: '下载',
+        csv: 'CSV',
+        xlsx: 'Excel'
+    },
+    exportMenu: {
+        button: '导出',
+        scope: '范围',
+        scopeWeek: '所选周 (筛选结果)',
+        scopeHistory: '全部周 (货币 × 周)',
+        side: '类别',
+        import: '进口',
+        export: '出口',
+        both: '进口 + 出口',
+        csv: 'CSV',
+        xlsx: 'Excel'
+    },
+    weekSelector: { week: '适用周', jumpToDate: '跳转到日期', latest: '最新' },
+    converter: {
+        title: '完税价格韩元换算',
+        amount: '发票金额',
+        currency: '货币',
+        date: '发票/申报日期',
+        type: '类别',
+        import: '进口',
+        export: '出口',
+        result: '韩元金额',
+        appliedRate: '适用汇率：',
+        appliedWeek: '适用期间：',
+        outOfRange: '{date} 不在数据范围 ({from} ~ {to}) 内，归档中也没有，无法找到适用汇率。',
+        loadError: '无法加载 {date} 的适用汇率，请稍后重试。',
+        missingCurrency: '{week} 周的汇率中没有 {currency}。',
+        invalidAmount: '请输入数字金额。',
+        negativeAmount: '金额不能为负数。'
+    },
+    status: {
+        loadError: '无法加载汇率数据。',
+        loadErrorDetail: '请检查网络连接后重试。',
+        retry: '重试',
+        empty: '尚未发布任何汇率周。',
+        emptyDetail: '请在下次数据更新后再查看。',
+        stale: '汇率可能不是最新的。',
+        staleDetail: '{expected} 周的汇率已公布，但当前数据仅到 {latest} 周。',
+        offline: '离线 — 显示截至 {generatedAt} 的数据',
+        newWeek: '{week} 周的新汇率已发布。',
+        refresh: '刷新',
+        weekMissing: '{week} 周没有公布的汇率。',
+        weekLoadError: '无法加载 {week} 周的汇率。',
+        latestWeek: '前往最新一周',
+        archiveUnavailable: '无法加载更早的汇率周。',
+        archiveUnavailableDetail: '图表和统计仅涵盖最新快照中的周。'
+    },
+    footer: 'Korea Customs Rate Dashboard. Data provided by Korea Customs Service.',
+    footerLink: 'https://www.abitra.co',
+    info: {
+        text: '数据每周从韩国关税厅更新，并以静态 JSON 快照提供。',
+        periodPrefix: '当前适用期间：',
+        selectedPeriodPrefix: '所选适用期间：',
+        updatedPrefix: '最后更新：',
+        note: ''
+    }
+};
+
+export default zh;
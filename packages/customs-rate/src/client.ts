@@ -0,0 +1,38 @@
+import { loadRateDataset, LoadRateDatasetOptions, RateDatasetSource } from './load.js';
+import {
+    convertToKrw,
+    CustomsRate,
+    CustomsRateQuery,
+    CustomsWeekSummary,
+    getCustomsRate,
+    getDatasetRange,
+    KrwConversion,
+    KrwConversionQuery,
+    listWeeks
+} from './lookup.js';
+import { RateDataset, RateDateRange } from './types.js';
+
+export interface CustomsRates {
+    dataset: RateDataset;
+    getCustomsRate: (query: CustomsRateQuery) => CustomsRate | null;
+    convertToKrw: (query: KrwConversionQuery) => KrwConversion | null;
+    listWeeks: () => CustomsWeekSummary[];
+    getRange: () => RateDateRange | null;
+}
+
+/**
+ * Binds the lookups to one validated dataset.
+ */
+export const createCustomsRates = (dataset: RateDataset): CustomsRates => ({
+    dataset,
+    getCustomsRate: (query) => getCustomsRate(dataset, query),
+    convertToKrw: (query) => convertToKrw(dataset, query),
+    listWeeks: () => listWeeks(dataset),
+    getRange: () => getDatasetRange(dataset)
+});
+
+/**
+ * Loads a dataset (see loadRateDataset) and binds the lookups to it.
+ */
+export const loadCustomsRates = async (source: RateDatasetSource, options?: LoadRateDatasetOptions): Promise<CustomsRates> =>
+    createCustomsRates(await loadRateDataset(source, options));
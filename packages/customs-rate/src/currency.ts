@@ -0,0 +1,11 @@
+/**
+ * Currencies that are conventionally quoted per 100 units (e.g. "일본 엔 (100)").
+ * Datasets store every rate per single unit, so these only affect display.
+ */
+const QUOTE_UNITS: Record<string, number> = {
+    JPY: 100,
+    IDR: 100,
+    VND: 100
+};
+
+export const getQuoteUnit = (currencyCode: string): number => QUOTE_UNITS[currencyCode.toUpperCase()] || 1;
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+    addDays,
+    getCurrentWeekSunday,
+    getLatestPublishedSunday,
+    getNextWeekSundayIfApplicable,
+    getRecentSundays,
+    getTodayKst,
+    getWeekStartDate
+} from './date.js';
+
+// KST is UTC+9, so e.g. Friday 17:00 KST is Friday 08:00 UTC.
+const utc = (iso: string) => new Date(iso);
+
+describe('getLatestPublishedSunday', () => {
+    it('switches to next week at Friday 17:00 KST', () => {
+        expect(getLatestPublishedSunday(utc('2026-06-26T07:59:59Z'))).toBe('20260621');
+        expect(getLatestPublishedSunday(utc('2026-06-26T08:00:00Z'))).toBe('20260628');
+        expect(getNextWeekSundayIfApplicable(utc('2026-06-26T07:59:59Z'))).toBeNull();
+        expect(getNextWeekSundayIfApplicable(utc('2026-06-26T08:00:00Z'))).toBe('20260628');
+    });
+
+    it('uses the KST day when it differs from the UTC day', () => {
+        // Saturday 00:30 KST is still Friday 15:30 UTC
+        expect(getLatestPublishedSunday(utc('2026-06-26T15:30:00Z'))).toBe('20260628');
+        // Saturday 23:59 KST
+        expect(getLatestPublishedSunday(utc('2026-06-27T14:59:00Z'))).toBe('20260628');
+        // Sunday 08:59 KST is still Saturday 23:59 UTC
+        expect(getLatestPublishedSunday(utc('2026-06-27T23:59:00Z'))).toBe('20260628');
+        expect(getNextWeekSundayIfApplicable(utc('2026-06-27T23:59:00Z'))).toBeNull();
+        // Monday 00:00 KST is still Sunday 15:00 UTC
+        expect(getLatestPublishedSunday(utc('2026-06-28T15:00:00Z'))).toBe('20260628');
+        expect(getCurrentWeekSunday(utc('2026-06-28T14:59:00Z'))).toBe('20260628');
+    });
+
+    it('rolls over into the next year', () => {
+        expect(getLatestPublishedSunday(utc('2027-01-01T07:59:00Z'))).toBe('20261227');
+        expect(getLatestPublishedSunday(utc('2027-01-01T08:00:00Z'))).toBe('20270103');
+        expect(getLatestPublishedSunday(utc('2026-12-31T15:00:00Z'))).toBe('20261227');
+    });
+});
+
+describe('getRecentSundays', () => {
+    it('starts from the latest published week, newest first', () => {
+        expect(getRecentSundays(3, utc('2026-06-26T07:59:00Z'))).toEqual(['20260621', '20260614', '20260607']);
+        expect(getRecentSundays(3, utc('2026-06-26T08:00:00Z'))).toEqual(['20260628', '20260621', '20260614']);
+    });
+
+    it('crosses the year boundary', () => {
+        expect(getRecentSundays(3, utc('2027-01-01T08:00:00Z'))).toEqual(['20270103', '20261227', '20261220']);
+        expect(getRecentSundays(0, utc('2027-01-01T08:00:00Z'))).toEqual([]);
+    });
+});
+
+describe('getWeekStartDate', () => {
+    it('returns the Sunday that opens the week', () => {
+        expect(getWeekStartDate('2026-06-28')).toBe('2026-06-28');
+        expect(getWeekStartDate('2026-06-27')).toBe('2026-06-21');
+        expect(getWeekStartDate('2027-01-02')).toBe('2026-12-27');
+        expect(getWeekStartDate('2027-01-03')).toBe('2027-01-03');
+        expect(getWeekStartDate('2028-03-01')).toBe('2028-02-27');
+    });
+
+    it('rejects malformed dates', () => {
+        expect(getWeekStartDate('20260628')).toBeNull();
+        expect(getWeekStartDate('')).toBeNull();
+    });
+});
+
+describe('getTodayKst and addDays', () => {
+    it('reads the KST calendar day and shifts across month and year ends', () => {
+        expect(getTodayKst(utc('2026-12-31T14:59:59Z'))).toBe('2026-12-31');
+        expect(getTodayKst(utc('2026-12-31T15:00:00Z'))).toBe('2027-01-01');
+        expect(addDays('2026-12-27', 6)).toBe('2027-01-02');
+        expect(addDays('2028-03-01', -1)).toBe('2028-02-29');
+        expect(addDays('bad', 1)).toBe('bad');
+    });
+});
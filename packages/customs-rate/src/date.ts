@@ -0,0 +1,113 @@
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+// Shifts an instant so that its UTC fields read as the KST wall-clock time.
+const toKst = (now: Date): Date => new Date(now.getTime() + KST_OFFSET_MS);
+
+const toIsoDateString = (d: Date): string => {
+    const year = d.getUTCFullYear();
+    const month = String(d.getUTCMonth() + 1).padStart(2, '0');
+    const day = String(d.getUTCDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+};
+
+const toCompactDateString = (d: Date): string => toIsoDateString(d).replace(/-/g, '');
+
+const parseIsoDate = (isoDate: string): Date | null => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(isoDate);
+    if (!match) return null;
+    const d = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+    return isNaN(d.getTime()) ? null : d;
+};
+
+/**
+ * Returns the Sunday (YYYYMMDD) that starts the KST week containing `now`.
+ */
+export const getCurrentWeekSunday = (now: Date = new Date()): string => {
+    const kstDate = toKst(now);
+    kstDate.setUTCDate(kstDate.getUTCDate() - kstDate.getUTCDay());
+    return toCompactDateString(kstDate);
+};
+
+/**
+ * Checks if it is currently past Friday 17:00 KST.
+ * If so, returns the YYYYMMDD string for the *upcoming* Sunday (next week's start).
+ * Otherwise returns null.
+ */
+export const getNextWeekSundayIfApplicable = (now: Date = new Date()): string | null => {
+    const kstDate = toKst(now);
+    const dayOfWeek = kstDate.getUTCDay(); // 0=Sun, 1=Mon, ..., 5=Fri, 6=Sat
+    const hour = kstDate.getUTCHours();
+
+    const isFriAfter17 = dayOfWeek === 5 && hour >= 17;
+    const isSat = dayOfWeek === 6;
+    if (!isFriAfter17 && !isSat) return null;
+
+    // Fri(5) + 2 = Sun, Sat(6) + 1 = Sun
+    kstDate.setUTCDate(kstDate.getUTCDate() + (7 - dayOfWeek));
+    return toCompactDateString(kstDate);
+};
+
+/**
+ * Returns the Sunday (YYYYMMDD) of the newest week whose rates are published:
+ * next week's from Friday 17:00 KST onwards, otherwise the current week's.
+ */
+export const getLatestPublishedSunday = (now: Date = new Date()): string =>
+    getNextWeekSundayIfApplicable(now) ?? getCurrentWeekSunday(now);
+
+/**
+ * Returns `count` week start dates (YYYYMMDD), newest first,
+ * beginning with the latest published week in KST.
+ */
+export const getRecentSundays = (count: number, now: Date = new Date()): string[] => {
+    const latest = parseIsoDate(formatDateForDisplay(getLatestPublishedSunday(now)))!;
+    const dates: string[] = [];
+
+    for (let i = 0; i < count; i++) {
+        const d = new Date(latest);
+        d.setUTCDate(latest.getUTCDate() - (i * 7));
+        dates.push(toCompactDateString(d));
+    }
+
+    return dates;
+};
+
+export const formatDateForDisplay = (yyyyMMdd: string): string => {
+    if (yyyyMMdd.length !== 8) return yyyyMMdd;
+    return `${yyyyMMdd.substring(0, 4)}-${yyyyMMdd.substring(4, 6)}-${yyyyMMdd.substring(6, 8)}`;
+};
+
+/**
+ * Returns today's date in KST as YYYY-MM-DD.
+ */
+export const getTodayKst = (now: Date = new Date()): string => toIsoDateString(toKst(now));
+
+/**
+ * Shifts a YYYY-MM-DD date by the given number of days.
+ * Returns the input unchanged if it cannot be parsed.
+ */
+export const addDays = (isoDate: string, days: number): string => {
+    const d = parseIsoDate(isoDate);
+    if (!d) return isoDate;
+    d.setUTCDate(d.getUTCDate() + days);
+    return toIsoDateString(d);
+};
+
+/**
+ * Returns the Sunday (YYYY-MM-DD) that opens the Sunday-to-Saturday customs week
+ * containing the given YYYY-MM-DD date, or null if the date is invalid.
+ */
+export const getWeekStartDate = (isoDate: string): string | null => {
+    const d = parseIsoDate(isoDate);
+    if (!d) return null;
+    d.setUTCDate(d.getUTCDate() - d.getUTCDay());
+    return toIsoDateString(d);
+};
+
+/**
+ * Formats a YYYY-MM-DD date as a locale-aware month and day (e.g. "6. 28." in Korean, "6/28" in English).
+ */
+export const formatShortDate = (isoDate: string, locale: string): string => {
+    const d = parseIsoDate(isoDate);
+    if (!d) return isoDate;
+    return new Intl.DateTimeFormat(locale, { month: 'numeric', day: 'numeric', timeZone: 'UTC' }).format(d);
+};
@@ -0,0 +1,21 @@
+export type { RateData, RateDataset, RateDateRange, RateSide, RateWeek } from './types.js';
+export type { CustomsRates } from './client.js';
+export type { LoadRateDatasetOptions, RateDatasetSource } from './load.js';
+export type { CustomsRate, CustomsRateQuery, CustomsWeekSummary, KrwConversion, KrwConversionQuery } from './lookup.js';
+
+export { createCustomsRates, loadCustomsRates } from './client.js';
+export { getQuoteUnit } from './currency.js';
+export {
+    addDays,
+    formatDateForDisplay,
+    formatShortDate,
+    getCurrentWeekSunday,
+    getLatestPublishedSunday,
+    getNextWeekSundayIfApplicable,
+    getRecentSundays,
+    getTodayKst,
+    getWeekStartDate
+} from './date.js';
+export { loadRateDataset } from './load.js';
+export { convertToKrw, findWeekForDate, getCustomsRate, getDatasetRange, listWeeks } from './lookup.js';
+export { RATE_SCHEMA_VERSION, RateDatasetValidationError, validateRateDataset, validateRateWeeks } from './schema.js';
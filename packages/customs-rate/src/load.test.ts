@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+import { loadRateDataset } from './load.js';
+import { RATE_SCHEMA_VERSION, RateDatasetValidationError } from './schema.js';
+import { RateDataset } from './types.js';
+
+const snapshotUrl = new URL('../../../public/exchange-rates.json', import.meta.url);
+const archiveUrl = new URL('../../../public/archive/2026.json', import.meta.url);
+
+const v1Document = {
+    generatedAt: '2026-06-05T12:00:00.000Z',
+    weeks: [
+        {
+            startDate: '2026-06-07',
+            import: [
+                {
+                    id: '20260607-USD-1',
+                    countryCode: 'US',
+                    currencyName: 'US Dollar',
+                    currencyCode: 'USD',
+                    rate: 1380.5,
+                    date: '2026-06-07',
+                    type: 'import'
+                }
+            ],
+            export: []
+        }
+    ]
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('loadRateDataset', () => {
+    it('validates and upgrades an in-memory document', async () => {
+        const dataset = await loadRateDataset(v1Document as unknown as RateDataset);
+        expect(dataset.schemaVersion).toBe(RATE_SCHEMA_VERSION);
+        expect(dataset.weeks[0].import[0].unit).toBe(1);
+    });
+
+    it('reads the snapshot from a file URL and a file path', async () => {
+        const fromUrl = await loadRateDataset(snapshotUrl);
+        const fromPath = await loadRateDataset(snapshotUrl.pathname);
+        expect(fromUrl.weeks.length).toBeGreaterThan(0);
+        expect(fromPath).toEqual(fromUrl);
+    });
+
+    it('reads a yearly archive file', async () => {
+        const dataset = await loadRateDataset(archiveUrl);
+        expect(dataset.generatedAt).toBe('');
+        expect(dataset.weeks.length).toBeGreaterThan(0);
+        expect(dataset.weeks.every((week) => week.startDate.startsWith('2026-'))).toBe(true);
+    });
+
+    it('fetches http URLs with the given fetch and init', async () => {
+        const fetchImpl = vi.fn(async () => jsonResponse(v1Document));
+        const dataset = await loadRateDataset('https://example.test/exchange-rates.json', {
+            fetch: fetchImpl,
+            init: { cache: 'no-store' }
+        });
+
+        expect(fetchImpl).toHaveBeenCalledWith('https://example.test/exchange-rates.json', { cache: 'no-store' });
+        expect(dataset.weeks[0].endDate).toBe('2026-06-13');
+    });
+
+    it('reports HTTP failures with the status', async () => {
+        const fetchImpl = vi.fn(async () => jsonResponse({}, 404));
+        await expect(loadRateDataset('https://example.test/missing.json', { fetch: fetchImpl })).rejects.toThrow(
+            'Failed to load rate dataset https://example.test/missing.json (404)'
+        );
+    });
+
+    it('throws a validation error naming the source', async () => {
+        const fetchImpl = vi.fn(async () => jsonResponse({ ...v1Document, weeks: 'none' }));
+        const error = await loadRateDataset('https://example.test/bad.json', { fetch: fetchImpl }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(RateDatasetValidationError);
+        expect(error.message).toContain('rate dataset https://example.test/bad.json');
+        expect(error.issues).toEqual(['weeks is "none", expected an array']);
+    });
+});
@@ -0,0 +1,65 @@
+import { RATE_SCHEMA_VERSION, validateRateDataset, validateRateWeeks } from './schema.js';
+import { RateDataset } from './types.js';
+
+/**
+ * Where a dataset comes from: an http(s) URL (a relative URL in the browser), a file path or `file:` URL in Node,
+ * or an already parsed document. Snapshots (exchange-rates.json) and yearly archive files (archive/{year}.json) both work.
+ */
+export type RateDatasetSource = string | URL | RateDataset;
+
+export interface LoadRateDatasetOptions {
+    fetch?: typeof fetch; // Defaults to the global fetch
+    init?: RequestInit; // Passed to fetch, e.g. { cache: 'no-store' }
+}
+
+// Kept in a variable so bundlers leave the import alone; it only runs in Node.
+const NODE_FS_MODULE = 'node:fs/promises';
+
+const isNode = (): boolean => typeof (globalThis as { process?: { versions?: { node?: string } } }).process?.versions?.node === 'string';
+
+const isFileSource = (source: string | URL): boolean => {
+    if (source instanceof URL) return source.protocol === 'file:';
+    return isNode() && !/^https?:\/\//i.test(source);
+};
+
+const readFileSource = async (source: string | URL): Promise<unknown> => {
+    const { readFile } = (await import(/* @vite-ignore */ NODE_FS_MODULE)) as {
+        readFile: (path: string | URL, encoding: 'utf-8') => Promise<string>;
+    };
+    return JSON.parse(await readFile(source, 'utf-8'));
+};
+
+const fetchSource = async (source: string | URL, { fetch: fetchImpl = globalThis.fetch, init }: LoadRateDatasetOptions): Promise<unknown> => {
+    const response = await fetchImpl(source, init);
+    if (!response.ok) {
+        throw new Error(`Failed to load rate dataset ${source} (${response.status})`);
+    }
+    return response.json();
+};
+
+// Archive files carry `year` instead of `generatedAt` and may predate `schemaVersion`.
+const toRateDataset = (raw: unknown, context: string): RateDataset => {
+    const doc = raw as Record<string, unknown> | null;
+    if (doc && typeof doc === 'object' && typeof doc.year === 'number' && doc.generatedAt === undefined) {
+        return {
+            schemaVersion: RATE_SCHEMA_VERSION,
+            generatedAt: '',
+            ...(typeof doc.source === 'string' ? { source: doc.source } : {}),
+            weeks: validateRateWeeks(doc.weeks, typeof doc.schemaVersion === 'number' ? doc.schemaVersion : 1, context)
+        };
+    }
+    return validateRateDataset(raw, context);
+};
+
+/**
+ * Loads a rate dataset from a URL, a file path or memory, validates it and upgrades it to the current schema.
+ * Throws a RateDatasetValidationError listing every problem found in the document.
+ */
+export const loadRateDataset = async (source: RateDatasetSource, options: LoadRateDatasetOptions = {}): Promise<RateDataset> => {
+    if (typeof source !== 'string' && !(source instanceof URL)) {
+        return toRateDataset(source, 'in-memory rate dataset');
+    }
+
+    const raw = isFileSource(source) ? await readFileSource(source) : await fetchSource(source, options);
+    return toRateDataset(raw, `rate dataset ${source}`);
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { createCustomsRates } from './client.js';
+import { convertToKrw, findWeekForDate, getCustomsRate, getDatasetRange, listWeeks } from './lookup.js';
+import { validateRateDataset } from './schema.js';
+
+const entry = (currencyCode: string, rate: number, date: string, type: 'import' | 'export' = 'import') => ({
+    id: `${date.replace(/-/g, '')}-${currencyCode}-1`,
+    countryCode: currencyCode.slice(0, 2),
+    currencyName: `${currencyCode} name`,
+    currencyCode,
+    rate,
+    date,
+    type
+});
+
+const dataset = validateRateDataset({
+    generatedAt: '2026-06-12T08:00:00.000Z',
+    weeks: [
+        {
+            startDate: '2026-06-07',
+            import: [entry('USD', 1380.5, '2026-06-07'), entry('JPY', 9.12345, '2026-06-07')],
+            export: [entry('USD', 1379.5, '2026-06-07', 'export'), entry('EUR', 1500, '2026-06-07', 'export')]
+        },
+        {
+            startDate: '2026-05-31',
+            import: [entry('USD', 1370, '2026-05-31')],
+            export: []
+        }
+    ]
+});
+
+describe('findWeekForDate', () => {
+    it('matches every day from Sunday to Saturday', () => {
+        expect(findWeekForDate(dataset, '2026-06-07')?.startDate).toBe('2026-06-07');
+        expect(findWeekForDate(dataset, '2026-06-13')?.startDate).toBe('2026-06-07');
+        expect(findWeekForDate(dataset, '2026-06-06')?.startDate).toBe('2026-05-31');
+        expect(findWeekForDate(dataset, '2026-06-14')).toBeUndefined();
+        expect(findWeekForDate(dataset, 'not-a-date')).toBeUndefined();
+    });
+});
+
+describe('getDatasetRange', () => {
+    it('spans the first Sunday to the last Saturday', () => {
+        expect(getDatasetRange(dataset)).toEqual({ from: '2026-05-31', to: '2026-06-13' });
+        expect(getDatasetRange({ ...dataset, weeks: [] })).toBeNull();
+    });
+});
+
+describe('getCustomsRate', () => {
+    it('returns the rate with its week and quotation unit', () => {
+        expect(getCustomsRate(dataset, { date: '2026-06-10', currency: 'jpy' })).toEqual({
+            currencyCode: 'JPY',
+            currencyName: 'JPY name',
+            countryCode: 'JP',
+            type: 'import',
+            date: '2026-06-10',
+            weekStart: '2026-06-07',
+            weekEnd: '2026-06-13',
+            rate: 9.12345,
+            unit: 100,
+            quotedRate: 912.345
+        });
+    });
+
+    it('looks up the export side when asked', () => {
+        expect(getCustomsRate(dataset, { date: '2026-06-07', currency: 'USD', type: 'export' })?.rate).toBe(1379.5);
+        expect(getCustomsRate(dataset, { date: '2026-06-07', currency: 'EUR' })).toBeNull();
+    });
+
+    it('uses the KST calendar day of a Date', () => {
+        // 2026-06-06T15:30Z is Sunday 00:30 in Seoul
+        const rate = getCustomsRate(dataset, { date: new Date('2026-06-06T15:30:00Z'), currency: 'USD' });
+        expect(rate?.date).toBe('2026-06-07');
+        expect(rate?.rate).toBe(1380.5);
+    });
+
+    it('returns null outside the dataset', () => {
+        expect(getCustomsRate(dataset, { date: '2026-06-20', currency: 'USD' })).toBeNull();
+    });
+});
+
+describe('convertToKrw', () => {
+    it('multiplies by the per-unit rate', () => {
+        const result = convertToKrw(dataset, { date: '2026-06-07', currency: 'JPY', amount: 1000 });
+        expect(result?.krw).toBeCloseTo(9123.45, 6);
+        expect(convertToKrw(dataset, { date: '2026-06-20', currency: 'JPY', amount: 1000 })).toBeNull();
+    });
+});
+
+describe('listWeeks', () => {
+    it('lists weeks newest first with their currencies', () => {
+        expect(listWeeks(dataset)).toEqual([
+            { startDate: '2026-06-07', endDate: '2026-06-13', currencies: ['EUR', 'JPY', 'USD'] },
+            { startDate: '2026-05-31', endDate: '2026-06-06', currencies: ['USD'] }
+        ]);
+    });
+});
+
+describe('createCustomsRates', () => {
+    it('binds the lookups to one dataset', () => {
+        const rates = createCustomsRates(dataset);
+        expect(rates.getRange()).toEqual(getDatasetRange(dataset));
+        expect(rates.getCustomsRate({ date: '2026-06-01', currency: 'USD' })?.rate).toBe(1370);
+    });
+});
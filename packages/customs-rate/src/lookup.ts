@@ -0,0 +1,106 @@
+import { getQuoteUnit } from './currency.js';
+import { addDays, getTodayKst, getWeekStartDate } from './date.js';
+import { RateDataset, RateDateRange, RateSide, RateWeek } from './types.js';
+
+export interface CustomsRateQuery {
+    date: string | Date; // YYYY-MM-DD, or an instant whose KST calendar day is used
+    currency: string; // ISO code, e.g. USD; case-insensitive
+    type?: RateSide; // Defaults to import
+}
+
+export interface CustomsRate {
+    currencyCode: string;
+    currencyName: string;
+    countryCode: string;
+    type: RateSide;
+    date: string; // The queried day, YYYY-MM-DD
+    weekStart: string; // Sunday that opens the applicable customs week
+    weekEnd: string; // Saturday that closes it
+    rate: number; // KRW per single unit
+    unit: number; // Conventional quotation unit, e.g. 100 for JPY
+    quotedRate: number; // KRW per `unit` units, as the Customs Service publishes it
+}
+
+export interface KrwConversionQuery extends CustomsRateQuery {
+    amount: number; // In units of `currency`
+}
+
+export interface KrwConversion {
+    amount: number;
+    krw: number; // amount × rate, unrounded
+    rate: CustomsRate;
+}
+
+export interface CustomsWeekSummary {
+    startDate: string;
+    endDate: string;
+    fetchedAt?: string;
+    currencies: string[]; // Codes published on either side, sorted
+}
+
+const toIsoDate = (date: string | Date): string => (typeof date === 'string' ? date : getTodayKst(date));
+
+/**
+ * Finds the week whose Sunday-to-Saturday application window contains the given YYYY-MM-DD date.
+ */
+export const findWeekForDate = (dataset: RateDataset, date: string): RateWeek | undefined => {
+    const startDate = getWeekStartDate(date);
+    if (!startDate) return undefined;
+    return dataset.weeks.find((week) => week.startDate === startDate);
+};
+
+/**
+ * Returns the first and last covered day (YYYY-MM-DD) of the dataset, or null if it has no weeks.
+ */
+export const getDatasetRange = (dataset: RateDataset): RateDateRange | null => {
+    const starts = dataset.weeks.map((week) => week.startDate).filter(Boolean).sort();
+    if (!starts.length) return null;
+    return { from: starts[0], to: addDays(starts[starts.length - 1], 6) };
+};
+
+/**
+ * The customs rate that applies to a currency on a day. Null when the date is invalid, its week is not in the
+ * dataset or the currency was not published that week.
+ */
+export const getCustomsRate = (dataset: RateDataset, { date, currency, type = 'import' }: CustomsRateQuery): CustomsRate | null => {
+    const isoDate = toIsoDate(date);
+    const week = findWeekForDate(dataset, isoDate);
+    const code = currency.toUpperCase();
+    const entry = week?.[type].find((item) => item.currencyCode === code);
+    if (!week || !entry) return null;
+
+    const unit = entry.unit || getQuoteUnit(code);
+    return {
+        currencyCode: code,
+        currencyName: entry.currencyName,
+        countryCode: entry.countryCode,
+        type,
+        date: isoDate,
+        weekStart: week.startDate,
+        weekEnd: week.endDate,
+        rate: entry.rate,
+        unit,
+        quotedRate: Number((entry.rate * unit).toFixed(4))
+    };
+};
+
+/**
+ * Converts a foreign-currency amount to KRW at the customs rate for its day, or null when there is no rate.
+ */
+export const convertToKrw = (dataset: RateDataset, { amount, ...query }: KrwConversionQuery): KrwConversion | null => {
+    const rate = getCustomsRate(dataset, query);
+    return rate ? { amount, krw: amount * rate.rate, rate } : null;
+};
+
+/**
+ * Every week in the dataset, newest first.
+ */
+export const listWeeks = (dataset: RateDataset): CustomsWeekSummary[] =>
+    [...dataset.weeks]
+        .sort((a, b) => b.startDate.localeCompare(a.startDate))
+        .map((week) => ({
+            startDate: week.startDate,
+            endDate: week.endDate,
+            ...(week.fetchedAt ? { fetchedAt: week.fetchedAt } : {}),
+            currencies: Array.from(new Set([...week.import, ...week.export].map((item) => item.currencyCode))).sort()
+        }));
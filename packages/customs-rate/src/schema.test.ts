@@ -0,0 +1,173 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { RATE_SCHEMA_VERSION, RateDatasetValidationError, validateRateDataset, validateRateWeeks } from './schema.js';
+
+const readPublicJson = (relativePath: string): unknown =>
+    JSON.parse(readFileSync(new URL(`../../../public/${relativePath}`, import.meta.url), 'utf8'));
+
+const entry = (currencyCode: string, rate: unknown, overrides: Record<string, unknown> = {}) => ({
+    id: `20260607-${currencyCode}-1`,
+    countryCode: currencyCode.slice(0, 2),
+    currencyName: currencyCode,
+    currencyCode,
+    rate,
+    date: '2026-06-07',
+    type: 'import',
+    ...overrides
+});
+
+const v1Document = (weeks: unknown[]) => ({
+    generatedAt: '2026-06-05T12:00:00.000Z',
+    source: 'test',
+    weeks
+});
+
+const v1Week = (startDate: string, imports: unknown[] = [entry('USD', 1380.5)]) => ({
+    startDate,
+    import: imports,
+    export: []
+});
+
+const issuesOf = (run: () => unknown): string[] => {
+    try {
+        run();
+    } catch (error) {
+        if (error instanceof RateDatasetValidationError) return error.issues;
+        throw error;
+    }
+    throw new Error('expected a RateDatasetValidationError');
+};
+
+describe('validateRateDataset', () => {
+    it('accepts the checked-in snapshot and archive', () => {
+        const snapshot = validateRateDataset(readPublicJson('exchange-rates.json'));
+        expect(snapshot.schemaVersion).toBe(RATE_SCHEMA_VERSION);
+        expect(snapshot.weeks.length).toBeGreaterThan(0);
+        for (const week of snapshot.weeks) {
+            expect(week.import.length).toBeGreaterThan(0);
+            expect(week.export.length).toBeGreaterThan(0);
+        }
+
+        const archive = readPublicJson('archive/2026.json') as { weeks: unknown };
+        expect(validateRateWeeks(archive.weeks, 1, 'archive 2026').length).toBeGreaterThan(0);
+    });
+
+    it('upgrades a v1 document on read', () => {
+        const dataset = validateRateDataset(
+            v1Document([v1Week('2026-06-07', [entry('USD', 1380.5), entry('JPY', 9.1234)])])
+        );
+
+        expect(dataset.schemaVersion).toBe(RATE_SCHEMA_VERSION);
+        expect(dataset.source).toBe('test');
+        expect(dataset.weeks[0].endDate).toBe('2026-06-13');
+        expect(dataset.weeks[0].import.map((item) => [item.currencyCode, item.unit])).toEqual([
+            ['USD', 1],
+            ['JPY', 100]
+        ]);
+    });
+
+    it('keeps units and end dates from a v2 document', () => {
+        const dataset = validateRateDataset({
+            schemaVersion: 2,
+            generatedAt: '2026-06-05T12:00:00.000Z',
+            weeks: [
+                {
+                    startDate: '2026-06-07',
+                    endDate: '2026-06-13',
+                    fetchedAt: '2026-06-05T12:00:00.000Z',
+                    import: [entry('JPY', 9.1234, { unit: 100 })],
+                    export: []
+                }
+            ]
+        });
+
+        expect(dataset.weeks[0].fetchedAt).toBe('2026-06-05T12:00:00.000Z');
+        expect(dataset.weeks[0].import[0].unit).toBe(100);
+    });
+
+    it('requires units and end dates once the document declares v2', () => {
+        const issues = issuesOf(() =>
+            validateRateDataset({
+                schemaVersion: 2,
+                generatedAt: '2026-06-05T12:00:00.000Z',
+                weeks: [v1Week('2026-06-07')]
+            })
+        );
+
+        expect(issues).toContain('week 2026-06-07 endDate is missing, expected "2026-06-13"');
+        expect(issues).toContain('week 2026-06-07 import USD unit is missing');
+    });
+
+    it('rejects unsupported schema versions', () => {
+        expect(issuesOf(() => validateRateDataset({ ...v1Document([]), schemaVersion: 3 }))).toEqual([
+            `schemaVersion 3 is not supported (expected 1-${RATE_SCHEMA_VERSION})`
+        ]);
+    });
+
+    it('reports missing fields', () => {
+        const { id: _id, currencyName: _currencyName, ...incomplete } = entry('USD', 1380.5);
+        const issues = issuesOf(() =>
+            validateRateDataset({ weeks: [{ startDate: '2026-06-07', import: [incomplete] }] })
+        );
+
+        expect(issues).toEqual([
+            'generatedAt is missing',
+            'week 2026-06-07 import USD id is missing',
+            'week 2026-06-07 import USD currencyName is missing',
+            'week 2026-06-07 export is missing, expected an array'
+        ]);
+    });
+
+    it('rejects non-numeric and negative rates', () => {
+        const issues = issuesOf(() =>
+            validateRateDataset(
+                v1Document([
+                    v1Week('2026-06-07', [
+                        entry('USD', '1380.5'),
+                        entry('EUR', Number.NaN),
+                        entry('GBP', null),
+                        entry('JPY', -9.1)
+                    ])
+                ])
+            )
+        );
+
+        expect(issues).toEqual([
+            'week 2026-06-07 import USD rate is "1380.5"',
+            'week 2026-06-07 import EUR rate is NaN',
+            'week 2026-06-07 import GBP rate is null',
+            'week 2026-06-07 import JPY rate is negative (-9.1)'
+        ]);
+    });
+
+    it('lets zero rates through for the anomaly check to flag', () => {
+        const dataset = validateRateDataset(v1Document([v1Week('2026-06-07', [entry('USD', 0)])]));
+        expect(dataset.weeks[0].import[0].rate).toBe(0);
+    });
+
+    it('rejects duplicate weeks and duplicate currencies within a week', () => {
+        const issues = issuesOf(() =>
+            validateRateDataset(
+                v1Document([
+                    v1Week('2026-06-07'),
+                    v1Week('2026-06-07'),
+                    v1Week('2026-06-14', [
+                        entry('USD', 1380.5, { date: '2026-06-14' }),
+                        entry('USD', 1381, { date: '2026-06-14' })
+                    ])
+                ])
+            )
+        );
+
+        expect(issues).toEqual([
+            'week 2026-06-07 appears more than once',
+            'week 2026-06-14 import USD appears more than once'
+        ]);
+    });
+
+    it('rejects week start dates that are not Sundays', () => {
+        expect(issuesOf(() => validateRateDataset(v1Document([v1Week('2026-06-08')])))).toEqual([
+            'week 2026-06-08 startDate is not a Sunday'
+        ]);
+    });
+});
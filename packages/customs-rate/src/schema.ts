@@ -0,0 +1,248 @@
+import { getQuoteUnit } from './currency.js';
+import { addDays, getWeekStartDate } from './date.js';
+import { RateData, RateDataset, RateWeek } from './types.js';
+
+/**
+ * Version history of public/exchange-rates.json and the archive files:
+ * 1 - no `schemaVersion`; weeks carry only `startDate`, entries have no `unit`.
+ * 2 - adds `schemaVersion`, per-week `endDate`/`fetchedAt` and per-entry `unit`.
+ * Older documents are upgraded on read, so callers always receive the current shape.
+ */
+export const RATE_SCHEMA_VERSION = 2;
+
+export class RateDatasetValidationError extends Error {
+    readonly issues: string[];
+
+    constructor(issues: string[], context = 'rate dataset') {
+        const preview = issues.slice(0, 5).join('; ');
+        const more = issues.length > 5 ? ` (+${issues.length - 5} more)` : '';
+        super(`Invalid ${context}: ${preview}${more}`);
+        this.name = 'RateDatasetValidationError';
+        this.issues = issues;
+    }
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describeValue = (value: unknown): string => {
+    if (typeof value === 'number' && Number.isNaN(value)) return 'NaN';
+    if (value === undefined) return 'missing';
+    return JSON.stringify(value);
+};
+
+const validateEntry = (
+    entry: unknown,
+    side: 'import' | 'export',
+    week: string,
+    index: number,
+    schemaVersion: number,
+    issues: string[]
+): RateData | null => {
+    if (!isRecord(entry)) {
+        issues.push(`week ${week} ${side} entry #${index} is not an object`);
+        return null;
+    }
+
+    const code = typeof entry.currencyCode === 'string' ? entry.currencyCode : '';
+    const label = `week ${week} ${side} ${code || `entry #${index}`}`;
+    const before = issues.length;
+
+    const rate = typeof entry.rate === 'number' && Number.isFinite(entry.rate) ? entry.rate : null;
+    const id = typeof entry.id === 'string' && entry.id ? entry.id : null;
+    const countryCode = typeof entry.countryCode === 'string' ? entry.countryCode : null;
+    const currencyName = typeof entry.currencyName === 'string' ? entry.currencyName : null;
+    const date = typeof entry.date === 'string' && ISO_DATE.test(entry.date) ? entry.date : null;
+    const unit = schemaVersion < 2
+        ? getQuoteUnit(code)
+        : typeof entry.unit === 'number' && Number.isInteger(entry.unit) && entry.unit > 0 ? entry.unit : null;
+
+    if (!CURRENCY_CODE.test(code)) {
+        issues.push(`${label} currencyCode is ${describeValue(entry.currencyCode)}`);
+    }
+    if (rate === null) {
+        issues.push(`${label} rate is ${describeValue(entry.rate)}`);
+    } else if (rate < 0) {
+        issues.push(`${label} rate is negative (${rate})`);
+    }
+    if (id === null) {
+        issues.push(`${label} id is ${describeValue(entry.id)}`);
+    }
+    if (countryCode === null) {
+        issues.push(`${label} countryCode is ${describeValue(entry.countryCode)}`);
+    }
+    if (currencyName === null) {
+        issues.push(`${label} currencyName is ${describeValue(entry.currencyName)}`);
+    }
+    if (date === null) {
+        issues.push(`${label} date is ${describeValue(entry.date)}`);
+    }
+    if (entry.type !== side) {
+        issues.push(`${label} type is ${describeValue(entry.type)}, expected "${side}"`);
+    }
+    if (unit === null) {
+        issues.push(`${label} unit is ${describeValue(entry.unit)}`);
+    }
+
+    if (
+        issues.length > before ||
+        rate === null || id === null || countryCode === null || currencyName === null || date === null || unit === null
+    ) {
+        return null;
+    }
+
+    return {
+        id,
+        countryCode,
+        currencyName,
+        currencyCode: code,
+        rate,
+        unit,
+        date,
+        type: side
+    };
+};
+
+const validateWeek = (week: unknown, index: number, schemaVersion: number, issues: string[]): RateWeek | null => {
+    if (!isRecord(week)) {
+        issues.push(`week #${index} is not an object`);
+        return null;
+    }
+
+    const startDate = typeof week.startDate === 'string' ? week.startDate : '';
+    const label = startDate || `#${index}`;
+    const before = issues.length;
+
+    if (!ISO_DATE.test(startDate)) {
+        issues.push(`week ${label} startDate is ${describeValue(week.startDate)}`);
+    } else if (getWeekStartDate(startDate) !== startDate) {
+        issues.push(`week ${label} startDate is not a Sunday`);
+    }
+
+    const expectedEnd = ISO_DATE.test(startDate) ? addDays(startDate, 6) : '';
+    if (schemaVersion >= 2 && week.endDate !== expectedEnd) {
+        issues.push(`week ${label} endDate is ${describeValue(week.endDate)}, expected "${expectedEnd}"`);
+    }
+    if (week.fetchedAt !== undefined && (typeof week.fetchedAt !== 'string' || isNaN(Date.parse(week.fetchedAt)))) {
+        issues.push(`week ${label} fetchedAt is ${describeValue(week.fetchedAt)}`);
+    }
+
+    const sides: Record<'import' | 'export', RateData[]> = { import: [], export: [] };
+    for (const side of ['import', 'export'] as const) {
+        const entries = week[side];
+        if (!Array.isArray(entries)) {
+            issues.push(`week ${label} ${side} is ${describeValue(entries)}, expected an array`);
+            continue;
+        }
+
+        const seen = new Set<string>();
+        entries.forEach((entry, entryIndex) => {
+            const parsed = validateEntry(entry, side, label, entryIndex, schemaVersion, issues);
+            if (!parsed) return;
+            if (seen.has(parsed.currencyCode)) {
+                issues.push(`week ${label} ${side} ${parsed.currencyCode} appears more than once`);
+                return;
+            }
+            seen.add(parsed.currencyCode);
+            sides[side].push(parsed);
+        });
+    }
+
+    if (issues.length > before) return null;
+
+    return {
+        startDate,
+        endDate: expectedEnd,
+        ...(typeof week.fetchedAt === 'string' ? { fetchedAt: week.fetchedAt } : {}),
+        import: sides.import,
+        export: sides.export
+    };
+};
+
+const readSchemaVersion = (raw: Record<string, unknown>, issues: string[]): number => {
+    const { schemaVersion } = raw;
+    if (schemaVersion === undefined) return 1;
+    if (
+        typeof schemaVersion !== 'number' ||
+        !Number.isInteger(schemaVersion) ||
+        schemaVersion < 1 ||
+        schemaVersion > RATE_SCHEMA_VERSION
+    ) {
+        issues.push(`schemaVersion ${describeValue(schemaVersion)} is not supported (expected 1-${RATE_SCHEMA_VERSION})`);
+        return RATE_SCHEMA_VERSION;
+    }
+    return schemaVersion;
+};
+
+/**
+ * Validates the `weeks` array of a snapshot or archive file and upgrades it to the current schema.
+ * Throws a RateDatasetValidationError listing every problem found.
+ */
+export const validateRateWeeks = (rawWeeks: unknown, schemaVersion: number, context = 'rate weeks'): RateWeek[] => {
+    const issues: string[] = [];
+    if (!Array.isArray(rawWeeks)) {
+        throw new RateDatasetValidationError([`weeks is ${describeValue(rawWeeks)}, expected an array`], context);
+    }
+
+    const weeks: RateWeek[] = [];
+    const seen = new Set<string>();
+    rawWeeks.forEach((rawWeek, index) => {
+        const week = validateWeek(rawWeek, index, schemaVersion, issues);
+        if (!week) return;
+        if (seen.has(week.startDate)) {
+            issues.push(`week ${week.startDate} appears more than once`);
+            return;
+        }
+        seen.add(week.startDate);
+        weeks.push(week);
+    });
+
+    if (issues.length) {
+        throw new RateDatasetValidationError(issues, context);
+    }
+    return weeks;
+};
+
+/**
+ * Validates a parsed exchange-rates.json document and returns it in the current schema.
+ * Throws a RateDatasetValidationError listing every problem found.
+ */
+export const validateRateDataset = (raw: unknown, context = 'rate dataset'): RateDataset => {
+    if (!isRecord(raw)) {
+        throw new RateDatasetValidationError(['document is not an object'], context);
+    }
+
+    const issues: string[] = [];
+    const schemaVersion = readSchemaVersion(raw, issues);
+    const generatedAt = typeof raw.generatedAt === 'string' && !isNaN(Date.parse(raw.generatedAt)) ? raw.generatedAt : null;
+    const source = typeof raw.source === 'string' ? raw.source : undefined;
+
+    if (generatedAt === null) {
+        issues.push(`generatedAt is ${describeValue(raw.generatedAt)}`);
+    }
+    if (raw.source !== undefined && source === undefined) {
+        issues.push(`source is ${describeValue(raw.source)}`);
+    }
+
+    let weeks: RateWeek[] = [];
+    try {
+        weeks = validateRateWeeks(raw.weeks, schemaVersion, context);
+    } catch (error) {
+        if (!(error instanceof RateDatasetValidationError)) throw error;
+        issues.push(...error.issues);
+    }
+
+    if (issues.length || generatedAt === null) {
+        throw new RateDatasetValidationError(issues, context);
+    }
+
+    return {
+        schemaVersion: RATE_SCHEMA_VERSION,
+        generatedAt,
+        ...(source !== undefined ? { source } : {}),
+        weeks
+    };
+};
@@ -0,0 +1,32 @@
+export type RateSide = 'import' | 'export';
+
+export interface RateData {
+    id: string;
+    countryCode: string;
+    currencyName: string;
+    currencyCode: string;
+    rate: number; // KRW per single unit of the currency
+    unit: number; // Conventional quotation unit (e.g. 100 for JPY); display only
+    date: string; // YYYY-MM-DD format for UI
+    type: RateSide;
+}
+
+export interface RateWeek {
+    startDate: string; // YYYY-MM-DD (Sunday start)
+    endDate: string; // YYYY-MM-DD (Saturday end)
+    fetchedAt?: string; // ISO timestamp of the API fetch, when known
+    import: RateData[];
+    export: RateData[];
+}
+
+export interface RateDataset {
+    schemaVersion: number; // See RATE_SCHEMA_VERSION in schema.ts
+    generatedAt: string; // ISO timestamp
+    source?: string;
+    weeks: RateWeek[];
+}
+
+export interface RateDateRange {
+    from: string; // YYYY-MM-DD
+    to: string; // YYYY-MM-DD
+}
@@ -0,0 +1,167 @@
+/*
+ * Service worker for the dashboard PWA.
+ *
+ * - App shell (index.html, hashed /assets, icons, Tailwind and fonts) is cached so the dashboard opens offline.
+ * - exchange-rates.json, reference-rates.json, /api and /archive are served stale-while-revalidate: the cached copy answers at once
+ *   and the network refreshes it in the background.
+ * - When the refreshed snapshot differs from the one served, open pages get a `rates-updated` message;
+ *   when the network is unreachable they get `rates-offline`. See utils/serviceWorker.ts.
+ * - Runtime entries are capped per cache (CACHE_LIMITS); the oldest are dropped first, precached shell URLs never.
+ *
+ * Bump VERSION to drop every cache on the next visit; activate deletes caches of other versions.
+ */
+const VERSION = 'v1';
+const CACHE_PREFIX = 'customs-rate-';
+const SHELL_CACHE = `${CACHE_PREFIX}shell-${VERSION}`;
+const DATA_CACHE = `${CACHE_PREFIX}data-${VERSION}`;
+
+// The archive alone holds hundreds of API documents, so only the most recently fetched ones are kept.
+const CACHE_LIMITS = { [SHELL_CACHE]: 120, [DATA_CACHE]: 300 };
+
+const DATA_URL = '/exchange-rates.json';
+const REFERENCE_URL = '/reference-rates.json';
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/favicon.png', '/icons/icon.svg', '/icons/icon-192.png', '/icons/icon-512.png'];
+const CDN_ORIGINS = ['https://cdn.tailwindcss.com', 'https://fonts.googleapis.com', 'https://fonts.gstatic.com'];
+
+// index.html names its hashed bundles, so the shell is only complete once those are cached too.
+const findShellAssets = (html) => Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), (match) => match[1]);
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.addAll(SHELL_URLS);
+      const index = await cache.match('/index.html');
+      if (index) await cache.addAll(findShellAssets(await index.text()));
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter((name) => name.startsWith(CACHE_PREFIX) && name !== SHELL_CACHE && name !== DATA_CACHE)
+          .map((name) => caches.delete(name))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+const isPrecached = (request) => {
+  const url = new URL(request.url);
+  return url.origin === self.location.origin && SHELL_URLS.includes(url.pathname);
+};
+
+// Cache keys keep insertion order and a put moves an entry to the end, so the least recently refreshed go first.
+const trimCache = async (cache, cacheName) => {
+  const keys = (await cache.keys()).filter((request) => !isPrecached(request));
+  const excess = keys.length - CACHE_LIMITS[cacheName];
+  if (excess > 0) await Promise.all(keys.slice(0, excess).map((request) => cache.delete(request)));
+};
+
+const notifyClients = async (message) => {
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach((client) => client.postMessage(message));
+};
+
+const readSnapshotVersion = async (response) => {
+  try {
+    const data = await response.clone().json();
+    return { latestWeek: data?.weeks?.[0]?.startDate ?? null, generatedAt: data?.generatedAt ?? null };
+  } catch {
+    return null;
+  }
+};
+
+const staleWhileRevalidate = async (event, cacheName, { onRevalidated, onOffline } = {}) => {
+  const { request } = event;
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+
+  const refresh = fetch(request).then(async (response) => {
+    if (response.ok || response.type === 'opaque') {
+      await cache.put(request, response.clone());
+      await trimCache(cache, cacheName);
+      if (cached && onRevalidated) await onRevalidated(cached, response);
+    }
+    return response;
+  });
+
+  if (!cached) return refresh;
+
+  event.waitUntil(
+    refresh.catch(async () => {
+      if (onOffline) await onOffline();
+    })
+  );
+  return cached;
+};
+
+const compareSnapshots = async (cached, fresh) => {
+  const [before, after] = await Promise.all([readSnapshotVersion(cached), readSnapshotVersion(fresh)]);
+  if (!after || (before && before.latestWeek === after.latestWeek && before.generatedAt === after.generatedAt)) return;
+  await notifyClients({ type: 'rates-updated', ...after });
+};
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+    await trimCache(cache, SHELL_CACHE);
+  }
+  return response;
+};
+
+const networkFirstNavigation = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok && new URL(request.url).pathname === '/') {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = (await caches.match(request)) || (await caches.match('/index.html'));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (url.origin !== self.location.origin) {
+    if (CDN_ORIGINS.includes(url.origin)) event.respondWith(staleWhileRevalidate(event, SHELL_CACHE));
+    return;
+  }
+
+  // Only the dashboard itself is an app-shell route; /table, /feeds and /embed pages go straight to the network.
+  if (request.mode === 'navigate') {
+    if (url.pathname === '/' || url.pathname === '/index.html') event.respondWith(networkFirstNavigation(request));
+    return;
+  }
+
+  if (url.pathname === DATA_URL) {
+    event.respondWith(
+      staleWhileRevalidate(event, DATA_CACHE, {
+        onRevalidated: compareSnapshots,
+        onOffline: () => notifyClients({ type: 'rates-offline' })
+      })
+    );
+  } else if (url.pathname === REFERENCE_URL || url.pathname.startsWith('/api/') || url.pathname.startsWith('/archive/')) {
+    event.respondWith(staleWhileRevalidate(event, DATA_CACHE));
+  } else if (url.pathname.startsWith('/assets/') || url.pathname.startsWith('/icons/')) {
+    event.respondWith(cacheFirst(request));
+  }
+});
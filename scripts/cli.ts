@@ -0,0 +1,208 @@
+import { RateDataset } from '../types';
+import { runAlerts, startAlertTestReceiver } from './lib/alerts';
+import { buildAnomalyReport, writeAnomalyReport } from './lib/anomalyReport';
+import { writeArchive } from './lib/archive';
+import { writeDownloads } from './lib/downloads';
+import { getServiceKey, loadEnvFile } from './lib/env';
+import { writeFeeds } from './lib/feeds';
+import { reportFetchSummary } from './lib/fetchSummary';
+import { buildDataset } from './lib/generator';
+import { startMockCustomsServer } from './lib/mockCustomsServer';
+import { ALERT_RULES_PATH, PUBLIC_DIR } from './lib/paths';
+import { createReferenceProviderFromEnv, ReferenceRateProvider } from './lib/reference';
+import { buildReferenceRates, writeReferenceRates } from './lib/referenceRates';
+import { readSnapshot, writeSnapshot } from './lib/snapshot';
+import { createRateSourceFromEnv } from './lib/sources';
+import { writeStaticApi } from './lib/staticApi';
+import { writeTableHtml } from './lib/tableHtml';
+import { validateAll } from './lib/validate';
+
+const USAGE = `Usage: tsx scripts/cli.ts <command>
+
+Commands:
+  fetch            Fetch recent weeks from the Customs API and rebuild the snapshot, archive, API, feeds, table and downloads
+  build-table      Rebuild the static table pages under public/table from the snapshot and archive
+  build-downloads  Rebuild the CSV/XLSX downloads from the snapshot
+  build-api        Rebuild the static JSON API under public/api from the snapshot and archive
+  build-feeds      Rebuild the Atom feeds and iCalendar under public/feeds from the snapshot and archive
+  fetch-reference  Fetch daily market/bank reference rates for the snapshot's weeks into public/reference-rates.json
+  validate         Validate the snapshot and every archive file
+  report           Compare the snapshot's latest week with the previous one and write reports/report.{json,md}
+  mock-server      Serve a local stand-in for the Customs API and a reference-rate endpoint (--port <n>, default 8787)
+  check-alerts     Check the alert rules against the snapshot's latest week and notify their targets (--dry-run prints instead)
+  alert-receiver   Log webhook POSTs and emails locally for testing alert targets (--port <n>, default 8788; --smtp-port <n>, default 2525)
+
+Environment:
+  RATE_SOURCE                       customs (default) or fixture
+  CUSTOMS_API_BASE_URL              Override the Customs API endpoint, e.g. the mock-server URL
+  RATES_PUBLIC_DIR                  Write outputs somewhere other than public/
+  WEEKS_TO_FETCH                    Weeks to fetch, newest first (default 12)
+  FETCH_CONCURRENCY                 Requests in flight at once (default 4)
+  FETCH_RETRIES                     Retries for transient failures such as HTTP 5xx or resultCode 01 (default 3)
+  FETCH_RETRY_DELAY_MS              First retry delay, doubled on each retry (default 1000)
+  ANOMALY_MOVE_PERCENT              Week-over-week move reported as a warning (default 5)
+  ANOMALY_CRITICAL_MOVE_PERCENT     Week-over-week move reported as critical (default 20)
+  ANOMALY_SPREAD_TOLERANCE_PERCENT  Import/export gap treated as equal (default 0.1)
+  ANOMALY_REMOVED_COUNT             Currencies disappearing from one side at once before removals are critical (default 2)
+  ANOMALY_REMOVED_PERCENT           Share of a side disappearing at once before removals are critical (default 10)
+  ANOMALY_ALLOW_CRITICAL            Set to 1 to publish despite critical anomalies
+  RATES_REPORT_DIR                  Write report.json/report.md somewhere other than reports/
+  SITE_URL                          Deployed origin for absolute links in feeds, e.g. https://rates.example.com
+  REFERENCE_SOURCE                  none (default), file or http; fetch also refreshes reference rates unless none
+  REFERENCE_FILE                    JSON or CSV file of date,currencyCode,rate[,unit] rows for REFERENCE_SOURCE=file
+  REFERENCE_API_URL                 Endpoint queried with ?from=&to= for REFERENCE_SOURCE=http, e.g. the mock-server URL
+  REFERENCE_API_TOKEN               Bearer token sent to REFERENCE_API_URL
+  ALERT_RULES_FILE                  Alert rules and targets (default alert-rules.json); fetch checks them when the file exists
+  ALERTS_DRY_RUN                    Set to 1 to print alert notifications instead of sending them
+
+fetch exits with status 1 and writes nothing if the latest published week cannot be fetched
+and is not already in the snapshot or archive, or if the anomaly report has critical findings.
+A failed reference-rate fetch only warns and keeps the previous reference-rates.json.
+Alerts never fail fetch: an invalid rules file or an unreachable target only warns.`;
+
+const readOption = (args: string[], name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const readIntEnv = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+};
+
+/**
+ * Writes the anomaly report for the dataset's latest week. Returns false if it has critical
+ * findings and ANOMALY_ALLOW_CRITICAL is not set.
+ */
+const checkAnomalies = (dataset: RateDataset): boolean => {
+  const report = buildAnomalyReport(dataset);
+  if (!report) return true;
+
+  writeAnomalyReport(report);
+  if (!report.counts.critical) return true;
+  if (process.env.ANOMALY_ALLOW_CRITICAL === '1') {
+    console.warn('[cli] Critical anomalies found but ANOMALY_ALLOW_CRITICAL=1; continuing.');
+    return true;
+  }
+  return false;
+};
+
+const updateReferenceRates = async (dataset: RateDataset, provider: ReferenceRateProvider): Promise<void> => {
+  writeReferenceRates(
+    await buildReferenceRates(dataset, {
+      provider,
+      retries: readIntEnv('FETCH_RETRIES', 3),
+      retryDelayMs: readIntEnv('FETCH_RETRY_DELAY_MS', 1000)
+    })
+  );
+};
+
+const alertsDryRun = (args: string[] = []): boolean => args.includes('--dry-run') || process.env.ALERTS_DRY_RUN === '1';
+
+const commands: Record<string, (args: string[]) => Promise<void>> = {
+  fetch: async () => {
+    loadEnvFile();
+    const referenceProvider = createReferenceProviderFromEnv();
+    const { dataset, summary } = await buildDataset({
+      weekCount: readIntEnv('WEEKS_TO_FETCH', 12),
+      source: createRateSourceFromEnv(getServiceKey()),
+      concurrency: readIntEnv('FETCH_CONCURRENCY', 4),
+      retries: readIntEnv('FETCH_RETRIES', 3),
+      retryDelayMs: readIntEnv('FETCH_RETRY_DELAY_MS', 1000)
+    });
+    reportFetchSummary(summary);
+    if (summary.latestWeekMissing) {
+      console.error('[cli] Refusing to publish a snapshot without the latest week; outputs left unchanged.');
+      process.exitCode = 1;
+      return;
+    }
+    if (!checkAnomalies(dataset)) {
+      console.error('[cli] Refusing to publish a snapshot with critical anomalies; outputs left unchanged.');
+      process.exitCode = 1;
+      return;
+    }
+    writeSnapshot(dataset);
+    writeArchive(dataset);
+    writeStaticApi(dataset);
+    writeFeeds(dataset);
+    writeTableHtml(dataset);
+    await writeDownloads(dataset, PUBLIC_DIR);
+    if (referenceProvider) {
+      await updateReferenceRates(dataset, referenceProvider).catch((error) =>
+        console.warn(`[cli] Reference rates not updated: ${(error as Error).message}`)
+      );
+    }
+    await runAlerts(dataset, { configPath: ALERT_RULES_PATH, dryRun: alertsDryRun(), optional: true }).catch((error) =>
+      console.warn(`[cli] Alerts not checked: ${(error as Error).message}`)
+    );
+  },
+  'fetch-reference': async () => {
+    loadEnvFile();
+    const provider = createReferenceProviderFromEnv();
+    if (!provider) {
+      throw new Error('Set REFERENCE_SOURCE to "file" or "http" to fetch reference rates');
+    }
+    await updateReferenceRates(readSnapshot(), provider);
+  },
+  'build-table': async () => {
+    writeTableHtml(readSnapshot());
+  },
+  'build-downloads': async () => {
+    await writeDownloads(readSnapshot(), PUBLIC_DIR);
+  },
+  'build-api': async () => {
+    writeStaticApi(readSnapshot());
+  },
+  'build-feeds': async () => {
+    writeFeeds(readSnapshot());
+  },
+  validate: async () => {
+    if (!validateAll()) {
+      process.exitCode = 1;
+    }
+  },
+  report: async () => {
+    if (!checkAnomalies(readSnapshot())) {
+      process.exitCode = 1;
+    }
+  },
+  'mock-server': async (args) => {
+    const server = await startMockCustomsServer({ port: parseInt(readOption(args, 'port') || '8787', 10) });
+    console.log(`[mock] Customs API stand-in listening at ${server.url}`);
+    console.log(`[mock] Reference rates at ${server.referenceUrl}`);
+    console.log('[mock] Press Ctrl+C to stop.');
+  },
+  'check-alerts': async (args) => {
+    loadEnvFile();
+    const { failed } = await runAlerts(readSnapshot(), { configPath: ALERT_RULES_PATH, dryRun: alertsDryRun(args) });
+    if (failed.length) {
+      process.exitCode = 1;
+    }
+  },
+  'alert-receiver': async (args) => {
+    const receiver = await startAlertTestReceiver({
+      httpPort: parseInt(readOption(args, 'port') || '8788', 10),
+      smtpPort: parseInt(readOption(args, 'smtp-port') || '2525', 10)
+    });
+    console.log(`[receiver] Webhooks at ${receiver.webhookUrl}`);
+    console.log(`[receiver] SMTP at ${receiver.smtpHost}:${receiver.smtpPort} (no TLS, any credentials)`);
+    console.log('[receiver] Press Ctrl+C to stop.');
+  }
+};
+
+const main = async () => {
+  const [command, ...args] = process.argv.slice(2);
+  const run = command ? commands[command] : undefined;
+
+  if (!run) {
+    console.error(USAGE);
+    process.exit(command ? 1 : 0);
+  }
+
+  await run(args);
+};
+
+main().catch((error) => {
+  console.error('[cli] Fatal error', error);
+  process.exit(1);
+});
@@ -0,0 +1,44 @@
+import fs from 'fs';
+import { RateDataset } from '../../../types';
+import { sendAlerts, SendAlertsResult } from './notify';
+import { evaluateAlerts, loadAlertConfig } from './rules';
+import { FiredAlert } from './types';
+
+export type { AlertConfig, AlertRule, AlertTarget, FiredAlert } from './types';
+export { AlertConfigError, evaluateAlerts, loadAlertConfig } from './rules';
+export { sendAlerts } from './notify';
+export { startAlertTestReceiver } from './testReceiver';
+
+export interface RunAlertsOptions {
+  configPath: string;
+  dryRun?: boolean;
+  optional?: boolean; // Skip quietly when the rules file does not exist
+}
+
+export interface RunAlertsResult extends SendAlertsResult {
+  fired: FiredAlert[];
+}
+
+/**
+ * Loads the rules file, checks it against the dataset's latest week and notifies every target of the rules that fired.
+ * Throws an AlertConfigError for an invalid rules file; delivery failures only show up in `failed`.
+ */
+export const runAlerts = async (dataset: RateDataset, { configPath, dryRun = false, optional = false }: RunAlertsOptions): Promise<RunAlertsResult> => {
+  if (optional && !fs.existsSync(configPath)) {
+    return { fired: [], sent: [], failed: [] };
+  }
+
+  const config = loadAlertConfig(configPath);
+  const fired = evaluateAlerts(dataset, config.rules);
+  console.log(`[alerts] ${fired.length} of ${config.rules.length} rule(s) fired`);
+  fired.forEach((alert) => console.log(`[alerts]   ${alert.rule.id}: ${alert.message}`));
+  if (!fired.length) {
+    return { fired, sent: [], failed: [] };
+  }
+  if (!config.targets.length) {
+    console.warn('[alerts] No targets configured; nothing sent.');
+  }
+
+  const result = await sendAlerts({ week: fired[0].week, generatedAt: new Date().toISOString(), alerts: fired }, config.targets, { dryRun });
+  return { fired, ...result };
+};
@@ -0,0 +1,64 @@
+import { AlertBatch, buildEmailContent, buildJsonPayload, buildSlackPayload } from './payloads';
+import { sendMail } from './smtp';
+import { AlertTarget, EmailTarget, WebhookTarget } from './types';
+
+const REQUEST_TIMEOUT_MS = 15_000;
+
+export interface SendAlertsOptions {
+  dryRun?: boolean; // Print what would be sent instead of sending it
+}
+
+export interface SendAlertsResult {
+  sent: string[]; // Target names
+  failed: string[];
+}
+
+const postWebhook = async (target: WebhookTarget, batch: AlertBatch): Promise<void> => {
+  const response = await fetch(target.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...target.headers },
+    body: JSON.stringify(target.format === 'slack' ? buildSlackPayload(batch) : buildJsonPayload(batch)),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`);
+  }
+};
+
+const sendEmail = (target: EmailTarget, batch: AlertBatch): Promise<void> =>
+  sendMail(target.smtp, { from: target.from, to: target.to, ...buildEmailContent(batch) });
+
+// What a dry run prints: the request as it would go out, minus credentials.
+const describeDelivery = (target: AlertTarget, batch: AlertBatch): string => {
+  if (target.format === 'email') {
+    const { subject, text } = buildEmailContent(batch);
+    return `SMTP ${target.smtp.host}:${target.smtp.port} from ${target.from} to ${target.to.join(', ')}\nSubject: ${subject}\n\n${text}`;
+  }
+  const payload = target.format === 'slack' ? buildSlackPayload(batch) : buildJsonPayload(batch);
+  return `POST ${new URL(target.url).origin}/…\n${JSON.stringify(payload, null, 2)}`;
+};
+
+/**
+ * Delivers a batch of fired alerts to every target. A failing target is logged and reported in the result
+ * rather than thrown, so one broken webhook neither blocks the others nor fails the weekly run.
+ */
+export const sendAlerts = async (batch: AlertBatch, targets: AlertTarget[], { dryRun = false }: SendAlertsOptions = {}): Promise<SendAlertsResult> => {
+  const result: SendAlertsResult = { sent: [], failed: [] };
+  if (!batch.alerts.length) return result;
+
+  for (const target of targets) {
+    if (dryRun) {
+      console.log(`[alerts] Dry run, not sending to ${target.name} (${target.format}):\n${describeDelivery(target, batch)}\n`);
+      continue;
+    }
+    try {
+      await (target.format === 'email' ? sendEmail(target, batch) : postWebhook(target, batch));
+      console.log(`[alerts] Sent ${batch.alerts.length} alert(s) to ${target.name}`);
+      result.sent.push(target.name);
+    } catch (error) {
+      console.warn(`[alerts] Could not notify ${target.name}: ${(error as Error).message}`);
+      result.failed.push(target.name);
+    }
+  }
+  return result;
+};
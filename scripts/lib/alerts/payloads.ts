@@ -0,0 +1,75 @@
+import { FiredAlert } from './types';
+
+export interface AlertBatch {
+  week: string; // startDate of the week the alerts fired for
+  generatedAt: string; // ISO timestamp
+  alerts: FiredAlert[];
+}
+
+// The dashboard link needs the deployed origin; without SITE_URL the payloads carry no link.
+const dashboardUrl = (week: string): string | null =>
+  process.env.SITE_URL ? `${process.env.SITE_URL.replace(/\/+$/, '')}/?week=${week}` : null;
+
+const title = (batch: AlertBatch): string =>
+  `Customs rate alerts for the week of ${batch.week} (${batch.alerts.length} rule${batch.alerts.length === 1 ? '' : 's'} fired)`;
+
+/**
+ * A generic JSON document for webhooks that process alerts themselves.
+ */
+export const buildJsonPayload = (batch: AlertBatch) => ({
+  type: 'customs-rate-alerts',
+  week: batch.week,
+  generatedAt: batch.generatedAt,
+  url: dashboardUrl(batch.week),
+  alerts: batch.alerts.map(({ rule, week, previousWeek, rate, previousRate, changePercent, message }) => ({
+    id: rule.id,
+    currency: rule.currency,
+    side: rule.side,
+    condition: rule.condition,
+    threshold: rule.threshold,
+    note: rule.note ?? null,
+    week,
+    previousWeek,
+    rate,
+    previousRate,
+    changePercent,
+    message
+  }))
+});
+
+/**
+ * A Slack incoming-webhook message (also understood by Mattermost and Rocket.Chat): plain `text` for
+ * notifications plus Block Kit sections for the channel.
+ */
+export const buildSlackPayload = (batch: AlertBatch) => {
+  const url = dashboardUrl(batch.week);
+  return {
+    text: title(batch),
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: title(batch) } },
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: batch.alerts.map((alert) => `• *${alert.rule.id}*: ${alert.message}`).join('\n') }
+      },
+      ...(url ? [{ type: 'context', elements: [{ type: 'mrkdwn', text: `<${url}|Open the dashboard>` }] }] : [])
+    ]
+  };
+};
+
+/**
+ * Subject and plain-text body of the alert email.
+ */
+export const buildEmailContent = (batch: AlertBatch): { subject: string; text: string } => {
+  const url = dashboardUrl(batch.week);
+  return {
+    subject: title(batch),
+    text: [
+      title(batch),
+      '',
+      ...batch.alerts.map((alert) => `- [${alert.rule.id}] ${alert.message}`),
+      '',
+      ...(url ? [url, ''] : []),
+      `Generated at ${batch.generatedAt}.`
+    ].join('\n')
+  };
+};
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import { PROJECT_ROOT } from '../paths';
+import { AlertConfigError, loadAlertConfig } from './rules';
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'alert-rules-'));
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+afterAll(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+const writeConfig = (config: unknown): string => {
+  const filePath = path.join(tmpDir, 'alert-rules.json');
+  fs.writeFileSync(filePath, JSON.stringify(config));
+  return filePath;
+};
+
+const issuesOf = (filePath: string): string[] => {
+  try {
+    loadAlertConfig(filePath);
+  } catch (error) {
+    if (error instanceof AlertConfigError) return error.issues;
+    throw error;
+  }
+  throw new Error('expected an AlertConfigError');
+};
+
+describe('loadAlertConfig', () => {
+  it('reads the example file and expands environment variables in targets', () => {
+    vi.stubEnv('SLACK_WEBHOOK_URL', 'https://hooks.example/slack');
+    vi.stubEnv('ALERT_WEBHOOK_URL', 'https://erp.example/hook');
+    vi.stubEnv('ALERT_WEBHOOK_TOKEN', 'token');
+    vi.stubEnv('SMTP_PASSWORD', 'secret');
+
+    const config = loadAlertConfig(path.join(PROJECT_ROOT, 'alert-rules.example.json'));
+
+    expect(config.rules.map((rule) => rule.id)).toEqual(['usd-import-above-1450', 'usd-import-crosses-1400', 'jpy-import-below-900', 'eur-export-move']);
+    expect(config.targets).toEqual([
+      { name: 'slack #trade-finance', format: 'slack', url: 'https://hooks.example/slack' },
+      { name: 'erp webhook', format: 'json', url: 'https://erp.example/hook', headers: { Authorization: 'Bearer token' } },
+      {
+        name: 'finance mailbox',
+        format: 'email',
+        smtp: { host: 'smtp.example.com', port: 587, secure: false, starttls: true, user: 'alerts@example.com', password: 'secret' },
+        from: 'alerts@example.com',
+        to: ['finance@example.com']
+      }
+    ]);
+  });
+
+  it('upper-cases currencies and keeps notes', () => {
+    const config = loadAlertConfig(
+      writeConfig({ rules: [{ id: 'usd', currency: 'usd', side: 'export', condition: 'below', threshold: 1300, note: 'budget' }] })
+    );
+
+    expect(config).toEqual({
+      rules: [{ id: 'usd', currency: 'USD', side: 'export', condition: 'below', threshold: 1300, note: 'budget' }],
+      targets: []
+    });
+  });
+
+  it('lists every problem in rules and targets', () => {
+    const issues = issuesOf(
+      writeConfig({
+        rules: [
+          { id: '', currency: 'US', side: 'both', condition: 'equals', threshold: -1, note: 3 },
+          'USD',
+          { id: 'dup', currency: 'USD', side: 'import', condition: 'above', threshold: 1 },
+          { id: 'dup', currency: 'EUR', side: 'import', condition: 'above', threshold: 1 }
+        ],
+        targets: [
+          { format: 'slack', url: 'ftp://hooks.example', headers: { Authorization: 1 } },
+          { format: 'email', smtp: { host: 'smtp.example.com', port: '587' }, from: 'alerts', to: [] },
+          { format: 'email', from: 'alerts@example.com', to: ['finance@example.com'] },
+          { format: 'sms' },
+          { format: 'json', url: '${UNSET_ALERT_URL}' }
+        ]
+      })
+    );
+
+    expect(issues).toEqual([
+      'targets[4].url uses ${UNSET_ALERT_URL}, which is not set',
+      'rules[0].id is missing',
+      'rules[0].currency is "US"',
+      'rules[0].side is "both", expected "import" or "export"',
+      'rules[0].condition is "equals", expected one of above, below, crosses-above, crosses-below, change-percent',
+      'rules[0].threshold is -1',
+      'rules[0].note is 3',
+      'rules[1] is not an object',
+      'targets[0].url is "ftp://hooks.example"',
+      'targets[0].headers must map header names to strings',
+      'targets[1].smtp.port is "587"',
+      'targets[1].from is "alerts"',
+      'targets[1].to must be a non-empty list of addresses',
+      'targets[2].smtp.host is missing',
+      'targets[3].format is "sms", expected "json", "slack" or "email"',
+      'targets[4].url is ""',
+      'rule id "dup" appears more than once'
+    ]);
+  });
+
+  it('rejects missing files and documents that are not objects', () => {
+    expect(issuesOf(path.join(tmpDir, 'missing.json'))).toEqual(['file not found']);
+    expect(issuesOf(writeConfig([]))).toEqual(['document is not an object']);
+  });
+});
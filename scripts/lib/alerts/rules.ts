@@ -0,0 +1,223 @@
+import fs from 'fs';
+import { RateData, RateDataset } from '../../../types';
+import { getRateChange } from '../format';
+import { readJsonFile } from '../snapshot';
+import { ALERT_CONDITIONS, AlertCondition, AlertConfig, AlertRule, AlertTarget, FiredAlert, SmtpSettings } from './types';
+
+export class AlertConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[], context: string) {
+    super(`Invalid alert config ${context}: ${issues.slice(0, 5).join('; ')}${issues.length > 5 ? ` (+${issues.length - 5} more)` : ''}`);
+    this.name = 'AlertConfigError';
+    this.issues = issues;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isAlertCondition = (value: unknown): value is AlertCondition => ALERT_CONDITIONS.some((condition) => condition === value);
+
+const isStringMap = (value: unknown): value is Record<string, string> =>
+  isRecord(value) && Object.values(value).every((item) => typeof item === 'string');
+
+/**
+ * Replaces `${NAME}` with the environment variable, so webhook URLs and SMTP passwords can stay out of the file.
+ */
+const expandEnv = (value: unknown, issues: string[], label: string): unknown => {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)\}/g, (_, name: string) => {
+      if (process.env[name] === undefined) issues.push(`${label} uses \${${name}}, which is not set`);
+      return process.env[name] ?? '';
+    });
+  }
+  if (Array.isArray(value)) return value.map((item, index) => expandEnv(item, issues, `${label}[${index}]`));
+  if (isRecord(value)) return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, expandEnv(item, issues, `${label}.${key}`)]));
+  return value;
+};
+
+const validateRule = (raw: unknown, index: number, issues: string[]): AlertRule | null => {
+  const label = `rules[${index}]`;
+  if (!isRecord(raw)) {
+    issues.push(`${label} is not an object`);
+    return null;
+  }
+
+  const id = typeof raw.id === 'string' && raw.id ? raw.id : null;
+  const currency = typeof raw.currency === 'string' && /^[A-Za-z]{3}$/.test(raw.currency) ? raw.currency.toUpperCase() : null;
+  const side = raw.side === 'import' || raw.side === 'export' ? raw.side : null;
+  const condition = isAlertCondition(raw.condition) ? raw.condition : null;
+  const threshold = typeof raw.threshold === 'number' && Number.isFinite(raw.threshold) && raw.threshold >= 0 ? raw.threshold : null;
+  const note = typeof raw.note === 'string' ? raw.note : null;
+
+  if (id === null) issues.push(`${label}.id is missing`);
+  if (currency === null) issues.push(`${label}.currency is ${JSON.stringify(raw.currency)}`);
+  if (side === null) issues.push(`${label}.side is ${JSON.stringify(raw.side)}, expected "import" or "export"`);
+  if (condition === null) issues.push(`${label}.condition is ${JSON.stringify(raw.condition)}, expected one of ${ALERT_CONDITIONS.join(', ')}`);
+  if (threshold === null) issues.push(`${label}.threshold is ${JSON.stringify(raw.threshold)}`);
+  if (raw.note !== undefined && note === null) issues.push(`${label}.note is ${JSON.stringify(raw.note)}`);
+  if (id === null || currency === null || side === null || condition === null || threshold === null || (raw.note !== undefined && note === null)) {
+    return null;
+  }
+
+  return {
+    id,
+    currency,
+    side,
+    condition,
+    threshold,
+    ...(note ? { note } : {})
+  };
+};
+
+const validateSmtp = (raw: unknown, label: string, issues: string[]): SmtpSettings | null => {
+  const host = isRecord(raw) && typeof raw.host === 'string' && raw.host ? raw.host : null;
+  if (host === null) issues.push(`${label}.host is missing`);
+  if (!isRecord(raw)) return null;
+
+  const port = typeof raw.port === 'number' && Number.isInteger(raw.port) && raw.port > 0 ? raw.port : null;
+  if (port === null) issues.push(`${label}.port is ${JSON.stringify(raw.port)}`);
+  if (host === null || port === null) return null;
+
+  const { user, password } = raw;
+  return {
+    host,
+    port,
+    secure: raw.secure === true,
+    starttls: raw.starttls === true,
+    ...(typeof user === 'string' && user ? { user, password: typeof password === 'string' ? password : '' } : {})
+  };
+};
+
+const validateTarget = (raw: unknown, index: number, issues: string[]): AlertTarget | null => {
+  const label = `targets[${index}]`;
+  if (!isRecord(raw)) {
+    issues.push(`${label} is not an object`);
+    return null;
+  }
+
+  const name = typeof raw.name === 'string' && raw.name ? raw.name : `${typeof raw.format === 'string' ? raw.format : 'target'} #${index}`;
+  if (raw.format === 'json' || raw.format === 'slack') {
+    const url = typeof raw.url === 'string' && /^https?:\/\//.test(raw.url) ? raw.url : null;
+    const headers = isStringMap(raw.headers) ? raw.headers : null;
+    if (url === null) issues.push(`${label}.url is ${JSON.stringify(raw.url)}`);
+    if (raw.headers !== undefined && headers === null) issues.push(`${label}.headers must map header names to strings`);
+    if (url === null || (raw.headers !== undefined && headers === null)) return null;
+    return { name, format: raw.format, url, ...(headers ? { headers } : {}) };
+  }
+  if (raw.format === 'email') {
+    const smtp = validateSmtp(raw.smtp, `${label}.smtp`, issues);
+    const from = typeof raw.from === 'string' && raw.from.includes('@') ? raw.from : null;
+    const to = Array.isArray(raw.to) && raw.to.length && raw.to.every((address): address is string => typeof address === 'string' && address.includes('@'))
+      ? raw.to
+      : null;
+    if (from === null) issues.push(`${label}.from is ${JSON.stringify(raw.from)}`);
+    if (to === null) issues.push(`${label}.to must be a non-empty list of addresses`);
+    if (smtp === null || from === null || to === null) return null;
+    return { name, format: 'email', smtp, from, to };
+  }
+
+  issues.push(`${label}.format is ${JSON.stringify(raw.format)}, expected "json", "slack" or "email"`);
+  return null;
+};
+
+/**
+ * Reads and validates the alert rules file. `${NAME}` in targets is replaced from the environment.
+ * Throws an AlertConfigError listing every problem found.
+ */
+export const loadAlertConfig = (filePath: string): AlertConfig => {
+  if (!fs.existsSync(filePath)) {
+    throw new AlertConfigError(['file not found'], filePath);
+  }
+
+  const raw = readJsonFile(filePath);
+  if (!isRecord(raw)) {
+    throw new AlertConfigError(['document is not an object'], filePath);
+  }
+
+  const issues: string[] = [];
+  if (!Array.isArray(raw.rules)) issues.push('rules is missing, expected an array');
+  if (raw.targets !== undefined && !Array.isArray(raw.targets)) issues.push('targets must be an array');
+
+  const rawRules: unknown[] = Array.isArray(raw.rules) ? raw.rules : [];
+  const expandedTargets = expandEnv(raw.targets, issues, 'targets');
+  const rawTargets: unknown[] = Array.isArray(expandedTargets) ? expandedTargets : [];
+  const rules = rawRules.map((rule, index) => validateRule(rule, index, issues)).filter((rule): rule is AlertRule => rule !== null);
+  const targets = rawTargets.map((target, index) => validateTarget(target, index, issues)).filter((target): target is AlertTarget => target !== null);
+
+  const ids = rules.map((rule) => rule.id);
+  ids.filter((id, index) => ids.indexOf(id) !== index).forEach((id) => issues.push(`rule id "${id}" appears more than once`));
+
+  if (issues.length) {
+    throw new AlertConfigError(issues, filePath);
+  }
+  return { rules, targets };
+};
+
+const formatRate = (value: number): string => value.toLocaleString('en-US', { maximumFractionDigits: 4 });
+
+const quoted = (item: RateData): number => Number((item.rate * item.unit).toFixed(4));
+
+const describe = (rule: AlertRule, rate: number, previousRate: number | null, changePercent: number | null): string => {
+  const subject = `${rule.currency} ${rule.side} rate`;
+  const move = previousRate !== null ? ` (${formatRate(previousRate)} → ${formatRate(rate)})` : '';
+  switch (rule.condition) {
+    case 'above':
+      return `${subject} ${formatRate(rate)} is above ${formatRate(rule.threshold)}`;
+    case 'below':
+      return `${subject} ${formatRate(rate)} is below ${formatRate(rule.threshold)}`;
+    case 'crosses-above':
+      return `${subject} crossed above ${formatRate(rule.threshold)}${move}`;
+    case 'crosses-below':
+      return `${subject} crossed below ${formatRate(rule.threshold)}${move}`;
+    case 'change-percent':
+      return `${subject} moved ${changePercent! > 0 ? '+' : ''}${changePercent!.toFixed(2)}% week over week${move}, more than ${rule.threshold}%`;
+  }
+};
+
+const isFired = (rule: AlertRule, rate: number, previousRate: number | null, changePercent: number | null): boolean => {
+  switch (rule.condition) {
+    case 'above':
+      return rate > rule.threshold;
+    case 'below':
+      return rate < rule.threshold;
+    case 'crosses-above':
+      return previousRate !== null && previousRate <= rule.threshold && rate > rule.threshold;
+    case 'crosses-below':
+      return previousRate !== null && previousRate >= rule.threshold && rate < rule.threshold;
+    case 'change-percent':
+      return changePercent !== null && Math.abs(changePercent) > rule.threshold;
+  }
+};
+
+/**
+ * Checks every rule against the dataset's latest week and the week before it. Rates are compared per quote unit
+ * (e.g. KRW per 100 JPY), as they are published. Rules for a currency missing from the latest week never fire.
+ */
+export const evaluateAlerts = (dataset: RateDataset, rules: AlertRule[]): FiredAlert[] => {
+  const [latest, previous] = [...dataset.weeks].sort((a, b) => b.startDate.localeCompare(a.startDate));
+  if (!latest) return [];
+
+  return rules.flatMap((rule) => {
+    const current = latest[rule.side].find((item) => item.currencyCode === rule.currency);
+    if (!current) return [];
+    const before = previous?.[rule.side].find((item) => item.currencyCode === rule.currency);
+
+    const rate = quoted(current);
+    const previousRate = before ? quoted(before) : null;
+    const changePercent = previousRate !== null ? getRateChange(rate, previousRate).changePercent : null;
+    if (!isFired(rule, rate, previousRate, changePercent)) return [];
+
+    const message = describe(rule, rate, previousRate, changePercent);
+    return [{
+      rule,
+      week: latest.startDate,
+      previousWeek: previous?.startDate ?? null,
+      rate,
+      previousRate,
+      changePercent,
+      message: rule.note ? `${message} — ${rule.note}` : message
+    }];
+  });
+};
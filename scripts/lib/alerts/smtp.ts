@@ -0,0 +1,165 @@
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { SmtpSettings } from './types';
+
+const TIMEOUT_MS = 30_000;
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+// RFC 2047 encoded-word, so Korean subjects survive 7-bit relays.
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf-8').toString('base64')}?=`;
+
+/**
+ * A complete RFC 5322 message with a base64 UTF-8 body; base64 also means no line can start with a dot.
+ */
+export const formatMailMessage = ({ from, to, subject, text }: MailMessage, now = new Date()): string => {
+  const body = Buffer.from(text.replace(/\r?\n/g, '\r\n'), 'utf-8').toString('base64').replace(/.{76}/g, '$&\r\n');
+  return [
+    `From: ${from}`,
+    `To: ${to.join(', ')}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: <${now.getTime()}.${Math.random().toString(36).slice(2)}@${os.hostname() || 'localhost'}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body
+  ].join('\r\n');
+};
+
+/**
+ * One SMTP conversation. Replies are read line by line; a reply ends at the line whose code is followed by a space.
+ */
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf-8');
+    socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error(`SMTP server did not answer within ${TIMEOUT_MS}ms`)));
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.drain();
+    });
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.waiting?.reject(this.failure);
+    this.waiting = null;
+  }
+
+  private drain(): void {
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line);
+      if (/^\d{3}(?: |$)/.test(line) && this.waiting) {
+        const reply = { code: Number(line.slice(0, 3)), text: this.lines.map((item) => item.slice(4)).join('\n') };
+        this.lines = [];
+        this.waiting.resolve(reply);
+        this.waiting = null;
+      }
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.drain();
+    });
+  }
+
+  async expect(codes: number[], line?: string): Promise<SmtpReply> {
+    if (line !== undefined) this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      const sent = line?.startsWith('AUTH') ? 'AUTH' : line;
+      throw new Error(`SMTP ${sent ?? 'greeting'} answered ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  }
+
+  async startTls(host: string): Promise<void> {
+    this.socket.removeAllListeners('data').removeAllListeners('error').removeAllListeners('close');
+    const secured = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once('secureConnect', resolve);
+      secured.once('error', reject);
+    });
+    this.socket = secured;
+    this.attach(secured);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
+
+const connect = ({ host, port, secure }: SmtpSettings): Promise<net.Socket> =>
+  new Promise((resolve, reject) => {
+    const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+    const onTimeout = () => socket.destroy(new Error(`SMTP server ${host}:${port} did not accept a connection within ${TIMEOUT_MS}ms`));
+    socket.setTimeout(TIMEOUT_MS, onTimeout);
+    socket.once(secure ? 'secureConnect' : 'connect', () => {
+      socket.off('timeout', onTimeout);
+      resolve(socket);
+    });
+    socket.once('error', reject);
+  });
+
+/**
+ * Sends one message over SMTP: implicit TLS or STARTTLS as configured, AUTH PLAIN when a user is set.
+ * Needs no mail library; the local test receiver speaks just enough SMTP to accept it.
+ */
+export const sendMail = async (settings: SmtpSettings, message: MailMessage): Promise<void> => {
+  const session = new SmtpSession(await connect(settings));
+  try {
+    const helo = `EHLO ${os.hostname() || 'localhost'}`;
+    await session.expect([220]);
+    await session.expect([250], helo);
+    if (settings.starttls && !settings.secure) {
+      await session.expect([220], 'STARTTLS');
+      await session.startTls(settings.host);
+      await session.expect([250], helo);
+    }
+    if (settings.user) {
+      const credentials = Buffer.from(`\0${settings.user}\0${settings.password ?? ''}`, 'utf-8').toString('base64');
+      await session.expect([235], `AUTH PLAIN ${credentials}`);
+    }
+    await session.expect([250], `MAIL FROM:<${message.from}>`);
+    for (const address of message.to) {
+      await session.expect([250, 251], `RCPT TO:<${address}>`);
+    }
+    await session.expect([354], 'DATA');
+    await session.expect([250], `${formatMailMessage(message)}\r\n.`);
+    await session.expect([221], 'QUIT');
+  } finally {
+    session.close();
+  }
+};
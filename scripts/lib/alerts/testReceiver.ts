@@ -0,0 +1,133 @@
+import http from 'http';
+import net, { AddressInfo } from 'net';
+
+export interface AlertTestReceiverOptions {
+  httpPort?: number; // 0 picks a free port
+  smtpPort?: number;
+  host?: string;
+}
+
+export interface AlertTestReceiver {
+  webhookUrl: string; // Any path is accepted; use it as a json or slack target url
+  smtpHost: string;
+  smtpPort: number;
+  close: () => Promise<void>;
+}
+
+// Undoes the RFC 2047 subject encoding and base64 body of formatMailMessage so the log is readable.
+const decodeMessage = (raw: string): string => {
+  const [head, ...rest] = raw.split('\r\n\r\n');
+  const headers = head.replace(/=\?UTF-8\?B\?([^?]+)\?=/g, (_, value: string) => Buffer.from(value, 'base64').toString('utf-8'));
+  const body = rest.join('\r\n\r\n');
+  return /^Content-Transfer-Encoding: base64$/im.test(head)
+    ? `${headers}\n\n${Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf-8')}`
+    : `${headers}\n\n${body}`;
+};
+
+const startWebhookReceiver = (port: number, host: string): Promise<http.Server> =>
+  new Promise((resolve, reject) => {
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.setEncoding('utf-8');
+      req.on('data', (chunk: string) => (body += chunk));
+      req.on('end', () => {
+        let shown = body;
+        try {
+          shown = JSON.stringify(JSON.parse(body), null, 2);
+        } catch {
+          // Not JSON; log it as received.
+        }
+        console.log(`[receiver] ${req.method} ${req.url} (${req.headers['content-type'] ?? 'no content type'})\n${shown}\n`);
+        res.writeHead(req.method === 'POST' ? 200 : 405, { 'Content-Type': 'text/plain' });
+        res.end(req.method === 'POST' ? 'ok' : 'POST only');
+      });
+    });
+    server.once('error', reject);
+    server.listen(port, host, () => resolve(server));
+  });
+
+/**
+ * Just enough of an SMTP server to accept one message per MAIL FROM: every command succeeds, AUTH included,
+ * and STARTTLS is declined so clients continue in plain text.
+ */
+const startSmtpSink = (port: number, host: string): Promise<net.Server> =>
+  new Promise((resolve, reject) => {
+    const server = net.createServer((socket) => {
+      let buffer = '';
+      let data: string[] | null = null;
+      let envelope: string[] = [];
+      const reply = (line: string) => socket.write(`${line}\r\n`);
+
+      socket.setEncoding('utf-8');
+      reply('220 localhost alert test receiver');
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        let index: number;
+        while ((index = buffer.indexOf('\r\n')) >= 0) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+
+          if (data) {
+            if (line === '.') {
+              console.log(`[receiver] SMTP message, ${envelope.join(', ')}\n${decodeMessage(data.join('\r\n'))}\n`);
+              data = null;
+              envelope = [];
+              reply('250 OK queued');
+            } else {
+              data.push(line.startsWith('..') ? line.slice(1) : line);
+            }
+            continue;
+          }
+
+          const command = line.split(' ')[0].toUpperCase();
+          if (command === 'EHLO') {
+            reply('250-localhost');
+            reply('250 AUTH PLAIN LOGIN');
+          } else if (command === 'HELO' || command === 'RSET' || command === 'NOOP') {
+            reply('250 OK');
+          } else if (command === 'MAIL' || command === 'RCPT') {
+            envelope.push(line.slice(5).trim());
+            reply('250 OK');
+          } else if (command === 'AUTH') {
+            reply('235 Authentication succeeded');
+          } else if (command === 'STARTTLS') {
+            reply('454 TLS not available');
+          } else if (command === 'DATA') {
+            data = [];
+            reply('354 End data with <CR><LF>.<CR><LF>');
+          } else if (command === 'QUIT') {
+            reply('221 Bye');
+            socket.end();
+          } else {
+            reply('502 Command not implemented');
+          }
+        }
+      });
+      socket.on('error', () => socket.destroy());
+    });
+    server.once('error', reject);
+    server.listen(port, host, () => resolve(server));
+  });
+
+/**
+ * A local stand-in for alert targets: logs every webhook POST and every email it receives.
+ */
+export const startAlertTestReceiver = async ({ httpPort = 8788, smtpPort = 2525, host = '127.0.0.1' }: AlertTestReceiverOptions = {}): Promise<AlertTestReceiver> => {
+  const webhookServer = await startWebhookReceiver(httpPort, host);
+  const smtpServer = await startSmtpSink(smtpPort, host).catch((error) => {
+    webhookServer.close();
+    throw error;
+  });
+
+  return {
+    webhookUrl: `http://${host}:${(webhookServer.address() as AddressInfo).port}/webhook`,
+    smtpHost: host,
+    smtpPort: (smtpServer.address() as AddressInfo).port,
+    close: async () => {
+      await Promise.all([
+        new Promise<void>((done) => webhookServer.close(() => done())),
+        new Promise<void>((done) => smtpServer.close(() => done()))
+      ]);
+    }
+  };
+};
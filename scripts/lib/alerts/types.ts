@@ -0,0 +1,62 @@
+import { RateSide } from '../../../types';
+
+/**
+ * above / below          the latest rate is over / under `threshold` (fires every week it holds)
+ * crosses-above / -below the rate moved from at or under / at or over `threshold` to the other side this week
+ * change-percent         the week-over-week move is larger than `threshold` percent in either direction
+ */
+export type AlertCondition = 'above' | 'below' | 'crosses-above' | 'crosses-below' | 'change-percent';
+
+export const ALERT_CONDITIONS: AlertCondition[] = ['above', 'below', 'crosses-above', 'crosses-below', 'change-percent'];
+
+export interface AlertRule {
+  id: string;
+  currency: string; // ISO code, e.g. USD
+  side: RateSide;
+  condition: AlertCondition;
+  threshold: number; // KRW per quote unit (per 100 for JPY, IDR and VND), or percent for change-percent
+  note?: string; // Shown with the alert, e.g. the budget it protects
+}
+
+export type AlertFormat = 'json' | 'slack' | 'email';
+
+export interface WebhookTarget {
+  name: string;
+  format: 'json' | 'slack';
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure?: boolean; // Implicit TLS (usually port 465)
+  starttls?: boolean; // Upgrade a plain connection with STARTTLS (usually port 587)
+  user?: string;
+  password?: string;
+}
+
+export interface EmailTarget {
+  name: string;
+  format: 'email';
+  smtp: SmtpSettings;
+  from: string;
+  to: string[];
+}
+
+export type AlertTarget = WebhookTarget | EmailTarget;
+
+export interface AlertConfig {
+  rules: AlertRule[];
+  targets: AlertTarget[];
+}
+
+export interface FiredAlert {
+  rule: AlertRule;
+  week: string; // startDate of the week that fired it
+  previousWeek: string | null;
+  rate: number; // KRW per quote unit
+  previousRate: number | null;
+  changePercent: number | null;
+  message: string;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { RateData, RateWeek } from '../../types';
+import { detectAnomalies } from './anomalies';
+
+const CODES = ['USD', 'EUR', 'JPY', 'CNY', 'GBP', 'CHF', 'CAD', 'AUD', 'HKD', 'SGD', 'THB', 'VND', 'IDR', 'NZD', 'SEK', 'NOK', 'DKK', 'MYR', 'PHP', 'INR'];
+
+const rate = (currencyCode: string, value: number, type: 'import' | 'export' = 'import'): RateData => ({
+  id: `${currencyCode}-${type}`,
+  countryCode: currencyCode.slice(0, 2),
+  currencyName: currencyCode,
+  currencyCode,
+  rate: value,
+  date: '2026-06-14',
+  type,
+  unit: 1
+});
+
+const week = (startDate: string, imports: RateData[]): RateWeek => ({
+  startDate,
+  endDate: startDate,
+  import: imports,
+  export: []
+});
+
+const rates = (codes: string[]) => codes.map((code, index) => rate(code, 100 + index));
+
+describe('detectAnomalies', () => {
+  it('flags zero rates and large moves', () => {
+    const report = detectAnomalies(
+      week('2026-06-14', [rate('USD', 0), rate('EUR', 110), rate('JPY', 130)]),
+      week('2026-06-07', [rate('USD', 1380), rate('EUR', 100), rate('JPY', 100)])
+    );
+
+    expect(report.anomalies.map((anomaly) => [anomaly.kind, anomaly.currencyCode, anomaly.severity])).toEqual([
+      ['large-move', 'JPY', 'critical'],
+      ['zero-rate', 'USD', 'critical'],
+      ['large-move', 'EUR', 'warning']
+    ]);
+  });
+
+  it('reports a rate coming back from zero instead of skipping it', () => {
+    const current: RateWeek = { ...week('2026-06-14', [rate('USD', 1380)]), export: [rate('USD', 1375, 'export')] };
+    const previous: RateWeek = { ...week('2026-06-07', [rate('USD', 0)]), export: [rate('USD', 1370, 'export')] };
+    const report = detectAnomalies(current, previous);
+
+    expect(report.anomalies).toEqual([
+      expect.objectContaining({
+        severity: 'warning',
+        kind: 'zero-previous-rate',
+        side: 'import',
+        currencyCode: 'USD',
+        rate: 1380,
+        previousRate: 0,
+        message: 'USD import rate was 0 last week and is now 1380'
+      })
+    ]);
+  });
+
+  it('reports a single disappearing currency as a warning', () => {
+    const report = detectAnomalies(week('2026-06-14', rates(CODES.slice(0, 19))), week('2026-06-07', rates(CODES)));
+
+    expect(report.counts).toEqual({ critical: 0, warning: 1, info: 0 });
+    expect(report.anomalies[0]).toMatchObject({ kind: 'currency-removed', currencyCode: 'INR', severity: 'warning' });
+  });
+
+  it('escalates removals to critical when several currencies disappear at once', () => {
+    const report = detectAnomalies(week('2026-06-14', rates(CODES.slice(0, 17))), week('2026-06-07', rates(CODES)));
+
+    expect(report.counts.critical).toBe(3);
+    expect(report.anomalies.every((anomaly) => anomaly.kind === 'currency-removed' && anomaly.severity === 'critical')).toBe(true);
+    expect(report.anomalies[0].message).toBe('INR disappeared from import rates (3 of 20 currencies, 15%)');
+  });
+
+  it('escalates removals to critical when a large share of a small side disappears', () => {
+    const report = detectAnomalies(week('2026-06-14', rates(['USD', 'EUR', 'JPY'])), week('2026-06-07', rates(['USD', 'EUR', 'JPY', 'CNY'])));
+
+    expect(report.anomalies).toEqual([expect.objectContaining({ kind: 'currency-removed', currencyCode: 'CNY', severity: 'critical' })]);
+  });
+
+  it('honours custom removal thresholds', () => {
+    const report = detectAnomalies(week('2026-06-14', rates(CODES.slice(0, 17))), week('2026-06-07', rates(CODES)), {
+      movePercent: 5,
+      criticalMovePercent: 20,
+      spreadTolerancePercent: 0.1,
+      removedCount: 5,
+      removedPercent: 50
+    });
+
+    expect(report.counts).toEqual({ critical: 0, warning: 3, info: 0 });
+  });
+});
@@ -0,0 +1,203 @@
+import { RateData, RateWeek } from '../../types';
+
+export type AnomalySeverity = 'info' | 'warning' | 'critical';
+
+export type AnomalyKind = 'zero-rate' | 'zero-previous-rate' | 'large-move' | 'currency-added' | 'currency-removed' | 'inverted-spread';
+
+export interface Anomaly {
+  severity: AnomalySeverity;
+  kind: AnomalyKind;
+  side: 'import' | 'export' | 'both';
+  currencyCode: string;
+  message: string;
+  rate?: number;
+  previousRate?: number;
+  changePercent?: number;
+}
+
+export interface AnomalyThresholds {
+  movePercent: number; // Week-over-week move that earns a warning
+  criticalMovePercent: number; // Week-over-week move that blocks publishing
+  spreadTolerancePercent: number; // Import/export gaps smaller than this are treated as equal
+  removedCount: number; // More currencies than this disappearing from one side at once is critical
+  removedPercent: number; // As is more than this share of the previous week's currencies on one side
+}
+
+export const DEFAULT_ANOMALY_THRESHOLDS: AnomalyThresholds = {
+  movePercent: 5,
+  criticalMovePercent: 20,
+  spreadTolerancePercent: 0.1,
+  removedCount: 2,
+  removedPercent: 10
+};
+
+export interface AnomalyReport {
+  generatedAt: string;
+  week: string;
+  previousWeek: string | null;
+  thresholds: AnomalyThresholds;
+  counts: Record<AnomalySeverity, number>;
+  anomalies: Anomaly[];
+}
+
+const SEVERITY_ORDER: AnomalySeverity[] = ['critical', 'warning', 'info'];
+
+const byCode = (rates: RateData[]): Map<string, RateData> => new Map(rates.map((item) => [item.currencyCode, item]));
+
+const round = (value: number, digits = 2): number => Number(value.toFixed(digits));
+
+// Import rate relative to export rate, in percent; 0 inside the tolerance band.
+const spreadPercent = (importRate: number, exportRate: number, tolerance: number): number => {
+  if (!exportRate) return 0;
+  const spread = ((importRate - exportRate) / exportRate) * 100;
+  return Math.abs(spread) < tolerance ? 0 : spread;
+};
+
+const compareSide = (side: 'import' | 'export', current: RateData[], previous: RateData[] | null, thresholds: AnomalyThresholds): Anomaly[] => {
+  const anomalies: Anomaly[] = [];
+
+  for (const item of current) {
+    if (item.rate === 0) {
+      anomalies.push({
+        severity: 'critical',
+        kind: 'zero-rate',
+        side,
+        currencyCode: item.currencyCode,
+        rate: 0,
+        message: `${item.currencyCode} ${side} rate is 0`
+      });
+    }
+  }
+
+  if (!previous) return anomalies;
+
+  const currentByCode = byCode(current);
+  const previousByCode = byCode(previous);
+
+  for (const item of current) {
+    const before = previousByCode.get(item.currencyCode);
+    if (!before) {
+      anomalies.push({
+        severity: 'info',
+        kind: 'currency-added',
+        side,
+        currencyCode: item.currencyCode,
+        rate: item.rate,
+        message: `${item.currencyCode} appeared in ${side} rates`
+      });
+      continue;
+    }
+    // A move off zero has no percentage, so it is reported on its own rather than skipped.
+    if (before.rate === 0 && item.rate !== 0) {
+      anomalies.push({
+        severity: 'warning',
+        kind: 'zero-previous-rate',
+        side,
+        currencyCode: item.currencyCode,
+        rate: item.rate,
+        previousRate: 0,
+        message: `${item.currencyCode} ${side} rate was 0 last week and is now ${item.rate}`
+      });
+      continue;
+    }
+    if (!before.rate || !item.rate) continue;
+
+    const changePercent = ((item.rate - before.rate) / before.rate) * 100;
+    if (Math.abs(changePercent) <= thresholds.movePercent) continue;
+
+    anomalies.push({
+      severity: Math.abs(changePercent) > thresholds.criticalMovePercent ? 'critical' : 'warning',
+      kind: 'large-move',
+      side,
+      currencyCode: item.currencyCode,
+      rate: item.rate,
+      previousRate: before.rate,
+      changePercent: round(changePercent),
+      message: `${item.currencyCode} ${side} moved ${changePercent > 0 ? '+' : ''}${round(changePercent)}% (${before.rate} → ${item.rate})`
+    });
+  }
+
+  // One currency dropping out is usually a real delisting; many at once points at a truncated response.
+  const removed = previous.filter((before) => !currentByCode.has(before.currencyCode));
+  const removedPercent = (removed.length / previous.length) * 100;
+  const massRemoval = removed.length > thresholds.removedCount || removedPercent > thresholds.removedPercent;
+
+  for (const before of removed) {
+    anomalies.push({
+      severity: massRemoval ? 'critical' : 'warning',
+      kind: 'currency-removed',
+      side,
+      currencyCode: before.currencyCode,
+      previousRate: before.rate,
+      message: massRemoval
+        ? `${before.currencyCode} disappeared from ${side} rates (${removed.length} of ${previous.length} currencies, ${round(removedPercent)}%)`
+        : `${before.currencyCode} disappeared from ${side} rates`
+    });
+  }
+
+  return anomalies;
+};
+
+// Import and export rates normally match or keep the same ordering; a flip between weeks suggests swapped sides.
+const compareSpreads = (current: RateWeek, previous: RateWeek, tolerance: number): Anomaly[] => {
+  const anomalies: Anomaly[] = [];
+  const currentExport = byCode(current.export);
+  const previousImport = byCode(previous.import);
+  const previousExport = byCode(previous.export);
+
+  for (const item of current.import) {
+    const exportItem = currentExport.get(item.currencyCode);
+    const beforeImport = previousImport.get(item.currencyCode);
+    const beforeExport = previousExport.get(item.currencyCode);
+    if (!exportItem || !beforeImport || !beforeExport) continue;
+    // A zero on either side has no spread; compareSide reports it as zero-rate or zero-previous-rate.
+    if (!item.rate || !exportItem.rate || !beforeImport.rate || !beforeExport.rate) continue;
+
+    const spread = spreadPercent(item.rate, exportItem.rate, tolerance);
+    const previousSpread = spreadPercent(beforeImport.rate, beforeExport.rate, tolerance);
+    if (spread * previousSpread >= 0) continue;
+
+    anomalies.push({
+      severity: 'warning',
+      kind: 'inverted-spread',
+      side: 'both',
+      currencyCode: item.currencyCode,
+      message: `${item.currencyCode} import/export spread flipped from ${round(previousSpread)}% to ${round(spread)}% (import ${item.rate}, export ${exportItem.rate})`
+    });
+  }
+
+  return anomalies;
+};
+
+/**
+ * Compares a freshly fetched week with the week before it and lists everything that looks wrong:
+ * zero rates, rates coming back from zero, moves beyond the thresholds, currencies that appeared or disappeared, and
+ * import/export spreads whose direction flipped. Critical anomalies should stop the snapshot from being published.
+ */
+export const detectAnomalies = (
+  current: RateWeek,
+  previous: RateWeek | undefined,
+  thresholds: AnomalyThresholds = DEFAULT_ANOMALY_THRESHOLDS
+): AnomalyReport => {
+  const anomalies = [
+    ...compareSide('import', current.import, previous?.import ?? null, thresholds),
+    ...compareSide('export', current.export, previous?.export ?? null, thresholds),
+    ...(previous ? compareSpreads(current, previous, thresholds.spreadTolerancePercent) : [])
+  ].sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || a.currencyCode.localeCompare(b.currencyCode)
+  );
+
+  const counts: Record<AnomalySeverity, number> = { critical: 0, warning: 0, info: 0 };
+  for (const anomaly of anomalies) {
+    counts[anomaly.severity]++;
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    week: current.startDate,
+    previousWeek: previous?.startDate ?? null,
+    thresholds,
+    counts,
+    anomalies
+  };
+};
@@ -0,0 +1,86 @@
+import fs from 'fs';
+import { RateDataset } from '../../types';
+import { AnomalyReport, AnomalySeverity, AnomalyThresholds, DEFAULT_ANOMALY_THRESHOLDS, detectAnomalies } from './anomalies';
+import { REPORT_DIR, REPORT_JSON_PATH, REPORT_MARKDOWN_PATH } from './paths';
+
+const SEVERITY_LABELS: Record<AnomalySeverity, string> = {
+  critical: '🔴 critical',
+  warning: '🟠 warning',
+  info: '🔵 info'
+};
+
+const readPercentEnv = (name: string, fallback: number): number => {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+const readCountEnv = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) || value < 0 ? fallback : value;
+};
+
+/**
+ * Thresholds from ANOMALY_MOVE_PERCENT, ANOMALY_CRITICAL_MOVE_PERCENT, ANOMALY_SPREAD_TOLERANCE_PERCENT,
+ * ANOMALY_REMOVED_COUNT and ANOMALY_REMOVED_PERCENT.
+ */
+export const readAnomalyThresholds = (): AnomalyThresholds => ({
+  movePercent: readPercentEnv('ANOMALY_MOVE_PERCENT', DEFAULT_ANOMALY_THRESHOLDS.movePercent),
+  criticalMovePercent: readPercentEnv('ANOMALY_CRITICAL_MOVE_PERCENT', DEFAULT_ANOMALY_THRESHOLDS.criticalMovePercent),
+  spreadTolerancePercent: readPercentEnv('ANOMALY_SPREAD_TOLERANCE_PERCENT', DEFAULT_ANOMALY_THRESHOLDS.spreadTolerancePercent),
+  removedCount: readCountEnv('ANOMALY_REMOVED_COUNT', DEFAULT_ANOMALY_THRESHOLDS.removedCount),
+  removedPercent: readPercentEnv('ANOMALY_REMOVED_PERCENT', DEFAULT_ANOMALY_THRESHOLDS.removedPercent)
+});
+
+/**
+ * Compares the newest week of a dataset (newest first) with the one before it.
+ * Returns null when the dataset has no weeks.
+ */
+export const buildAnomalyReport = (dataset: RateDataset, thresholds: AnomalyThresholds = readAnomalyThresholds()): AnomalyReport | null => {
+  const [current, previous] = dataset.weeks;
+  return current ? detectAnomalies(current, previous, thresholds) : null;
+};
+
+const escapeMarkdownCell = (text: string): string => text.replace(/\|/g, '\\|');
+
+export const renderAnomalyMarkdown = (report: AnomalyReport): string => {
+  const { counts, thresholds } = report;
+  const lines = [
+    `### Rate anomaly report: ${report.week}`,
+    '',
+    report.previousWeek ? `Compared with ${report.previousWeek}.` : 'No previous week to compare with; only zero rates were checked.',
+    `Thresholds: warning above ±${thresholds.movePercent}%, critical above ±${thresholds.criticalMovePercent}%, spread tolerance ${thresholds.spreadTolerancePercent}%, removals critical above ${thresholds.removedCount} currencies or ${thresholds.removedPercent}% of a side.`,
+    '',
+    `**${counts.critical} critical, ${counts.warning} warning, ${counts.info} info**`,
+    ''
+  ];
+
+  if (!report.anomalies.length) {
+    lines.push('No anomalies found.', '');
+    return lines.join('\n');
+  }
+
+  lines.push('| Severity | Currency | Side | Detail |', '| --- | --- | --- | --- |');
+  for (const anomaly of report.anomalies) {
+    lines.push(`| ${SEVERITY_LABELS[anomaly.severity]} | ${anomaly.currencyCode} | ${anomaly.side} | ${escapeMarkdownCell(anomaly.message)} |`);
+  }
+  lines.push('');
+  return lines.join('\n');
+};
+
+/**
+ * Writes report.json and report.md to REPORT_DIR and echoes the non-info findings.
+ */
+export const writeAnomalyReport = (report: AnomalyReport): void => {
+  fs.mkdirSync(REPORT_DIR, { recursive: true });
+  fs.writeFileSync(REPORT_JSON_PATH, JSON.stringify(report, null, 2), 'utf-8');
+  fs.writeFileSync(REPORT_MARKDOWN_PATH, renderAnomalyMarkdown(report), 'utf-8');
+
+  const { counts } = report;
+  console.log(`[report] ${report.week} vs ${report.previousWeek ?? '(none)'}: ${counts.critical} critical, ${counts.warning} warning, ${counts.info} info`);
+  for (const anomaly of report.anomalies) {
+    if (anomaly.severity === 'info') continue;
+    const log = anomaly.severity === 'critical' ? console.error : console.warn;
+    log(`[report]   ${anomaly.severity}: ${anomaly.message}`);
+  }
+  console.log(`[report] Wrote ${REPORT_JSON_PATH} and ${REPORT_MARKDOWN_PATH}`);
+};
@@ -0,0 +1,83 @@
+import fs from 'fs';
+import path from 'path';
+import { RateArchiveFile, RateArchiveManifest, RateDataset, RateWeek } from '../../types';
+import { RATE_SCHEMA_VERSION, validateRateWeeks } from '../../services/rateSchema';
+import { ARCHIVE_DIR, ARCHIVE_MANIFEST_PATH } from './paths';
+import { readJsonFile } from './snapshot';
+
+const ARCHIVE_FILE = /^\d{4}\.json$/;
+
+export const listArchiveFiles = (): string[] => {
+  if (!fs.existsSync(ARCHIVE_DIR)) return [];
+  return fs.readdirSync(ARCHIVE_DIR).filter((file) => ARCHIVE_FILE.test(file)).sort().map((file) => path.join(ARCHIVE_DIR, file));
+};
+
+export const readArchiveFile = (filePath: string): RateWeek[] => {
+  const raw = readJsonFile(filePath) as { weeks?: unknown; schemaVersion?: number };
+  return validateRateWeeks(raw.weeks, raw.schemaVersion ?? 1, filePath);
+};
+
+export const loadArchiveWeeks = (): RateWeek[] => listArchiveFiles().flatMap(readArchiveFile);
+
+/**
+ * Every archived week with the dataset's weeks layered on top, newest first.
+ */
+export const loadAllWeeks = (payload: RateDataset): RateWeek[] => {
+  const weeksByDate = new Map<string, RateWeek>();
+  for (const week of loadArchiveWeeks()) {
+    weeksByDate.set(week.startDate, week);
+  }
+  for (const week of payload.weeks) {
+    weeksByDate.set(week.startDate, week);
+  }
+  return Array.from(weeksByDate.values()).sort((a, b) => b.startDate.localeCompare(a.startDate));
+};
+
+/**
+ * Merges the dataset's weeks into the per-year archive and rewrites the manifest.
+ * Newly fetched weeks replace archived copies of the same week; nothing is ever dropped.
+ */
+export const writeArchive = (payload: RateDataset): void => {
+  const weeksByDate = new Map<string, RateWeek>();
+  for (const week of loadArchiveWeeks()) {
+    weeksByDate.set(week.startDate, week);
+  }
+  for (const week of payload.weeks) {
+    weeksByDate.set(week.startDate, week);
+  }
+
+  const weeksByYear = new Map<string, RateWeek[]>();
+  for (const week of weeksByDate.values()) {
+    const year = week.startDate.substring(0, 4);
+    if (!weeksByYear.has(year)) weeksByYear.set(year, []);
+    weeksByYear.get(year)!.push(week);
+  }
+
+  fs.mkdirSync(ARCHIVE_DIR, { recursive: true });
+
+  const files: RateArchiveFile[] = [];
+  for (const year of [...weeksByYear.keys()].sort()) {
+    const weeks = weeksByYear.get(year)!.sort((a, b) => b.startDate.localeCompare(a.startDate));
+    const fileName = `${year}.json`;
+    fs.writeFileSync(
+      path.join(ARCHIVE_DIR, fileName),
+      JSON.stringify({ schemaVersion: RATE_SCHEMA_VERSION, year: Number(year), source: payload.source, weeks }, null, 2),
+      'utf-8'
+    );
+    files.push({
+      year: Number(year),
+      path: `/archive/${fileName}`,
+      from: weeks[weeks.length - 1].startDate,
+      to: weeks[0].startDate,
+      weekCount: weeks.length
+    });
+  }
+
+  const manifest: RateArchiveManifest = {
+    generatedAt: payload.generatedAt,
+    source: payload.source,
+    files
+  };
+  fs.writeFileSync(ARCHIVE_MANIFEST_PATH, JSON.stringify(manifest, null, 2), 'utf-8');
+  console.log(`[archive] Wrote ${weeksByDate.size} weeks across ${files.length} file(s) to ${ARCHIVE_DIR}`);
+};
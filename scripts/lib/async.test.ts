@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mapWithConcurrency, withRetry } from './async';
+import { CustomsApiError, CustomsHttpError, RateFetchError } from './sources';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const isRetryable = (error: unknown) => error instanceof RateFetchError && error.retryable;
+
+describe('withRetry', () => {
+  it('backs off exponentially until the task succeeds', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const delays: number[] = [];
+    let calls = 0;
+
+    const result = await withRetry(
+      async () => {
+        calls++;
+        if (calls < 4) throw new CustomsHttpError(503);
+        return 'ok';
+      },
+      { retries: 3, baseDelayMs: 2, shouldRetry: isRetryable, onRetry: (_error, _attempt, delayMs) => delays.push(delayMs) }
+    );
+
+    expect(result).toBe('ok');
+    expect(calls).toBe(4);
+    expect(delays).toEqual([2, 4, 8]);
+  });
+
+  it('adds at most 50% jitter to each delay', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999);
+    const delays: number[] = [];
+    let calls = 0;
+
+    await withRetry(
+      async () => {
+        if (++calls < 3) throw new CustomsHttpError(500);
+      },
+      { retries: 2, baseDelayMs: 10, shouldRetry: isRetryable, onRetry: (_error, _attempt, delayMs) => delays.push(delayMs) }
+    );
+
+    expect(delays).toEqual([15, 30]);
+  });
+
+  it('gives up once the retries run out', async () => {
+    const task = vi.fn(async () => {
+      throw new CustomsHttpError(503);
+    });
+
+    await expect(withRetry(task, { retries: 2, baseDelayMs: 1, shouldRetry: isRetryable })).rejects.toThrow('HTTP 503');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry a non-retryable CustomsApiError', async () => {
+    const onRetry = vi.fn();
+    const task = vi.fn(async () => {
+      throw new CustomsApiError({ resultCode: '30', resultMsg: 'SERVICE KEY IS NOT REGISTERED ERROR.' });
+    });
+
+    await expect(withRetry(task, { retries: 3, baseDelayMs: 1, shouldRetry: isRetryable, onRetry })).rejects.toBeInstanceOf(
+      CustomsApiError
+    );
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('never runs more than `limit` workers at once', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([5, 1, 4, 2, 3, 1, 2], 3, async (delay, index) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      inFlight--;
+      return index * 10;
+    });
+
+    expect(peak).toBe(3);
+    expect(results).toEqual([0, 10, 20, 30, 40, 50, 60]);
+  });
+
+  it('runs one worker at a time when the limit is below one', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    await mapWithConcurrency([1, 2, 3], 0, async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await Promise.resolve();
+      inFlight--;
+    });
+
+    expect(peak).toBe(1);
+  });
+
+  it('returns an empty array for no items', async () => {
+    const worker = vi.fn();
+    expect(await mapWithConcurrency([], 4, worker)).toEqual([]);
+    expect(worker).not.toHaveBeenCalled();
+  });
+});
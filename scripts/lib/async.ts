@@ -0,0 +1,44 @@
+export const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Maps `items` through `worker` with at most `limit` calls in flight, preserving input order.
+ */
+export const mapWithConcurrency = async <T, R>(items: T[], limit: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, run));
+  return results;
+};
+
+export interface RetryOptions {
+  retries: number; // Attempts after the first one
+  baseDelayMs: number;
+  shouldRetry: (error: unknown) => boolean;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Calls `task` until it succeeds, `shouldRetry` rejects the error or the retries run out.
+ * Waits baseDelayMs × 2^(attempt − 1) plus up to 50% jitter between attempts.
+ */
+export const withRetry = async <T>(task: () => Promise<T>, { retries, baseDelayMs, shouldRetry, onRetry }: RetryOptions): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt > retries || !shouldRetry(error)) throw error;
+      const backoff = baseDelayMs * 2 ** (attempt - 1);
+      const delayMs = Math.round(backoff + Math.random() * backoff * 0.5);
+      onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs);
+    }
+  }
+};
@@ -0,0 +1,26 @@
+import fs from 'fs';
+import path from 'path';
+import writeXlsxFile from 'write-excel-file/node';
+import { RateDataset } from '../../types';
+import { ExportTable, XLSX_SHEET_OPTIONS, buildHistoryMatrix, buildWeekTable, toCsv, toXlsxSheetData } from '../../utils/exportUtils';
+
+const writeTable = async (table: ExportTable, basePath: string): Promise<void> => {
+  fs.writeFileSync(`${basePath}.csv`, toCsv(table), 'utf-8');
+  await writeXlsxFile(toXlsxSheetData(table), { sheet: table.sheetName, ...XLSX_SHEET_OPTIONS }).toFile(`${basePath}.xlsx`);
+  console.log(`[downloads] Wrote ${basePath}.csv and ${basePath}.xlsx`);
+};
+
+/**
+ * Writes CSV (UTF-8 with BOM) and XLSX downloads for the latest week and the full weekly history,
+ * using the same table builders as the dashboard's export menu.
+ */
+export const writeDownloads = async (payload: RateDataset, outputDir: string): Promise<void> => {
+  if (payload.weeks.length === 0) {
+    console.warn('[downloads] No weeks available, skipping download files.');
+    return;
+  }
+
+  fs.mkdirSync(outputDir, { recursive: true });
+  await writeTable(buildWeekTable(payload.weeks[0], 'both'), path.join(outputDir, 'exchange-rates-latest'));
+  await writeTable(buildHistoryMatrix(payload.weeks, 'both'), path.join(outputDir, 'exchange-rates-history'));
+};
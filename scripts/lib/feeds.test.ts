@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { RateData, RateDataset, RateWeek } from '../../types';
+import { escapeIcsText, foldIcsLine, renderCurrencyFeed, renderRatesCalendar, renderRatesFeed } from './feeds';
+
+const rate = (currencyCode: string, value: number, date: string, type: 'import' | 'export', unit = 1): RateData => ({
+  id: `${date}-${currencyCode}-${type}`,
+  countryCode: currencyCode.slice(0, 2),
+  currencyName: currencyCode,
+  currencyCode,
+  rate: value,
+  unit,
+  date,
+  type
+});
+
+const week = (startDate: string, endDate: string, usd: number, fetchedAt?: string): RateWeek => ({
+  startDate,
+  endDate,
+  ...(fetchedAt ? { fetchedAt } : {}),
+  import: [rate('USD', usd, startDate, 'import'), rate('JPY', 9.1234, startDate, 'import', 100)],
+  export: [rate('USD', usd - 2, startDate, 'export')]
+});
+
+const dataset = (generatedAt: string, weeks: RateWeek[]): RateDataset => ({ schemaVersion: 2, generatedAt, source: 'test', weeks });
+
+const weeks = [week('2026-06-14', '2026-06-20', 1380.5), week('2026-06-07', '2026-06-13', 1370.5)];
+
+const octets = (line: string) => Buffer.byteLength(line, 'utf-8');
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+
+const idsOf = (xml: string) => Array.from(xml.matchAll(/<id>([^<]*)<\/id>/g), (match) => match[1]);
+
+describe('foldIcsLine', () => {
+  it('leaves lines of up to 75 octets alone', () => {
+    const line = 'X'.repeat(75);
+    expect(foldIcsLine(line)).toBe(line);
+  });
+
+  it('folds at 75 octets without splitting multibyte Korean characters', () => {
+    const line = `SUMMARY:${'관세청 환율 '.repeat(12)}`;
+    const folded = foldIcsLine(line);
+    const parts = folded.split('\r\n');
+
+    expect(parts.length).toBeGreaterThan(1);
+    expect(octets(parts[0])).toBeLessThanOrEqual(75);
+    // Continuation lines carry a leading space, which counts towards the 75 octets.
+    for (const part of parts.slice(1)) {
+      expect(part.startsWith(' ')).toBe(true);
+      expect(octets(part)).toBeLessThanOrEqual(75);
+    }
+    expect(unfold(folded)).toBe(line);
+  });
+});
+
+describe('escapeIcsText', () => {
+  it('escapes backslashes, semicolons, commas and newlines', () => {
+    expect(escapeIcsText('a\\b;c,d\ne\r\nf')).toBe('a\\\\b\\;c\\,d\\ne\\nf');
+  });
+});
+
+describe('renderRatesCalendar', () => {
+  it('keeps every content line within 75 octets and unfolds back to the escaped text', () => {
+    const ics = renderRatesCalendar(weeks);
+
+    for (const line of ics.split('\r\n')) {
+      expect(octets(line)).toBeLessThanOrEqual(75);
+    }
+    const lines = unfold(ics).split('\r\n');
+    expect(lines).toContain('SUMMARY:관세청 환율 2026-06-14 ~ 2026-06-20');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20260614');
+    expect(lines).toContain('DTEND;VALUE=DATE:20260621');
+    const description = lines.find((line) => line.startsWith('DESCRIPTION:Korea Customs rates applying 2026-06-14'));
+    expect(description).toContain('USD 1\\,380.50 KRW\\, ▲ 10.00 (▲ 0.73%)\\n');
+    expect(description).toContain('JPY (100) 912.34 KRW');
+  });
+
+  it('keeps event UIDs stable across runs', () => {
+    const uids = (ics: string) => unfold(ics).split('\r\n').filter((line) => line.startsWith('UID:'));
+    const nextWeeks = [week('2026-06-21', '2026-06-27', 1390), ...weeks];
+    const first = renderRatesCalendar(weeks);
+    const second = renderRatesCalendar(nextWeeks);
+
+    expect(uids(first)).toEqual(['UID:2026-06-14@korea-customs-rates', 'UID:2026-06-07@korea-customs-rates']);
+    expect(uids(second).slice(1)).toEqual(uids(first));
+  });
+
+  it('stamps events with the fetch time, or the Friday publish time when there is none', () => {
+    const stamps = (ics: string) => unfold(ics).split('\r\n').filter((line) => line.startsWith('DTSTAMP:'));
+    const fetched = [week('2026-06-14', '2026-06-20', 1380.5, '2026-06-12T08:05:00.000Z'), weeks[1]];
+
+    expect(stamps(renderRatesCalendar(fetched))).toEqual(['DTSTAMP:20260612T080500Z', 'DTSTAMP:20260605T080000Z']);
+  });
+});
+
+describe('Atom feeds', () => {
+  it('keeps entry ids stable across runs', () => {
+    const first = renderRatesFeed(dataset('2026-06-19T08:00:00.000Z', weeks), weeks);
+    const second = renderRatesFeed(dataset('2026-06-20T01:00:00.000Z', weeks), weeks);
+
+    expect(idsOf(first)).toEqual([
+      'tag:korea-customs-rates,2026:rates',
+      'tag:korea-customs-rates,2026:week/2026-06-14',
+      'tag:korea-customs-rates,2026:week/2026-06-07'
+    ]);
+    expect(idsOf(second)).toEqual(idsOf(first));
+  });
+
+  it('uses the fetch time as the entry update time when the week has one', () => {
+    const fetched = [week('2026-06-14', '2026-06-20', 1380.5, '2026-06-12T08:05:00.000Z'), weeks[1]];
+    const xml = renderRatesFeed(dataset('2026-06-19T08:00:00.000Z', fetched), fetched);
+
+    expect(xml).toContain('<updated>2026-06-12T08:05:00.000Z</updated>');
+  });
+
+  it('falls back to the Friday publish time so regenerating does not touch the feed', () => {
+    const first = renderRatesFeed(dataset('2026-06-19T08:00:00.000Z', weeks), weeks);
+    const second = renderRatesFeed(dataset('2026-06-20T01:00:00.000Z', weeks), weeks);
+
+    expect(first).toContain('<updated>2026-06-12T08:00:00.000Z</updated>');
+    expect(second).toBe(first);
+  });
+
+  it('gives per-currency entries their own ids and quotes per-100 units', () => {
+    const xml = renderCurrencyFeed(dataset('2026-06-19T08:00:00.000Z', weeks), weeks, 'JPY');
+
+    expect(idsOf(xml)).toEqual([
+      'tag:korea-customs-rates,2026:currency/JPY',
+      'tag:korea-customs-rates,2026:week/2026-06-14/JPY',
+      'tag:korea-customs-rates,2026:week/2026-06-07/JPY'
+    ]);
+    expect(xml).toContain('<title>JPY 912.34 KRW for 2026-06-14 ~ 2026-06-20, 0.00 (0.00%)</title>');
+  });
+});
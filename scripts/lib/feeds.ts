@@ -0,0 +1,243 @@
+import fs from 'fs';
+import path from 'path';
+import { RateData, RateDataset, RateSide, RateWeek } from '../../types';
+import { addDays } from '../../utils/dateUtils';
+import { loadAllWeeks } from './archive';
+import { formatNumber, formatSigned, getRateChange } from './format';
+import { FEEDS_DIR } from './paths';
+import { escapeHtml } from './tableHtml';
+
+// The same default set the dashboard pins.
+const KEY_CURRENCIES = ['USD', 'EUR', 'JPY', 'CNY'];
+const FEED_ENTRY_COUNT = 12;
+const LOCALE = 'en-US';
+const FEED_TITLE = '관세청 주간 환율 · Korea Customs weekly exchange rates';
+const TAG_AUTHORITY = 'korea-customs-rates,2026';
+
+// Absolute links need the deployed origin; without SITE_URL the feeds fall back to root-relative links.
+const siteUrl = (pathname: string): string => `${(process.env.SITE_URL || '').replace(/\/+$/, '')}${pathname}`;
+
+const feedUrl = (fileName: string): string => `/feeds/${fileName}`;
+
+interface RateLine {
+  item: RateData;
+  quoted: number; // KRW per quoted unit
+  change: string | null; // null when the previous week lacks the currency
+}
+
+const describeRate = (item: RateData, previousWeek: RateWeek | undefined, side: RateSide): RateLine => {
+  const quoted = item.rate * item.unit;
+  const before = previousWeek?.[side].find((entry) => entry.currencyCode === item.currencyCode);
+  if (!before) return { item, quoted, change: null };
+
+  const { change, changePercent } = getRateChange(quoted, before.rate * item.unit);
+  return { item, quoted, change: `${formatSigned(change, LOCALE)} (${formatSigned(changePercent, LOCALE, '%', 2)})` };
+};
+
+const formatLine = ({ item, quoted, change }: RateLine): string =>
+  `${item.currencyCode}${item.unit > 1 ? ` (${item.unit})` : ''} ${formatNumber(quoted, LOCALE)} KRW${change ? `, ${change}` : ''}`;
+
+const renderRateList = (lines: RateLine[]): string =>
+  `<ul>${lines.map((line) => `<li>${escapeHtml(formatLine(line))}</li>`).join('')}</ul>`;
+
+interface AtomEntry {
+  id: string;
+  title: string;
+  updated: string;
+  link: string;
+  html: string;
+}
+
+const renderAtom = (feed: { id: string; title: string; selfUrl: string; updated: string; entries: AtomEntry[] }): string => `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeHtml(feed.id)}</id>
+  <title>${escapeHtml(feed.title)}</title>
+  <updated>${escapeHtml(feed.updated)}</updated>
+  <link rel="self" type="application/atom+xml" href="${escapeHtml(siteUrl(feed.selfUrl))}"/>
+  <link rel="alternate" type="text/html" href="${escapeHtml(siteUrl('/table/'))}"/>
+  <author><name>Korea Customs Service</name></author>
+${feed.entries
+  .map(
+    (entry) => `  <entry>
+    <id>${escapeHtml(entry.id)}</id>
+    <title>${escapeHtml(entry.title)}</title>
+    <updated>${escapeHtml(entry.updated)}</updated>
+    <link rel="alternate" type="text/html" href="${escapeHtml(siteUrl(entry.link))}"/>
+    <content type="html">${escapeHtml(entry.html)}</content>
+  </entry>`
+  )
+  .join('\n')}
+</feed>
+`;
+
+// Rates are published on the Friday at 17:00 KST (08:00 UTC) before the week starts.
+const weekPublishedAt = (week: RateWeek): string => `${addDays(week.startDate, -2)}T08:00:00.000Z`;
+
+// fetchedAt only moves when a week's rates change, so re-running the generator leaves feeds and calendar untouched.
+const weekUpdated = (week: RateWeek): string => week.fetchedAt ?? weekPublishedAt(week);
+
+const weekTitle = (week: RateWeek): string => `${week.startDate} ~ ${week.endDate}`;
+
+const keyRates = (week: RateWeek, previousWeek: RateWeek | undefined, side: RateSide): RateLine[] =>
+  KEY_CURRENCIES.flatMap((code) => {
+    const item = week[side].find((entry) => entry.currencyCode === code);
+    return item ? [describeRate(item, previousWeek, side)] : [];
+  });
+
+/**
+ * One entry per week with the key currencies' import and export rates and their week-over-week change.
+ */
+export const renderRatesFeed = (payload: RateDataset, weeks: RateWeek[]): string => {
+  const entries = weeks.slice(0, FEED_ENTRY_COUNT).map((week, index): AtomEntry => {
+    const previousWeek = weeks[index + 1];
+    const headline = keyRates(week, previousWeek, 'import').map(({ item, quoted }) => `${item.currencyCode} ${formatNumber(quoted, LOCALE)}`);
+    return {
+      id: `tag:${TAG_AUTHORITY}:week/${week.startDate}`,
+      title: `Rates for ${weekTitle(week)}${headline.length ? `: ${headline.join(', ')}` : ''}`,
+      updated: weekUpdated(week),
+      link: `/table/en/${week.startDate}/`,
+      html: [
+        `<p>Applies ${escapeHtml(weekTitle(week))}${previousWeek ? `; changes versus ${escapeHtml(previousWeek.startDate)}` : ''}.</p>`,
+        '<h3>Import</h3>',
+        renderRateList(keyRates(week, previousWeek, 'import')),
+        '<h3>Export</h3>',
+        renderRateList(keyRates(week, previousWeek, 'export')),
+        `<p><a href="${escapeHtml(siteUrl(`/table/en/${week.startDate}/`))}">All ${week.import.length} currencies</a></p>`
+      ].join('')
+    };
+  });
+
+  return renderAtom({
+    id: `tag:${TAG_AUTHORITY}:rates`,
+    title: FEED_TITLE,
+    selfUrl: feedUrl('rates.xml'),
+    updated: entries[0]?.updated ?? payload.generatedAt,
+    entries
+  });
+};
+
+/**
+ * The same feed narrowed to one currency, with both sides in every entry.
+ */
+export const renderCurrencyFeed = (payload: RateDataset, weeks: RateWeek[], currencyCode: string): string => {
+  const entries = weeks.slice(0, FEED_ENTRY_COUNT).flatMap((week, index): AtomEntry[] => {
+    const previousWeek = weeks[index + 1];
+    const lines = (['import', 'export'] as const).flatMap((side) => {
+      const item = week[side].find((entry) => entry.currencyCode === currencyCode);
+      return item ? [{ side, line: describeRate(item, previousWeek, side) }] : [];
+    });
+    if (!lines.length) return [];
+
+    const importLine = lines.find((line) => line.side === 'import') ?? lines[0];
+    return [
+      {
+        id: `tag:${TAG_AUTHORITY}:week/${week.startDate}/${currencyCode}`,
+        title: `${currencyCode} ${formatNumber(importLine.line.quoted, LOCALE)} KRW for ${weekTitle(week)}${importLine.line.change ? `, ${importLine.line.change}` : ''}`,
+        updated: weekUpdated(week),
+        link: `/table/en/${week.startDate}/`,
+        html: `<ul>${lines.map(({ side, line }) => `<li>${side === 'import' ? 'Import' : 'Export'}: ${escapeHtml(formatLine(line))}</li>`).join('')}</ul>`
+      }
+    ];
+  });
+
+  return renderAtom({
+    id: `tag:${TAG_AUTHORITY}:currency/${currencyCode}`,
+    title: `${currencyCode} · ${FEED_TITLE}`,
+    selfUrl: feedUrl(`${currencyCode}.xml`),
+    updated: entries[0]?.updated ?? payload.generatedAt,
+    entries
+  });
+};
+
+export const escapeIcsText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545 folds content lines longer than 75 octets; continuation lines start with a space.
+export const foldIcsLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (Buffer.byteLength(current + char, 'utf-8') > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toIcsDate = (isoDate: string): string => isoDate.replace(/-/g, '');
+
+const toIcsTimestamp = (iso: string): string => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * An all-day event per application period (Sunday to Saturday) whose description lists the key rates.
+ */
+export const renderRatesCalendar = (weeks: RateWeek[]): string => {
+  const events = weeks.flatMap((week, index) => {
+    const previousWeek = weeks[index + 1];
+    const description = [
+      `Korea Customs rates applying ${weekTitle(week)}`,
+      '',
+      'Import:',
+      ...keyRates(week, previousWeek, 'import').map(formatLine),
+      '',
+      'Export:',
+      ...keyRates(week, previousWeek, 'export').map(formatLine),
+      '',
+      siteUrl(`/table/en/${week.startDate}/`)
+    ].join('\n');
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${week.startDate}@${TAG_AUTHORITY.split(',')[0]}`,
+      `DTSTAMP:${toIcsTimestamp(weekUpdated(week))}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(week.startDate)}`,
+      // DTEND is exclusive, so the event covers Sunday through Saturday.
+      `DTEND;VALUE=DATE:${toIcsDate(addDays(week.endDate, 1))}`,
+      `SUMMARY:${escapeIcsText(`관세청 환율 ${weekTitle(week)}`)}`,
+      `DESCRIPTION:${escapeIcsText(description)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//korea-customs-rates//weekly rates//KO',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeIcsText(FEED_TITLE)}`,
+    'X-WR-TIMEZONE:Asia/Seoul',
+    ...events,
+    'END:VCALENDAR'
+  ]
+    .map(foldIcsLine)
+    .join('\r\n') + '\r\n';
+};
+
+/**
+ * Writes /feeds/rates.xml, /feeds/{code}.xml for every current currency and /feeds/rates.ics.
+ * Covers archived weeks too, so it should run after writeArchive. The folder is rebuilt from scratch.
+ */
+export const writeFeeds = (payload: RateDataset): void => {
+  if (payload.weeks.length === 0) {
+    console.warn('[feeds] No weeks available, skipping feeds.');
+    return;
+  }
+
+  const weeks = loadAllWeeks(payload);
+  const latest = weeks[0];
+  const codes = Array.from(new Set([...latest.import, ...latest.export].map((item) => item.currencyCode))).sort();
+
+  fs.rmSync(FEEDS_DIR, { recursive: true, force: true });
+  fs.mkdirSync(FEEDS_DIR, { recursive: true });
+  fs.writeFileSync(path.join(FEEDS_DIR, 'rates.xml'), renderRatesFeed(payload, weeks), 'utf-8');
+  for (const code of codes) {
+    fs.writeFileSync(path.join(FEEDS_DIR, `${code}.xml`), renderCurrencyFeed(payload, weeks, code), 'utf-8');
+  }
+  fs.writeFileSync(path.join(FEEDS_DIR, 'rates.ics'), renderRatesCalendar(weeks), 'utf-8');
+
+  console.log(`[feeds] Wrote rates.xml, rates.ics and ${codes.length} currency feeds to ${FEEDS_DIR}`);
+};
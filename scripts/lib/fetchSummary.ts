@@ -0,0 +1,42 @@
+import fs from 'fs';
+import { FetchSummary, WeekOutcome } from './generator';
+
+const countOutcome = (summary: FetchSummary, outcome: WeekOutcome): number =>
+  summary.weeks.filter((week) => week.outcome === outcome).length;
+
+/**
+ * Prints one line per week plus totals, and appends a Markdown version to the
+ * GitHub Actions job summary when GITHUB_STEP_SUMMARY is set.
+ */
+export const reportFetchSummary = (summary: FetchSummary): void => {
+  const totals = `${countOutcome(summary, 'fetched')} fetched, ${countOutcome(summary, 'fallback')} from existing data, ${countOutcome(summary, 'missing')} missing`;
+
+  console.log(`[summary] ${summary.source}: ${summary.weeks.length} weeks (${totals}); ${summary.requests} requests, ${summary.retries} retries`);
+  for (const week of summary.weeks) {
+    const detail = week.errors.length ? ` - ${week.errors.join('; ')}` : '';
+    console.log(`[summary]   ${week.startDate} ${week.outcome.padEnd(8)}${detail}`);
+  }
+  if (summary.abortedBy) {
+    console.error(`[summary] Stopped early: ${summary.abortedBy}`);
+  }
+  if (summary.latestWeekMissing) {
+    console.error(`[summary] Latest week ${summary.latestWeek} is missing.`);
+  }
+
+  const stepSummaryPath = process.env.GITHUB_STEP_SUMMARY;
+  if (!stepSummaryPath) return;
+
+  const lines = [
+    `### Exchange rate fetch (${summary.source})`,
+    '',
+    `${totals}; ${summary.requests} requests, ${summary.retries} retries.`,
+    ...(summary.abortedBy ? ['', `**Stopped early:** ${summary.abortedBy}`] : []),
+    ...(summary.latestWeekMissing ? ['', `**Latest week ${summary.latestWeek} is missing.**`] : []),
+    '',
+    '| Week | Outcome | Errors |',
+    '| --- | --- | --- |',
+    ...summary.weeks.map((week) => `| ${week.startDate} | ${week.outcome} | ${week.errors.join('<br>').replace(/\|/g, '\\|')} |`),
+    ''
+  ];
+  fs.appendFileSync(stepSummaryPath, lines.join('\n'));
+};
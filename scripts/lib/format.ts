@@ -0,0 +1,27 @@
+const round = (value: number, digits: number): number => Number(value.toFixed(digits));
+
+export const formatNumber = (value: number, locale: string, maximumFractionDigits = 4): string =>
+  value.toLocaleString(locale, { minimumFractionDigits: 2, maximumFractionDigits });
+
+/**
+ * Formats a change with ▲/▼ so the direction survives black-and-white printing and plain-text readers.
+ */
+export const formatSigned = (value: number, locale: string, suffix = '', maximumFractionDigits = 4): string => {
+  const text = `${formatNumber(Math.abs(value), locale, maximumFractionDigits)}${suffix}`;
+  if (value > 0) return `▲ ${text}`;
+  if (value < 0) return `▼ ${text}`;
+  return text;
+};
+
+export interface RateChange {
+  change: number; // KRW per quoted unit
+  changePercent: number;
+}
+
+/**
+ * Week-over-week change of a quoted rate, rounded so floating-point noise does not read as a move.
+ */
+export const getRateChange = (rate: number, previousRate: number): RateChange => ({
+  change: round(rate - previousRate, 4),
+  changePercent: previousRate ? round(((rate - previousRate) / previousRate) * 100, 4) : 0
+});
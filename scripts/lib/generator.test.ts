@@ -0,0 +1,170 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { validateRateDataset } from '../../services/rateSchema';
+import { MockCustomsServer, MOCK_SERVICE_KEYS, startMockCustomsServer } from './mockCustomsServer';
+import { createCustomsApiSource, createFixtureSource } from './sources';
+
+// The generator falls back to the snapshot and archive under RATES_PUBLIC_DIR, so point it at an empty directory
+// before paths.ts is first loaded.
+const publicDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rates-public-'));
+process.env.RATES_PUBLIC_DIR = publicDir;
+const { buildDataset } = await import('./generator');
+const { PROJECT_ROOT } = await import('./paths');
+
+// Friday 2026-06-19 09:00 KST: the latest published week starts on 2026-06-14.
+const NOW = new Date('2026-06-19T00:00:00Z');
+
+let server: MockCustomsServer;
+
+beforeAll(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  server = await startMockCustomsServer({ port: 0 });
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  await server.close();
+  fs.rmSync(publicDir, { recursive: true, force: true });
+});
+
+const mockSource = (serviceKey: string) => createCustomsApiSource({ serviceKey, baseUrl: server.url });
+
+const runCli = (args: string[], env: Record<string, string>): Promise<{ code: number; output: string }> =>
+  new Promise((resolve) => {
+    execFile(
+      process.execPath,
+      ['--import', 'tsx', path.join(PROJECT_ROOT, 'scripts', 'cli.ts'), ...args],
+      { cwd: PROJECT_ROOT, env: { ...process.env, ...env }, timeout: 120_000 },
+      (error, stdout, stderr) => resolve({ code: error ? Number(error.code ?? 1) : 0, output: `${stdout}${stderr}` })
+    );
+  });
+
+describe('buildDataset', () => {
+  it('builds a valid dataset from the fixture source', async () => {
+    const { dataset, summary } = await buildDataset({ weekCount: 3, source: createFixtureSource(), now: NOW });
+
+    expect(summary.weeks.map((week) => [week.startDate, week.outcome])).toEqual([
+      ['2026-06-14', 'fetched'],
+      ['2026-06-07', 'fetched'],
+      ['2026-05-31', 'fetched']
+    ]);
+    expect(summary.latestWeekMissing).toBe(false);
+    expect(validateRateDataset(dataset).weeks).toHaveLength(3);
+  });
+
+  it('keeps the fetch time of weeks whose rates did not change', async () => {
+    const { dataset: stored } = await buildDataset({ weekCount: 2, source: createFixtureSource(), now: NOW });
+    const [latest, previous] = stored.weeks;
+    const snapshot = {
+      ...stored,
+      weeks: [
+        { ...latest, fetchedAt: '2026-06-12T08:00:00.000Z', import: latest.import.map((item) => ({ ...item, rate: item.rate + 1 })) },
+        { ...previous, fetchedAt: '2026-06-05T08:00:00.000Z' }
+      ]
+    };
+    fs.writeFileSync(path.join(publicDir, 'exchange-rates.json'), JSON.stringify(snapshot), 'utf-8');
+
+    try {
+      const { dataset } = await buildDataset({ weekCount: 2, source: createFixtureSource(), now: NOW });
+
+      expect(dataset.weeks[0].fetchedAt).not.toBe('2026-06-12T08:00:00.000Z');
+      expect(dataset.weeks[1].fetchedAt).toBe('2026-06-05T08:00:00.000Z');
+    } finally {
+      fs.rmSync(path.join(publicDir, 'exchange-rates.json'), { force: true });
+    }
+  });
+
+  it('reads every week through the Customs API client', async () => {
+    const { dataset, summary } = await buildDataset({ weekCount: 2, source: mockSource('any'), now: NOW });
+
+    expect(summary).toMatchObject({ requests: 4, retries: 0, abortedBy: null, latestWeekMissing: false });
+    expect(dataset.weeks[0].import.map((item) => item.currencyCode)).toContain('USD');
+    expect(dataset.weeks[0].import.find((item) => item.currencyCode === 'JPY')?.unit).toBe(100);
+  });
+
+  it('retries the transient 503 of the flaky key', async () => {
+    const { summary } = await buildDataset({ weekCount: 2, source: mockSource(MOCK_SERVICE_KEYS.flaky), now: NOW, retryDelayMs: 1 });
+
+    expect(summary.retries).toBe(4);
+    expect(summary.requests).toBe(8);
+    expect(summary.weeks.every((week) => week.outcome === 'fetched')).toBe(true);
+  });
+
+  it('stops every remaining request on an invalid key', async () => {
+    const { dataset, summary } = await buildDataset({
+      weekCount: 4,
+      source: mockSource(MOCK_SERVICE_KEYS.invalidKey),
+      now: NOW,
+      concurrency: 1,
+      retryDelayMs: 1
+    });
+
+    expect(summary.requests).toBe(1);
+    expect(summary.retries).toBe(0);
+    expect(summary.abortedBy).toContain('resultCode 30');
+    expect(summary.latestWeekMissing).toBe(true);
+    expect(summary.weeks[1].errors[0]).toMatch(/^export: skipped after API resultCode 30/);
+    expect(dataset.weeks).toEqual([]);
+  });
+
+  it('accepts a response with a single <item>', async () => {
+    const { dataset, summary } = await buildDataset({ weekCount: 1, source: mockSource(MOCK_SERVICE_KEYS.singleItem), now: NOW });
+
+    expect(summary.latestWeekMissing).toBe(false);
+    expect(dataset.weeks[0].import.map((item) => item.currencyCode)).toEqual(['USD']);
+    expect(dataset.weeks[0].export.map((item) => item.currencyCode)).toEqual(['USD']);
+  });
+
+  it('reports an empty response as a missing week', async () => {
+    const { summary } = await buildDataset({ weekCount: 1, source: mockSource(MOCK_SERVICE_KEYS.empty), now: NOW });
+
+    expect(summary.weeks).toEqual([{ startDate: '2026-06-14', outcome: 'missing', errors: ['export: no data', 'import: no data'] }]);
+    expect(summary.latestWeekMissing).toBe(true);
+  });
+});
+
+describe('rates fetch', () => {
+  const cliEnv = (outputDir: string, env: Record<string, string>) => ({
+    RATES_PUBLIC_DIR: outputDir,
+    RATES_REPORT_DIR: path.join(outputDir, 'reports'),
+    ALERT_RULES_FILE: path.join(outputDir, 'alert-rules.json'),
+    REFERENCE_SOURCE: 'none',
+    WEEKS_TO_FETCH: '2',
+    FETCH_RETRY_DELAY_MS: '1',
+    ...env
+  });
+
+  it('exits non-zero and writes nothing when the latest week comes back empty', async () => {
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rates-cli-'));
+    try {
+      const { code, output } = await runCli(
+        ['fetch'],
+        cliEnv(outputDir, { RATE_SOURCE: 'customs', CUSTOMS_API_KEY: MOCK_SERVICE_KEYS.empty, CUSTOMS_API_BASE_URL: server.url })
+      );
+
+      expect(code).toBe(1);
+      expect(output).toContain('Refusing to publish a snapshot without the latest week');
+      expect(fs.existsSync(path.join(outputDir, 'exchange-rates.json'))).toBe(false);
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+
+  it('publishes the snapshot from the fixture source', async () => {
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rates-cli-'));
+    try {
+      const { code, output } = await runCli(['fetch'], cliEnv(outputDir, { RATE_SOURCE: 'fixture' }));
+
+      expect(code, output).toBe(0);
+      const snapshot = validateRateDataset(JSON.parse(fs.readFileSync(path.join(outputDir, 'exchange-rates.json'), 'utf-8')));
+      expect(snapshot.weeks).toHaveLength(2);
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  }, 120_000);
+});
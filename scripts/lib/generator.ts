@@ -0,0 +1,197 @@
+import fs from 'fs';
+import { RateData, RateDataset, RateType, RateWeek } from '../../types';
+import { RATE_SCHEMA_VERSION } from '../../services/rateSchema';
+import { addDays, formatDateForDisplay, getRecentSundays } from '../../utils/dateUtils';
+import { RateFetchError, RateSource, toRateFetchError } from './sources';
+import { mapWithConcurrency, withRetry } from './async';
+import { loadArchiveWeeks } from './archive';
+import { SNAPSHOT_PATH } from './paths';
+import { readSnapshot } from './snapshot';
+
+export interface BuildDatasetOptions {
+  weekCount: number;
+  source: RateSource;
+  now?: Date;
+  concurrency?: number; // Requests in flight at once
+  retries?: number; // Extra attempts for retryable failures
+  retryDelayMs?: number; // First backoff delay, doubled on each retry
+}
+
+export type WeekOutcome = 'fetched' | 'fallback' | 'missing';
+
+export interface WeekFetchResult {
+  startDate: string;
+  outcome: WeekOutcome;
+  errors: string[]; // One line per failed side, e.g. "import: HTTP 503"
+}
+
+export interface FetchSummary {
+  source: string;
+  latestWeek: string;
+  latestWeekMissing: boolean;
+  requests: number;
+  retries: number;
+  abortedBy: string | null; // Message of the error that stopped the remaining requests
+  weeks: WeekFetchResult[];
+}
+
+export interface BuildDatasetResult {
+  dataset: RateDataset;
+  summary: FetchSummary;
+}
+
+interface SideResult {
+  rates: RateData[] | null;
+  error?: string;
+}
+
+const SIDES = [
+  { type: RateType.EXPORT, key: 'export' },
+  { type: RateType.IMPORT, key: 'import' }
+] as const;
+
+const loadExistingWeeks = (): RateWeek[] => {
+  if (!fs.existsSync(SNAPSHOT_PATH)) return [];
+  // A snapshot that fails validation is fatal: falling back to it would republish bad rates.
+  return readSnapshot(SNAPSHOT_PATH).weeks;
+};
+
+const sameRates = (a: RateData[], b: RateData[]): boolean =>
+  a.length === b.length &&
+  a.every((item, index) => {
+    const other = b[index];
+    return (
+      item.currencyCode === other.currencyCode &&
+      item.rate === other.rate &&
+      item.unit === other.unit &&
+      item.currencyName === other.currencyName &&
+      item.countryCode === other.countryCode &&
+      item.date === other.date &&
+      item.id === other.id
+    );
+  });
+
+/**
+ * Fetches the most recent `weekCount` weeks, falling back to the snapshot and then the archive
+ * for any week the source cannot provide. Retryable failures are retried with backoff, and a
+ * key or quota error stops every remaining request instead of repeating it.
+ */
+export const buildDataset = async ({
+  weekCount,
+  source,
+  now = new Date(),
+  concurrency = 4,
+  retries = 3,
+  retryDelayMs = 1000
+}: BuildDatasetOptions): Promise<BuildDatasetResult> => {
+  const sundays = getRecentSundays(weekCount, now);
+  const existingWeeksMap = new Map<string, RateWeek>();
+
+  // Archived weeks are a fallback of last resort; the current snapshot takes precedence.
+  for (const week of loadArchiveWeeks()) {
+    existingWeeksMap.set(week.startDate, week);
+  }
+  for (const week of loadExistingWeeks()) {
+    existingWeeksMap.set(week.startDate, week);
+  }
+
+  console.log(`[generator] Fetching ${sundays.length} weeks from ${source.name} (concurrency ${concurrency}, retries ${retries})`);
+
+  let requests = 0;
+  let retryCount = 0;
+  let abortError: RateFetchError | null = null;
+
+  const requestList = sundays.flatMap((date) => SIDES.map((side) => ({ date, ...side })));
+  const results = await mapWithConcurrency(requestList, concurrency, async ({ date, type, key }): Promise<SideResult> => {
+    const label = `${formatDateForDisplay(date)} ${key}`;
+    if (abortError) {
+      return { rates: null, error: `skipped after ${abortError.message}` };
+    }
+
+    try {
+      const rates = await withRetry(
+        () => {
+          requests++;
+          return source.fetchWeek(date, type).catch((error) => Promise.reject(toRateFetchError(error)));
+        },
+        {
+          retries,
+          baseDelayMs: retryDelayMs,
+          shouldRetry: (error) => !abortError && error instanceof RateFetchError && error.retryable,
+          onRetry: (error, attempt, delayMs) => {
+            retryCount++;
+            console.warn(`[generator] ${label}: ${(error as Error).message}; retry ${attempt}/${retries} in ${delayMs}ms`);
+          }
+        }
+      );
+      return rates ? { rates } : { rates: null, error: 'no data' };
+    } catch (error) {
+      const fetchError = toRateFetchError(error);
+      if (fetchError.abortsRun && !abortError) {
+        abortError = fetchError;
+        console.error(`[generator] ${label}: ${fetchError.message}; skipping the remaining requests.`);
+      } else {
+        console.warn(`[generator] ${label}: ${fetchError.message}`);
+      }
+      return { rates: null, error: fetchError.message };
+    }
+  });
+
+  const weeks: RateWeek[] = [];
+  const weekResults: WeekFetchResult[] = [];
+
+  sundays.forEach((date, index) => {
+    const formattedDate = formatDateForDisplay(date);
+    const sideResults = results.slice(index * SIDES.length, (index + 1) * SIDES.length);
+    const [exportResult, importResult] = sideResults;
+    const errors = SIDES.flatMap(({ key }, sideIndex) => {
+      const { error } = sideResults[sideIndex];
+      return error ? [`${key}: ${error}`] : [];
+    });
+
+    const existingWeek = existingWeeksMap.get(formattedDate);
+
+    if (exportResult.rates && importResult.rates) {
+      // A week whose rates did not change keeps its fetch time, so unchanged weeks leave the archive, API and feeds alone.
+      const unchanged =
+        existingWeek?.fetchedAt && sameRates(existingWeek.import, importResult.rates) && sameRates(existingWeek.export, exportResult.rates);
+      weeks.push({
+        startDate: formattedDate,
+        endDate: addDays(formattedDate, 6),
+        fetchedAt: unchanged ? existingWeek.fetchedAt : new Date().toISOString(),
+        export: exportResult.rates,
+        import: importResult.rates
+      });
+      weekResults.push({ startDate: formattedDate, outcome: 'fetched', errors });
+      return;
+    }
+
+    // Failed to fetch one or both sides. Check existing data.
+    if (existingWeek) {
+      weeks.push(existingWeek);
+      weekResults.push({ startDate: formattedDate, outcome: 'fallback', errors });
+    } else {
+      weekResults.push({ startDate: formattedDate, outcome: 'missing', errors });
+    }
+  });
+
+  const latestWeek = formatDateForDisplay(sundays[0]);
+
+  return {
+    dataset: {
+      schemaVersion: RATE_SCHEMA_VERSION,
+      generatedAt: new Date().toISOString(),
+      source: 'Korea Customs Service (static snapshot)',
+      weeks
+    },
+    summary: {
+      source: source.name,
+      latestWeek,
+      latestWeekMissing: weekResults[0]?.outcome === 'missing',
+      requests,
+      retries: retryCount,
+      abortedBy: abortError ? (abortError as RateFetchError).message : null,
+      weeks: weekResults
+    }
+  };
+};
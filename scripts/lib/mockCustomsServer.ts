@@ -0,0 +1,154 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { RateData, RateType } from '../../types';
+import { getFixtureRates, getFixtureReferenceRates } from './sources/fixtureSource';
+
+export const MOCK_API_PATH = '/1220000/retrieveTrifFxrtInfo/getRetrieveTrifFxrtInfo';
+// Daily reference rates for REFERENCE_SOURCE=http; `?format=csv` answers CSV instead of JSON.
+export const MOCK_REFERENCE_PATH = '/reference-rates';
+
+/**
+ * Service keys that make the mock answer with a specific envelope instead of fixture data.
+ */
+export const MOCK_SERVICE_KEYS = {
+  invalidKey: 'mock-invalid-key',
+  rateLimited: 'mock-rate-limited',
+  applicationError: 'mock-application-error',
+  empty: 'mock-empty',
+  singleItem: 'mock-single-item',
+  flaky: 'mock-flaky' // First request per week and side answers HTTP 503
+} as const;
+
+export interface MockCustomsServerOptions {
+  port?: number; // 0 picks a free port
+  host?: string;
+  emptyDates?: string[]; // YYYYMMDD weeks answered with an empty <items/>
+}
+
+export interface MockCustomsServer {
+  url: string; // Full endpoint URL, usable as CUSTOMS_API_BASE_URL
+  referenceUrl: string; // Usable as REFERENCE_API_URL
+  close: () => Promise<void>;
+}
+
+const escapeXml = (value: unknown): string =>
+  String(value ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// data.go.kr answers gateway-level failures (bad key, quota) with HTTP 200 and this envelope.
+const gatewayError = (reasonCode: string, authMsg: string): string => `<?xml version="1.0" encoding="UTF-8"?>
+<OpenAPI_ServiceResponse>
+  <cmmMsgHeader>
+    <errMsg>SERVICE ERROR</errMsg>
+    <returnAuthMsg>${escapeXml(authMsg)}</returnAuthMsg>
+    <returnReasonCode>${escapeXml(reasonCode)}</returnReasonCode>
+  </cmmMsgHeader>
+</OpenAPI_ServiceResponse>`;
+
+const itemXml = (rate: RateData, date: string, type: RateType): string => `      <item>
+        <aplyBgnDt>${escapeXml(date)}</aplyBgnDt>
+        <cntySgn>${escapeXml(rate.countryCode)}</cntySgn>
+        <currSgn>${escapeXml(rate.currencyCode)}</currSgn>
+        <fxrt>${escapeXml(rate.rate)}</fxrt>
+        <imexTp>${escapeXml(type)}</imexTp>
+        <mtryUtNm>${escapeXml(rate.currencyName)}</mtryUtNm>
+      </item>`;
+
+const serviceResponse = (resultCode: string, resultMsg: string, items: string[] | null): string => `<?xml version="1.0" encoding="UTF-8"?>
+<response>
+  <header>
+    <resultCode>${escapeXml(resultCode)}</resultCode>
+    <resultMsg>${escapeXml(resultMsg)}</resultMsg>
+  </header>
+  <body>
+${items === null ? '' : items.length ? `    <items>\n${items.join('\n')}\n    </items>` : '    <items/>'}
+    <numOfRows>${items?.length ?? 0}</numOfRows>
+    <pageNo>1</pageNo>
+    <totalCount>${items?.length ?? 0}</totalCount>
+  </body>
+</response>`;
+
+interface MockResponse {
+  status: number;
+  body: string;
+  contentType?: string;
+}
+
+const respondReference = (url: URL): MockResponse => {
+  const from = url.searchParams.get('from') || '';
+  const to = url.searchParams.get('to') || '';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to) || from > to) {
+    return { status: 400, body: 'from and to must be YYYY-MM-DD dates with from <= to' };
+  }
+
+  const rates = getFixtureReferenceRates(from, to);
+  if (url.searchParams.get('format') === 'csv') {
+    const lines = rates.map((rate) => `${rate.date},${rate.currencyCode},${rate.rate}`);
+    return { status: 200, body: ['date,currencyCode,rate', ...lines].join('\n'), contentType: 'text/csv;charset=UTF-8' };
+  }
+  return { status: 200, body: JSON.stringify({ rates }), contentType: 'application/json;charset=UTF-8' };
+};
+
+const respond = (url: URL, emptyDates: Set<string>, seen: Set<string>): MockResponse => {
+  if (url.pathname === MOCK_REFERENCE_PATH) {
+    return respondReference(url);
+  }
+  if (url.pathname !== MOCK_API_PATH) {
+    return { status: 404, body: 'Not Found' };
+  }
+
+  const serviceKey = url.searchParams.get('serviceKey') || '';
+  const date = url.searchParams.get('aplyBgnDt') || '';
+  const type = url.searchParams.get('weekFxrtTpcd') || '';
+
+  if (!serviceKey || serviceKey === MOCK_SERVICE_KEYS.invalidKey) {
+    return { status: 200, body: gatewayError('30', 'SERVICE_KEY_IS_NOT_REGISTERED_ERROR') };
+  }
+  if (serviceKey === MOCK_SERVICE_KEYS.rateLimited) {
+    return { status: 200, body: gatewayError('22', 'LIMITED_NUMBER_OF_SERVICE_REQUESTS_EXCEEDS_ERROR') };
+  }
+  if (serviceKey === MOCK_SERVICE_KEYS.applicationError) {
+    return { status: 200, body: serviceResponse('01', 'APPLICATION_ERROR', null) };
+  }
+  if (!/^\d{8}$/.test(date) || (type !== RateType.EXPORT && type !== RateType.IMPORT)) {
+    return { status: 200, body: serviceResponse('10', 'INVALID_REQUEST_PARAMETER_ERROR', null) };
+  }
+  if (serviceKey === MOCK_SERVICE_KEYS.flaky && !seen.has(`${date}-${type}`)) {
+    seen.add(`${date}-${type}`);
+    return { status: 503, body: 'Service Unavailable' };
+  }
+  if (serviceKey === MOCK_SERVICE_KEYS.empty || emptyDates.has(date)) {
+    return { status: 200, body: serviceResponse('00', 'NORMAL SERVICE.', []) };
+  }
+
+  const rateType = type as RateType;
+  const rates = getFixtureRates(date, rateType);
+  const selected = serviceKey === MOCK_SERVICE_KEYS.singleItem ? rates.slice(0, 1) : rates;
+  return { status: 200, body: serviceResponse('00', 'NORMAL SERVICE.', selected.map((rate) => itemXml(rate, date, rateType))) };
+};
+
+/**
+ * A local stand-in for getRetrieveTrifFxrtInfo that serves fixture rates as realistic XML,
+ * including the gateway and service error envelopes, empty results, single-item responses and transient 503s.
+ * It also serves daily fixture reference rates at MOCK_REFERENCE_PATH.
+ */
+export const startMockCustomsServer = ({ port = 8787, host = '127.0.0.1', emptyDates = [] }: MockCustomsServerOptions = {}): Promise<MockCustomsServer> => {
+  const empty = new Set(emptyDates);
+  const seen = new Set<string>();
+  const server = http.createServer((req, res) => {
+    const { status, body, contentType } = respond(new URL(req.url || '/', `http://${host}`), empty, seen);
+    res.writeHead(status, { 'Content-Type': contentType ?? (status === 200 ? 'application/xml;charset=UTF-8' : 'text/plain') });
+    res.end(body);
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      const address = server.address() as AddressInfo;
+      resolve({
+        url: `http://${host}:${address.port}${MOCK_API_PATH}`,
+        referenceUrl: `http://${host}:${address.port}${MOCK_REFERENCE_PATH}`,
+        close: () => new Promise((done) => server.close(() => done()))
+      });
+    });
+  });
+};
@@ -0,0 +1,21 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+export const PROJECT_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', '..');
+// RATES_PUBLIC_DIR redirects every output, e.g. to a temp directory for offline pipeline runs.
+export const PUBLIC_DIR = process.env.RATES_PUBLIC_DIR ? path.resolve(process.env.RATES_PUBLIC_DIR) : path.join(PROJECT_ROOT, 'public');
+export const SNAPSHOT_PATH = path.join(PUBLIC_DIR, 'exchange-rates.json');
+export const ARCHIVE_DIR = path.join(PUBLIC_DIR, 'archive');
+export const ARCHIVE_MANIFEST_PATH = path.join(ARCHIVE_DIR, 'manifest.json');
+export const TABLE_DIR = path.join(PUBLIC_DIR, 'table');
+// Older links point at /table.html; it keeps serving the latest week in Korean.
+export const LEGACY_TABLE_PATH = path.join(PUBLIC_DIR, 'table.html');
+// Anomaly reports are CI artefacts, not published assets, so they live outside public/.
+export const REPORT_DIR = process.env.RATES_REPORT_DIR ? path.resolve(process.env.RATES_REPORT_DIR) : path.join(PROJECT_ROOT, 'reports');
+export const REPORT_JSON_PATH = path.join(REPORT_DIR, 'report.json');
+export const REPORT_MARKDOWN_PATH = path.join(REPORT_DIR, 'report.md');
+export const API_DIR = path.join(PUBLIC_DIR, 'api');
+export const FEEDS_DIR = path.join(PUBLIC_DIR, 'feeds');
+export const REFERENCE_RATES_PATH = path.join(PUBLIC_DIR, 'reference-rates.json');
+// Alert rules hold webhook URLs, so the real file is kept out of git; see alert-rules.example.json.
+export const ALERT_RULES_PATH = process.env.ALERT_RULES_FILE ? path.resolve(process.env.ALERT_RULES_FILE) : path.join(PROJECT_ROOT, 'alert-rules.json');
@@ -0,0 +1,23 @@
+import fs from 'fs';
+import path from 'path';
+import { RateFetchError } from '../sources';
+import { detectReferenceFormat, parseReferenceRates } from './parse';
+import { ReferenceRateProvider } from './types';
+
+/**
+ * Reads reference rates from a local JSON or CSV file, chosen by extension. The file is re-read on every call
+ * so it can be updated between runs, e.g. by a spreadsheet export.
+ */
+export const createFileReferenceProvider = (filePath: string): ReferenceRateProvider => {
+  const resolved = path.resolve(filePath);
+  return {
+    name: `file (${filePath})`,
+    fetchRates: async (from, to) => {
+      if (!fs.existsSync(resolved)) {
+        throw new RateFetchError(`Reference file not found: ${resolved}`, { abortsRun: true });
+      }
+      const rates = parseReferenceRates(fs.readFileSync(resolved, 'utf-8'), detectReferenceFormat(path.extname(resolved)), resolved);
+      return rates.filter((rate) => rate.date >= from && rate.date <= to);
+    }
+  };
+};
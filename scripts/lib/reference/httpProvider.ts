@@ -0,0 +1,35 @@
+import { CustomsHttpError } from '../sources';
+import { detectReferenceFormat, parseReferenceRates } from './parse';
+import { ReferenceRateProvider } from './types';
+
+const REQUEST_TIMEOUT_MS = 30_000;
+
+export interface HttpReferenceProviderOptions {
+  url: string; // Queried as `${url}?from=YYYY-MM-DD&to=YYYY-MM-DD`
+  token?: string; // Sent as a Bearer token when set
+}
+
+/**
+ * Reads reference rates from an HTTP endpoint answering JSON or CSV (by Content-Type).
+ * The mock server's /reference-rates route stands in for it locally.
+ */
+export const createHttpReferenceProvider = ({ url, token }: HttpReferenceProviderOptions): ReferenceRateProvider => ({
+  name: `http (${url})`,
+  fetchRates: async (from, to) => {
+    const requestUrl = new URL(url);
+    requestUrl.searchParams.set('from', from);
+    requestUrl.searchParams.set('to', to);
+
+    const response = await fetch(requestUrl, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new CustomsHttpError(response.status, response.statusText);
+    }
+
+    const format = detectReferenceFormat(`${response.headers.get('content-type') ?? ''} ${requestUrl.pathname}`);
+    const rates = parseReferenceRates(await response.text(), format, url);
+    return rates.filter((rate) => rate.date >= from && rate.date <= to);
+  }
+});
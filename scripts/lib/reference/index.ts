@@ -0,0 +1,30 @@
+import { createFileReferenceProvider } from './fileProvider';
+import { createHttpReferenceProvider } from './httpProvider';
+import { ReferenceRateProvider } from './types';
+
+export type { ReferenceRateProvider } from './types';
+export { createFileReferenceProvider } from './fileProvider';
+export { createHttpReferenceProvider } from './httpProvider';
+export { parseReferenceRates } from './parse';
+
+/**
+ * Picks the reference-rate provider from the environment:
+ * REFERENCE_SOURCE=file reads REFERENCE_FILE (JSON or CSV), REFERENCE_SOURCE=http queries REFERENCE_API_URL
+ * (with REFERENCE_API_TOKEN as a Bearer token when set). Unset or "none" returns null: no reference rates.
+ */
+export const createReferenceProviderFromEnv = (): ReferenceRateProvider | null => {
+  const kind = (process.env.REFERENCE_SOURCE || 'none').toLowerCase();
+
+  switch (kind) {
+    case 'none':
+      return null;
+    case 'file':
+      if (!process.env.REFERENCE_FILE) throw new Error('REFERENCE_SOURCE=file needs REFERENCE_FILE');
+      return createFileReferenceProvider(process.env.REFERENCE_FILE);
+    case 'http':
+      if (!process.env.REFERENCE_API_URL) throw new Error('REFERENCE_SOURCE=http needs REFERENCE_API_URL');
+      return createHttpReferenceProvider({ url: process.env.REFERENCE_API_URL, token: process.env.REFERENCE_API_TOKEN || undefined });
+    default:
+      throw new Error(`Unknown REFERENCE_SOURCE "${kind}" (expected "none", "file" or "http")`);
+  }
+};
@@ -0,0 +1,114 @@
+import { ReferenceRate } from '../../../types';
+import { RateDatasetValidationError } from '../../../services/rateSchema';
+import { validateReferenceRate } from '../../../services/referenceSchema';
+
+export type ReferenceFormat = 'json' | 'csv';
+
+// Accepted spellings of each CSV column, compared case-insensitively.
+const CSV_COLUMNS = {
+  date: ['date'],
+  currencyCode: ['currencycode', 'currency', 'code'],
+  rate: ['rate'],
+  unit: ['unit']
+} as const;
+
+/**
+ * Normalises one raw row: YYYYMMDD dates become YYYY-MM-DD, codes are upper-cased, and a rate quoted
+ * per `unit` (e.g. KRW per 100 JPY) is divided down to KRW per single unit.
+ */
+const normaliseRow = (row: Record<string, unknown>): Record<string, unknown> => {
+  const date = String(row.date ?? '').trim();
+  const unit = row.unit === undefined || row.unit === '' ? 1 : Number(row.unit);
+  const rate = typeof row.rate === 'string' ? Number(row.rate.replace(/,/g, '')) : row.rate;
+  return {
+    date: /^\d{8}$/.test(date) ? `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}` : date,
+    currencyCode: String(row.currencyCode ?? '').trim().toUpperCase(),
+    rate: typeof rate === 'number' && unit > 0 ? rate / unit : rate
+  };
+};
+
+// Splits one CSV line on commas outside double quotes; `""` inside quotes is a literal quote.
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quoted && char === '"' && line[index + 1] === '"') {
+      cell += '"';
+      index++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const parseCsvRows = (text: string, context: string): Record<string, unknown>[] => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter((line) => line.trim() && !line.trim().startsWith('#'));
+  if (!lines.length) return [];
+
+  const header = splitCsvLine(lines[0]).map((cell) => cell.toLowerCase());
+  const columns = Object.fromEntries(
+    Object.entries(CSV_COLUMNS).map(([key, names]) => [key, header.findIndex((cell) => (names as readonly string[]).includes(cell))])
+  ) as Record<keyof typeof CSV_COLUMNS, number>;
+  const missing = (['date', 'currencyCode', 'rate'] as const).filter((key) => columns[key] < 0);
+  if (missing.length) {
+    throw new RateDatasetValidationError([`CSV header is missing ${missing.join(', ')}`], context);
+  }
+
+  return lines.slice(1).map((line) => {
+    const cells = splitCsvLine(line);
+    return {
+      date: cells[columns.date],
+      currencyCode: cells[columns.currencyCode],
+      rate: cells[columns.rate],
+      unit: columns.unit >= 0 ? cells[columns.unit] : undefined
+    };
+  });
+};
+
+const parseJsonRows = (text: string, context: string): Record<string, unknown>[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new RateDatasetValidationError([`not valid JSON: ${(error as Error).message}`], context);
+  }
+  // Either a bare array of rows or a document with a `rates` array, such as reference-rates.json itself.
+  const rows = Array.isArray(parsed) ? parsed : (parsed as { rates?: unknown })?.rates;
+  if (!Array.isArray(rows)) {
+    throw new RateDatasetValidationError(['expected an array of rates or an object with a "rates" array'], context);
+  }
+  return rows;
+};
+
+/**
+ * Parses reference rates from JSON (`[{ date, currencyCode, rate, unit? }]` or `{ rates: [...] }`)
+ * or CSV with a `date,currencyCode,rate[,unit]` header. Throws a RateDatasetValidationError listing every bad row.
+ */
+export const parseReferenceRates = (text: string, format: ReferenceFormat, context = 'reference rates'): ReferenceRate[] => {
+  const rows = format === 'csv' ? parseCsvRows(text, context) : parseJsonRows(text, context);
+  const issues: string[] = [];
+  const rates = rows
+    .map((row, index) =>
+      validateReferenceRate(typeof row === 'object' && row !== null ? normaliseRow(row) : row, `row ${index + 1}`, issues)
+    )
+    .filter((rate): rate is ReferenceRate => rate !== null);
+
+  if (issues.length) {
+    throw new RateDatasetValidationError(issues, context);
+  }
+  return rates;
+};
+
+/**
+ * Guesses the format from a file name or Content-Type; anything that is not CSV is read as JSON.
+ */
+export const detectReferenceFormat = (hint: string): ReferenceFormat => (/csv/i.test(hint) ? 'csv' : 'json');
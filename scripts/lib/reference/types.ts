@@ -0,0 +1,11 @@
+import { ReferenceRate } from '../../../types';
+
+/**
+ * Anything that can supply daily market/bank reference rates.
+ * `from` and `to` are inclusive YYYY-MM-DD dates; rates outside the range may be returned and are dropped.
+ * Failures should be thrown as RateFetchError so the caller knows whether to retry.
+ */
+export interface ReferenceRateProvider {
+  name: string;
+  fetchRates(from: string, to: string): Promise<ReferenceRate[]>;
+}
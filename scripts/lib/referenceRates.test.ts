@@ -0,0 +1,71 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { RateData, RateDataset, ReferenceRate } from '../../types';
+import { REFERENCE_SCHEMA_VERSION } from '../../services/referenceSchema';
+import { ReferenceRateProvider } from './reference';
+
+// readReferenceRates defaults to REFERENCE_RATES_PATH, so point RATES_PUBLIC_DIR at a temp directory
+// before paths.ts is first loaded.
+const publicDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rates-public-'));
+process.env.RATES_PUBLIC_DIR = publicDir;
+const { buildReferenceRates, writeReferenceRates } = await import('./referenceRates');
+
+const rate = (currencyCode: string, value: number, date: string): RateData => ({
+  id: `${date}-${currencyCode}-import`,
+  countryCode: currencyCode.slice(0, 2),
+  currencyName: currencyCode,
+  currencyCode,
+  rate: value,
+  unit: 1,
+  date,
+  type: 'import'
+});
+
+const dataset: RateDataset = {
+  schemaVersion: 2,
+  generatedAt: '2026-06-19T08:00:00.000Z',
+  source: 'test',
+  weeks: [{ startDate: '2026-06-14', endDate: '2026-06-20', import: [rate('USD', 1380.5, '2026-06-14')], export: [] }]
+};
+
+const provider = (rates: ReferenceRate[]): ReferenceRateProvider => ({ name: 'test', fetchRates: async () => rates });
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(publicDir, { recursive: true, force: true });
+});
+
+describe('buildReferenceRates', () => {
+  it('keeps stored days before the snapshot and limits fetched rates to its range and currencies', async () => {
+    writeReferenceRates({
+      schemaVersion: REFERENCE_SCHEMA_VERSION,
+      generatedAt: '2026-06-12T08:00:00.000Z',
+      source: 'test',
+      rates: [
+        { date: '2026-06-08', currencyCode: 'USD', rate: 1370 },
+        { date: '2026-06-15', currencyCode: 'USD', rate: 1375 }
+      ]
+    });
+
+    const payload = await buildReferenceRates(dataset, {
+      provider: provider([
+        { date: '2026-06-13', currencyCode: 'USD', rate: 1372 },
+        { date: '2026-06-15', currencyCode: 'USD', rate: 1378 },
+        { date: '2026-06-16', currencyCode: 'XYZ', rate: 1 }
+      ]),
+      now: new Date('2026-06-17T00:00:00Z')
+    });
+
+    expect(payload.rates).toEqual([
+      { date: '2026-06-08', currencyCode: 'USD', rate: 1370 },
+      { date: '2026-06-15', currencyCode: 'USD', rate: 1378 }
+    ]);
+  });
+});
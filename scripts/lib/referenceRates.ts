@@ -0,0 +1,76 @@
+import fs from 'fs';
+import { RateDataset, ReferenceRate, ReferenceRateDataset } from '../../types';
+import { REFERENCE_SCHEMA_VERSION, validateReferenceRateDataset } from '../../services/referenceSchema';
+import { getTodayKst } from '../../utils/dateUtils';
+import { withRetry } from './async';
+import { REFERENCE_RATES_PATH } from './paths';
+import { ReferenceRateProvider } from './reference';
+import { readJsonFile } from './snapshot';
+import { RateFetchError, toRateFetchError } from './sources';
+
+export interface UpdateReferenceRatesOptions {
+  provider: ReferenceRateProvider;
+  now?: Date;
+  retries?: number;
+  retryDelayMs?: number;
+}
+
+/**
+ * Reads and validates public/reference-rates.json; null when it does not exist yet.
+ */
+export const readReferenceRates = (filePath: string = REFERENCE_RATES_PATH): ReferenceRateDataset | null =>
+  fs.existsSync(filePath) ? validateReferenceRateDataset(readJsonFile(filePath), filePath) : null;
+
+export const writeReferenceRates = (payload: ReferenceRateDataset, filePath: string = REFERENCE_RATES_PATH): void => {
+  validateReferenceRateDataset(payload, 'generated reference rates');
+  fs.writeFileSync(filePath, JSON.stringify(payload, null, 2), 'utf-8');
+  console.log(`[reference] Wrote ${payload.rates.length} reference rates to ${filePath}`);
+};
+
+const rateKey = (rate: ReferenceRate) => `${rate.date} ${rate.currencyCode}`;
+
+/**
+ * Fetches daily reference rates for every day the snapshot's weeks apply (up to today in KST) and merges them
+ * into the existing file: fetched days replace stored ones, and stored days the snapshot no longer covers are kept
+ * so the history keeps growing. Fetched rates are limited to that range and to currencies the snapshot publishes.
+ */
+export const buildReferenceRates = async (
+  dataset: RateDataset,
+  { provider, now = new Date(), retries = 3, retryDelayMs = 1000 }: UpdateReferenceRatesOptions
+): Promise<ReferenceRateDataset> => {
+  const startDates = dataset.weeks.map((week) => week.startDate).sort();
+  const endDates = dataset.weeks.map((week) => week.endDate).sort();
+  if (!startDates.length) {
+    throw new Error('The snapshot has no weeks to fetch reference rates for');
+  }
+
+  const today = getTodayKst(now);
+  const from = startDates[0];
+  const to = endDates[endDates.length - 1] < today ? endDates[endDates.length - 1] : today;
+  const codes = new Set(dataset.weeks.flatMap((week) => [...week.import, ...week.export].map((item) => item.currencyCode)));
+
+  console.log(`[reference] Fetching reference rates ${from}..${to} from ${provider.name}`);
+  const fetched = await withRetry(() => provider.fetchRates(from, to).catch((error) => Promise.reject(toRateFetchError(error))), {
+    retries,
+    baseDelayMs: retryDelayMs,
+    shouldRetry: (error) => error instanceof RateFetchError && error.retryable,
+    onRetry: (error, attempt, delayMs) =>
+      console.warn(`[reference] ${(error as Error).message}; retry ${attempt}/${retries} in ${delayMs}ms`)
+  });
+
+  const merged = new Map((readReferenceRates()?.rates ?? []).map((rate) => [rateKey(rate), rate]));
+  for (const rate of fetched) {
+    if (rate.date >= from && rate.date <= to && codes.has(rate.currencyCode)) merged.set(rateKey(rate), rate);
+  }
+  const skipped = fetched.filter((rate) => !codes.has(rate.currencyCode)).length;
+  if (skipped) {
+    console.warn(`[reference] Ignored ${skipped} rates for currencies the customs snapshot does not publish`);
+  }
+
+  return {
+    schemaVersion: REFERENCE_SCHEMA_VERSION,
+    generatedAt: now.toISOString(),
+    source: provider.name,
+    rates: Array.from(merged.values()).sort((a, b) => a.date.localeCompare(b.date) || a.currencyCode.localeCompare(b.currencyCode))
+  };
+};
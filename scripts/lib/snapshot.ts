@@ -0,0 +1,22 @@
+import fs from 'fs';
+import { RateDataset } from '../../types';
+import { validateRateDataset } from '../../services/rateSchema';
+import { SNAPSHOT_PATH } from './paths';
+
+export const readJsonFile = (filePath: string): unknown => JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+
+/**
+ * Reads and validates public/exchange-rates.json. Throws if it is missing or invalid.
+ */
+export const readSnapshot = (filePath: string = SNAPSHOT_PATH): RateDataset => {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Missing source file: ${filePath}`);
+  }
+  return validateRateDataset(readJsonFile(filePath), filePath);
+};
+
+export const writeSnapshot = (payload: RateDataset, filePath: string = SNAPSHOT_PATH): void => {
+  validateRateDataset(payload, 'generated dataset');
+  fs.writeFileSync(filePath, JSON.stringify(payload, null, 2), 'utf-8');
+  console.log(`[generator] Wrote ${payload.weeks.length} weeks to ${filePath}`);
+};
@@ -0,0 +1,105 @@
+import { XMLParser } from 'fast-xml-parser';
+import { RateData, RateType } from '../../../types';
+import { formatDateForDisplay } from '../../../utils/dateUtils';
+import { getQuoteUnit } from '../../../utils/currencyUtils';
+import { CustomsApiError, CustomsHttpError, CustomsResult, RateFetchError } from './errors';
+import { RateSource } from './types';
+
+export const CUSTOMS_API_URL = 'https://apis.data.go.kr/1220000/retrieveTrifFxrtInfo/getRetrieveTrifFxrtInfo';
+const SUCCESS_CODE = '00';
+const NO_DATA_CODE = '03';
+const REQUEST_TIMEOUT_MS = 30_000;
+
+const parser = new XMLParser({ ignoreAttributes: false, parseTagValue: false });
+
+type RawRecord = Record<string, string | undefined>;
+
+export interface CustomsApiSourceOptions {
+  serviceKey: string;
+  baseUrl?: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Walks nested parsed-XML objects; anything missing or not an element along the way yields undefined.
+const child = (value: unknown, ...keys: string[]): unknown =>
+  keys.reduce<unknown>((node, key) => (isRecord(node) ? node[key] : undefined), value);
+
+const readText = (value: unknown): string => (typeof value === 'string' || typeof value === 'number' ? String(value) : '');
+
+const toRawRecord = (value: Record<string, unknown>): RawRecord =>
+  Object.fromEntries(Object.entries(value).map(([key, field]) => [key, typeof field === 'string' ? field : undefined]));
+
+/**
+ * Reads the result code from either the service's own `<response><header>` envelope
+ * or the data.go.kr gateway's `<OpenAPI_ServiceResponse>` error envelope.
+ */
+const readResult = (parsed: unknown): CustomsResult => {
+  const gateway = child(parsed, 'OpenAPI_ServiceResponse', 'cmmMsgHeader');
+  if (isRecord(gateway)) {
+    return {
+      resultCode: readText(gateway.returnReasonCode),
+      resultMsg: readText(gateway.returnAuthMsg) || readText(gateway.errMsg)
+    };
+  }
+  const header = child(parsed, 'response', 'header');
+  return {
+    resultCode: readText(child(header, 'resultCode')),
+    resultMsg: readText(child(header, 'resultMsg'))
+  };
+};
+
+const toRateData = (item: RawRecord, formattedDate: string, type: RateType): RateData => ({
+  id: `${item.aplyBgnDt}-${item.currSgn}-${item.imexTp}`,
+  countryCode: item.cntySgn ?? '',
+  currencyName: item.mtryUtNm ?? '',
+  currencyCode: item.currSgn ?? '',
+  rate: Number(item.fxrt),
+  unit: getQuoteUnit(item.currSgn ?? ''),
+  date: formattedDate,
+  type: type === RateType.EXPORT ? 'export' : 'import'
+});
+
+/**
+ * The live getRetrieveTrifFxrtInfo client. `baseUrl` can point at the local mock server.
+ * Failures throw a RateFetchError subclass; null means the API answered but has no rates for the week.
+ */
+export const createCustomsApiSource = ({ serviceKey, baseUrl = CUSTOMS_API_URL }: CustomsApiSourceOptions): RateSource => ({
+  name: baseUrl === CUSTOMS_API_URL ? 'customs-api' : `customs-api (${baseUrl})`,
+
+  fetchWeek: async (date, type) => {
+    if (!serviceKey) {
+      throw new RateFetchError('CUSTOMS_API_KEY is not set', { abortsRun: true });
+    }
+
+    const params = new URLSearchParams({
+      serviceKey,
+      aplyBgnDt: date,
+      weekFxrtTpcd: type
+    });
+
+    const response = await fetch(`${baseUrl}?${params.toString()}`, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new CustomsHttpError(response.status, response.statusText);
+    }
+
+    const parsed: unknown = parser.parse(await response.text());
+    const result = readResult(parsed);
+    if (result.resultCode === NO_DATA_CODE) return null;
+    if (result.resultCode !== SUCCESS_CODE) {
+      throw new CustomsApiError(result);
+    }
+
+    // A single <item> parses as an object, a missing <items> as an empty string.
+    const items = child(parsed, 'response', 'body', 'items', 'item');
+    const list = (Array.isArray(items) ? items : [items]).filter(isRecord).map(toRawRecord);
+
+    const formattedDate = formatDateForDisplay(date);
+    const cleaned = list
+      .map((item) => toRateData(item, formattedDate, type))
+      .filter((row) => !Number.isNaN(row.rate));
+
+    return cleaned.length ? cleaned : null;
+  }
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { CustomsApiError, CustomsHttpError, RateFetchError, toRateFetchError } from './errors';
+
+describe('CustomsApiError', () => {
+  it('retries transient result codes', () => {
+    const error = new CustomsApiError({ resultCode: '05', resultMsg: 'SERVICE TIMEOUT' });
+
+    expect(error.reason).toBe('SERVICETIMEOUT_ERROR');
+    expect(error.retryable).toBe(true);
+    expect(error.abortsRun).toBe(false);
+  });
+
+  it('stops the run on key and quota errors', () => {
+    const error = new CustomsApiError({ resultCode: '22', resultMsg: '' });
+
+    expect(error.message).toBe('API resultCode 22 LIMITED_NUMBER_OF_SERVICE_REQUESTS_EXCEEDS_ERROR');
+    expect(error.retryable).toBe(false);
+    expect(error.abortsRun).toBe(true);
+  });
+
+  it('keeps unknown result codes non-retryable', () => {
+    const error = new CustomsApiError({ resultCode: '77', resultMsg: 'odd' });
+
+    expect(error.message).toBe('API resultCode 77 UNRECOGNISED_RESULT_CODE: odd');
+    expect(error.retryable).toBe(false);
+    expect(error.abortsRun).toBe(false);
+  });
+});
+
+describe('CustomsHttpError', () => {
+  it('retries 429 and 5xx only', () => {
+    expect(new CustomsHttpError(429).retryable).toBe(true);
+    expect(new CustomsHttpError(503, 'Service Unavailable').message).toBe('HTTP 503 Service Unavailable');
+    expect(new CustomsHttpError(503).retryable).toBe(true);
+    expect(new CustomsHttpError(404).retryable).toBe(false);
+  });
+});
+
+describe('toRateFetchError', () => {
+  it('passes RateFetchErrors through', () => {
+    const error = new CustomsHttpError(500);
+    expect(toRateFetchError(error)).toBe(error);
+  });
+
+  it('retries request timeouts and aborts', () => {
+    const timeout = toRateFetchError(new DOMException('The operation was aborted due to timeout', 'TimeoutError'));
+    const abort = toRateFetchError(new DOMException('This operation was aborted', 'AbortError'));
+
+    expect(timeout).toBeInstanceOf(RateFetchError);
+    expect(timeout.retryable).toBe(true);
+    expect(timeout.message).toBe('Network error: The operation was aborted due to timeout');
+    expect(abort.retryable).toBe(true);
+  });
+
+  it('retries network failures surfaced as TypeError', () => {
+    expect(toRateFetchError(new TypeError('fetch failed')).retryable).toBe(true);
+  });
+
+  it('does not retry anything else', () => {
+    const error = toRateFetchError(new Error('boom'));
+
+    expect(error.retryable).toBe(false);
+    expect(error.abortsRun).toBe(false);
+    expect(toRateFetchError('plain string').message).toBe('plain string');
+  });
+
+  it('classifies a real AbortSignal timeout as retryable', async () => {
+    const signal = AbortSignal.timeout(1);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(toRateFetchError(signal.reason).retryable).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+import { ExchangeRateRecord } from '../../../types';
+
+/**
+ * data.go.kr result codes, shared by the service's `<resultCode>` and the gateway's `<returnReasonCode>`.
+ */
+export const CUSTOMS_RESULT_CODES = {
+  '00': 'NORMAL_SERVICE',
+  '01': 'APPLICATION_ERROR',
+  '02': 'DB_ERROR',
+  '03': 'NODATA_ERROR',
+  '04': 'HTTP_ERROR',
+  '05': 'SERVICETIMEOUT_ERROR',
+  '10': 'INVALID_REQUEST_PARAMETER_ERROR',
+  '11': 'NO_MANDATORY_REQUEST_PARAMETERS_ERROR',
+  '12': 'NO_OPENAPI_SERVICE_ERROR',
+  '20': 'SERVICE_ACCESS_DENIED_ERROR',
+  '21': 'TEMPORARILY_DISABLE_THE_SERVICEKEY_ERROR',
+  '22': 'LIMITED_NUMBER_OF_SERVICE_REQUESTS_EXCEEDS_ERROR',
+  '30': 'SERVICE_KEY_IS_NOT_REGISTERED_ERROR',
+  '31': 'DEADLINE_HAS_EXPIRED_ERROR',
+  '32': 'UNREGISTERED_IP_ERROR',
+  '33': 'UNSIGNED_CALL_ERROR',
+  '99': 'UNKNOWN_ERROR'
+} as const;
+
+export type CustomsResultCode = keyof typeof CUSTOMS_RESULT_CODES;
+export type CustomsResult = Pick<ExchangeRateRecord, 'resultCode' | 'resultMsg'>;
+
+// Transient server-side failures worth another attempt.
+const RETRYABLE_CODES = new Set<string>(['01', '02', '04', '05', '99']);
+// Key and quota problems: every further request in this run would fail the same way.
+const RUN_ABORTING_CODES = new Set<string>(['12', '20', '21', '22', '30', '31', '32', '33']);
+
+export interface RateFetchErrorOptions {
+  retryable?: boolean;
+  abortsRun?: boolean;
+}
+
+/**
+ * Base class for anything that stops a source from returning a week.
+ * `retryable` errors are retried with backoff; `abortsRun` errors stop every remaining request.
+ */
+export class RateFetchError extends Error {
+  readonly retryable: boolean;
+  readonly abortsRun: boolean;
+
+  constructor(message: string, { retryable = false, abortsRun = false }: RateFetchErrorOptions = {}) {
+    super(message);
+    this.name = 'RateFetchError';
+    this.retryable = retryable;
+    this.abortsRun = abortsRun;
+  }
+}
+
+/**
+ * A non-2xx HTTP response. 429 and 5xx are retryable.
+ */
+export class CustomsHttpError extends RateFetchError {
+  readonly status: number;
+
+  constructor(status: number, statusText = '') {
+    super(`HTTP ${status}${statusText ? ` ${statusText}` : ''}`, { retryable: status === 429 || status >= 500 });
+    this.name = 'CustomsHttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * An HTTP 200 response whose envelope carries a non-"00" result code.
+ */
+export class CustomsApiError extends RateFetchError {
+  readonly resultCode: string;
+  readonly resultMsg: string;
+  readonly reason: string;
+
+  constructor({ resultCode, resultMsg }: CustomsResult) {
+    const reason = CUSTOMS_RESULT_CODES[resultCode as CustomsResultCode] ?? 'UNRECOGNISED_RESULT_CODE';
+    super(`API resultCode ${resultCode || '(none)'} ${reason}${resultMsg && resultMsg !== reason ? `: ${resultMsg}` : ''}`, {
+      retryable: RETRYABLE_CODES.has(resultCode),
+      abortsRun: RUN_ABORTING_CODES.has(resultCode)
+    });
+    this.name = 'CustomsApiError';
+    this.resultCode = resultCode;
+    this.resultMsg = resultMsg;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Network failures and timeouts surface from fetch as TypeError/TimeoutError and are worth retrying;
+ * anything else that is not already a RateFetchError is a bug and is not.
+ */
+export const toRateFetchError = (error: unknown): RateFetchError => {
+  if (error instanceof RateFetchError) return error;
+  if (error instanceof Error && (error instanceof TypeError || error.name === 'TimeoutError' || error.name === 'AbortError')) {
+    return new RateFetchError(`Network error: ${error.message}`, { retryable: true });
+  }
+  return new RateFetchError(error instanceof Error ? error.message : String(error));
+};
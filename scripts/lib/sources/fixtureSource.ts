@@ -0,0 +1,83 @@
+import { RateData, RateType, ReferenceRate } from '../../../types';
+import { addDays, formatDateForDisplay, getWeekStartDate } from '../../../utils/dateUtils';
+import { getQuoteUnit } from '../../../utils/currencyUtils';
+import { RateSource } from './types';
+
+interface FixtureCurrency {
+  countryCode: string;
+  currencyCode: string;
+  currencyName: string;
+  baseRate: number; // KRW per single unit
+}
+
+export const FIXTURE_CURRENCIES: FixtureCurrency[] = [
+  { countryCode: 'US', currencyCode: 'USD', currencyName: 'US Dollar', baseRate: 1380 },
+  { countryCode: 'EU', currencyCode: 'EUR', currencyName: 'Euro', baseRate: 1500 },
+  { countryCode: 'JP', currencyCode: 'JPY', currencyName: 'Yen', baseRate: 9.2 },
+  { countryCode: 'CN', currencyCode: 'CNY', currencyName: 'Yuan Renminbi', baseRate: 190 },
+  { countryCode: 'GB', currencyCode: 'GBP', currencyName: 'Pound Sterling', baseRate: 1750 },
+  { countryCode: 'AU', currencyCode: 'AUD', currencyName: 'Australian Dollar', baseRate: 900 },
+  { countryCode: 'CA', currencyCode: 'CAD', currencyName: 'Canadian Dollar', baseRate: 1010 },
+  { countryCode: 'CH', currencyCode: 'CHF', currencyName: 'Swiss Franc', baseRate: 1600 },
+  { countryCode: 'HK', currencyCode: 'HKD', currencyName: 'Hong Kong Dollar', baseRate: 177 },
+  { countryCode: 'SG', currencyCode: 'SGD', currencyName: 'Singapore Dollar', baseRate: 1030 },
+  { countryCode: 'TH', currencyCode: 'THB', currencyName: 'Baht', baseRate: 39 },
+  { countryCode: 'VN', currencyCode: 'VND', currencyName: 'Dong', baseRate: 0.054 },
+  { countryCode: 'ID', currencyCode: 'IDR', currencyName: 'Rupiah', baseRate: 0.085 },
+  { countryCode: 'KR', currencyCode: 'KRW', currencyName: 'Won', baseRate: 1 }
+];
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const weekIndex = (date: string): number =>
+  Math.round(Date.UTC(Number(date.substring(0, 4)), Number(date.substring(4, 6)) - 1, Number(date.substring(6, 8))) / WEEK_MS);
+
+const roundRate = (rate: number): number => Number(rate.toFixed(rate < 10 ? 4 : 2));
+
+/**
+ * Deterministic rates for a week: every currency drifts along its own smooth curve, and the export
+ * side sits slightly below the import side, so the same date always yields the same numbers.
+ */
+export const getFixtureRates = (date: string, type: RateType): RateData[] => {
+  const index = weekIndex(date);
+  const formattedDate = formatDateForDisplay(date);
+  const side = type === RateType.EXPORT ? 'export' : 'import';
+
+  return FIXTURE_CURRENCIES.map((currency, position) => {
+    const drift = currency.currencyCode === 'KRW' ? 0 : 0.03 * Math.sin(index * 0.45 + position) + 0.01 * Math.cos(index * 1.3 + position * 2);
+    const sideFactor = side === 'export' && currency.currencyCode !== 'KRW' ? 0.998 : 1;
+    return {
+      id: `${date}-${currency.currencyCode}-${type}`,
+      countryCode: currency.countryCode,
+      currencyName: currency.currencyName,
+      currencyCode: currency.currencyCode,
+      rate: roundRate(currency.baseRate * (1 + drift) * sideFactor),
+      unit: getQuoteUnit(currency.currencyCode),
+      date: formattedDate,
+      type: side
+    };
+  });
+};
+
+/**
+ * Deterministic daily market rates around the fixture customs rates: each day wobbles up to ±0.6% around the
+ * import rate of its week, so a customs/reference gap is always visible. KRW is left out.
+ */
+export const getFixtureReferenceRates = (from: string, to: string): ReferenceRate[] => {
+  const rates: ReferenceRate[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const weekRates = getFixtureRates(getWeekStartDate(date)!.replace(/-/g, ''), RateType.IMPORT);
+    const day = Math.round(Date.parse(date) / (WEEK_MS / 7));
+    weekRates.forEach((item, position) => {
+      if (item.currencyCode === 'KRW') return;
+      const wobble = 0.004 * Math.sin(day * 0.9 + position) + 0.002 * Math.cos(day * 0.3 + position * 3);
+      rates.push({ date, currencyCode: item.currencyCode, rate: Number((item.rate * (1 + wobble)).toPrecision(6)) });
+    });
+  }
+  return rates;
+};
+
+export const createFixtureSource = (): RateSource => ({
+  name: 'fixture',
+  fetchWeek: async (date, type) => getFixtureRates(date, type)
+});
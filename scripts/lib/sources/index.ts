@@ -0,0 +1,25 @@
+import { createCustomsApiSource, CUSTOMS_API_URL } from './customsApiSource';
+import { createFixtureSource } from './fixtureSource';
+import { RateSource } from './types';
+
+export type { RateSource } from './types';
+export { createCustomsApiSource } from './customsApiSource';
+export { createFixtureSource } from './fixtureSource';
+export * from './errors';
+
+/**
+ * Picks the rate source from the environment:
+ * RATE_SOURCE=customs (default) uses the Customs API at CUSTOMS_API_BASE_URL, RATE_SOURCE=fixture needs no network.
+ */
+export const createRateSourceFromEnv = (serviceKey: string): RateSource => {
+  const kind = (process.env.RATE_SOURCE || 'customs').toLowerCase();
+
+  switch (kind) {
+    case 'customs':
+      return createCustomsApiSource({ serviceKey, baseUrl: process.env.CUSTOMS_API_BASE_URL || CUSTOMS_API_URL });
+    case 'fixture':
+      return createFixtureSource();
+    default:
+      throw new Error(`Unknown RATE_SOURCE "${kind}" (expected "customs" or "fixture")`);
+  }
+};
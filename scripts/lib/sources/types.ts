@@ -0,0 +1,11 @@
+import { RateData, RateType } from '../../../types';
+
+/**
+ * Anything that can supply one week of customs rates for one side.
+ * `date` is the week's Sunday as YYYYMMDD; null means the source has nothing for that week.
+ * Failures should be thrown as RateFetchError so the generator knows whether to retry.
+ */
+export interface RateSource {
+  name: string;
+  fetchWeek(date: string, type: RateType): Promise<RateData[] | null>;
+}
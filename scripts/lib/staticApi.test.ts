@@ -0,0 +1,140 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateApiCurrencyHistory, RateApiDateLookup, RateApiIndex, RateApiLatest, RateApiWeekSide, RateData, RateDataset, RateWeek } from '../../types';
+import { validateApiIndex, validateApiLatest, validateApiWeekSide, validateCurrencyHistory } from '../../services/apiSchema';
+
+// paths.ts resolves RATES_PUBLIC_DIR once, so point it at a temp directory before anything loads it.
+const publicDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rates-api-'));
+process.env.RATES_PUBLIC_DIR = publicDir;
+const { writeStaticApi } = await import('./staticApi');
+const { writeArchive } = await import('./archive');
+
+const rate = (currencyCode: string, value: number, date: string, type: 'import' | 'export', unit = 1): RateData => ({
+  id: `${date}-${currencyCode}-${type}`,
+  countryCode: currencyCode.slice(0, 2),
+  currencyName: currencyCode,
+  currencyCode,
+  rate: value,
+  unit,
+  date,
+  type
+});
+
+const week = (startDate: string, endDate: string, usd: number): RateWeek => ({
+  startDate,
+  endDate,
+  fetchedAt: `${startDate}T00:00:00.000Z`,
+  import: [rate('USD', usd, startDate, 'import'), rate('JPY', 9.1, startDate, 'import', 100)],
+  export: [rate('USD', usd - 1, startDate, 'export')]
+});
+
+const dataset = (weeks: RateWeek[]): RateDataset => ({
+  schemaVersion: 2,
+  generatedAt: '2026-06-19T08:00:00.000Z',
+  source: 'test',
+  weeks
+});
+
+const readApi = <T>(url: string): T => JSON.parse(fs.readFileSync(path.join(publicDir, ...url.split('/').filter(Boolean)), 'utf-8'));
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+beforeEach(() => {
+  fs.rmSync(publicDir, { recursive: true, force: true });
+  fs.mkdirSync(publicDir, { recursive: true });
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(publicDir, { recursive: true, force: true });
+});
+
+describe('writeStaticApi', () => {
+  it('writes the index, latest week, week sides, currency histories and date pointers', () => {
+    writeStaticApi(dataset([week('2026-06-14', '2026-06-20', 1380), week('2026-06-07', '2026-06-13', 1370)]));
+
+    const index = readApi<RateApiIndex>('/api/index.json');
+    expect(index.latestWeek).toBe('2026-06-14');
+    expect(index.endpoints).toEqual({
+      index: '/api/index.json',
+      latest: '/api/latest.json',
+      week: '/api/weeks/{startDate}/{side}.json',
+      currency: '/api/currencies/{currencyCode}.json',
+      date: '/api/dates/{date}.json',
+      rate: '/api/rate?date={date}'
+    });
+    expect(index.weeks.map((entry) => [entry.startDate, entry.import, entry.export])).toEqual([
+      ['2026-06-14', '/api/weeks/2026-06-14/import.json', '/api/weeks/2026-06-14/export.json'],
+      ['2026-06-07', '/api/weeks/2026-06-07/import.json', '/api/weeks/2026-06-07/export.json']
+    ]);
+    expect(index.currencies.map((entry) => [entry.currencyCode, entry.path, entry.from, entry.to, entry.unit])).toEqual([
+      ['JPY', '/api/currencies/JPY.json', '2026-06-07', '2026-06-14', 100],
+      ['USD', '/api/currencies/USD.json', '2026-06-07', '2026-06-14', 1]
+    ]);
+
+    expect(readApi<RateApiLatest>('/api/latest.json').week.startDate).toBe('2026-06-14');
+
+    const importSide = readApi<RateApiWeekSide>('/api/weeks/2026-06-07/import.json');
+    expect(importSide).toMatchObject({ startDate: '2026-06-07', endDate: '2026-06-13', side: 'import' });
+    expect(importSide.rates.map((item) => item.currencyCode)).toEqual(['USD', 'JPY']);
+
+    const jpy = readApi<RateApiCurrencyHistory>('/api/currencies/JPY.json');
+    expect(jpy.history).toEqual([
+      { startDate: '2026-06-14', endDate: '2026-06-20', import: 9.1, export: null },
+      { startDate: '2026-06-07', endDate: '2026-06-13', import: 9.1, export: null }
+    ]);
+  });
+
+  it('writes documents the dashboard client accepts', () => {
+    writeStaticApi(dataset([week('2026-06-14', '2026-06-20', 1380), week('2026-06-07', '2026-06-13', 1370)]));
+
+    const index = readApi<unknown>('/api/index.json');
+    expect(validateApiIndex(index)).toEqual(index);
+    const latest = readApi<unknown>('/api/latest.json');
+    expect(validateApiLatest(latest)).toEqual(latest);
+    const exportSide = readApi<unknown>('/api/weeks/2026-06-14/export.json');
+    expect(validateApiWeekSide(exportSide, 'export')).toEqual(exportSide);
+    const usd = readApi<unknown>('/api/currencies/USD.json');
+    expect(validateCurrencyHistory(usd)).toEqual(usd);
+  });
+
+  it('points every day of a week at that week', () => {
+    writeStaticApi(dataset([week('2026-06-14', '2026-06-20', 1380)]));
+
+    const files = fs.readdirSync(path.join(publicDir, 'api', 'dates')).sort();
+    expect(files).toEqual(['14', '15', '16', '17', '18', '19', '20'].map((day) => `2026-06-${day}.json`));
+    expect(readApi<RateApiDateLookup>('/api/dates/2026-06-20.json')).toEqual({
+      schemaVersion: 2,
+      date: '2026-06-20',
+      startDate: '2026-06-14',
+      endDate: '2026-06-20',
+      import: '/api/weeks/2026-06-14/import.json',
+      export: '/api/weeks/2026-06-14/export.json'
+    });
+  });
+
+  it('covers archived weeks the snapshot no longer holds', () => {
+    writeArchive(dataset([week('2025-12-28', '2026-01-03', 1300), week('2026-06-07', '2026-06-13', 1370)]));
+    writeStaticApi(dataset([week('2026-06-14', '2026-06-20', 1380)]));
+
+    const index = readApi<RateApiIndex>('/api/index.json');
+    expect(index.latestWeek).toBe('2026-06-14');
+    expect(index.weeks.map((entry) => entry.startDate)).toEqual(['2026-06-14', '2026-06-07', '2025-12-28']);
+    expect(fs.existsSync(path.join(publicDir, 'api', 'weeks', '2025-12-28', 'export.json'))).toBe(true);
+    expect(readApi<RateApiCurrencyHistory>('/api/currencies/USD.json').history.map((entry) => entry.import)).toEqual([1380, 1370, 1300]);
+  });
+
+  it('rebuilds the tree from scratch', () => {
+    const stale = path.join(publicDir, 'api', 'currencies', 'XXX.json');
+    fs.mkdirSync(path.dirname(stale), { recursive: true });
+    fs.writeFileSync(stale, '{}', 'utf-8');
+
+    writeStaticApi(dataset([week('2026-06-14', '2026-06-20', 1380)]));
+
+    expect(fs.existsSync(stale)).toBe(false);
+  });
+});
@@ -0,0 +1,153 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  RateApiCurrencyHistory,
+  RateApiCurrencyRef,
+  RateApiDateLookup,
+  RateApiIndex,
+  RateApiLatest,
+  RateApiWeekSide,
+  RateData,
+  RateDataset,
+  RateSide,
+  RateWeek
+} from '../../types';
+import { RATE_SCHEMA_VERSION } from '../../services/rateSchema';
+import { rateApiPaths } from '../../services/customsApi';
+import { addDays } from '../../utils/dateUtils';
+import { loadAllWeeks } from './archive';
+import { API_DIR, PUBLIC_DIR } from './paths';
+
+const SIDES: RateSide[] = ['import', 'export'];
+
+// Maps a URL from rateApiPaths onto the file that serves it.
+const toFilePath = (url: string): string => path.join(PUBLIC_DIR, ...url.split('/').filter(Boolean));
+
+const writeDocument = (url: string, document: unknown): void => {
+  const filePath = toFilePath(url);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(document, null, 2), 'utf-8');
+};
+
+const buildCurrencyHistories = (weeks: RateWeek[], generatedAt: string): RateApiCurrencyHistory[] => {
+  const histories = new Map<string, RateApiCurrencyHistory>();
+
+  for (const week of weeks) {
+    const rates = new Map<string, Partial<Record<RateSide, RateData>>>();
+    for (const side of SIDES) {
+      for (const item of week[side]) {
+        rates.set(item.currencyCode, { ...rates.get(item.currencyCode), [side]: item });
+      }
+    }
+
+    for (const [code, sides] of rates) {
+      const item = (sides.import ?? sides.export)!;
+      if (!histories.has(code)) {
+        // Weeks are newest first, so the first sighting carries the current name and unit.
+        histories.set(code, {
+          schemaVersion: RATE_SCHEMA_VERSION,
+          generatedAt,
+          currencyCode: code,
+          currencyName: item.currencyName,
+          countryCode: item.countryCode,
+          unit: item.unit,
+          history: []
+        });
+      }
+      histories.get(code)!.history.push({
+        startDate: week.startDate,
+        endDate: week.endDate,
+        import: sides.import?.rate ?? null,
+        export: sides.export?.rate ?? null
+      });
+    }
+  }
+
+  return Array.from(histories.values()).sort((a, b) => a.currencyCode.localeCompare(b.currencyCode));
+};
+
+/**
+ * Writes the static JSON API under public/api: an index, the latest week, one document per week and side,
+ * one history per currency and one pointer per calendar day for /api/rate?date= lookups.
+ * Covers every archived week, so it should run after writeArchive. The tree is rebuilt from scratch each time.
+ */
+export const writeStaticApi = (payload: RateDataset): void => {
+  const weeks = loadAllWeeks(payload);
+  const { generatedAt, source } = payload;
+
+  fs.rmSync(API_DIR, { recursive: true, force: true });
+
+  for (const week of weeks) {
+    for (const side of SIDES) {
+      const document: RateApiWeekSide = {
+        schemaVersion: RATE_SCHEMA_VERSION,
+        generatedAt,
+        startDate: week.startDate,
+        endDate: week.endDate,
+        ...(week.fetchedAt ? { fetchedAt: week.fetchedAt } : {}),
+        side,
+        rates: week[side]
+      };
+      writeDocument(rateApiPaths.week(week.startDate, side), document);
+    }
+
+    for (let offset = 0; offset < 7; offset++) {
+      const date = addDays(week.startDate, offset);
+      const lookup: RateApiDateLookup = {
+        schemaVersion: RATE_SCHEMA_VERSION,
+        date,
+        startDate: week.startDate,
+        endDate: week.endDate,
+        import: rateApiPaths.week(week.startDate, 'import'),
+        export: rateApiPaths.week(week.startDate, 'export')
+      };
+      writeDocument(rateApiPaths.date(date), lookup);
+    }
+  }
+
+  const histories = buildCurrencyHistories(weeks, generatedAt);
+  const currencies: RateApiCurrencyRef[] = histories.map((history) => {
+    writeDocument(rateApiPaths.currency(history.currencyCode), history);
+    return {
+      currencyCode: history.currencyCode,
+      currencyName: history.currencyName,
+      countryCode: history.countryCode,
+      unit: history.unit,
+      path: rateApiPaths.currency(history.currencyCode),
+      from: history.history[history.history.length - 1].startDate,
+      to: history.history[0].startDate
+    };
+  });
+
+  // The latest week comes from the snapshot being published, not from whatever the archive holds.
+  const latestWeek = payload.weeks[0];
+  if (latestWeek) {
+    const latest: RateApiLatest = { schemaVersion: RATE_SCHEMA_VERSION, generatedAt, ...(source ? { source } : {}), week: latestWeek };
+    writeDocument(rateApiPaths.latest(), latest);
+  }
+
+  const index: RateApiIndex = {
+    schemaVersion: RATE_SCHEMA_VERSION,
+    generatedAt,
+    ...(source ? { source } : {}),
+    latestWeek: latestWeek?.startDate ?? null,
+    endpoints: {
+      index: rateApiPaths.index(),
+      latest: rateApiPaths.latest(),
+      week: rateApiPaths.weekTemplate(),
+      currency: rateApiPaths.currency('{currencyCode}'),
+      date: rateApiPaths.date('{date}'),
+      rate: rateApiPaths.rateLookup('{date}')
+    },
+    weeks: weeks.map((week) => ({
+      startDate: week.startDate,
+      endDate: week.endDate,
+      import: rateApiPaths.week(week.startDate, 'import'),
+      export: rateApiPaths.week(week.startDate, 'export')
+    })),
+    currencies
+  };
+  writeDocument(rateApiPaths.index(), index);
+
+  console.log(`[api] Wrote ${weeks.length} weeks and ${currencies.length} currencies to ${API_DIR}`);
+};
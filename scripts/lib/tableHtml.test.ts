@@ -0,0 +1,137 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateData, RateDataset, RateWeek } from '../../types';
+
+// paths.ts resolves RATES_PUBLIC_DIR once, so point it at a temp directory before anything loads it.
+const publicDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rates-table-'));
+process.env.RATES_PUBLIC_DIR = publicDir;
+const { escapeHtml, renderWeekPage, writeTableHtml } = await import('./tableHtml');
+
+const rate = (currencyCode: string, value: number, date: string, overrides: Partial<RateData> = {}): RateData => ({
+  id: `${date}-${currencyCode}-import`,
+  countryCode: currencyCode.slice(0, 2),
+  currencyName: currencyCode,
+  currencyCode,
+  rate: value,
+  unit: 1,
+  date,
+  type: 'import',
+  ...overrides
+});
+
+const week = (startDate: string, endDate: string, imports: RateData[]): RateWeek => ({
+  startDate,
+  endDate,
+  import: imports,
+  export: imports.map((item) => ({ ...item, type: 'export' }))
+});
+
+const dataset = (weeks: RateWeek[]): RateDataset => ({
+  schemaVersion: 2,
+  generatedAt: '2026-06-19T08:00:00.000Z',
+  source: 'test',
+  weeks
+});
+
+const latest = week('2026-06-14', '2026-06-20', [
+  rate('USD', 1380.5, '2026-06-14'),
+  rate('JPY', 9.1234, '2026-06-14', { unit: 100, currencyName: '일본 엔' })
+]);
+const previous = week('2026-06-07', '2026-06-13', [
+  rate('USD', 1370.5, '2026-06-07'),
+  rate('JPY', 9.0234, '2026-06-07', { unit: 100, currencyName: '일본 엔' })
+]);
+
+// The <tr> for one currency in the first (import) table.
+const rowFor = (html: string, currencyCode: string): string => {
+  const match = html.match(new RegExp(`<tr>\\s*<td>[^<]*</td>\\s*<td>${currencyCode}</td>[\\s\\S]*?</tr>`));
+  if (!match) throw new Error(`no row for ${currencyCode}`);
+  return match[0];
+};
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+beforeEach(() => {
+  fs.rmSync(publicDir, { recursive: true, force: true });
+  fs.mkdirSync(publicDir, { recursive: true });
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(publicDir, { recursive: true, force: true });
+});
+
+describe('escapeHtml', () => {
+  it('escapes markup and quotes', () => {
+    expect(escapeHtml(`<b>"A&B's"</b>`)).toBe('&lt;b&gt;&quot;A&amp;B&#39;s&quot;&lt;/b&gt;');
+    expect(escapeHtml(undefined)).toBe('');
+  });
+});
+
+describe('renderWeekPage', () => {
+  it('escapes currency names from the data', () => {
+    const hostile = week('2026-06-14', '2026-06-20', [rate('QQQ', 1, '2026-06-14', { currencyName: '<script>alert("x")</script>' })]);
+    const html = renderWeekPage(dataset([hostile]), [hostile], hostile, 'EN');
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;');
+  });
+
+  it('quotes per-100 currencies per 100 units', () => {
+    const weeks = [latest, previous];
+    const html = renderWeekPage(dataset(weeks), weeks, latest, 'EN');
+    const jpy = rowFor(html, 'JPY');
+
+    expect(jpy).toContain('<td class="number">100</td>');
+    expect(jpy).toContain('<td class="number">912.34</td>');
+    expect(jpy).toContain('<td class="number">902.34</td>');
+    expect(jpy).toContain('▲ 10.00');
+    expect(rowFor(html, 'USD')).toContain('<td class="number">1</td>');
+  });
+
+  it('labels both languages and links the other one', () => {
+    const weeks = [latest, previous];
+    const ko = renderWeekPage(dataset(weeks), weeks, latest, 'KO');
+    const en = renderWeekPage(dataset(weeks), weeks, previous, 'EN');
+
+    expect(ko).toContain('<html lang="ko">');
+    expect(ko).toContain('<th class="number">단위</th>');
+    expect(ko).toContain('href="/table/en/2026-06-14/"');
+    expect(ko).toContain('href="/table/2026-06-07/"');
+    expect(en).toContain('<html lang="en">');
+    expect(en).toContain('href="/table/2026-06-07/"');
+    expect(en).toContain('Next week (2026-06-14)');
+    expect(en).toContain('No earlier week is available');
+  });
+});
+
+describe('writeTableHtml', () => {
+  it('writes the index and week pages in both languages', () => {
+    writeTableHtml(dataset([latest, previous]));
+
+    for (const page of ['', '2026-06-14', '2026-06-07', 'en', 'en/2026-06-14', 'en/2026-06-07']) {
+      expect(fs.existsSync(path.join(publicDir, 'table', page, 'index.html')), page).toBe(true);
+    }
+  });
+
+  it('keeps the legacy /table.html on the latest Korean week', () => {
+    writeTableHtml(dataset([latest, previous]));
+
+    const legacy = fs.readFileSync(path.join(publicDir, 'table.html'), 'utf-8');
+    expect(legacy).toBe(fs.readFileSync(path.join(publicDir, 'table', '2026-06-14', 'index.html'), 'utf-8'));
+    expect(legacy).toContain('<html lang="ko">');
+    expect(legacy).toContain('적용 기간: 2026-06-14 ~ 2026-06-20');
+  });
+
+  it('writes nothing without weeks', () => {
+    writeTableHtml(dataset([]));
+
+    expect(fs.existsSync(path.join(publicDir, 'table.html'))).toBe(false);
+    expect(fs.existsSync(path.join(publicDir, 'table'))).toBe(false);
+  });
+});
@@ -0,0 +1,320 @@
+import fs from 'fs';
+import path from 'path';
+import { RateData, RateDataset, RateSide, RateWeek } from '../../types';
+import { getCountryName, getCurrencyName } from '../../utils/currencyUtils';
+import { loadAllWeeks } from './archive';
+import { formatNumber, formatSigned, getRateChange } from './format';
+import { LEGACY_TABLE_PATH, TABLE_DIR } from './paths';
+
+type TableLanguage = 'KO' | 'EN';
+
+const TABLE_LABELS = {
+  KO: {
+    htmlLang: 'ko',
+    locale: 'ko-KR',
+    siteTitle: '관세청 주간 환율 테이블',
+    indexHeading: '주간 환율 목록',
+    indexIntro: '주차를 선택하면 해당 주간의 전체 통화 수출/수입 과세환율을 볼 수 있습니다.',
+    latest: '최신',
+    currencies: '통화 수',
+    period: '적용 기간',
+    generatedAt: '생성시각',
+    source: '출처',
+    previousWeek: '이전 주',
+    nextWeek: '다음 주',
+    allWeeks: '전체 주간 목록',
+    switchLanguage: 'English',
+    sides: { import: '수입 환율', export: '수출 환율' } as Record<RateSide, string>,
+    columns: {
+      currencyName: '통화명',
+      currencyCode: '통화코드',
+      country: '국가',
+      unit: '단위',
+      rate: '환율 (KRW)',
+      previous: '전주 환율',
+      change: '전주 대비',
+      changePercent: '변동률'
+    },
+    noPrevious: '이전 주 데이터가 없어 변동을 표시하지 않습니다.',
+    printNote: '관세청 고시 과세환율을 바탕으로 생성된 자료입니다. 환율은 표시 단위당 원화 금액입니다.'
+  },
+  EN: {
+    htmlLang: 'en',
+    locale: 'en-US',
+    siteTitle: 'Korea Customs Weekly Exchange Rates',
+    indexHeading: 'Weekly rate tables',
+    indexIntro: 'Pick a week to see the customs import and export rates for every currency.',
+    latest: 'Latest',
+    currencies: 'Currencies',
+    period: 'Period',
+    generatedAt: 'Generated',
+    source: 'Source',
+    previousWeek: 'Previous week',
+    nextWeek: 'Next week',
+    allWeeks: 'All weeks',
+    switchLanguage: '한국어',
+    sides: { import: 'Import rates', export: 'Export rates' } as Record<RateSide, string>,
+    columns: {
+      currencyName: 'Currency',
+      currencyCode: 'Code',
+      country: 'Country',
+      unit: 'Unit',
+      rate: 'Rate (KRW)',
+      previous: 'Previous week',
+      change: 'Change',
+      changePercent: 'Change %'
+    },
+    noPrevious: 'No earlier week is available, so changes are not shown.',
+    printNote: 'Generated from the taxable exchange rates published by the Korea Customs Service. Rates are KRW per quoted unit.'
+  }
+};
+
+export const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Korean pages live at /table/…, English ones at /table/en/…
+const tableUrl = (language: TableLanguage, startDate?: string): string =>
+  `/table/${language === 'EN' ? 'en/' : ''}${startDate ? `${startDate}/` : ''}`;
+
+const STYLES = `
+    :root { color-scheme: light; }
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Apple SD Gothic Neo', 'Malgun Gothic', sans-serif; margin: 0; padding: 24px; background: #f7f9fb; color: #111; }
+    header { margin-bottom: 24px; }
+    h1 { margin: 0 0 8px; font-size: 24px; }
+    p.meta { margin: 0 0 4px; color: #555; font-size: 14px; }
+    nav { display: flex; flex-wrap: wrap; gap: 12px; margin-top: 12px; font-size: 14px; }
+    nav a { color: #2563eb; text-decoration: none; }
+    nav a:hover { text-decoration: underline; }
+    nav .lang { margin-left: auto; }
+    section { margin-bottom: 32px; }
+    h2 { margin: 0 0 12px; font-size: 18px; }
+    .table-wrapper { overflow-x: auto; background: #fff; border: 1px solid #dde3ea; border-radius: 8px; box-shadow: 0 2px 6px rgba(0,0,0,0.04); }
+    table { width: 100%; border-collapse: collapse; min-width: 320px; }
+    th, td { padding: 10px 12px; text-align: left; border-bottom: 1px solid #eef2f6; }
+    th { background: #f0f4f8; font-weight: 600; }
+    tr:last-child td { border-bottom: none; }
+    .number { text-align: right; font-variant-numeric: tabular-nums; white-space: nowrap; }
+    .up { color: #dc2626; }
+    .down { color: #2563eb; }
+    .badge { display: inline-block; margin-left: 6px; padding: 1px 6px; border-radius: 9999px; background: #dbeafe; color: #1d4ed8; font-size: 12px; }
+    .note { color: #555; font-size: 13px; }
+    footer { margin-top: 24px; color: #777; font-size: 12px; }
+
+    @page { size: A4; margin: 12mm; }
+    @media print {
+      body { padding: 0; background: #fff; font-size: 10pt; }
+      nav { display: none; }
+      h1 { font-size: 16pt; }
+      h2 { font-size: 12pt; margin-top: 0; }
+      section { break-before: page; }
+      section:first-of-type { break-before: auto; }
+      .table-wrapper { overflow: visible; border: none; border-radius: 0; box-shadow: none; }
+      table { min-width: 0; }
+      th, td { padding: 3px 6px; border: 1px solid #999; }
+      th { background: #eee; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+      thead { display: table-header-group; }
+      tr { break-inside: avoid; }
+      .up, .down { color: #000; }
+      a { color: #000; text-decoration: none; }
+    }`;
+
+interface PageOptions {
+  language: TableLanguage;
+  title: string;
+  body: string;
+  alternateUrl: string; // Same page in the other language
+}
+
+const renderPage = ({ language, title, body, alternateUrl }: PageOptions): string => {
+  const labels = TABLE_LABELS[language];
+  const otherLang = TABLE_LABELS[language === 'KO' ? 'EN' : 'KO'].htmlLang;
+
+  return `<!doctype html>
+<html lang="${labels.htmlLang}">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <link rel="icon" href="/favicon.ico">
+  <link rel="icon" type="image/png" href="/favicon.png">
+  <link rel="alternate" hreflang="${otherLang}" href="${escapeHtml(alternateUrl)}">
+  <style>${STYLES}
+  </style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+};
+
+const renderRatesTable = (language: TableLanguage, side: RateSide, week: RateWeek, previous: RateWeek | undefined): string => {
+  const labels = TABLE_LABELS[language];
+  const { columns, locale } = labels;
+  const previousByCode = new Map<string, RateData>((previous?.[side] ?? []).map((item) => [item.currencyCode, item]));
+  const rates = [...week[side]].sort((a, b) => a.currencyCode.localeCompare(b.currencyCode));
+
+  const rows = rates
+    .map((item) => {
+      const before = previousByCode.get(item.currencyCode);
+      const rate = item.rate * item.unit;
+      let changeCells = '<td class="number">-</td><td class="number">-</td><td class="number">-</td>';
+      if (before) {
+        const previousRate = before.rate * item.unit;
+        const { change, changePercent } = getRateChange(rate, previousRate);
+        const trend = change > 0 ? ' up' : change < 0 ? ' down' : '';
+        changeCells = `<td class="number">${formatNumber(previousRate, locale)}</td>
+            <td class="number${trend}">${formatSigned(change, locale)}</td>
+            <td class="number${trend}">${formatSigned(changePercent, locale, '%', 2)}</td>`;
+      }
+
+      return `
+          <tr>
+            <td>${escapeHtml(getCurrencyName(item.currencyCode, locale, item.currencyName))}</td>
+            <td>${escapeHtml(item.currencyCode)}</td>
+            <td title="${escapeHtml(getCountryName(item.countryCode, locale))}">${escapeHtml(item.countryCode)}</td>
+            <td class="number">${item.unit}</td>
+            <td class="number">${formatNumber(rate, locale)}</td>
+            ${changeCells}
+          </tr>`;
+    })
+    .join('');
+
+  return `
+  <section>
+    <h2>${escapeHtml(labels.sides[side])}</h2>
+    <div class="table-wrapper">
+      <table>
+        <thead>
+          <tr>
+            <th>${columns.currencyName}</th>
+            <th>${columns.currencyCode}</th>
+            <th>${columns.country}</th>
+            <th class="number">${columns.unit}</th>
+            <th class="number">${columns.rate}</th>
+            <th class="number">${columns.previous}</th>
+            <th class="number">${columns.change}</th>
+            <th class="number">${columns.changePercent}</th>
+          </tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+      </table>
+    </div>
+  </section>`;
+};
+
+/**
+ * One week's full import and export tables with week-over-week changes.
+ * `weeks` is newest first and must contain `week`; its neighbours drive the previous/next links.
+ */
+export const renderWeekPage = (payload: RateDataset, weeks: RateWeek[], week: RateWeek, language: TableLanguage): string => {
+  const labels = TABLE_LABELS[language];
+  const index = weeks.findIndex((item) => item.startDate === week.startDate);
+  const previous = weeks[index + 1];
+  const next = index > 0 ? weeks[index - 1] : undefined;
+  const isLatest = index === 0;
+
+  const navLinks = [
+    `<a href="${tableUrl(language)}">${labels.allWeeks}</a>`,
+    previous ? `<a href="${tableUrl(language, previous.startDate)}">← ${labels.previousWeek} (${previous.startDate})</a>` : '',
+    next ? `<a href="${tableUrl(language, next.startDate)}">${labels.nextWeek} (${next.startDate}) →</a>` : '',
+    `<a class="lang" href="${tableUrl(language === 'KO' ? 'EN' : 'KO', week.startDate)}">${labels.switchLanguage}</a>`
+  ].filter(Boolean);
+
+  const body = `  <header>
+    <h1>${labels.siteTitle}${isLatest ? `<span class="badge">${labels.latest}</span>` : ''}</h1>
+    <p class="meta">${labels.period}: ${escapeHtml(week.startDate)} ~ ${escapeHtml(week.endDate)}</p>
+    <p class="meta">${labels.generatedAt}: ${escapeHtml(payload.generatedAt)}${payload.source ? ` · ${labels.source}: ${escapeHtml(payload.source)}` : ''}</p>${previous ? '' : `
+    <p class="note">${labels.noPrevious}</p>`}
+    <nav>
+      ${navLinks.join('\n      ')}
+    </nav>
+  </header>
+${renderRatesTable(language, 'import', week, previous)}
+${renderRatesTable(language, 'export', week, previous)}
+  <footer>${labels.printNote}</footer>`;
+
+  return renderPage({
+    language,
+    title: `${labels.siteTitle} · ${week.startDate}`,
+    body,
+    alternateUrl: tableUrl(language === 'KO' ? 'EN' : 'KO', week.startDate)
+  });
+};
+
+export const renderIndexPage = (payload: RateDataset, weeks: RateWeek[], language: TableLanguage): string => {
+  const labels = TABLE_LABELS[language];
+
+  const rows = weeks
+    .map(
+      (week, index) => `
+          <tr>
+            <td><a href="${tableUrl(language, week.startDate)}">${escapeHtml(week.startDate)} ~ ${escapeHtml(week.endDate)}</a>${index === 0 ? `<span class="badge">${labels.latest}</span>` : ''}</td>
+            <td class="number">${new Set([...week.import, ...week.export].map((item) => item.currencyCode)).size}</td>
+          </tr>`
+    )
+    .join('');
+
+  const body = `  <header>
+    <h1>${labels.siteTitle}</h1>
+    <p class="meta">${labels.indexIntro}</p>
+    <p class="meta">${labels.generatedAt}: ${escapeHtml(payload.generatedAt)}</p>
+    <nav>
+      <a class="lang" href="${tableUrl(language === 'KO' ? 'EN' : 'KO')}">${labels.switchLanguage}</a>
+    </nav>
+  </header>
+  <section>
+    <h2>${labels.indexHeading}</h2>
+    <div class="table-wrapper">
+      <table>
+        <thead>
+          <tr>
+            <th>${labels.period}</th>
+            <th class="number">${labels.currencies}</th>
+          </tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+      </table>
+    </div>
+  </section>`;
+
+  return renderPage({ language, title: labels.siteTitle, body, alternateUrl: tableUrl(language === 'KO' ? 'EN' : 'KO') });
+};
+
+const writePage = (url: string, html: string): void => {
+  const filePath = path.join(TABLE_DIR, ...url.replace(/^\/table\//, '').split('/').filter(Boolean), 'index.html');
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, html, 'utf-8');
+};
+
+/**
+ * Writes the no-JS table site: /table/ (week index), /table/{startDate}/ per week, and the same under /table/en/.
+ * Covers every archived week, so it should run after writeArchive. /table.html keeps serving the latest week.
+ */
+export const writeTableHtml = (payload: RateDataset): void => {
+  if (payload.weeks.length === 0) {
+    console.warn('[table] No weeks available, skipping table pages.');
+    return;
+  }
+
+  const weeks = loadAllWeeks(payload);
+  fs.rmSync(TABLE_DIR, { recursive: true, force: true });
+
+  for (const language of ['KO', 'EN'] as const) {
+    writePage(tableUrl(language), renderIndexPage(payload, weeks, language));
+    for (const week of weeks) {
+      writePage(tableUrl(language, week.startDate), renderWeekPage(payload, weeks, week, language));
+    }
+  }
+
+  const latest = weeks.find((week) => week.startDate === payload.weeks[0].startDate)!;
+  fs.writeFileSync(LEGACY_TABLE_PATH, renderWeekPage(payload, weeks, latest, 'KO'), 'utf-8');
+  console.log(`[table] Wrote ${weeks.length} weeks in Korean and English to ${TABLE_DIR} and the latest week to ${LEGACY_TABLE_PATH}`);
+};
@@ -0,0 +1,36 @@
+import fs from 'fs';
+import { RateDatasetValidationError } from '../../services/rateSchema';
+import { listArchiveFiles, readArchiveFile } from './archive';
+import { REFERENCE_RATES_PATH, SNAPSHOT_PATH } from './paths';
+import { readReferenceRates } from './referenceRates';
+import { readSnapshot } from './snapshot';
+
+const checkFile = (filePath: string, read: (filePath: string) => unknown[], unit = 'weeks'): boolean => {
+  try {
+    const items = read(filePath);
+    console.log(`[validate] OK ${filePath} (${items.length} ${unit})`);
+    return true;
+  } catch (error) {
+    const issues = error instanceof RateDatasetValidationError ? error.issues : [(error as Error).message];
+    console.error(`[validate] FAILED ${filePath}`);
+    for (const issue of issues) {
+      console.error(`  - ${issue}`);
+    }
+    return false;
+  }
+};
+
+/**
+ * Validates the snapshot, every archive file and the reference rates (when present), printing each issue.
+ * Returns false if any file fails.
+ */
+export const validateAll = (): boolean => {
+  let ok = checkFile(SNAPSHOT_PATH, (filePath) => readSnapshot(filePath).weeks);
+  for (const filePath of listArchiveFiles()) {
+    ok = checkFile(filePath, readArchiveFile) && ok;
+  }
+  if (fs.existsSync(REFERENCE_RATES_PATH)) {
+    ok = checkFile(REFERENCE_RATES_PATH, (filePath) => readReferenceRates(filePath)?.rates ?? [], 'reference rates') && ok;
+  }
+  return ok;
+};
@@ -0,0 +1,90 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { validateApiIndex, validateApiWeekSide, validateCurrencyHistory } from './apiSchema';
+import { RateDatasetValidationError } from './rateSchema';
+
+const readPublicJson = (relativePath: string): unknown =>
+    JSON.parse(readFileSync(new URL(`../public/${relativePath}`, import.meta.url), 'utf8'));
+
+const issuesOf = (validate: () => unknown): string[] => {
+    try {
+        validate();
+    } catch (error) {
+        if (error instanceof RateDatasetValidationError) return error.issues;
+        throw error;
+    }
+    throw new Error('expected a validation error');
+};
+
+const header = { schemaVersion: 2, generatedAt: '2026-06-19T08:00:00.000Z' };
+
+describe('validateApiIndex', () => {
+    it('accepts the published index', () => {
+        const index = readPublicJson('api/index.json');
+        expect(validateApiIndex(index)).toEqual(index);
+    });
+
+    it('lists every malformed field and entry', () => {
+        expect(
+            issuesOf(() =>
+                validateApiIndex({
+                    schemaVersion: 3,
+                    generatedAt: '2026-06-19T08:00:00.000Z',
+                    latestWeek: 'latest',
+                    endpoints: { index: '/api/index.json', week: 7 },
+                    weeks: [{ startDate: '2026-06-14', endDate: '2026-06-20', import: '/api/weeks/2026-06-14/import.json' }],
+                    currencies: [{ currencyCode: 'usd', currencyName: 'US Dollar', countryCode: 'US', unit: 0, path: '/api/currencies/USD.json', from: '2026-06-07', to: '2026-06-14' }]
+                })
+            )
+        ).toEqual([
+            'schemaVersion 3 is not supported (expected 2)',
+            'latestWeek is "latest"',
+            'endpoint week is 7',
+            'weeks #0 export is undefined',
+            'currencies #0 currencyCode is "usd"',
+            'currencies #0 unit is 0'
+        ]);
+    });
+
+    it('allows an index without weeks', () => {
+        expect(validateApiIndex({ ...header, latestWeek: null, endpoints: {}, weeks: [], currencies: [] }).latestWeek).toBeNull();
+    });
+});
+
+describe('validateCurrencyHistory', () => {
+    it('accepts a published history', () => {
+        const history = readPublicJson('api/currencies/JPY.json');
+        expect(validateCurrencyHistory(history)).toEqual(history);
+    });
+
+    it('keeps unpublished sides as null and rejects other values', () => {
+        const doc = {
+            ...header,
+            currencyCode: 'JPY',
+            currencyName: 'Japanese Yen',
+            countryCode: 'JP',
+            unit: 100,
+            history: [{ startDate: '2026-06-14', endDate: '2026-06-20', import: 9.1, export: null }]
+        };
+        expect(validateCurrencyHistory(doc).history).toEqual([{ startDate: '2026-06-14', endDate: '2026-06-20', import: 9.1, export: null }]);
+
+        expect(
+            issuesOf(() => validateCurrencyHistory({ ...doc, unit: '100', history: [{ startDate: '2026-06-14', import: '9.1', export: -1 }, 3] }))
+        ).toEqual([
+            'unit is "100"',
+            'history #0 endDate is undefined',
+            'history #0 import is "9.1"',
+            'history #0 export is -1',
+            'history #1 is not an object'
+        ]);
+        expect(issuesOf(() => validateCurrencyHistory([]))).toEqual(['document is not an object']);
+    });
+});
+
+describe('validateApiWeekSide', () => {
+    it('rejects a document for the other side', () => {
+        const doc = { ...header, startDate: '2026-06-14', endDate: '2026-06-20', side: 'import', rates: [] };
+        expect(validateApiWeekSide(doc, 'import').rates).toEqual([]);
+        expect(issuesOf(() => validateApiWeekSide(doc, 'export'))).toEqual(['side is "import", expected "export"']);
+    });
+});
@@ -0,0 +1,263 @@
+import {
+    RateApiCurrencyHistory,
+    RateApiCurrencyPoint,
+    RateApiCurrencyRef,
+    RateApiIndex,
+    RateApiLatest,
+    RateApiWeekRef,
+    RateApiWeekSide,
+    RateSide
+} from '../types';
+import { RATE_SCHEMA_VERSION, RateDatasetValidationError, validateRateWeeks } from './rateSchema';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string | null => (typeof value === 'string' ? value : null);
+
+const asDate = (value: unknown): string | null =>
+    typeof value === 'string' && ISO_DATE.test(value) && !isNaN(Date.parse(value)) ? value : null;
+
+const asCurrencyCode = (value: unknown): string | null => (typeof value === 'string' && CURRENCY_CODE.test(value) ? value : null);
+
+const asUnit = (value: unknown): number | null => (typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : null);
+
+/**
+ * Pushes "<label> <field> is <value>" for every field that failed to narrow (is null).
+ */
+const reportNulls = (fields: Record<string, unknown>, entry: Record<string, unknown>, label: string, issues: string[]) => {
+    Object.entries(fields).forEach(([field, value]) => {
+        if (value === null) issues.push(`${label}${field} is ${JSON.stringify(entry[field])}`);
+    });
+};
+
+/**
+ * Checks the header every API document carries and returns it with its generatedAt.
+ * Throws when the document is not an object; other problems are pushed to `issues`.
+ */
+const readHeader = (raw: unknown, context: string, issues: string[]) => {
+    if (!isRecord(raw)) {
+        throw new RateDatasetValidationError(['document is not an object'], context);
+    }
+    if (raw.schemaVersion !== RATE_SCHEMA_VERSION) {
+        issues.push(`schemaVersion ${JSON.stringify(raw.schemaVersion)} is not supported (expected ${RATE_SCHEMA_VERSION})`);
+    }
+    const generatedAt = typeof raw.generatedAt === 'string' && !isNaN(Date.parse(raw.generatedAt)) ? raw.generatedAt : null;
+    if (generatedAt === null) {
+        issues.push(`generatedAt is ${JSON.stringify(raw.generatedAt)}`);
+    }
+    return { doc: raw, generatedAt };
+};
+
+/**
+ * Validates each element of an array field with `validate`, keeping the usable ones.
+ */
+const readList = <T>(
+    value: unknown,
+    field: string,
+    issues: string[],
+    validate: (entry: unknown, label: string, issues: string[]) => T | null
+): T[] => {
+    if (!Array.isArray(value)) {
+        issues.push(`${field} is ${JSON.stringify(value)}, expected an array`);
+        return [];
+    }
+    const items: T[] = [];
+    value.forEach((entry: unknown, index: number) => {
+        const item = validate(entry, `${field} #${index}`, issues);
+        if (item) items.push(item);
+    });
+    return items;
+};
+
+const validateWeekRef = (entry: unknown, label: string, issues: string[]): RateApiWeekRef | null => {
+    if (!isRecord(entry)) {
+        issues.push(`${label} is not an object`);
+        return null;
+    }
+
+    const startDate = asDate(entry.startDate);
+    const endDate = asDate(entry.endDate);
+    const importUrl = asString(entry.import);
+    const exportUrl = asString(entry.export);
+    reportNulls({ startDate, endDate, import: importUrl, export: exportUrl }, entry, `${label} `, issues);
+
+    return startDate === null || endDate === null || importUrl === null || exportUrl === null
+        ? null
+        : { startDate, endDate, import: importUrl, export: exportUrl };
+};
+
+const validateCurrencyRef = (entry: unknown, label: string, issues: string[]): RateApiCurrencyRef | null => {
+    if (!isRecord(entry)) {
+        issues.push(`${label} is not an object`);
+        return null;
+    }
+
+    const currencyCode = asCurrencyCode(entry.currencyCode);
+    const currencyName = asString(entry.currencyName);
+    const countryCode = asString(entry.countryCode);
+    const unit = asUnit(entry.unit);
+    const path = asString(entry.path);
+    const from = asDate(entry.from);
+    const to = asDate(entry.to);
+    reportNulls({ currencyCode, currencyName, countryCode, unit, path, from, to }, entry, `${label} `, issues);
+
+    return currencyCode === null || currencyName === null || countryCode === null || unit === null || path === null || from === null || to === null
+        ? null
+        : { currencyCode, currencyName, countryCode, unit, path, from, to };
+};
+
+const validateCurrencyPoint = (entry: unknown, label: string, issues: string[]): RateApiCurrencyPoint | null => {
+    if (!isRecord(entry)) {
+        issues.push(`${label} is not an object`);
+        return null;
+    }
+
+    // null is a valid rate here: the side was not published that week.
+    const asRate = (value: unknown): number | null | undefined =>
+        value === null ? null : typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+    const startDate = asDate(entry.startDate);
+    const endDate = asDate(entry.endDate);
+    const importRate = asRate(entry.import);
+    const exportRate = asRate(entry.export);
+    reportNulls({ startDate, endDate }, entry, `${label} `, issues);
+    if (importRate === undefined) {
+        issues.push(`${label} import is ${JSON.stringify(entry.import)}`);
+    }
+    if (exportRate === undefined) {
+        issues.push(`${label} export is ${JSON.stringify(entry.export)}`);
+    }
+
+    return startDate === null || endDate === null || importRate === undefined || exportRate === undefined
+        ? null
+        : { startDate, endDate, import: importRate, export: exportRate };
+};
+
+/**
+ * Validates a parsed /api/index.json. Throws a RateDatasetValidationError listing every problem found.
+ */
+export const validateApiIndex = (raw: unknown, context = 'rate API index'): RateApiIndex => {
+    const issues: string[] = [];
+    const { doc, generatedAt } = readHeader(raw, context, issues);
+
+    const source = asString(doc.source);
+    if (doc.source !== undefined && source === null) {
+        issues.push(`source is ${JSON.stringify(doc.source)}`);
+    }
+    const latestWeek = asDate(doc.latestWeek);
+    if (doc.latestWeek !== null && latestWeek === null) {
+        issues.push(`latestWeek is ${JSON.stringify(doc.latestWeek)}`);
+    }
+
+    const endpoints: Record<string, string> = {};
+    if (!isRecord(doc.endpoints)) {
+        issues.push(`endpoints is ${JSON.stringify(doc.endpoints)}, expected an object`);
+    } else {
+        Object.entries(doc.endpoints).forEach(([name, template]) => {
+            if (typeof template === 'string') {
+                endpoints[name] = template;
+            } else {
+                issues.push(`endpoint ${name} is ${JSON.stringify(template)}`);
+            }
+        });
+    }
+
+    const weeks = readList(doc.weeks, 'weeks', issues, validateWeekRef);
+    const currencies = readList(doc.currencies, 'currencies', issues, validateCurrencyRef);
+
+    if (issues.length || generatedAt === null) {
+        throw new RateDatasetValidationError(issues, context);
+    }
+
+    return {
+        schemaVersion: RATE_SCHEMA_VERSION,
+        generatedAt,
+        ...(source !== null ? { source } : {}),
+        latestWeek,
+        endpoints,
+        weeks,
+        currencies
+    };
+};
+
+/**
+ * Validates a parsed /api/currencies/{code}.json. Throws a RateDatasetValidationError listing every problem found.
+ */
+export const validateCurrencyHistory = (raw: unknown, context = 'rate API currency history'): RateApiCurrencyHistory => {
+    const issues: string[] = [];
+    const { doc, generatedAt } = readHeader(raw, context, issues);
+
+    const currencyCode = asCurrencyCode(doc.currencyCode);
+    const currencyName = asString(doc.currencyName);
+    const countryCode = asString(doc.countryCode);
+    const unit = asUnit(doc.unit);
+    reportNulls({ currencyCode, currencyName, countryCode, unit }, doc, '', issues);
+    const history = readList(doc.history, 'history', issues, validateCurrencyPoint);
+
+    if (issues.length || generatedAt === null || currencyCode === null || currencyName === null || countryCode === null || unit === null) {
+        throw new RateDatasetValidationError(issues, context);
+    }
+
+    return { schemaVersion: RATE_SCHEMA_VERSION, generatedAt, currencyCode, currencyName, countryCode, unit, history };
+};
+
+/**
+ * Validates a parsed /api/latest.json. Its week goes through the same checks as the snapshot's weeks.
+ */
+export const validateApiLatest = (raw: unknown, context = 'rate API latest week'): RateApiLatest => {
+    const issues: string[] = [];
+    const { doc, generatedAt } = readHeader(raw, context, issues);
+
+    const source = asString(doc.source);
+    if (doc.source !== undefined && source === null) {
+        issues.push(`source is ${JSON.stringify(doc.source)}`);
+    }
+    if (issues.length || generatedAt === null) {
+        throw new RateDatasetValidationError(issues, context);
+    }
+
+    const [week] = validateRateWeeks([doc.week], RATE_SCHEMA_VERSION, context);
+    return { schemaVersion: RATE_SCHEMA_VERSION, generatedAt, ...(source !== null ? { source } : {}), week };
+};
+
+/**
+ * Validates a parsed /api/weeks/{startDate}/{side}.json, which must hold the side that was requested.
+ */
+export const validateApiWeekSide = (raw: unknown, side: RateSide, context = `rate API week ${side}`): RateApiWeekSide => {
+    const issues: string[] = [];
+    const { doc, generatedAt } = readHeader(raw, context, issues);
+
+    if (doc.side !== side) {
+        issues.push(`side is ${JSON.stringify(doc.side)}, expected "${side}"`);
+    }
+    if (issues.length || generatedAt === null) {
+        throw new RateDatasetValidationError(issues, context);
+    }
+
+    // Checked as a week with the other side left empty, so dates, fetchedAt and rates get the snapshot's checks.
+    const [week] = validateRateWeeks(
+        [
+            {
+                startDate: doc.startDate,
+                endDate: doc.endDate,
+                fetchedAt: doc.fetchedAt,
+                import: side === 'import' ? doc.rates : [],
+                export: side === 'export' ? doc.rates : []
+            }
+        ],
+        RATE_SCHEMA_VERSION,
+        context
+    );
+    return {
+        schemaVersion: RATE_SCHEMA_VERSION,
+        generatedAt,
+        startDate: week.startDate,
+        endDate: week.endDate,
+        ...(week.fetchedAt ? { fetchedAt: week.fetchedAt } : {}),
+        side,
+        rates: week[side]
+    };
+};
@@ -0,0 +1,54 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { validateArchiveManifest } from './archiveSchema';
+import { RateDatasetValidationError } from './rateSchema';
+
+const manifest: unknown = JSON.parse(readFileSync(new URL('../public/archive/manifest.json', import.meta.url), 'utf8'));
+
+const file = { year: 2026, path: '/archive/2026.json', from: '2026-01-04', to: '2026-06-28', weekCount: 26 };
+
+const issuesOf = (raw: unknown): string[] => {
+    try {
+        validateArchiveManifest(raw);
+    } catch (error) {
+        if (error instanceof RateDatasetValidationError) return error.issues;
+        throw error;
+    }
+    throw new Error('expected a validation error');
+};
+
+describe('validateArchiveManifest', () => {
+    it('accepts the published manifest', () => {
+        expect(validateArchiveManifest(manifest)).toEqual(manifest);
+    });
+
+    it('leaves source out when the manifest has none', () => {
+        expect(validateArchiveManifest({ generatedAt: '2026-06-19T08:00:00.000Z', files: [file] })).toEqual({
+            generatedAt: '2026-06-19T08:00:00.000Z',
+            files: [file]
+        });
+    });
+
+    it('rejects entries without usable dates or paths', () => {
+        expect(
+            issuesOf({
+                generatedAt: '2026-06-19T08:00:00.000Z',
+                source: 42,
+                files: [{ ...file, from: undefined, to: 20260628 }, { ...file, path: null, weekCount: -1 }, 'x', { ...file, from: '2026-07-01' }]
+            })
+        ).toEqual([
+            'source is 42',
+            'file #0 from is undefined',
+            'file #0 to is 20260628',
+            'file #1 path is null',
+            'file #1 weekCount is -1',
+            'file #2 is not an object',
+            'file #3 from 2026-07-01 is after to 2026-06-28'
+        ]);
+    });
+
+    it('rejects a document without a file list', () => {
+        expect(issuesOf({ generatedAt: '2026-06-19T08:00:00.000Z' })).toEqual(['files is undefined, expected an array']);
+        expect(issuesOf(null)).toEqual(['document is not an object']);
+    });
+});
@@ -0,0 +1,86 @@
+import { RateArchiveFile, RateArchiveManifest } from '../types';
+import { RateDatasetValidationError } from './rateSchema';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isIsoDate = (value: unknown): value is string => typeof value === 'string' && ISO_DATE.test(value) && !isNaN(Date.parse(value));
+
+/**
+ * Validates one manifest entry, pushing a message per problem. Returns null when it is unusable.
+ */
+const validateArchiveFile = (entry: unknown, label: string, issues: string[]): RateArchiveFile | null => {
+    if (!isRecord(entry)) {
+        issues.push(`${label} is not an object`);
+        return null;
+    }
+
+    const year = typeof entry.year === 'number' && Number.isInteger(entry.year) ? entry.year : null;
+    const filePath = typeof entry.path === 'string' && entry.path.startsWith('/') ? entry.path : null;
+    const from = isIsoDate(entry.from) ? entry.from : null;
+    const to = isIsoDate(entry.to) ? entry.to : null;
+    const weekCount = typeof entry.weekCount === 'number' && Number.isInteger(entry.weekCount) && entry.weekCount >= 0 ? entry.weekCount : null;
+
+    if (year === null) {
+        issues.push(`${label} year is ${JSON.stringify(entry.year)}`);
+    }
+    if (filePath === null) {
+        issues.push(`${label} path is ${JSON.stringify(entry.path)}`);
+    }
+    if (from === null) {
+        issues.push(`${label} from is ${JSON.stringify(entry.from)}`);
+    }
+    if (to === null) {
+        issues.push(`${label} to is ${JSON.stringify(entry.to)}`);
+    }
+    if (from !== null && to !== null && from > to) {
+        issues.push(`${label} from ${from} is after to ${to}`);
+    }
+    if (weekCount === null) {
+        issues.push(`${label} weekCount is ${JSON.stringify(entry.weekCount)}`);
+    }
+
+    return year === null || filePath === null || from === null || to === null || from > to || weekCount === null
+        ? null
+        : { year, path: filePath, from, to, weekCount };
+};
+
+/**
+ * Validates a parsed archive/manifest.json. Throws a RateDatasetValidationError listing every problem found.
+ */
+export const validateArchiveManifest = (raw: unknown, context = 'rate archive manifest'): RateArchiveManifest => {
+    if (!isRecord(raw)) {
+        throw new RateDatasetValidationError(['document is not an object'], context);
+    }
+
+    const issues: string[] = [];
+    const generatedAt = typeof raw.generatedAt === 'string' ? raw.generatedAt : null;
+    if (generatedAt === null) {
+        issues.push(`generatedAt is ${JSON.stringify(raw.generatedAt)}`);
+    }
+    if (raw.source !== undefined && typeof raw.source !== 'string') {
+        issues.push(`source is ${JSON.stringify(raw.source)}`);
+    }
+
+    const files: RateArchiveFile[] = [];
+    if (!Array.isArray(raw.files)) {
+        issues.push(`files is ${JSON.stringify(raw.files)}, expected an array`);
+    } else {
+        raw.files.forEach((entry: unknown, index: number) => {
+            const file = validateArchiveFile(entry, `file #${index}`, issues);
+            if (file) files.push(file);
+        });
+    }
+
+    if (issues.length || generatedAt === null) {
+        throw new RateDatasetValidationError(issues, context);
+    }
+
+    return {
+        generatedAt,
+        ...(typeof raw.source === 'string' ? { source: raw.source } : {}),
+        files
+    };
+};
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchArchiveManifest, fetchCurrencyHistory, fetchReferenceRates, fetchWeekRates } from './customsApi';
+import { RateDatasetValidationError } from './rateSchema';
+
+const INDEX_HTML = '<!DOCTYPE html><html><body><div id="root"></div></body></html>';
+
+const stubFetch = (response: () => Response) => {
+    const fetchMock = vi.fn(async () => response());
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+};
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('fetchArchiveManifest', () => {
+    it('rejects a manifest with malformed entries', async () => {
+        stubFetch(() => Response.json({ generatedAt: '2026-06-19T08:00:00.000Z', files: [{ year: 2026, path: '/archive/2026.json' }] }));
+        const error = await fetchArchiveManifest().catch((reason: unknown) => reason);
+        expect(error).toBeInstanceOf(RateDatasetValidationError);
+        expect((error as RateDatasetValidationError).message).toBe(
+            'Invalid /archive/manifest.json: file #0 from is undefined; file #0 to is undefined; file #0 weekCount is undefined'
+        );
+    });
+});
+
+describe('fetchReferenceRates', () => {
+    it('returns the validated document', async () => {
+        const fetchMock = stubFetch(() =>
+            Response.json({
+                schemaVersion: 1,
+                generatedAt: '2026-06-19T08:00:00.000Z',
+                source: 'test bank',
+                rates: [{ date: '2026-06-15', currencyCode: 'USD', rate: 1381.2 }]
+            })
+        );
+
+        await expect(fetchReferenceRates()).resolves.toEqual({
+            schemaVersion: 1,
+            generatedAt: '2026-06-19T08:00:00.000Z',
+            source: 'test bank',
+            rates: [{ date: '2026-06-15', currencyCode: 'USD', rate: 1381.2 }]
+        });
+        expect(fetchMock).toHaveBeenCalledWith('/reference-rates.json');
+    });
+
+    it('treats a missing file as no reference rates', async () => {
+        stubFetch(() => new Response('Not Found', { status: 404 }));
+        await expect(fetchReferenceRates()).resolves.toBeNull();
+    });
+
+    it('treats the dev server index.html fallback as no reference rates', async () => {
+        stubFetch(() => new Response(INDEX_HTML, { headers: { 'Content-Type': 'text/html' } }));
+        await expect(fetchReferenceRates()).resolves.toBeNull();
+    });
+
+    it('rejects a malformed document and failed requests', async () => {
+        stubFetch(() => Response.json({ schemaVersion: 1, generatedAt: 'yesterday', rates: [{ date: '2026-06-15', currencyCode: 'usd', rate: 0 }] }));
+        const error = await fetchReferenceRates().catch((reason: unknown) => reason);
+        expect(error).toBeInstanceOf(RateDatasetValidationError);
+        expect((error as RateDatasetValidationError).issues).toEqual([
+            'generatedAt is "yesterday"',
+            'source is undefined',
+            'rate #0 currencyCode is "usd"',
+            'rate #0 rate is 0'
+        ]);
+
+        stubFetch(() => new Response('Server Error', { status: 500 }));
+        await expect(fetchReferenceRates()).rejects.toThrow('Failed to load /reference-rates.json (500)');
+    });
+});
+
+describe('fetchWeekRates', () => {
+    it('returns null for weeks the static API does not have', async () => {
+        stubFetch(() => new Response(INDEX_HTML, { headers: { 'Content-Type': 'text/html; charset=utf-8' } }));
+        await expect(fetchWeekRates('2020-01-05', 'import')).resolves.toBeNull();
+    });
+});
+
+describe('fetchCurrencyHistory', () => {
+    it('validates the document instead of trusting it', async () => {
+        stubFetch(() => Response.json({ schemaVersion: 2, generatedAt: '2026-06-19T08:00:00.000Z', currencyCode: 'USD', history: 'none' }));
+        await expect(fetchCurrencyHistory('USD')).rejects.toThrow(
+            'Invalid /api/currencies/USD.json: currencyName is undefined; countryCode is undefined; unit is undefined; history is "none", expected an array'
+        );
+    });
+});
@@ -1,46 +1,196 @@
-import { RateDataset, RateData, RateType } from '../types';
+import {
+    RateDataset,
+    RateData,
+    RateType,
+    RateWeek,
+    RateArchiveFile,
+    RateArchiveManifest,
+    RateDateRange,
+    RateSide,
+    RateApiCurrencyHistory,
+    RateApiIndex,
+    RateApiWeekSide,
+    ReferenceRateDataset
+} from '../types';
+import { addDays, getWeekStartDate } from '../utils/dateUtils';
+import { loadRateDataset } from '../packages/customs-rate/src/load';
+import { RATE_SCHEMA_VERSION, validateRateWeeks } from './rateSchema';
+import { validateApiIndex, validateApiLatest, validateApiWeekSide, validateCurrencyHistory } from './apiSchema';
+import { validateArchiveManifest } from './archiveSchema';
+import { validateReferenceRateDataset } from './referenceSchema';
 
 const DATA_URL = '/exchange-rates.json';
+const REFERENCE_RATES_URL = '/reference-rates.json';
+const ARCHIVE_MANIFEST_URL = '/archive/manifest.json';
+export const RATE_API_BASE = '/api';
 
-const normalizeEntry = (entry: any, type: 'export' | 'import', fallbackDate: string): RateData => {
-    return {
-        id: entry.id || `${fallbackDate}-${entry.currencyCode || entry.currSgn || 'UNKNOWN'}-${type}`,
-        countryCode: entry.countryCode || entry.cntySgn || '',
-        currencyName: entry.currencyName || entry.mtryUtNm || '',
-        currencyCode: entry.currencyCode || entry.currSgn || '',
-        rate: typeof entry.rate === 'number' ? entry.rate : Number(entry.rate || 0),
-        date: entry.date || fallbackDate,
-        type
-    };
+const weekPath = (startDate: string, side: string) => `${RATE_API_BASE}/weeks/${startDate}/${side}.json`;
+
+/**
+ * URLs of the static JSON API documents. Shared with the generator that writes them.
+ */
+export const rateApiPaths = {
+    index: () => `${RATE_API_BASE}/index.json`,
+    latest: () => `${RATE_API_BASE}/latest.json`,
+    week: (startDate: string, side: RateSide) => weekPath(startDate, side),
+    // The week URL with {startDate} and {side} placeholders, as the index lists it.
+    weekTemplate: () => weekPath('{startDate}', '{side}'),
+    currency: (currencyCode: string) => `${RATE_API_BASE}/currencies/${currencyCode}.json`,
+    date: (date: string) => `${RATE_API_BASE}/dates/${date}.json`,
+    rateLookup: (date: string) => `${RATE_API_BASE}/rate?date=${date}`
 };
 
-export const fetchRateDataset = async (): Promise<RateDataset> => {
-    const response = await fetch(DATA_URL, { cache: 'no-store' });
+const sortWeeksDescending = (weeks: RateWeek[]): RateWeek[] =>
+    [...weeks].sort((a, b) => b.startDate.localeCompare(a.startDate));
 
-    if (!response.ok) {
-        throw new Error(`Failed to load local rate dataset (${response.status})`);
+let manifestPromise: Promise<RateArchiveManifest> | null = null;
+const archiveFileCache = new Map<string, Promise<RateWeek[]>>();
+
+/**
+ * Loads the archive manifest once per page load. A failed request is not cached so it can be retried.
+ */
+export const fetchArchiveManifest = (): Promise<RateArchiveManifest> => {
+    if (!manifestPromise) {
+        manifestPromise = fetch(ARCHIVE_MANIFEST_URL, { cache: 'no-store' })
+            .then(async (response) => {
+                if (!response.ok) {
+                    throw new Error(`Failed to load rate archive manifest (${response.status})`);
+                }
+                return validateArchiveManifest(await response.json(), ARCHIVE_MANIFEST_URL);
+            })
+            .catch((error) => {
+                manifestPromise = null;
+                throw error;
+            });
     }
+    return manifestPromise;
+};
 
-    const raw = await response.json();
-    const weeksRaw = Array.isArray(raw.weeks) ? raw.weeks : [];
+const fetchArchiveFile = (file: RateArchiveFile): Promise<RateWeek[]> => {
+    let pending = archiveFileCache.get(file.path);
+    if (!pending) {
+        pending = fetch(file.path)
+            .then(async (response) => {
+                if (!response.ok) {
+                    throw new Error(`Failed to load rate archive ${file.path} (${response.status})`);
+                }
+                const raw = await response.json();
+                return validateRateWeeks(raw?.weeks, raw?.schemaVersion ?? 1, `rate archive ${file.path}`);
+            })
+            .catch((error) => {
+                archiveFileCache.delete(file.path);
+                throw error;
+            });
+        archiveFileCache.set(file.path, pending);
+    }
+    return pending;
+};
 
-    const weeks = weeksRaw.map((week: any) => {
-        const startDate = week.startDate || week.date || '';
-        return {
-            startDate,
-            import: Array.isArray(week.import) ? week.import.map((entry: any) => normalizeEntry(entry, 'import', startDate)) : [],
-            export: Array.isArray(week.export) ? week.export.map((entry: any) => normalizeEntry(entry, 'export', startDate)) : []
-        };
-    });
+const fetchArchivedRange = async (range: RateDateRange): Promise<RateDataset> => {
+    const manifest = await fetchArchiveManifest();
+    // A week starting up to six days before `from` still applies on `from`.
+    const earliestStart = addDays(range.from, -6);
+    const files = manifest.files.filter((file) => file.from <= range.to && file.to >= earliestStart);
+    const weeks = (await Promise.all(files.map(fetchArchiveFile)))
+        .flat()
+        .filter((week) => week.startDate >= earliestStart && week.startDate <= range.to);
 
     return {
-        generatedAt: raw.generatedAt || '',
-        source: raw.source,
-        weeks
+        schemaVersion: RATE_SCHEMA_VERSION,
+        generatedAt: manifest.generatedAt,
+        source: manifest.source,
+        weeks: sortWeeksDescending(weeks)
     };
 };
 
+/**
+ * Loads the rolling snapshot, or, when a date range is given, every archived week that applies within it.
+ * Archive files are fetched lazily and cached, so repeated range queries only download each year once.
+ */
+export const fetchRateDataset = async (range?: RateDateRange): Promise<RateDataset> => {
+    if (range) {
+        return fetchArchivedRange(range);
+    }
+
+    return loadRateDataset(DATA_URL, { init: { cache: 'no-store' } });
+};
+
 export const pickRatesByType = (dataset: RateDataset, type: RateType): RateData[][] => {
     const key = type === RateType.EXPORT ? 'export' : 'import';
     return dataset.weeks.map((week) => week[key]);
 };
+
+export { findWeekForDate, getDatasetRange } from '../packages/customs-rate/src/lookup';
+
+// Resolves to null on 404 so callers can tell "no such week" apart from a failed request.
+// An HTML answer is treated the same way: the Vite dev server and SPA-style hosts serve index.html for missing files.
+// The parsed body is left as unknown for the caller to validate.
+const fetchApiDocument = async (url: string): Promise<unknown> => {
+    const response = await fetch(url);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+        throw new Error(`Failed to load ${url} (${response.status})`);
+    }
+    if (response.headers.get('content-type')?.includes('text/html')) return null;
+    return response.json();
+};
+
+export const fetchApiIndex = async (): Promise<RateApiIndex> => {
+    const url = rateApiPaths.index();
+    const raw = await fetchApiDocument(url);
+    if (raw === null) throw new Error(`Missing ${url}`);
+    return validateApiIndex(raw, url);
+};
+
+export const fetchLatestWeek = async (): Promise<RateWeek | null> => {
+    const url = rateApiPaths.latest();
+    const raw = await fetchApiDocument(url);
+    return raw === null ? null : validateApiLatest(raw, url).week;
+};
+
+/**
+ * Loads one side of one week. Returns null if the API has no such week.
+ */
+export const fetchWeekRates = async (startDate: string, side: RateSide): Promise<RateApiWeekSide | null> => {
+    const url = rateApiPaths.week(startDate, side);
+    const raw = await fetchApiDocument(url);
+    return raw === null ? null : validateApiWeekSide(raw, side, url);
+};
+
+/**
+ * Loads both sides of a week as a RateWeek, or null if the API has no such week.
+ */
+export const fetchWeek = async (startDate: string): Promise<RateWeek | null> => {
+    const [importDoc, exportDoc] = await Promise.all([fetchWeekRates(startDate, 'import'), fetchWeekRates(startDate, 'export')]);
+    if (!importDoc || !exportDoc) return null;
+    return {
+        startDate: importDoc.startDate,
+        endDate: importDoc.endDate,
+        ...(importDoc.fetchedAt ? { fetchedAt: importDoc.fetchedAt } : {}),
+        import: importDoc.rates,
+        export: exportDoc.rates
+    };
+};
+
+/**
+ * Loads the rates that apply on a YYYY-MM-DD date. The week is resolved locally,
+ * so this skips the /api/rate?date= pointer document and costs a single request.
+ */
+export const fetchRatesForDate = async (date: string, side: RateSide): Promise<RateApiWeekSide | null> => {
+    const startDate = getWeekStartDate(date);
+    return startDate ? fetchWeekRates(startDate, side) : null;
+};
+
+export const fetchCurrencyHistory = async (currencyCode: string): Promise<RateApiCurrencyHistory | null> => {
+    const url = rateApiPaths.currency(currencyCode);
+    const raw = await fetchApiDocument(url);
+    return raw === null ? null : validateCurrencyHistory(raw, url);
+};
+
+/**
+ * Loads the daily market/bank reference rates published next to the snapshot, or null when the site has none.
+ */
+export const fetchReferenceRates = async (): Promise<ReferenceRateDataset | null> => {
+    const raw = await fetchApiDocument(REFERENCE_RATES_URL);
+    return raw === null ? null : validateReferenceRateDataset(raw, REFERENCE_RATES_URL);
+};
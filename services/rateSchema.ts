@@ -0,0 +1,2 @@
+// The dataset schema and validator live in the customs-rate library; re-exported for the dashboard and generator.
+export { RATE_SCHEMA_VERSION, RateDatasetValidationError, validateRateDataset, validateRateWeeks } from '../packages/customs-rate/src/schema';
@@ -0,0 +1,86 @@
+import { ReferenceRate, ReferenceRateDataset } from '../types';
+import { RateDatasetValidationError } from './rateSchema';
+
+/**
+ * Version history of public/reference-rates.json:
+ * 1 - daily `rates` of { date, currencyCode, rate } with rate in KRW per single unit.
+ */
+export const REFERENCE_SCHEMA_VERSION = 1;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates one reference rate, pushing a message per problem. Returns null when it is unusable.
+ */
+export const validateReferenceRate = (entry: unknown, label: string, issues: string[]): ReferenceRate | null => {
+    if (!isRecord(entry)) {
+        issues.push(`${label} is not an object`);
+        return null;
+    }
+
+    const date = typeof entry.date === 'string' && ISO_DATE.test(entry.date) && !isNaN(Date.parse(entry.date)) ? entry.date : null;
+    const currencyCode = typeof entry.currencyCode === 'string' && CURRENCY_CODE.test(entry.currencyCode) ? entry.currencyCode : null;
+    const rate = typeof entry.rate === 'number' && Number.isFinite(entry.rate) && entry.rate > 0 ? entry.rate : null;
+
+    if (date === null) {
+        issues.push(`${label} date is ${JSON.stringify(entry.date)}`);
+    }
+    if (currencyCode === null) {
+        issues.push(`${label} currencyCode is ${JSON.stringify(entry.currencyCode)}`);
+    }
+    if (rate === null) {
+        issues.push(`${label} rate is ${JSON.stringify(entry.rate)}`);
+    }
+
+    return date === null || currencyCode === null || rate === null ? null : { date, currencyCode, rate };
+};
+
+/**
+ * Validates a parsed reference-rates.json document. Throws a RateDatasetValidationError listing every problem found.
+ */
+export const validateReferenceRateDataset = (raw: unknown, context = 'reference rates'): ReferenceRateDataset => {
+    if (!isRecord(raw)) {
+        throw new RateDatasetValidationError(['document is not an object'], context);
+    }
+
+    const issues: string[] = [];
+    const generatedAt = typeof raw.generatedAt === 'string' && !isNaN(Date.parse(raw.generatedAt)) ? raw.generatedAt : null;
+    const source = typeof raw.source === 'string' ? raw.source : null;
+    if (raw.schemaVersion !== REFERENCE_SCHEMA_VERSION) {
+        issues.push(`schemaVersion ${JSON.stringify(raw.schemaVersion)} is not supported (expected ${REFERENCE_SCHEMA_VERSION})`);
+    }
+    if (generatedAt === null) {
+        issues.push(`generatedAt is ${JSON.stringify(raw.generatedAt)}`);
+    }
+    if (source === null) {
+        issues.push(`source is ${JSON.stringify(raw.source)}`);
+    }
+
+    const rates: ReferenceRate[] = [];
+    if (!Array.isArray(raw.rates)) {
+        issues.push(`rates is ${JSON.stringify(raw.rates)}, expected an array`);
+    } else {
+        const seen = new Set<string>();
+        raw.rates.forEach((entry: unknown, index: number) => {
+            const rate = validateReferenceRate(entry, `rate #${index}`, issues);
+            if (!rate) return;
+            const key = `${rate.date} ${rate.currencyCode}`;
+            if (seen.has(key)) {
+                issues.push(`${key} appears more than once`);
+                return;
+            }
+            seen.add(key);
+            rates.push(rate);
+        });
+    }
+
+    if (issues.length || generatedAt === null || source === null) {
+        throw new RateDatasetValidationError(issues, context);
+    }
+
+    return { schemaVersion: REFERENCE_SCHEMA_VERSION, generatedAt, source, rates };
+};
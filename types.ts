@@ -1,3 +1,5 @@
+import type { RateData, RateSide, RateWeek } from './packages/customs-rate/src/types';
+
 // Represents a single exchange rate record from the API
 export interface ExchangeRateRecord {
     resultCode: string;
@@ -10,27 +12,113 @@ export interface ExchangeRateRecord {
     imexTp: string; // '1' for Export, '2' for Import
 }
 
-// Cleaned up internal model
-export interface RateData {
-    id: string;
-    countryCode: string;
-    currencyName: string;
+// Cleaned up internal model, shared with the customs-rate library (packages/customs-rate)
+export type { RateData, RateDataset, RateDateRange, RateSide, RateWeek } from './packages/customs-rate/src/types';
+
+// Daily market/bank reference rates, published next to the snapshot as public/reference-rates.json
+export interface ReferenceRate {
+    date: string; // YYYY-MM-DD, the day the rate was observed
     currencyCode: string;
-    rate: number;
-    date: string; // YYYY-MM-DD format for UI
-    type: 'export' | 'import';
+    rate: number; // KRW per single unit, like RateData.rate
 }
 
-export interface RateWeek {
-    startDate: string; // YYYY-MM-DD (Sunday start)
-    import: RateData[];
-    export: RateData[];
+export interface ReferenceRateDataset {
+    schemaVersion: number; // See REFERENCE_SCHEMA_VERSION in services/referenceSchema.ts
+    generatedAt: string; // ISO timestamp
+    source: string; // Provider that supplied the rates
+    rates: ReferenceRate[]; // Sorted by date, then currency code; one entry per day and currency
 }
 
-export interface RateDataset {
+// One entry per archive file under public/archive
+export interface RateArchiveFile {
+    year: number;
+    path: string; // e.g. /archive/2026.json
+    from: string; // Earliest week startDate in the file
+    to: string; // Latest week startDate in the file
+    weekCount: number;
+}
+
+export interface RateArchiveManifest {
     generatedAt: string; // ISO timestamp
     source?: string;
-    weeks: RateWeek[];
+    files: RateArchiveFile[];
+}
+
+// Static JSON API under public/api, generated from the snapshot and archive.
+// Every document carries the RATE_SCHEMA_VERSION of the RateData/RateWeek shapes it embeds.
+export interface RateApiWeekRef {
+    startDate: string;
+    endDate: string;
+    import: string; // URL of the RateApiWeekSide document
+    export: string;
+}
+
+export interface RateApiCurrencyRef {
+    currencyCode: string;
+    currencyName: string;
+    countryCode: string;
+    unit: number;
+    path: string; // URL of the RateApiCurrencyHistory document
+    from: string; // Earliest week startDate with a rate
+    to: string; // Latest week startDate with a rate
+}
+
+// /api/index.json
+export interface RateApiIndex {
+    schemaVersion: number;
+    generatedAt: string;
+    source?: string;
+    latestWeek: string | null; // startDate of /api/latest.json
+    endpoints: Record<string, string>; // URL templates, e.g. "/api/weeks/{startDate}/{side}.json"
+    weeks: RateApiWeekRef[]; // Newest first
+    currencies: RateApiCurrencyRef[]; // Sorted by code
+}
+
+// /api/latest.json
+export interface RateApiLatest {
+    schemaVersion: number;
+    generatedAt: string;
+    source?: string;
+    week: RateWeek;
+}
+
+// /api/weeks/{startDate}/{import|export}.json
+export interface RateApiWeekSide {
+    schemaVersion: number;
+    generatedAt: string;
+    startDate: string;
+    endDate: string;
+    fetchedAt?: string;
+    side: RateSide;
+    rates: RateData[];
+}
+
+export interface RateApiCurrencyPoint {
+    startDate: string;
+    endDate: string;
+    import: number | null; // KRW per single unit, null if not published that week
+    export: number | null;
+}
+
+// /api/currencies/{code}.json
+export interface RateApiCurrencyHistory {
+    schemaVersion: number;
+    generatedAt: string;
+    currencyCode: string;
+    currencyName: string;
+    countryCode: string;
+    unit: number;
+    history: RateApiCurrencyPoint[]; // Newest first
+}
+
+// /api/dates/{date}.json, also served as /api/rate?date={date}
+export interface RateApiDateLookup {
+    schemaVersion: number;
+    date: string;
+    startDate: string; // The week whose rates apply on `date`
+    endDate: string;
+    import: string; // URL of the RateApiWeekSide document
+    export: string;
 }
 
 export enum RateType {
@@ -38,7 +126,11 @@ export enum RateType {
     IMPORT = '2'
 }
 
-export type Language = 'KO' | 'EN';
+export type Language = 'KO' | 'EN' | 'ZH' | 'JA';
+
+// rates: one side's dashboard; compare: import and export side by side; cross: implied cross rates between currencies;
+// batch: KRW conversion of an uploaded invoice sheet
+export type DashboardView = 'rates' | 'compare' | 'cross' | 'batch';
 
 export interface ApiConfig {
     serviceKey: string;
@@ -47,9 +139,5 @@ export interface ApiConfig {
 // For Charting
 export interface ChartDataPoint {
     date: string;
-    USD?: number;
-    JPY?: number;
-    EUR?: number;
-    CNY?: number;
-    [key: string]: number | string | undefined;
+    [currencyCode: string]: number | string | undefined;
 }
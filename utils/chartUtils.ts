@@ -0,0 +1,62 @@
+import { ChartDataPoint, RateData } from '../types';
+import { getRateQuoteUnit } from './currencyUtils';
+import { movingAverage, movingAverageKey } from './rateStats';
+
+/**
+ * Pivots rate rows into one chart point per date, keyed by currency code, oldest first.
+ * Values are expressed per quote unit (e.g. KRW per 100 JPY), matching the stat cards.
+ */
+export const buildChartData = (rates: RateData[]): ChartDataPoint[] => {
+    const dataByDate = new Map<string, ChartDataPoint>();
+    rates.forEach((item) => {
+        if (!dataByDate.has(item.date)) {
+            dataByDate.set(item.date, { date: item.date });
+        }
+        dataByDate.get(item.date)![item.currencyCode] = Number((item.rate * getRateQuoteUnit(item)).toFixed(4));
+    });
+    return Array.from(dataByDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Rebases each currency to 100 at its first available point so currencies of different magnitudes compare.
+ */
+export const indexChartData = (data: ChartDataPoint[], codes: string[]): ChartDataPoint[] => {
+    const bases = new Map<string, number>();
+    return data.map((point) => {
+        const indexed: ChartDataPoint = { date: point.date };
+        codes.forEach((code) => {
+            const value = point[code];
+            if (typeof value !== 'number' || value <= 0) return;
+            if (!bases.has(code)) bases.set(code, value);
+            indexed[code] = Number(((value / bases.get(code)!) * 100).toFixed(2));
+        });
+        return indexed;
+    });
+};
+
+/**
+ * Adds trailing moving averages of a currency to each chart point under `movingAverageKey(code, window)`.
+ * Averages run over the currency's own weeks, so they are computed before the chart is cut to a range.
+ */
+export const addMovingAverages = (data: ChartDataPoint[], code: string, windows: readonly number[]): ChartDataPoint[] => {
+    const points = data.filter((point) => typeof point[code] === 'number');
+    const values = points.map((point) => point[code] as number);
+    const averages = new Map<ChartDataPoint, Record<string, number>>();
+    windows.forEach((window) => {
+        movingAverage(values, window).forEach((value, index) => {
+            if (value === null) return;
+            const keyed = averages.get(points[index]) ?? {};
+            keyed[movingAverageKey(code, window)] = value;
+            averages.set(points[index], keyed);
+        });
+    });
+    return data.map((point) => (averages.has(point) ? { ...point, ...averages.get(point) } : point));
+};
+
+export const CHART_COLORS = ['#ef4444', '#3b82f6', '#d97706', '#22c55e', '#8b5cf6', '#ec4899', '#14b8a6', '#64748b'];
+
+// Neutral shades for the moving-average overlays, in MOVING_AVERAGE_WINDOWS order, so they never clash with a currency colour.
+export const MOVING_AVERAGE_COLORS = ['#9ca3af', '#4b5563'];
+
+// Market/bank reference rate and its gap to the customs rate.
+export const REFERENCE_COLOR = '#10b981';
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { RateData, RateWeek } from '../types';
+import { buildCrossRateHistory, buildCrossRateMatrix, deriveCrossRate, getCrossRate } from './crossRateUtils';
+
+const row = (currencyCode: string, rate: number, date = '2026-06-07'): RateData => ({
+    id: `${date}-${currencyCode}`,
+    countryCode: currencyCode.slice(0, 2),
+    currencyName: currencyCode,
+    currencyCode,
+    rate,
+    unit: ['JPY', 'VND'].includes(currencyCode) ? 100 : 1,
+    date,
+    type: 'import'
+});
+
+const week = (startDate: string, rates: [string, number][]): RateWeek => ({
+    startDate,
+    endDate: startDate,
+    import: rates.map(([code, rate]) => row(code, rate, startDate)),
+    export: []
+});
+
+// KRW per single unit: 1 USD = 1400 KRW, 1 JPY = 9 KRW, 1 VND = 0.056 KRW.
+const current = week('2026-06-07', [
+    ['USD', 1400],
+    ['EUR', 1512],
+    ['JPY', 9],
+    ['VND', 0.056],
+    ['GBP', 0]
+]);
+
+describe('deriveCrossRate', () => {
+    it('divides the KRW rates and scales the base side by its unit', () => {
+        expect(deriveCrossRate(1400, 9)).toBeCloseTo(155.5556, 4);
+        expect(deriveCrossRate(9, 1400, 100)).toBeCloseTo(0.642857, 6);
+        expect(deriveCrossRate(undefined, 9)).toBeNull();
+        expect(deriveCrossRate(1400, 0)).toBeNull();
+    });
+});
+
+describe('getCrossRate', () => {
+    it('inverts between the two directions of a pair', () => {
+        const usdEur = getCrossRate(current, 'import', 'USD', 'EUR')!;
+        const eurUsd = getCrossRate(current, 'import', 'EUR', 'USD')!;
+        expect(usdEur).toBeCloseTo(1400 / 1512, 10);
+        expect(usdEur * eurUsd).toBeCloseTo(1, 10);
+    });
+
+    it('quotes per-100 currencies per 100 units', () => {
+        // USD per 100 JPY, and the inverse JPY per 1 USD
+        expect(getCrossRate(current, 'import', 'JPY', 'USD')).toBeCloseTo(900 / 1400, 10);
+        expect(getCrossRate(current, 'import', 'USD', 'JPY')).toBeCloseTo(1400 / 9, 10);
+        // VND per 1 USD, and USD per 100 VND
+        expect(getCrossRate(current, 'import', 'USD', 'VND')).toBeCloseTo(25000, 6);
+        expect(getCrossRate(current, 'import', 'VND', 'USD')).toBeCloseTo(0.004, 10);
+    });
+
+    it('treats KRW as 1 and returns null when a currency is missing or zero', () => {
+        expect(getCrossRate(current, 'import', 'USD', 'KRW')).toBe(1400);
+        expect(getCrossRate(current, 'import', 'KRW', 'JPY')).toBeCloseTo(1 / 9, 10);
+        expect(getCrossRate(current, 'import', 'USD', 'CHF')).toBeNull();
+        expect(getCrossRate(current, 'import', 'GBP', 'USD')).toBeNull();
+        expect(getCrossRate(current, 'export', 'USD', 'EUR')).toBeNull();
+    });
+});
+
+describe('buildCrossRateMatrix', () => {
+    it('orders KRW first, then alphabetically, without zero-rate currencies', () => {
+        const matrix = buildCrossRateMatrix(current, 'import');
+        expect(matrix.codes).toEqual(['KRW', 'EUR', 'JPY', 'USD', 'VND']);
+        expect(matrix.units).toEqual([1, 1, 100, 1, 100]);
+        expect(matrix.values[0][0]).toBeNull();
+        expect(matrix.values[3][0]).toBe(1400);
+        expect(matrix.values[2][3]).toBeCloseTo(900 / 1400, 10);
+    });
+
+    it('keeps the requested order and drops unknown codes', () => {
+        const matrix = buildCrossRateMatrix(current, 'import', ['USD', 'CHF', 'JPY']);
+        expect(matrix.codes).toEqual(['USD', 'JPY']);
+        expect(matrix.values).toEqual([
+            [null, 1400 / 9],
+            [900 / 1400, null]
+        ]);
+    });
+    it("uses each entry's own unit rather than the usual one", () => {
+        const perOne = { ...current, import: current.import.map((item) => (item.currencyCode === 'JPY' ? { ...item, unit: 1 } : item)) };
+        const matrix = buildCrossRateMatrix(perOne, 'import', ['JPY', 'USD']);
+        expect(matrix.units).toEqual([1, 1]);
+        expect(matrix.values[0][1]).toBeCloseTo(9 / 1400, 10);
+        expect(getCrossRate(perOne, 'import', 'JPY', 'USD')).toBeCloseTo(9 / 1400, 10);
+    });
+});
+
+describe('buildCrossRateHistory', () => {
+    it('skips weeks where either currency is missing, oldest first', () => {
+        const weeks = [
+            week('2026-06-14', [['USD', 1410], ['EUR', 1500]]),
+            week('2026-06-07', [['USD', 1400]]),
+            week('2026-05-31', [['USD', 1390], ['EUR', 1490]])
+        ];
+        expect(buildCrossRateHistory(weeks, 'import', 'EUR', 'USD')).toEqual([
+            { date: '2026-05-31', rate: 1490 / 1390 },
+            { date: '2026-06-14', rate: 1500 / 1410 }
+        ]);
+    });
+});
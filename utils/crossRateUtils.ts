@@ -0,0 +1,83 @@
+import { RateData, RateSide, RateWeek } from '../types';
+import { getQuoteUnit, getRateQuoteUnit } from './currencyUtils';
+
+// The customs rates are all quoted against KRW, which therefore takes part in every cross rate at 1 KRW = 1 KRW.
+export const BASE_CURRENCY = 'KRW';
+
+export interface CrossRateMatrix {
+    startDate: string;
+    side: RateSide;
+    codes: string[]; // Row and column order; KRW first
+    units: number[]; // Quote unit of each row currency, e.g. 100 for JPY
+    values: (number | null)[][]; // values[row][column]: units of the column currency per `units[row]` of the row currency
+}
+
+export interface CrossRatePoint {
+    date: string; // Week startDate
+    rate: number; // Units of the quote currency per quote unit of the base currency
+}
+
+/**
+ * KRW per single unit for every currency of a week's side, with KRW itself at 1.
+ */
+const getKrwRates = (rates: RateData[]): Map<string, number> => {
+    const krwRates = new Map<string, number>([[BASE_CURRENCY, 1]]);
+    rates.forEach((item) => {
+        if (item.rate > 0) krwRates.set(item.currencyCode, item.rate);
+    });
+    return krwRates;
+};
+
+/**
+ * The quote unit of every currency of a week's side; KRW and currencies without a rate fall back to the usual one.
+ */
+const getQuoteUnits = (rates: RateData[]): ((code: string) => number) => {
+    const units = new Map(rates.map((item) => [item.currencyCode, getRateQuoteUnit(item)]));
+    return (code) => units.get(code) ?? getQuoteUnit(code);
+};
+
+/**
+ * The implied customs cross rate: how many `quote` units `baseUnit` units of `base` buy, e.g. VND per 1 USD or
+ * USD per 100 JPY. Both rates are KRW per single unit, so the per-100 quotation only scales the base side.
+ * Null when either currency has no rate.
+ */
+export const deriveCrossRate = (krwPerBase: number | undefined, krwPerQuote: number | undefined, baseUnit = 1): number | null =>
+    krwPerBase && krwPerQuote ? (krwPerBase * baseUnit) / krwPerQuote : null;
+
+/**
+ * Every currency of a week's side against every other, including KRW.
+ * Currencies come in the order given by `codes` (unknown ones dropped), otherwise KRW first and then alphabetically.
+ */
+export const buildCrossRateMatrix = (week: RateWeek, side: RateSide, codes?: string[]): CrossRateMatrix => {
+    const krwRates = getKrwRates(week[side]);
+    const ordered = (codes ?? [BASE_CURRENCY, ...Array.from(krwRates.keys()).filter((code) => code !== BASE_CURRENCY).sort()])
+        .filter((code) => krwRates.has(code));
+    const units = ordered.map(getQuoteUnits(week[side]));
+
+    return {
+        startDate: week.startDate,
+        side,
+        codes: ordered,
+        units,
+        values: ordered.map((base, row) =>
+            ordered.map((quote) => (base === quote ? null : deriveCrossRate(krwRates.get(base), krwRates.get(quote), units[row])))
+        )
+    };
+};
+
+/**
+ * The cross rate of one currency pair for a week's side; null when either currency is missing that week.
+ */
+export const getCrossRate = (week: RateWeek, side: RateSide, base: string, quote: string): number | null => {
+    const krwRates = getKrwRates(week[side]);
+    return deriveCrossRate(krwRates.get(base), krwRates.get(quote), getQuoteUnits(week[side])(base));
+};
+
+/**
+ * The cross rate of one currency pair for every week where both currencies were published, oldest first.
+ */
+export const buildCrossRateHistory = (weeks: RateWeek[], side: RateSide, base: string, quote: string): CrossRatePoint[] =>
+    weeks
+        .map((week) => ({ date: week.startDate, rate: getCrossRate(week, side, base, quote) }))
+        .filter((point): point is CrossRatePoint => point.rate !== null)
+        .sort((a, b) => a.date.localeCompare(b.date));
@@ -0,0 +1,141 @@
+import { getQuoteUnit } from '../packages/customs-rate/src/currency';
+import { RateData } from '../types';
+
+export { getQuoteUnit };
+
+/**
+ * The unit a rate entry is quoted per (e.g. 100 for JPY): its own `unit`, or the usual one when that is missing.
+ */
+export const getRateQuoteUnit = (item: Pick<RateData, 'currencyCode' | 'unit'>): number => item.unit || getQuoteUnit(item.currencyCode);
+
+/**
+ * The quote unit `currencyCode` is published per in `rates`, or the usual one when it is not among them.
+ */
+export const findQuoteUnit = (rates: RateData[], currencyCode: string): number => {
+    const item = rates.find((entry) => entry.currencyCode === currencyCode);
+    return item ? getRateQuoteUnit(item) : getQuoteUnit(currencyCode);
+};
+
+/**
+ * Converts a foreign-currency amount to KRW using a per-unit customs rate.
+ * Named apart from the library's convertToKrw, which looks the rate up in a dataset first.
+ */
+export const multiplyRate = (amount: number, rate: number): number => amount * rate;
+
+export type CurrencyRegion = 'asia' | 'middle-east' | 'europe' | 'americas' | 'oceania' | 'africa' | 'other';
+
+// Display order for grouped lists.
+export const CURRENCY_REGIONS: CurrencyRegion[] = ['asia', 'americas', 'europe', 'middle-east', 'oceania', 'africa', 'other'];
+
+/**
+ * Korean names and regions for the currencies the customs service publishes.
+ * The API only returns English names, so these make Korean search and grouping possible.
+ */
+const CURRENCY_CATALOG: Record<string, { ko: string; region: Exclude<CurrencyRegion, 'other'> }> = {
+    AED: { ko: '아랍에미리트 디르함', region: 'middle-east' },
+    ARS: { ko: '아르헨티나 페소', region: 'americas' },
+    AUD: { ko: '호주 달러', region: 'oceania' },
+    BDT: { ko: '방글라데시 타카', region: 'asia' },
+    BHD: { ko: '바레인 디나르', region: 'middle-east' },
+    BND: { ko: '브루나이 달러', region: 'asia' },
+    BRL: { ko: '브라질 레알', region: 'americas' },
+    CAD: { ko: '캐나다 달러', region: 'americas' },
+    CHF: { ko: '스위스 프랑', region: 'europe' },
+    CLP: { ko: '칠레 페소', region: 'americas' },
+    CNY: { ko: '중국 위안', region: 'asia' },
+    COP: { ko: '콜롬비아 페소', region: 'americas' },
+    CZK: { ko: '체코 코루나', region: 'europe' },
+    DKK: { ko: '덴마크 크로네', region: 'europe' },
+    EGP: { ko: '이집트 파운드', region: 'africa' },
+    ETB: { ko: '에티오피아 비르', region: 'africa' },
+    EUR: { ko: '유로', region: 'europe' },
+    FJD: { ko: '피지 달러', region: 'oceania' },
+    GBP: { ko: '영국 파운드', region: 'europe' },
+    HKD: { ko: '홍콩 달러', region: 'asia' },
+    HUF: { ko: '헝가리 포린트', region: 'europe' },
+    IDR: { ko: '인도네시아 루피아', region: 'asia' },
+    ILS: { ko: '이스라엘 셰켈', region: 'middle-east' },
+    INR: { ko: '인도 루피', region: 'asia' },
+    JOD: { ko: '요르단 디나르', region: 'middle-east' },
+    JPY: { ko: '일본 엔', region: 'asia' },
+    KES: { ko: '케냐 실링', region: 'africa' },
+    KHR: { ko: '캄보디아 리엘', region: 'asia' },
+    KRW: { ko: '대한민국 원', region: 'asia' },
+    KWD: { ko: '쿠웨이트 디나르', region: 'middle-east' },
+    KZT: { ko: '카자흐스탄 텡게', region: 'asia' },
+    LKR: { ko: '스리랑카 루피', region: 'asia' },
+    LYD: { ko: '리비아 디나르', region: 'africa' },
+    MMK: { ko: '미얀마 짯', region: 'asia' },
+    MNT: { ko: '몽골 투그릭', region: 'asia' },
+    MOP: { ko: '마카오 파타카', region: 'asia' },
+    MXN: { ko: '멕시코 페소', region: 'americas' },
+    MYR: { ko: '말레이시아 링깃', region: 'asia' },
+    NOK: { ko: '노르웨이 크로네', region: 'europe' },
+    NPR: { ko: '네팔 루피', region: 'asia' },
+    NZD: { ko: '뉴질랜드 달러', region: 'oceania' },
+    OMR: { ko: '오만 리알', region: 'middle-east' },
+    PHP: { ko: '필리핀 페소', region: 'asia' },
+    PKR: { ko: '파키스탄 루피', region: 'asia' },
+    PLN: { ko: '폴란드 즐로티', region: 'europe' },
+    QAR: { ko: '카타르 리얄', region: 'middle-east' },
+    RON: { ko: '루마니아 레우', region: 'europe' },
+    RUB: { ko: '러시아 루블', region: 'europe' },
+    SAR: { ko: '사우디아라비아 리얄', region: 'middle-east' },
+    SEK: { ko: '스웨덴 크로나', region: 'europe' },
+    SGD: { ko: '싱가포르 달러', region: 'asia' },
+    THB: { ko: '태국 바트', region: 'asia' },
+    TRY: { ko: '튀르키예 리라', region: 'europe' },
+    TWD: { ko: '대만 달러', region: 'asia' },
+    USD: { ko: '미국 달러', region: 'americas' },
+    UZS: { ko: '우즈베키스탄 숨', region: 'asia' },
+    VND: { ko: '베트남 동', region: 'asia' },
+    ZAR: { ko: '남아프리카공화국 랜드', region: 'africa' }
+};
+
+export const getKoreanCurrencyName = (currencyCode: string): string | undefined =>
+    CURRENCY_CATALOG[currencyCode.toUpperCase()]?.ko;
+
+/**
+ * Region for grouping; currencies missing from the catalogue fall under 'other'.
+ */
+export const getCurrencyRegion = (currencyCode: string): CurrencyRegion =>
+    CURRENCY_CATALOG[currencyCode.toUpperCase()]?.region ?? 'other';
+
+const displayNames = new Map<string, Intl.DisplayNames | null>();
+
+const getDisplayNames = (locale: string, type: 'currency' | 'region'): Intl.DisplayNames | null => {
+    const key = `${locale}:${type}`;
+    if (!displayNames.has(key)) {
+        try {
+            displayNames.set(key, new Intl.DisplayNames([locale], { type, fallback: 'none' }));
+        } catch {
+            displayNames.set(key, null); // Runtimes without Intl.DisplayNames fall back below.
+        }
+    }
+    return displayNames.get(key)!;
+};
+
+// `of` throws a RangeError for codes that are not well-formed, e.g. an empty country code.
+const lookupName = (locale: string, type: 'currency' | 'region', code: string): string | undefined => {
+    try {
+        return getDisplayNames(locale, type)?.of(code.toUpperCase());
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * The currency's name in the given locale from its ISO 4217 code, e.g. USD → "미국 달러" / "US Dollar" / "美元".
+ * Falls back to the Korean catalogue for Korean, then to `fallback` (usually the API's English name), then the code.
+ */
+export const getCurrencyName = (currencyCode: string, locale: string, fallback?: string): string =>
+    lookupName(locale, 'currency', currencyCode) ??
+    (locale.startsWith('ko') ? getKoreanCurrencyName(currencyCode) : undefined) ??
+    fallback ??
+    currencyCode;
+
+/**
+ * The country or region's name in the given locale from its ISO 3166 code (EU included).
+ */
+export const getCountryName = (countryCode: string, locale: string): string =>
+    lookupName(locale, 'region', countryCode) ?? countryCode;
@@ -0,0 +1,22 @@
+import writeXlsxFile from 'write-excel-file/browser';
+import { ExportTable, XLSX_SHEET_OPTIONS, toCsv, toXlsxSheetData } from './exportUtils';
+
+const triggerDownload = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
+
+export const downloadCsv = (table: ExportTable, fileName: string): void => {
+    triggerDownload(new Blob([toCsv(table)], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+};
+
+export const downloadXlsx = async (table: ExportTable, fileName: string): Promise<void> => {
+    const blob = await writeXlsxFile(toXlsxSheetData(table), { sheet: table.sheetName, ...XLSX_SHEET_OPTIONS }).toBlob();
+    triggerDownload(blob, `${fileName}.xlsx`);
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { RateData, RateWeek } from '../types';
+import { buildHistoryMatrix, buildWeekTable, toCsv } from './exportUtils';
+
+const rate = (currencyCode: string, value: number, date: string, type: 'import' | 'export', unit = 1): RateData => ({
+    id: `${date}-${currencyCode}-${type}`,
+    countryCode: currencyCode.slice(0, 2),
+    currencyName: currencyCode,
+    currencyCode,
+    rate: value,
+    unit,
+    date,
+    type
+});
+
+const week = (startDate: string, imports: RateData[], exports: RateData[] = []): RateWeek => ({
+    startDate,
+    endDate: startDate,
+    import: imports,
+    export: exports
+});
+
+describe('toCsv', () => {
+    it('starts with a BOM and ends every row with CRLF', () => {
+        expect(toCsv({ sheetName: 'x', header: ['a', 'b'], rows: [[1, null]] })).toBe('\uFEFFa,b\r\n1,\r\n');
+    });
+
+    it('quotes cells with quotes, commas and line breaks', () => {
+        const csv = toCsv({ sheetName: 'x', header: ['name'], rows: [['Won, "Korean"'], ['line\nbreak'], ['cr\rhere'], ['plain']] });
+        expect(csv).toBe('\uFEFFname\r\n"Won, ""Korean"""\r\n"line\nbreak"\r\n"cr\rhere"\r\nplain\r\n');
+    });
+});
+
+describe('buildWeekTable', () => {
+    it('quotes per-100 currencies per 100 and honours the row filter', () => {
+        const table = buildWeekTable(
+            week('2026-06-14', [rate('USD', 1380.5, '2026-06-14', 'import'), rate('JPY', 9.1234, '2026-06-14', 'import', 100)], [rate('USD', 1378.5, '2026-06-14', 'export')]),
+            'both',
+            (item) => item.currencyCode !== 'USD' || item.type === 'export'
+        );
+
+        expect(table.header).toEqual(['Side', 'Currency Code', 'Country Code', 'Currency Name', 'Unit', 'Rate (KRW)', 'Apply Date']);
+        expect(table.rows).toEqual([
+            ['import', 'JPY', 'JP', 'JPY', 100, 912.34, '2026-06-14'],
+            ['export', 'USD', 'US', 'USD', 1, 1378.5, '2026-06-14']
+        ]);
+    });
+});
+
+describe('buildHistoryMatrix', () => {
+    const weeks = [
+        week('2026-06-14', [rate('USD', 1380.5, '2026-06-14', 'import'), rate('JPY', 9.1234, '2026-06-14', 'import', 100)]),
+        week('2026-06-07', [rate('USD', 1370.5, '2026-06-07', 'import')], [rate('USD', 1368.5, '2026-06-07', 'export')])
+    ];
+
+    it('puts weeks oldest first and currencies in code order, leaving missing weeks empty', () => {
+        const table = buildHistoryMatrix(weeks, 'import');
+
+        expect(table.header).toEqual(['Side', 'Currency Code', 'Country Code', 'Currency Name', 'Unit', '2026-06-07', '2026-06-14']);
+        expect(table.rows).toEqual([
+            ['import', 'JPY', 'JP', 'JPY', 100, null, 912.34],
+            ['import', 'USD', 'US', 'USD', 1, 1370.5, 1380.5]
+        ]);
+    });
+
+    it('lists import rows before export rows for both sides', () => {
+        expect(buildHistoryMatrix(weeks, 'both').rows.map((row) => [row[0], row[1]])).toEqual([
+            ['import', 'JPY'],
+            ['import', 'USD'],
+            ['export', 'USD']
+        ]);
+    });
+});
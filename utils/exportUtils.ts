@@ -0,0 +1,85 @@
+import type { SheetData } from 'write-excel-file/universal';
+import { RateData, RateWeek } from '../types';
+
+export type ExportSide = 'import' | 'export' | 'both';
+
+export type ExportCell = string | number | null;
+
+export interface ExportTable {
+    sheetName: string;
+    header: string[];
+    rows: ExportCell[][];
+}
+
+const sidesFor = (side: ExportSide): ('import' | 'export')[] => (side === 'both' ? ['import', 'export'] : [side]);
+
+// KRW per quoted unit (e.g. per 100 JPY), as the dashboard, the printable table and the feeds show it.
+const quotedRate = (item: RateData): number => Number((item.rate * item.unit).toFixed(4));
+
+/**
+ * One row per rate in a single week, optionally narrowed by a row filter (e.g. the table search).
+ * Rates are per the Unit column, so JPY, IDR and VND read per 100.
+ */
+export const buildWeekTable = (week: RateWeek, side: ExportSide, filter: (item: RateData) => boolean = () => true): ExportTable => ({
+    sheetName: week.startDate,
+    header: ['Side', 'Currency Code', 'Country Code', 'Currency Name', 'Unit', 'Rate (KRW)', 'Apply Date'],
+    rows: sidesFor(side).flatMap((key) =>
+        week[key]
+            .filter(filter)
+            .map((item) => [key, item.currencyCode, item.countryCode, item.currencyName, item.unit, quotedRate(item), item.date])
+    )
+});
+
+/**
+ * A currency × week matrix over every given week, oldest week first, with rates per the Unit column.
+ */
+export const buildHistoryMatrix = (weeks: RateWeek[], side: ExportSide): ExportTable => {
+    const startDates = weeks.map((week) => week.startDate).sort();
+    const rows: ExportCell[][] = [];
+
+    for (const key of sidesFor(side)) {
+        const byCurrency = new Map<string, { item: RateData; rates: Map<string, number> }>();
+        for (const week of weeks) {
+            for (const item of week[key]) {
+                if (!byCurrency.has(item.currencyCode)) {
+                    byCurrency.set(item.currencyCode, { item, rates: new Map() });
+                }
+                byCurrency.get(item.currencyCode)!.rates.set(week.startDate, quotedRate(item));
+            }
+        }
+
+        for (const code of Array.from(byCurrency.keys()).sort()) {
+            const { item, rates } = byCurrency.get(code)!;
+            rows.push([key, code, item.countryCode, item.currencyName, item.unit, ...startDates.map((date) => rates.get(date) ?? null)]);
+        }
+    }
+
+    return {
+        sheetName: 'History',
+        header: ['Side', 'Currency Code', 'Country Code', 'Currency Name', 'Unit', ...startDates],
+        rows
+    };
+};
+
+const escapeCsvCell = (value: ExportCell): string => {
+    if (value === null) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialises a table as CSV with a UTF-8 BOM so Excel detects the encoding of Korean names.
+ */
+export const toCsv = (table: ExportTable): string =>
+    '\uFEFF' + [table.header, ...table.rows].map((row) => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+
+/**
+ * Converts a table into write-excel-file sheet data with a bold header row.
+ * Shared by the browser download and the Node generator so both produce the same workbook.
+ */
+export const toXlsxSheetData = (table: ExportTable): SheetData => [
+    table.header.map((value) => ({ value, fontWeight: 'bold' as const })),
+    ...table.rows.map((row) => row.map((value) => (value === null ? null : { value })))
+];
+
+export const XLSX_SHEET_OPTIONS = { stickyRowsCount: 1 };
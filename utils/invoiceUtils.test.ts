@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import { RateDataset } from '../types';
+import { validateRateDataset } from '../services/rateSchema';
+import {
+    buildInvoiceTable,
+    convertInvoiceLines,
+    getInvoiceDateRange,
+    guessInvoiceMapping,
+    markArchiveLines,
+    parseInvoiceAmount,
+    parseInvoiceDate,
+    parseInvoiceSide,
+    totalInvoiceLines
+} from './invoiceUtils';
+import { SheetTable } from './spreadsheetReader';
+
+const entry = (currencyCode: string, rate: number, date: string, type: 'import' | 'export') => ({
+    id: `${date}-${currencyCode}-${type}`,
+    countryCode: currencyCode.slice(0, 2),
+    currencyName: currencyCode,
+    currencyCode,
+    rate,
+    date,
+    type
+});
+
+const dataset: RateDataset = validateRateDataset({
+    generatedAt: '2026-06-19T08:00:00.000Z',
+    weeks: [
+        {
+            startDate: '2026-06-14',
+            import: [entry('USD', 1400, '2026-06-14', 'import'), entry('JPY', 9, '2026-06-14', 'import')],
+            export: [entry('USD', 1390, '2026-06-14', 'export')]
+        },
+        {
+            startDate: '2026-06-07',
+            import: [entry('USD', 1380, '2026-06-07', 'import'), entry('EUR', 1500, '2026-06-07', 'import')],
+            export: []
+        }
+    ]
+});
+
+const sheet = (rows: SheetTable['rows'], decimalSeparator: SheetTable['decimalSeparator'] = '.'): SheetTable => ({
+    fileName: 'invoice.csv',
+    header: ['No', 'Invoice Date', 'Currency', 'Amount', 'Side'],
+    rows,
+    decimalSeparator
+});
+
+const mapping = { date: 1, currency: 2, amount: 3, side: 4 };
+
+describe('guessInvoiceMapping', () => {
+    it('maps English, Korean and Japanese headers', () => {
+        expect(guessInvoiceMapping(['No', 'Invoice Date', 'Currency', 'Amount', 'Side'])).toEqual(mapping);
+        expect(guessInvoiceMapping(['신고일자', '금액', '통화', '수출입구분'])).toEqual({ date: 0, currency: 2, amount: 1, side: 3 });
+        expect(guessInvoiceMapping(['日付', '通貨', '金額'])).toEqual({ date: 0, currency: 1, amount: 2, side: null });
+    });
+
+    it('uses each column once and leaves unknown ones unmapped', () => {
+        expect(guessInvoiceMapping(['Total', 'Memo'])).toEqual({ date: null, currency: null, amount: 0, side: null });
+    });
+});
+
+describe('parseInvoiceDate', () => {
+    it('reads the supported formats and Excel serial days', () => {
+        expect(parseInvoiceDate('2026-06-10')).toBe('2026-06-10');
+        expect(parseInvoiceDate('2026/6/9 13:45')).toBe('2026-06-09');
+        expect(parseInvoiceDate('2026.06.10')).toBe('2026-06-10');
+        expect(parseInvoiceDate('20260610')).toBe('2026-06-10');
+        expect(parseInvoiceDate('2026년 6월 10일')).toBe('2026-06-10');
+        expect(parseInvoiceDate(46183)).toBe('2026-06-10');
+        expect(parseInvoiceDate(46183.75)).toBe('2026-06-10');
+    });
+
+    it('rejects impossible and unknown dates', () => {
+        expect(parseInvoiceDate('2026-02-30')).toBeNull();
+        expect(parseInvoiceDate('10/06/2026')).toBeNull();
+        expect(parseInvoiceDate(0)).toBeNull();
+    });
+});
+
+describe('parseInvoiceAmount', () => {
+    it('reads thousands separators, currency symbols and accounting negatives', () => {
+        expect(parseInvoiceAmount('1,200.50')).toBe(1200.5);
+        expect(parseInvoiceAmount('USD 1,200')).toBe(1200);
+        expect(parseInvoiceAmount('₩ 15,000원')).toBe(15000);
+        expect(parseInvoiceAmount('(1,200.50)')).toBe(-1200.5);
+        expect(parseInvoiceAmount('-3.5')).toBe(-3.5);
+        expect(parseInvoiceAmount(42)).toBe(42);
+    });
+
+    it('reads decimal commas', () => {
+        expect(parseInvoiceAmount('1.234,56')).toBe(1234.56);
+        expect(parseInvoiceAmount('1 234,56 €')).toBe(1234.56);
+        expect(parseInvoiceAmount('12,5')).toBe(12.5);
+        expect(parseInvoiceAmount('1.234.567,89')).toBe(1234567.89);
+    });
+
+    it('resolves a lone separator before three digits by the file convention', () => {
+        expect(parseInvoiceAmount('1,234')).toBe(1234);
+        expect(parseInvoiceAmount('1,234', ',')).toBe(1.234);
+        expect(parseInvoiceAmount('1.234')).toBe(1.234);
+        expect(parseInvoiceAmount('1.234', ',')).toBe(1234);
+    });
+
+    it('rejects inconsistent separators and text', () => {
+        expect(parseInvoiceAmount('1.2.3')).toBeNull();
+        expect(parseInvoiceAmount('12,34.5')).toBeNull();
+        expect(parseInvoiceAmount('1,,2')).toBeNull();
+        expect(parseInvoiceAmount('n/a')).toBeNull();
+        expect(parseInvoiceAmount('')).toBeNull();
+    });
+});
+
+describe('parseInvoiceSide', () => {
+    it('reads import/export words and codes, falling back on blanks', () => {
+        expect(parseInvoiceSide('수출', 'import')).toBe('export');
+        expect(parseInvoiceSide(' IMP ', 'export')).toBe('import');
+        expect(parseInvoiceSide(1, 'import')).toBe('export');
+        expect(parseInvoiceSide('', 'export')).toBe('export');
+        expect(parseInvoiceSide('transit', 'import')).toBeNull();
+    });
+});
+
+describe('convertInvoiceLines', () => {
+    const rows = sheet([
+        [1, '2026-06-15', 'usd', '1,000.00', ''],
+        [2, 46183, 'EUR', '200', 'import'],
+        [3, '2026-06-16', 'USD', '10', 'export'],
+        [4, '2026-06-16', 'JPY', '1000', ''],
+        [5, 'yesterday', 'USD', '1', ''],
+        [6, '2026-06-16', 'USD', 'n/a', ''],
+        [7, '2026-06-16', 'USD', '1', 'transit'],
+        [8, '2026-06-16', 'XXX', '1', ''],
+        [9, '2026-05-01', 'USD', '1', ''],
+        [10, '2026-06-16', 'EUR', '1', ''],
+        [11, '2026-06-16', 'USD', '(5.00)', '']
+    ]);
+
+    it('converts each line at the rate of its week and side, or explains why not', () => {
+        const lines = convertInvoiceLines(rows, mapping, dataset, 'import');
+        expect(lines.map((line) => [line.status, line.krw])).toEqual([
+            ['ok', 1_400_000],
+            ['ok', 300_000],
+            ['ok', 13_900],
+            ['ok', 9_000],
+            ['invalid-date', null],
+            ['invalid-amount', null],
+            ['invalid-side', null],
+            ['unknown-currency', null],
+            ['out-of-range', null],
+            ['no-rate', null],
+            ['negative-amount', null]
+        ]);
+        expect(lines[1]).toMatchObject({ date: '2026-06-10', currency: 'EUR', side: 'import' });
+        expect(lines[1].rate).toMatchObject({ weekStart: '2026-06-07', weekEnd: '2026-06-13' });
+        expect(lines[3].rate).toMatchObject({ unit: 100, quotedRate: 900 });
+    });
+
+    it('reads amounts with the sheet decimal separator', () => {
+        const [line] = convertInvoiceLines(sheet([[1, '2026-06-15', 'USD', '1.234', '']], ','), mapping, dataset, 'import');
+        expect(line.amount).toBe(1234);
+    });
+
+    it('totals converted lines by currency', () => {
+        expect(totalInvoiceLines(convertInvoiceLines(rows, mapping, dataset, 'import'))).toEqual([
+            { currency: 'EUR', lineCount: 1, amount: 200, krw: 300_000 },
+            { currency: 'JPY', lineCount: 1, amount: 1000, krw: 9_000 },
+            { currency: 'USD', lineCount: 2, amount: 1010, krw: 1_413_900 }
+        ]);
+    });
+
+    it('marks out-of-range lines while the archive is pending or failed', () => {
+        const lines = convertInvoiceLines(rows, mapping, dataset, 'import');
+        expect(markArchiveLines(lines, 'archive-pending')[8].status).toBe('archive-pending');
+        expect(markArchiveLines(lines, 'archive-error').filter((line) => line.status === 'archive-error')).toHaveLength(1);
+    });
+
+    it('finds the date range and writes back the enriched table', () => {
+        expect(getInvoiceDateRange(rows, mapping)).toEqual({ from: '2026-05-01', to: '2026-06-16' });
+        expect(getInvoiceDateRange(rows, { ...mapping, date: null })).toBeNull();
+
+        const table = buildInvoiceTable(rows, mapping, convertInvoiceLines(rows, mapping, dataset, 'import'));
+        expect(table.header).toEqual(['No', 'Invoice Date', 'Currency', 'Amount', 'Side', 'Applied Week', 'Side', 'Rate (KRW)', 'KRW', 'Status']);
+        expect(table.rows[1]).toEqual([2, '2026-06-10', 'EUR', '200', 'import', '2026-06-07', 'import', 1500, 300000, 'ok']);
+        expect(table.rows[4].slice(-5)).toEqual([null, 'import', null, null, 'invalid-date']);
+    });
+});
@@ -0,0 +1,238 @@
+import { RateDataset, RateDateRange, RateSide } from '../types';
+import { CustomsRate, findWeekForDate, getCustomsRate } from '../packages/customs-rate/src/lookup';
+import { ExportTable } from './exportUtils';
+import { SheetCell, SheetTable } from './spreadsheetReader';
+
+// Zero-based columns of the uploaded sheet; null while unmapped. Without a side column every line uses the default side.
+export interface InvoiceColumnMapping {
+    date: number | null;
+    currency: number | null;
+    amount: number | null;
+    side: number | null;
+}
+
+// 'archive-pending' and 'archive-error' replace 'out-of-range' while the archive for older dates loads or after it failed.
+export type InvoiceLineStatus =
+    | 'ok'
+    | 'invalid-date'
+    | 'invalid-amount'
+    | 'negative-amount'
+    | 'invalid-side'
+    | 'unknown-currency'
+    | 'out-of-range'
+    | 'no-rate'
+    | 'archive-pending'
+    | 'archive-error';
+
+export interface InvoiceLine {
+    index: number; // Into SheetTable.rows
+    date: string | null; // YYYY-MM-DD
+    currency: string;
+    amount: number | null;
+    side: RateSide;
+    status: InvoiceLineStatus;
+    rate: CustomsRate | null;
+    krw: number | null; // amount × rate, unrounded
+}
+
+export interface InvoiceCurrencyTotal {
+    currency: string;
+    lineCount: number;
+    amount: number;
+    krw: number;
+}
+
+const HEADER_PATTERNS: Record<keyof InvoiceColumnMapping, RegExp> = {
+    date: /date|날짜|일자|신고일|日付|日期/i,
+    currency: /currency|ccy|curr|통화|화폐|通貨|货币|貨幣/i,
+    amount: /amount|amt|value|price|total|금액|가격|金額|金额/i,
+    side: /side|type|구분|수출입|区分|类型/i
+};
+
+/**
+ * Maps columns by their header names (English, Korean, Japanese or Chinese), each column used at most once.
+ */
+export const guessInvoiceMapping = (header: string[]): InvoiceColumnMapping => {
+    const used = new Set<number>();
+    const find = (pattern: RegExp): number | null => {
+        const index = header.findIndex((name, column) => !used.has(column) && pattern.test(name));
+        if (index < 0) return null;
+        used.add(index);
+        return index;
+    };
+    // Dates first, so "Invoice date" is not taken for an amount or a side.
+    const date = find(HEADER_PATTERNS.date);
+    const currency = find(HEADER_PATTERNS.currency);
+    const amount = find(HEADER_PATTERNS.amount);
+    return { date, currency, amount, side: find(HEADER_PATTERNS.side) };
+};
+
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Reads an invoice date: YYYY-MM-DD with -, / or . separators (optionally followed by a time), YYYYMMDD,
+ * "2026년 6월 30일", or an Excel serial day number from an XLSX date cell. Null when it is none of those.
+ */
+export const parseInvoiceDate = (cell: SheetCell): string | null => {
+    if (typeof cell === 'number') {
+        if (!Number.isFinite(cell) || cell < 1 || cell > 2958465) return null;
+        return new Date(EXCEL_EPOCH + Math.floor(cell) * DAY_MS).toISOString().slice(0, 10);
+    }
+
+    const text = cell.trim();
+    const match = /^(\d{4})\s*[-./년]\s*(\d{1,2})\s*[-./월]\s*(\d{1,2})/.exec(text) ?? /^(\d{4})(\d{2})(\d{2})$/.exec(text);
+    return match ? toIsoDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+};
+
+/**
+ * Rewrites the digits of an amount with "." as the only decimal mark, or null when its separators are inconsistent.
+ * With both "," and "." present the last one is the decimal mark. A lone mark is a decimal mark unless exactly three
+ * digits follow it, which could be either; then the file's `decimalSeparator` decides. A repeated mark groups thousands.
+ */
+const normaliseSeparators = (digits: string, decimalSeparator: '.' | ','): string | null => {
+    const lastComma = digits.lastIndexOf(',');
+    const lastDot = digits.lastIndexOf('.');
+    if (lastComma < 0 && lastDot < 0) return digits;
+
+    let decimal: string | null;
+    let group: string;
+    if (lastComma >= 0 && lastDot >= 0) {
+        decimal = lastComma > lastDot ? ',' : '.';
+        group = decimal === ',' ? '.' : ',';
+    } else {
+        const mark = lastComma >= 0 ? ',' : '.';
+        const parts = digits.split(mark);
+        const ambiguous = parts.length === 2 && parts[1].length === 3 && parts[0] !== '';
+        decimal = parts.length > 2 || (ambiguous && mark !== decimalSeparator) ? null : mark;
+        group = mark;
+    }
+
+    const [integer, fraction, ...rest] = decimal ? digits.split(decimal) : [digits];
+    if (rest.length) return null;
+    const groups = integer.split(group);
+    if (groups.length > 1 && (!/^\d{1,3}$/.test(groups[0]) || groups.slice(1).some((part) => !/^\d{3}$/.test(part)))) return null;
+    return fraction === undefined ? groups.join('') : `${groups.join('')}.${fraction}`;
+};
+
+/**
+ * Reads an amount, ignoring thousands separators, spaces and a leading or trailing currency code or symbol.
+ * Both "1,234.56" and "1.234,56" read as 1234.56; see normaliseSeparators for the ambiguous "1,234".
+ * "(1,200.50)" is negative, as accounting exports write credit lines.
+ */
+export const parseInvoiceAmount = (cell: SheetCell, decimalSeparator: '.' | ',' = '.'): number | null => {
+    if (typeof cell === 'number') return Number.isFinite(cell) ? cell : null;
+
+    let text = cell.replace(/\s/g, '').replace(/^[^\d\-+.,(]+|[^\d.,)]+$/g, '');
+    const negative = /^\(.*\)$/.test(text);
+    if (negative) text = text.slice(1, -1);
+    const sign = /^[-+]/.test(text) ? text[0] : '';
+    const normalised = normaliseSeparators(text.slice(sign.length), decimalSeparator);
+    if (normalised === null || !/^(\d+\.?\d*|\.\d+)$/.test(normalised)) return null;
+    const value = Number(`${sign}${normalised}`);
+    return negative ? -value : value;
+};
+
+/**
+ * Reads a side column: import/export in any of the dashboard's languages, I/E, or the customs codes 2/1.
+ * Blank cells take `fallback`; anything else is null.
+ */
+export const parseInvoiceSide = (cell: SheetCell, fallback: RateSide): RateSide | null => {
+    const text = String(cell).trim().toLowerCase();
+    if (!text) return fallback;
+    if (['import', 'imp', 'i', '2', '수입', '輸入', '进口'].includes(text)) return 'import';
+    if (['export', 'exp', 'e', '1', '수출', '輸出', '出口'].includes(text)) return 'export';
+    return null;
+};
+
+/**
+ * Resolves every line of the sheet against the week that applies on its date and the line's side.
+ * Lines keep their sheet order; failures carry a status instead of a rate.
+ */
+export const convertInvoiceLines = (
+    sheet: SheetTable,
+    mapping: InvoiceColumnMapping,
+    dataset: RateDataset,
+    defaultSide: RateSide
+): InvoiceLine[] => {
+    const knownCurrencies = new Set(dataset.weeks.flatMap((week) => [...week.import, ...week.export].map((item) => item.currencyCode)));
+    const cellAt = (row: SheetCell[], column: number | null): SheetCell => (column === null ? '' : row[column] ?? '');
+
+    return sheet.rows.map((row, index) => {
+        const date = parseInvoiceDate(cellAt(row, mapping.date));
+        const currency = String(cellAt(row, mapping.currency)).trim().toUpperCase();
+        const amount = parseInvoiceAmount(cellAt(row, mapping.amount), sheet.decimalSeparator);
+        const side = parseInvoiceSide(cellAt(row, mapping.side), defaultSide);
+        const line: InvoiceLine = { index, date, currency, amount, side: side ?? defaultSide, status: 'ok', rate: null, krw: null };
+
+        if (!date) return { ...line, status: 'invalid-date' };
+        if (amount === null) return { ...line, status: 'invalid-amount' };
+        // Credit lines are read but not converted, the same rule as the single-amount converter.
+        if (amount < 0) return { ...line, status: 'negative-amount' };
+        if (!side) return { ...line, status: 'invalid-side' };
+        if (!knownCurrencies.has(currency)) return { ...line, status: 'unknown-currency' };
+        if (!findWeekForDate(dataset, date)) return { ...line, status: 'out-of-range' };
+
+        const rate = getCustomsRate(dataset, { date, currency, type: side });
+        if (!rate) return { ...line, status: 'no-rate' };
+        return { ...line, rate, krw: amount * rate.rate };
+    });
+};
+
+/**
+ * Marks the lines that fell outside the loaded weeks as waiting for, or missing because of, the archive.
+ */
+export const markArchiveLines = (lines: InvoiceLine[], status: 'archive-pending' | 'archive-error'): InvoiceLine[] =>
+    lines.map((line) => (line.status === 'out-of-range' ? { ...line, status } : line));
+
+/**
+ * Earliest and latest parseable date in the mapped date column, or null when there is none.
+ */
+export const getInvoiceDateRange = (sheet: SheetTable, mapping: InvoiceColumnMapping): RateDateRange | null => {
+    if (mapping.date === null) return null;
+    const column = mapping.date;
+    const dates = sheet.rows
+        .map((row) => parseInvoiceDate(row[column] ?? ''))
+        .filter((date): date is string => date !== null)
+        .sort();
+    return dates.length ? { from: dates[0], to: dates[dates.length - 1] } : null;
+};
+
+/**
+ * Amount and KRW per currency over the converted lines, sorted by currency code.
+ */
+export const totalInvoiceLines = (lines: InvoiceLine[]): InvoiceCurrencyTotal[] => {
+    const totals = new Map<string, InvoiceCurrencyTotal>();
+    lines.forEach((line) => {
+        if (line.status !== 'ok' || line.amount === null || line.krw === null) return;
+        const total = totals.get(line.currency) ?? { currency: line.currency, lineCount: 0, amount: 0, krw: 0 };
+        total.lineCount++;
+        total.amount += line.amount;
+        total.krw += line.krw;
+        totals.set(line.currency, total);
+    });
+    return Array.from(totals.values()).sort((a, b) => a.currency.localeCompare(b.currency));
+};
+
+/**
+ * The uploaded sheet with the applied week, side, rate, KRW value and status appended to every line.
+ * XLSX date cells come back as YYYY-MM-DD rather than Excel serial numbers.
+ */
+export const buildInvoiceTable = (sheet: SheetTable, mapping: InvoiceColumnMapping, lines: InvoiceLine[]): ExportTable => ({
+    sheetName: 'Invoice',
+    header: [...sheet.header.map((name, index) => name || `Column ${index + 1}`), 'Applied Week', 'Side', 'Rate (KRW)', 'KRW', 'Status'],
+    rows: lines.map((line) => [
+        ...sheet.rows[line.index].map((cell, column) => (column === mapping.date && typeof cell === 'number' && line.date ? line.date : cell)),
+        line.rate?.weekStart ?? null,
+        line.side,
+        line.rate?.rate ?? null,
+        line.krw === null ? null : Number(line.krw.toFixed(2)),
+        line.status
+    ])
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { RateData } from '../types';
+import {
+    computeRateStats,
+    computeSeriesStats,
+    getRateSeries,
+    movingAverage,
+    movingAverageKey,
+    percentChanges,
+    standardDeviation
+} from './rateStats';
+
+const row = (currencyCode: string, date: string, rate: number): RateData => ({
+    id: `${date}-${currencyCode}`,
+    countryCode: currencyCode.slice(0, 2),
+    currencyName: currencyCode,
+    currencyCode,
+    rate,
+    unit: currencyCode === 'JPY' ? 100 : 1,
+    date,
+    type: 'import'
+});
+
+describe('getRateSeries', () => {
+    it('sorts oldest first, quotes per unit and keeps the last duplicate', () => {
+        const rates = [
+            row('JPY', '2026-06-14', 9.2),
+            row('USD', '2026-06-14', 1380),
+            row('JPY', '2026-06-07', 9.1),
+            row('JPY', '2026-06-14', 9.25)
+        ];
+        expect(getRateSeries(rates, 'JPY')).toEqual([
+            { date: '2026-06-07', rate: 910 },
+            { date: '2026-06-14', rate: 925 }
+        ]);
+    });
+});
+
+describe('movingAverage', () => {
+    it('is null until the window fills, then trails', () => {
+        expect(movingAverage([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+        expect(movingAverage([1, 2], 4)).toEqual([null, null]);
+        expect(movingAverage([5], 1)).toEqual([5]);
+    });
+});
+
+describe('percentChanges and standardDeviation', () => {
+    it('computes week-over-week changes and their sample deviation', () => {
+        expect(percentChanges([100, 110, 99])).toEqual([10, -10]);
+        expect(standardDeviation([10, -10])).toBeCloseTo(14.1421, 4);
+        expect(standardDeviation([10])).toBeNull();
+    });
+});
+
+describe('computeSeriesStats', () => {
+    const series = [
+        { date: '2026-05-31', rate: 100 },
+        { date: '2026-06-07', rate: 110 },
+        { date: '2026-06-14', rate: 99 },
+        { date: '2026-06-21', rate: 110 }
+    ];
+
+    it('summarises change, extremes, average and volatility', () => {
+        const stats = computeSeriesStats('USD', series)!;
+        expect(stats).toMatchObject({
+            currencyCode: 'USD',
+            from: '2026-05-31',
+            to: '2026-06-21',
+            weekCount: 4,
+            first: 100,
+            last: 110,
+            average: 104.75,
+            high: { date: '2026-06-07', rate: 110 },
+            low: { date: '2026-06-14', rate: 99 },
+            change: 10,
+            changePercent: 10
+        });
+        expect(stats.volatility).toBeCloseTo(standardDeviation(percentChanges(series.map((point) => point.rate)))!, 3);
+    });
+
+    it('needs three weeks for volatility and one for anything', () => {
+        expect(computeSeriesStats('USD', series.slice(0, 2))?.volatility).toBeNull();
+        expect(computeSeriesStats('USD', [])).toBeNull();
+    });
+});
+
+describe('computeRateStats', () => {
+    const rates = ['2026-05-31', '2026-06-07', '2026-06-14', '2026-06-21'].map((date, index) => row('USD', date, 1300 + index * 10));
+
+    it('limits the statistics to weeks starting within the range', () => {
+        const stats = computeRateStats(rates, 'USD', { from: '2026-06-07', to: '2026-06-14' })!;
+        expect([stats.from, stats.to, stats.weekCount, stats.change]).toEqual(['2026-06-07', '2026-06-14', 2, 10]);
+        expect(computeRateStats(rates, 'USD')?.weekCount).toBe(4);
+        expect(computeRateStats(rates, 'EUR')).toBeNull();
+    });
+});
+
+describe('movingAverageKey', () => {
+    it('names the chart field', () => {
+        expect(movingAverageKey('USD', 12)).toBe('USD_ma12');
+    });
+});
@@ -0,0 +1,121 @@
+import { RateData, RateDateRange } from '../types';
+import { getRateQuoteUnit } from './currencyUtils';
+
+export interface RatePoint {
+    date: string; // Week startDate, YYYY-MM-DD
+    rate: number; // KRW per quote unit
+}
+
+export interface RateExtreme {
+    rate: number;
+    date: string;
+}
+
+export interface RateStats {
+    currencyCode: string;
+    from: string; // First week in the range
+    to: string; // Last week in the range
+    weekCount: number;
+    first: number;
+    last: number;
+    average: number;
+    high: RateExtreme; // Earliest week on ties
+    low: RateExtreme;
+    change: number; // last - first
+    changePercent: number; // relative to first
+    volatility: number | null; // Sample standard deviation of week-over-week % changes; null below three weeks
+}
+
+// Moving-average windows shown on the trend chart, in weeks.
+export const MOVING_AVERAGE_WINDOWS = [4, 12] as const;
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/**
+ * One point per week for a currency, oldest first, in KRW per quote unit (e.g. per 100 JPY).
+ * Duplicate weeks keep the last row seen.
+ */
+export const getRateSeries = (rates: RateData[], currencyCode: string): RatePoint[] => {
+    const byDate = new Map<string, number>();
+    rates.forEach((item) => {
+        if (item.currencyCode === currencyCode) byDate.set(item.date, item.rate * getRateQuoteUnit(item));
+    });
+    return Array.from(byDate, ([date, rate]) => ({ date, rate: round(rate, 4) })).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Trailing simple moving average; null until `window` values are available.
+ */
+export const movingAverage = (values: number[], window: number): (number | null)[] => {
+    let sum = 0;
+    return values.map((value, index) => {
+        sum += value;
+        if (index >= window) sum -= values[index - window];
+        return index >= window - 1 ? round(sum / window, 4) : null;
+    });
+};
+
+/**
+ * Week-over-week changes in percent; one value fewer than `values`.
+ */
+export const percentChanges = (values: number[]): number[] =>
+    values.slice(1).map((value, index) => ((value - values[index]) / values[index]) * 100);
+
+/**
+ * Sample standard deviation (n - 1); null below two values.
+ */
+export const standardDeviation = (values: number[]): number | null => {
+    if (values.length < 2) return null;
+    const mean = values.reduce((total, value) => total + value, 0) / values.length;
+    const variance = values.reduce((total, value) => total + (value - mean) ** 2, 0) / (values.length - 1);
+    return Math.sqrt(variance);
+};
+
+/**
+ * Summary statistics for one currency over a series of weeks; null when the series is empty.
+ */
+export const computeSeriesStats = (currencyCode: string, series: RatePoint[]): RateStats | null => {
+    if (series.length === 0) return null;
+
+    const values = series.map((point) => point.rate);
+    const firstPoint = series[0];
+    const lastPoint = series[series.length - 1];
+    let high = firstPoint;
+    let low = firstPoint;
+    series.forEach((point) => {
+        if (point.rate > high.rate) high = point;
+        if (point.rate < low.rate) low = point;
+    });
+
+    const change = lastPoint.rate - firstPoint.rate;
+    const volatility = standardDeviation(percentChanges(values));
+
+    return {
+        currencyCode,
+        from: firstPoint.date,
+        to: lastPoint.date,
+        weekCount: series.length,
+        first: firstPoint.rate,
+        last: lastPoint.rate,
+        average: round(values.reduce((total, value) => total + value, 0) / values.length, 4),
+        high: { ...high },
+        low: { ...low },
+        change: round(change, 4),
+        changePercent: firstPoint.rate ? round((change / firstPoint.rate) * 100, 2) : 0,
+        volatility: volatility === null ? null : round(volatility, 3)
+    };
+};
+
+/**
+ * Summary statistics for a currency over the weeks of `rates` that start within `range` (inclusive), or all of them.
+ */
+export const computeRateStats = (rates: RateData[], currencyCode: string, range?: RateDateRange): RateStats | null =>
+    computeSeriesStats(
+        currencyCode,
+        getRateSeries(rates, currencyCode).filter((point) => !range || (point.date >= range.from && point.date <= range.to))
+    );
+
+/**
+ * The key a moving average is stored under in chart points, e.g. `USD_ma4`.
+ */
+export const movingAverageKey = (currencyCode: string, window: number) => `${currencyCode}_ma${window}`;
@@ -0,0 +1,53 @@
+import { ChartDataPoint, ReferenceRate } from '../types';
+import { getQuoteUnit } from './currencyUtils';
+import { addDays } from './dateUtils';
+
+/**
+ * The keys a currency's reference rate and customs/reference gap are stored under in chart points.
+ */
+export const referenceKey = (currencyCode: string) => `${currencyCode}_ref`;
+export const referenceGapKey = (currencyCode: string) => `${currencyCode}_gap`;
+
+/**
+ * How far the customs rate sits from the reference, in percent of the reference: positive when customs is higher.
+ */
+export const getReferenceGap = (customsRate: number, referenceRate: number): number =>
+    Number((((customsRate - referenceRate) / referenceRate) * 100).toFixed(2));
+
+/**
+ * Mean of a currency's daily reference rates from `from` to `to` inclusive; null when none fall in the range.
+ */
+export const averageReferenceRate = (rates: ReferenceRate[], currencyCode: string, from: string, to: string): number | null => {
+    const values = rates
+        .filter((rate) => rate.currencyCode === currencyCode && rate.date >= from && rate.date <= to)
+        .map((rate) => rate.rate);
+    return values.length ? values.reduce((total, value) => total + value, 0) / values.length : null;
+};
+
+/**
+ * Adds a currency's reference rate and gap % to each weekly chart point. The reference is the mean of the daily
+ * rates over the week the customs rate applied (Sunday to Saturday), per quote unit like the customs values;
+ * pass the customs entries' `unit` so both are quoted alike.
+ */
+export const addReferenceRates = (
+    data: ChartDataPoint[],
+    currencyCode: string,
+    rates: ReferenceRate[],
+    unit: number = getQuoteUnit(currencyCode)
+): ChartDataPoint[] => {
+    const own = rates.filter((rate) => rate.currencyCode === currencyCode);
+    if (!own.length) return data;
+
+    return data.map((point) => {
+        const average = averageReferenceRate(own, currencyCode, point.date, addDays(point.date, 6));
+        if (average === null) return point;
+
+        const reference = Number((average * unit).toFixed(4));
+        const customs = point[currencyCode];
+        return {
+            ...point,
+            [referenceKey(currencyCode)]: reference,
+            ...(typeof customs === 'number' ? { [referenceGapKey(currencyCode)]: getReferenceGap(customs, reference) } : {})
+        };
+    });
+};
@@ -0,0 +1,42 @@
+/**
+ * Messages posted by public/sw.js to every open dashboard tab.
+ * - rates-updated: the background refresh of exchange-rates.json differs from the copy the page was given.
+ * - rates-offline: the refresh failed, so the page is showing the cached snapshot.
+ */
+export type ServiceWorkerMessage =
+    | { type: 'rates-updated'; latestWeek: string | null; generatedAt: string | null }
+    | { type: 'rates-offline' };
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+/**
+ * Registers the service worker in production builds. The dev server serves unbundled modules,
+ * which the app-shell cache would only get in the way of.
+ */
+export const registerServiceWorker = (): void => {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+    window.addEventListener('load', () => {
+        navigator.serviceWorker.register(SERVICE_WORKER_URL).catch((error) => {
+            console.warn('Service worker registration failed:', error);
+        });
+    });
+};
+
+const isServiceWorkerMessage = (value: unknown): value is ServiceWorkerMessage => {
+    const type = (value as { type?: unknown } | null)?.type;
+    return type === 'rates-updated' || type === 'rates-offline';
+};
+
+/**
+ * Subscribes to messages from the service worker. Returns the unsubscribe function.
+ */
+export const onServiceWorkerMessage = (listener: (message: ServiceWorkerMessage) => void): (() => void) => {
+    if (!('serviceWorker' in navigator)) return () => {};
+
+    const handler = (event: MessageEvent) => {
+        if (isServiceWorkerMessage(event.data)) listener(event.data);
+    };
+    navigator.serviceWorker.addEventListener('message', handler);
+    return () => navigator.serviceWorker.removeEventListener('message', handler);
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { RateData, RateWeek } from '../types';
+import { buildSideBySideRates, buildSpreadHistory, getSpread } from './spreadUtils';
+
+const rate = (currencyCode: string, value: number, date: string, type: 'import' | 'export', unit = 1): RateData => ({
+    id: `${date}-${currencyCode}-${type}`,
+    countryCode: currencyCode.slice(0, 2),
+    currencyName: currencyCode,
+    currencyCode,
+    rate: value,
+    unit,
+    date,
+    type
+});
+
+const week = (startDate: string, imports: RateData[], exports: RateData[]): RateWeek => ({
+    startDate,
+    endDate: startDate,
+    import: imports,
+    export: exports
+});
+
+describe('getSpread', () => {
+    it('measures import minus export relative to export', () => {
+        expect(getSpread(1380, 1375)).toEqual({ spread: 5, spreadPercent: 0.3636 });
+    });
+
+    it('returns nulls when a side is missing and no percentage against a zero export rate', () => {
+        expect(getSpread(1380, null)).toEqual({ spread: null, spreadPercent: null });
+        expect(getSpread(null, 1375)).toEqual({ spread: null, spreadPercent: null });
+        expect(getSpread(1, 0)).toEqual({ spread: 1, spreadPercent: null });
+    });
+});
+
+describe('buildSideBySideRates', () => {
+    it('quotes per-100 currencies per 100 and keeps currencies published on one side only', () => {
+        const rows = buildSideBySideRates(
+            week(
+                '2026-06-14',
+                [
+                    rate('USD', 1380, '2026-06-14', 'import'),
+                    rate('JPY', 9.12, '2026-06-14', 'import', 100),
+                    rate('IDR', 0.0845, '2026-06-14', 'import', 100)
+                ],
+                [rate('USD', 1375, '2026-06-14', 'export'), rate('JPY', 9.08, '2026-06-14', 'export', 100), rate('VND', 0.0531, '2026-06-14', 'export', 100)]
+            )
+        );
+
+        expect(rows).toEqual([
+            { currencyCode: 'IDR', currencyName: 'IDR', countryCode: 'ID', unit: 100, importRate: 8.45, exportRate: null, spread: null, spreadPercent: null },
+            { currencyCode: 'JPY', currencyName: 'JPY', countryCode: 'JP', unit: 100, importRate: 912, exportRate: 908, spread: 4, spreadPercent: 0.4405 },
+            { currencyCode: 'USD', currencyName: 'USD', countryCode: 'US', unit: 1, importRate: 1380, exportRate: 1375, spread: 5, spreadPercent: 0.3636 },
+            { currencyCode: 'VND', currencyName: 'VND', countryCode: 'VN', unit: 100, importRate: null, exportRate: 5.31, spread: null, spreadPercent: null }
+        ]);
+    });
+});
+
+describe('buildSpreadHistory', () => {
+    it('lists weeks oldest first, leaves out missing sides and skips weeks without the currency', () => {
+        const weeks = [
+            week('2026-06-14', [rate('JPY', 9.12, '2026-06-14', 'import', 100)], [rate('JPY', 9.08, '2026-06-14', 'export', 100)]),
+            week('2026-06-07', [rate('JPY', 9.1, '2026-06-07', 'import', 100)], []),
+            week('2026-05-31', [rate('USD', 1370, '2026-05-31', 'import')], [])
+        ];
+
+        expect(buildSpreadHistory(weeks, 'JPY')).toEqual([
+            { date: '2026-06-07', import: 910 },
+            { date: '2026-06-14', import: 912, export: 908, spread: 4, spreadPercent: 0.4405 }
+        ]);
+    });
+});
@@ -0,0 +1,73 @@
+import { ChartDataPoint, RateData, RateWeek } from '../types';
+import { getRateQuoteUnit } from './currencyUtils';
+
+export interface SideBySideRate {
+    currencyCode: string;
+    currencyName: string;
+    countryCode: string;
+    unit: number; // Quote unit of both rates, e.g. 100 for JPY
+    importRate: number | null; // KRW per quote unit; null when the currency is only published for export
+    exportRate: number | null; // KRW per quote unit; null when the currency is only published for import
+    spread: number | null; // importRate - exportRate, null unless both sides exist
+    spreadPercent: number | null; // spread relative to the export rate
+}
+
+const toQuoted = (item: RateData | undefined): number | null =>
+    item ? Number((item.rate * getRateQuoteUnit(item)).toFixed(4)) : null;
+
+/**
+ * Measures the import/export gap the same way the anomaly report does: import minus export, relative to export.
+ */
+export const getSpread = (importRate: number | null, exportRate: number | null): Pick<SideBySideRate, 'spread' | 'spreadPercent'> => {
+    if (importRate === null || exportRate === null) return { spread: null, spreadPercent: null };
+    const spread = Number((importRate - exportRate).toFixed(4));
+    return { spread, spreadPercent: exportRate ? Number(((spread / exportRate) * 100).toFixed(4)) : null };
+};
+
+/**
+ * Joins a week's import and export rates by currency, keeping currencies that only appear on one side.
+ */
+export const buildSideBySideRates = (week: RateWeek): SideBySideRate[] => {
+    const exportsByCode = new Map(week.export.map((item) => [item.currencyCode, item]));
+    const importsByCode = new Map(week.import.map((item) => [item.currencyCode, item]));
+    const codes = Array.from(new Set([...importsByCode.keys(), ...exportsByCode.keys()])).sort();
+
+    return codes.map((code) => {
+        const importItem = importsByCode.get(code);
+        const exportItem = exportsByCode.get(code);
+        const item = (importItem ?? exportItem)!;
+        const importRate = toQuoted(importItem);
+        const exportRate = toQuoted(exportItem);
+
+        return {
+            currencyCode: code,
+            currencyName: item.currencyName,
+            countryCode: item.countryCode,
+            unit: getRateQuoteUnit(item),
+            importRate,
+            exportRate,
+            ...getSpread(importRate, exportRate)
+        };
+    });
+};
+
+/**
+ * One chart point per week (oldest first) with `import`, `export`, `spread` and `spreadPercent` for a currency.
+ * Keys are left out for weeks where a side is missing, so chart lines show gaps instead of zeros.
+ */
+export const buildSpreadHistory = (weeks: RateWeek[], currencyCode: string): ChartDataPoint[] =>
+    weeks
+        .map((week) => {
+            const importRate = toQuoted(week.import.find((item) => item.currencyCode === currencyCode));
+            const exportRate = toQuoted(week.export.find((item) => item.currencyCode === currencyCode));
+            const { spread, spreadPercent } = getSpread(importRate, exportRate);
+
+            const point: ChartDataPoint = { date: week.startDate };
+            if (importRate !== null) point.import = importRate;
+            if (exportRate !== null) point.export = exportRate;
+            if (spread !== null) point.spread = spread;
+            if (spreadPercent !== null) point.spreadPercent = spreadPercent;
+            return point;
+        })
+        .filter((point) => point.import !== undefined || point.export !== undefined)
+        .sort((a, b) => a.date.localeCompare(b.date));
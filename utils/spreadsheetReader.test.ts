@@ -0,0 +1,154 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import writeXlsxFile from 'write-excel-file/node';
+import { SpreadsheetReadError, parseCsv, readSpreadsheetFile, readXlsx } from './spreadsheetReader';
+
+const toArrayBuffer = (bytes: Uint8Array): ArrayBuffer => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+const fileOf = (name: string, content: string | Uint8Array) =>
+    new File([typeof content === 'string' ? new TextEncoder().encode(content) : toArrayBuffer(content)], name);
+
+/**
+ * A ZIP archive with stored (uncompressed) entries; the reader does not check CRCs, so they are left at zero.
+ */
+const storedZip = (files: Record<string, string>): ArrayBuffer => {
+    const encoder = new TextEncoder();
+    const local: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+    Object.entries(files).forEach(([name, content]) => {
+        const nameBytes = encoder.encode(name);
+        const data = encoder.encode(content);
+
+        const header = new DataView(new ArrayBuffer(30));
+        header.setUint32(0, 0x04034b50, true);
+        header.setUint32(18, data.length, true);
+        header.setUint32(22, data.length, true);
+        header.setUint16(26, nameBytes.length, true);
+        local.push(new Uint8Array(header.buffer), nameBytes, data);
+
+        const entry = new DataView(new ArrayBuffer(46));
+        entry.setUint32(0, 0x02014b50, true);
+        entry.setUint32(20, data.length, true);
+        entry.setUint32(24, data.length, true);
+        entry.setUint16(28, nameBytes.length, true);
+        entry.setUint32(42, offset, true);
+        central.push(new Uint8Array(entry.buffer), nameBytes);
+
+        offset += 30 + nameBytes.length + data.length;
+    });
+
+    const centralSize = central.reduce((total, part) => total + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, Object.keys(files).length, true);
+    end.setUint16(10, Object.keys(files).length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    const parts = [...local, ...central, new Uint8Array(end.buffer)];
+    const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let position = 0;
+    parts.forEach((part) => {
+        out.set(part, position);
+        position += part.length;
+    });
+    return out.buffer;
+};
+
+describe('parseCsv', () => {
+    it('honours quotes, escaped quotes and line breaks inside cells', () => {
+        expect(parseCsv('a,b\r\n"x, y","say ""hi""\nthere"\n')).toEqual([
+            ['a', 'b'],
+            ['x, y', 'say "hi"\nthere']
+        ]);
+    });
+
+    it('detects semicolon and tab delimiters from the first line', () => {
+        expect(parseCsv('date;amount\n2026-06-10;1,5')).toEqual([['date', 'amount'], ['2026-06-10', '1,5']]);
+        expect(parseCsv('date\tamount\n2026-06-10\t1,500')).toEqual([['date', 'amount'], ['2026-06-10', '1,500']]);
+    });
+});
+
+describe('readSpreadsheetFile', () => {
+    it('reads a UTF-8 CSV with a BOM, pads short rows and drops blank ones', async () => {
+        const sheet = await readSpreadsheetFile(fileOf('invoice.csv', '\uFEFFDate,Currency,Amount\n2026-06-10,USD,"1,200.50"\n,,\n2026-06-11,JPY\n'));
+        expect(sheet).toEqual({
+            fileName: 'invoice.csv',
+            header: ['Date', 'Currency', 'Amount'],
+            rows: [
+                ['2026-06-10', 'USD', '1,200.50'],
+                ['2026-06-11', 'JPY', '']
+            ],
+            decimalSeparator: '.'
+        });
+    });
+
+    it('falls back to EUC-KR and treats semicolon CSV as decimal-comma', async () => {
+        // "날짜;통화;금액\n2026-06-10;EUR;1.234,50\n" encoded as EUC-KR
+        const bytes = new Uint8Array([
+            0xb3, 0xaf, 0xc2, 0xa5, 0x3b, 0xc5, 0xeb, 0xc8, 0xad, 0x3b, 0xb1, 0xdd, 0xbe, 0xd7, 0x0a,
+            ...new TextEncoder().encode('2026-06-10;EUR;1.234,50\n')
+        ]);
+        const sheet = await readSpreadsheetFile(fileOf('invoice.csv', bytes));
+        expect(sheet.header).toEqual(['날짜', '통화', '금액']);
+        expect(sheet.rows).toEqual([['2026-06-10', 'EUR', '1.234,50']]);
+        expect(sheet.decimalSeparator).toBe(',');
+    });
+
+    it('reads a workbook written by write-excel-file', async () => {
+        const buffer = await writeXlsxFile([
+            [{ value: 'Invoice date' }, { value: 'Currency' }, { value: 'Amount' }, { value: '구분' }],
+            [{ value: new Date(Date.UTC(2026, 5, 10)), type: Date, format: 'yyyy-mm-dd' }, { value: 'USD' }, { value: 1200.5, type: Number }, { value: '수입' }],
+            [{ value: '2026-06-22' }, { value: 'JPY' }, { value: 150000, type: Number }, null]
+        ]).toBuffer();
+
+        const sheet = await readSpreadsheetFile(fileOf('invoice.xlsx', new Uint8Array(buffer)));
+        expect(sheet.header).toEqual(['Invoice date', 'Currency', 'Amount', '구분']);
+        // Date cells arrive as Excel serial days: 46183 is 2026-06-10
+        expect(sheet.rows).toEqual([
+            [46183, 'USD', 1200.5, '수입'],
+            ['2026-06-22', 'JPY', 150000, '']
+        ]);
+        expect(sheet.decimalSeparator).toBe('.');
+    });
+
+    it('reads sheets with hundreds of thousands of rows', async () => {
+        const csv = ['Date,Currency,Amount', ...Array.from({ length: 200_000 }, () => '2026-06-10,USD,1')].join('\n');
+        const sheet = await readSpreadsheetFile(fileOf('big.csv', csv));
+        expect(sheet.rows).toHaveLength(200_000);
+    });
+
+    it('rejects unsupported, empty and corrupt files', async () => {
+        await expect(readSpreadsheetFile(fileOf('invoice.pdf', 'x'))).rejects.toThrow('unsupported file type .pdf');
+        await expect(readSpreadsheetFile(fileOf('empty.csv', '\n\n'))).rejects.toThrow('the file is empty');
+        await expect(readSpreadsheetFile(fileOf('broken.xlsx', 'not a zip'))).rejects.toBeInstanceOf(SpreadsheetReadError);
+    });
+});
+
+describe('readXlsx', () => {
+    it('reads stored entries, prefixed elements, inline strings and sparse cells', async () => {
+        const buffer = storedZip({
+            'xl/workbook.xml':
+                '<x:workbook xmlns:x="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+                '<x:sheets><x:sheet name="Data" sheetId="1" r:id="rId7"/></x:sheets></x:workbook>',
+            'xl/_rels/workbook.xml.rels':
+                '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+                '<Relationship Id="rId7" Target="worksheets/data.xml"/></Relationships>',
+            'xl/worksheets/data.xml':
+                '<x:worksheet xmlns:x="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><x:sheetData>' +
+                '<x:row><x:c r="A1" t="inlineStr"><x:is><x:t>Date</x:t></x:is></x:c><x:c r="C1" t="str"><x:v>Amount</x:v></x:c></x:row>' +
+                '<x:row><x:c r="A2"><x:v>46183</x:v></x:c><x:c r="C2"><x:v>12.5</x:v></x:c></x:row>' +
+                '</x:sheetData></x:worksheet>'
+        });
+
+        expect(await readXlsx(buffer)).toEqual([
+            ['Date', '', 'Amount'],
+            [46183, '', 12.5]
+        ]);
+    });
+
+    it('reports a workbook without worksheets', async () => {
+        await expect(readXlsx(storedZip({ 'xl/workbook.xml': '<workbook/>' }))).rejects.toThrow('the workbook has no worksheets');
+    });
+});
@@ -0,0 +1,217 @@
+// Reads uploaded CSV and XLSX files entirely in the browser: no upload, no parsing library.
+
+export type SheetCell = string | number;
+
+export interface SheetTable {
+    fileName: string;
+    header: string[];
+    rows: SheetCell[][]; // Data rows below the header, blank rows dropped
+    decimalSeparator: '.' | ','; // ',' for semicolon-delimited CSV, as continental European Excel writes it
+}
+
+export class SpreadsheetReadError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SpreadsheetReadError';
+    }
+}
+
+/**
+ * Decodes CSV bytes as UTF-8 (BOM stripped), falling back to EUC-KR/CP949, which Korean Excel still writes.
+ */
+const decodeText = (bytes: Uint8Array): string => {
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch {
+        return new TextDecoder('euc-kr').decode(bytes);
+    }
+};
+
+// The delimiter that occurs most often in the first line outside quotes: comma, semicolon or tab.
+const detectDelimiter = (text: string): string => {
+    const counts: Record<string, number> = { ',': 0, ';': 0, '\t': 0 };
+    let quoted = false;
+    for (const char of text) {
+        if (char === '"') quoted = !quoted;
+        else if (!quoted && (char === '\n' || char === '\r')) break;
+        else if (!quoted && char in counts) counts[char]++;
+    }
+    return Object.keys(counts).reduce((best, char) => (counts[char] > counts[best] ? char : best), ',');
+};
+
+/**
+ * Splits CSV text into rows of cells, honouring quoted cells with embedded delimiters, quotes and line breaks.
+ */
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || row.length) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows;
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Reads the entries of a ZIP archive (an XLSX file is one) from its central directory.
+ * Only stored and deflated entries are supported, which is all spreadsheet applications write.
+ */
+const readZip = (buffer: ArrayBuffer): Map<string, () => Promise<Uint8Array>> => {
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    let end = -1;
+    for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 65557); offset--) {
+        if (view.getUint32(offset, true) === 0x06054b50) {
+            end = offset;
+            break;
+        }
+    }
+    if (end < 0) throw new SpreadsheetReadError('not a ZIP archive');
+
+    const entries = new Map<string, () => Promise<Uint8Array>>();
+    const names = new TextDecoder();
+    let offset = view.getUint32(end + 16, true);
+    for (let count = view.getUint16(end + 10, true); count > 0; count--) {
+        if (view.getUint32(offset, true) !== 0x02014b50) throw new SpreadsheetReadError('corrupt ZIP directory');
+        const method = view.getUint16(offset + 10, true);
+        const size = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        const name = names.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+        offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+
+        entries.set(name, async () => {
+            const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+            const data = bytes.subarray(start, start + size);
+            if (method === 0) return data;
+            if (method === 8) return inflateRaw(data);
+            throw new SpreadsheetReadError(`unsupported ZIP compression ${method} in ${name}`);
+        });
+    }
+    return entries;
+};
+
+const readXml = async (entries: Map<string, () => Promise<Uint8Array>>, name: string): Promise<Document | null> => {
+    const entry = entries.get(name);
+    if (!entry) return null;
+    return new DOMParser().parseFromString(new TextDecoder().decode(await entry()), 'application/xml');
+};
+
+// Namespace-agnostic, since some writers prefix the SpreadsheetML elements (e.g. <x:c>). Matched on localName
+// rather than with getElementsByTagNameNS('*', …), which not every DOM implementation supports.
+const elements = (parent: Document | Element, localName: string): Element[] =>
+    Array.from(parent.getElementsByTagName('*')).filter((element) => element.localName === localName);
+
+const textOf = (element: Element): string => elements(element, 't').map((t) => t.textContent ?? '').join('');
+
+// "BC12" -> 54 (zero-based column of the cell reference)
+const columnIndex = (reference: string): number => {
+    const letters = /^[A-Z]+/.exec(reference)?.[0] ?? '';
+    return Array.from(letters).reduce((total, letter) => total * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+/**
+ * Reads the first worksheet of an XLSX workbook. Numbers stay numbers (dates arrive as Excel serial days);
+ * shared, inline and formula strings become text.
+ */
+export const readXlsx = async (buffer: ArrayBuffer): Promise<SheetCell[][]> => {
+    const entries = readZip(buffer);
+    const workbook = await readXml(entries, 'xl/workbook.xml');
+    const firstSheet = workbook ? elements(workbook, 'sheet')[0] : undefined;
+    if (!firstSheet) throw new SpreadsheetReadError('the workbook has no worksheets');
+
+    const relationId = firstSheet.getAttribute('r:id') ?? firstSheet.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+    const relations = await readXml(entries, 'xl/_rels/workbook.xml.rels');
+    const target = relations ? elements(relations, 'Relationship').find((item) => item.getAttribute('Id') === relationId)?.getAttribute('Target') : null;
+    const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml';
+
+    const sheet = await readXml(entries, sheetPath);
+    if (!sheet) throw new SpreadsheetReadError(`missing worksheet ${sheetPath}`);
+    const sharedStringsDoc = await readXml(entries, 'xl/sharedStrings.xml');
+    const sharedStrings = sharedStringsDoc ? elements(sharedStringsDoc, 'si').map(textOf) : [];
+
+    return elements(sheet, 'row').map((row) => {
+        const cells: SheetCell[] = [];
+        elements(row, 'c').forEach((cell) => {
+            const reference = cell.getAttribute('r');
+            const index = reference ? columnIndex(reference) : cells.length;
+            const type = cell.getAttribute('t');
+            const value = elements(cell, 'v')[0]?.textContent ?? '';
+            let parsed: SheetCell;
+            if (type === 's') parsed = sharedStrings[Number(value)] ?? '';
+            else if (type === 'inlineStr') parsed = textOf(cell);
+            else if (type === 'str' || type === 'e' || type === 'b') parsed = value;
+            else parsed = value === '' ? '' : Number(value);
+            while (cells.length < index) cells.push('');
+            cells[index] = parsed;
+        });
+        return cells;
+    });
+};
+
+const isBlankRow = (row: SheetCell[]): boolean => row.every((cell) => String(cell).trim() === '');
+
+/**
+ * Reads an uploaded .csv or .xlsx file into a header row and data rows. Throws a SpreadsheetReadError for other
+ * formats and unreadable files.
+ */
+export const readSpreadsheetFile = async (file: File): Promise<SheetTable> => {
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    let rows: SheetCell[][];
+    let decimalSeparator: SheetTable['decimalSeparator'] = '.';
+    if (extension === 'xlsx') {
+        rows = await readXlsx(await file.arrayBuffer());
+    } else if (extension === 'csv' || extension === 'txt' || extension === 'tsv') {
+        const text = decodeText(new Uint8Array(await file.arrayBuffer()));
+        const delimiter = detectDelimiter(text);
+        if (delimiter === ';') decimalSeparator = ',';
+        rows = parseCsv(text, delimiter);
+    } else {
+        throw new SpreadsheetReadError(`unsupported file type .${extension ?? ''}`);
+    }
+
+    const [header, ...body] = rows.filter((row) => !isBlankRow(row));
+    if (!header) throw new SpreadsheetReadError('the file is empty');
+    // A reduce rather than Math.max(...spread), which overflows the stack on sheets with many rows.
+    const width = body.reduce((widest, row) => Math.max(widest, row.length), header.length);
+    return {
+        fileName: file.name,
+        header: Array.from({ length: width }, (_, index) => String(header[index] ?? '').trim()),
+        rows: body.map((row) => Array.from({ length: width }, (_, index) => row[index] ?? '')),
+        decimalSeparator
+    };
+};
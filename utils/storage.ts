@@ -0,0 +1,27 @@
+/**
+ * Reads a JSON value from localStorage, falling back when storage is unavailable or the value is malformed.
+ */
+export const readStorage = <T>(key: string, fallback: T, isValid: (value: unknown) => value is T): T => {
+    try {
+        const raw = window.localStorage.getItem(key);
+        if (raw === null) return fallback;
+        const parsed: unknown = JSON.parse(raw);
+        return isValid(parsed) ? parsed : fallback;
+    } catch {
+        return fallback;
+    }
+};
+
+/**
+ * Writes a JSON value to localStorage. Failures (private mode, quota) are ignored.
+ */
+export const writeStorage = (key: string, value: unknown): void => {
+    try {
+        window.localStorage.setItem(key, JSON.stringify(value));
+    } catch {
+        // Storage is a convenience; the dashboard works without it.
+    }
+};
+
+export const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every((item) => typeof item === 'string');
@@ -0,0 +1,25 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it } from 'vitest';
+import { RateType } from '../types';
+import { readUrlState } from './urlState';
+
+const visit = (query: string) => window.history.replaceState(null, '', `/${query}`);
+
+afterEach(() => visit(''));
+
+describe('readUrlState', () => {
+    it('moves a week date back to the Sunday that starts its week', () => {
+        visit('?week=2026-06-17&type=export');
+        expect(readUrlState()).toMatchObject({ week: '2026-06-14', type: RateType.EXPORT });
+
+        visit('?week=2026-06-14');
+        expect(readUrlState().week).toBe('2026-06-14');
+    });
+
+    it('drops week values that are not dates', () => {
+        visit('?week=2026-6-17');
+        expect(readUrlState().week).toBeNull();
+        visit('?week=latest');
+        expect(readUrlState().week).toBeNull();
+    });
+});
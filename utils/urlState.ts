@@ -0,0 +1,58 @@
+import { DashboardView, Language, RateType } from '../types';
+import { parseLanguage } from '../i18n';
+import { getWeekStartDate } from './dateUtils';
+
+export interface DashboardUrlState {
+    week: string | null; // YYYY-MM-DD startDate
+    type: RateType;
+    view: DashboardView;
+    language: Language | null; // null when the URL does not name one
+}
+
+/**
+ * Reads the shareable dashboard state from the query string,
+ * e.g. `?week=2026-06-21&type=import&lang=EN`; `view=compare` opens the import/export comparison
+ * `view=cross` the cross rates and `view=batch` the invoice batch conversion.
+ * Unknown values fall back to defaults; a week date other than a Sunday is moved back to its week's Sunday.
+ */
+export const readUrlState = (): DashboardUrlState => {
+    const params = new URLSearchParams(window.location.search);
+    const week = params.get('week');
+    const type = params.get('type');
+    const view = params.get('view');
+
+    return {
+        week: week ? getWeekStartDate(week) : null,
+        type: type === 'export' ? RateType.EXPORT : RateType.IMPORT,
+        view: view === 'compare' || view === 'cross' || view === 'batch' ? view : 'rates',
+        language: parseLanguage(params.get('lang'))
+    };
+};
+
+/**
+ * Mirrors the dashboard state into the query string without adding history entries.
+ */
+export const writeUrlState = (state: DashboardUrlState): void => {
+    const params = new URLSearchParams(window.location.search);
+
+    if (state.week) {
+        params.set('week', state.week);
+    } else {
+        params.delete('week');
+    }
+    params.set('type', state.type === RateType.EXPORT ? 'export' : 'import');
+    if (state.view !== 'rates') {
+        params.set('view', state.view);
+    } else {
+        params.delete('view');
+    }
+    if (state.language) {
+        params.set('lang', state.language);
+    } else {
+        params.delete('lang');
+    }
+
+    const query = params.toString();
+    const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+    window.history.replaceState(null, '', url);
+};
@@ -1,9 +1,32 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
 
+// Mirrors the /api/rate?date= rewrite in vercel.json so the static API behaves the same locally.
+const rateLookupRewrite = (): Plugin => {
+  const rewrite = (req: { url?: string }) => {
+    const match = req.url?.match(/^\/api\/rate\?(?:.*&)?date=(\d{4}-\d{2}-\d{2})(?:&|$)/);
+    if (match) req.url = `/api/dates/${match[1]}.json`;
+  };
+  return {
+    name: 'rate-lookup-rewrite',
+    configureServer: (server) => {
+      server.middlewares.use((req, _res, next) => {
+        rewrite(req);
+        next();
+      });
+    },
+    configurePreviewServer: (server) => {
+      server.middlewares.use((req, _res, next) => {
+        rewrite(req);
+        next();
+      });
+    },
+  };
+};
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), rateLookupRewrite()],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './'),
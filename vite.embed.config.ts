@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite';
+import path from 'path';
+
+// Builds the framework-free <customs-rate> widget as a single script partners can include.
+// Runs after the app build and writes next to it, so it must not empty dist/.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    outDir: 'dist/embed',
+    emptyOutDir: false,
+    lib: {
+      entry: path.resolve(__dirname, 'embed/index.ts'),
+      name: 'CustomsRate',
+      formats: ['iife'],
+      fileName: () => 'customs-rate.js',
+    },
+  },
+});
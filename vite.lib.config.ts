@@ -0,0 +1,19 @@
+import { defineConfig } from 'vite';
+import path from 'path';
+
+// Builds the framework-free customs-rate library (packages/customs-rate) as ES and CommonJS modules.
+// Typings come from `tsc -p packages/customs-rate`; see the build:lib script.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    outDir: 'packages/customs-rate/dist',
+    emptyOutDir: true,
+    minify: false,
+    sourcemap: true,
+    lib: {
+      entry: path.resolve(__dirname, 'packages/customs-rate/src/index.ts'),
+      formats: ['es', 'cjs'],
+      fileName: (format) => (format === 'es' ? 'index.js' : 'index.cjs'),
+    },
+  },
+});